@@ -0,0 +1,12 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSessionStore } from '../../dist/mcp/state/FormationSessionStore';
+import { handleLifecycleCron } from '../../dist/mcp/lifecycle/index';
+
+// Initialize session store
+const store = getSessionStore();
+
+// Functions do not run between requests, so Vercel Cron triggers the lifecycle sweep
+// (expiry, abandonment and reminders) that the long-running servers run on a timer
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  return handleLifecycleCron(req, res, store);
+}
@@ -1,9 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { SUPPORTED_PROTOCOL_VERSIONS, getServerCapabilities, setCorsHeaders } from '../dist/mcp/protocol/index';
 
 export default function handler(_req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(res);
 
   if (_req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -14,6 +13,7 @@ export default function handler(_req: VercelRequest, res: VercelResponse) {
     version: '1.0.0',
     description: 'MCP server for company formation - Form your US company via Claude',
     endpoints: {
+      mcp: '/api/mcp',
       sse: '/api/sse',
       messages: '/api/messages',
       health: '/api/health',
@@ -21,8 +21,9 @@ export default function handler(_req: VercelRequest, res: VercelResponse) {
       resources: '/api/resources',
     },
     mcp: {
-      version: '2024-11-05',
-      capabilities: ['tools', 'resources'],
+      version: SUPPORTED_PROTOCOL_VERSIONS[0],
+      supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      capabilities: Object.keys(getServerCapabilities()),
     },
   });
 }
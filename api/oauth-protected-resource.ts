@@ -0,0 +1,7 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleProtectedResourceMetadata } from '../dist/mcp/protocol/index';
+
+// OAuth protected resource metadata - /.well-known/oauth-protected-resource is rewritten here
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  return handleProtectedResourceMetadata(req, res);
+}
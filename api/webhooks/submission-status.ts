@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { sendBodyTooLarge } from '../../dist/mcp/protocol/index';
+import { getRateLimitConfig } from '../../dist/mcp/ratelimit/index';
+import { getSessionStore } from '../../dist/mcp/state/FormationSessionStore';
+import { handleSubmissionStatusWebhook, readRawBody } from '../../dist/mcp/webhooks/index';
+
+// Initialize session store
+const store = getSessionStore();
+
+// Signed submission status callbacks from the Lovie backend. The signature covers the raw
+// body, so it is read from the request stream - req.body must not be touched first.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { maxBodyBytes } = getRateLimitConfig();
+  let rawBody: string;
+  try {
+    rawBody = await readRawBody(req, maxBodyBytes);
+  } catch {
+    return sendBodyTooLarge(res, maxBodyBytes);
+  }
+  return handleSubmissionStatusWebhook(req, rawBody, res, store);
+}
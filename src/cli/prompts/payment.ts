@@ -6,6 +6,7 @@
 
 import inquirer from 'inquirer';
 import { formatSubheader, formatProgress, formatCurrency, formatSummary, print } from '../utils/formatter';
+import { PricedEntityType, estimateQuote, getItemTotal, toDollars } from '../../services/pricing';
 
 export interface PaymentInfo {
   confirmed: boolean;
@@ -18,27 +19,15 @@ interface PricingBreakdown {
 }
 
 /**
- * Get pricing based on state and company type
+ * Get pricing based on state and company type, from the shared fee schedule
  */
 function getPricing(state: string, companyType: string): PricingBreakdown {
-  // Simplified pricing - in production, this would come from a database
-  const stateFilingFees: Record<string, number> = {
-    'Delaware': 90,
-    'California': 70,
-    'Texas': 300,
-    'Florida': 125,
-    'New York': 200,
-    // Default for other states
-    'default': 100
-  };
-
-  const stateFilingFee = stateFilingFees[state] || stateFilingFees['default'];
-  const serviceFee = 99; // Lovie service fee
+  const quote = estimateQuote({ state, entityType: companyType as PricedEntityType });
 
   return {
-    stateFilingFee,
-    serviceFee,
-    total: stateFilingFee + serviceFee
+    stateFilingFee: toDollars(getItemTotal(quote, 'state_filing_fee')),
+    serviceFee: toDollars(getItemTotal(quote, 'service_fee')),
+    total: toDollars(quote.total)
   };
 }
 
@@ -22,6 +22,16 @@ import { FormationStateMachine } from './StateMachine';
 import { NameCheckAgent } from './agents/NameCheckAgent';
 import { DocumentFillerAgent } from './agents/DocumentFillerAgent';
 import { FilingAgent, FilingStatusUpdate } from './agents/FilingAgent';
+import { PricedEntityType, estimateQuote, getItemTotal, toDollars } from '../services/pricing';
+
+/**
+ * Pricing engine names of the company types
+ */
+const PRICED_ENTITY_TYPES: Record<CompanyType, PricedEntityType> = {
+  [CompanyType.LLC]: 'LLC',
+  [CompanyType.C_CORP]: 'C-Corp',
+  [CompanyType.S_CORP]: 'S-Corp'
+};
 
 /**
  * Events emitted by the orchestrator
@@ -268,23 +278,15 @@ export class FormationOrchestrator extends EventEmitter {
   } {
     const state = this.formationData.companyDetails?.state;
     const type = this.formationData.companyDetails?.type;
+    if (!state || !type) {
+      return { stateFilingFee: 0, serviceFee: 0, total: 0 };
+    }
 
-    // State filing fees (2024 rates)
-    const stateFilingFees: Record<State, number> = {
-      [State.DE]: 90,
-      [State.CA]: 70,
-      [State.TX]: 300,
-      [State.NY]: 200,
-      [State.FL]: 125
-    };
-
-    const stateFilingFee = state ? stateFilingFees[state] : 0;
-    const serviceFee = 99; // Lovie service fee
-
+    const quote = estimateQuote({ state, entityType: PRICED_ENTITY_TYPES[type] });
     return {
-      stateFilingFee,
-      serviceFee,
-      total: stateFilingFee + serviceFee
+      stateFilingFee: toDollars(getItemTotal(quote, 'state_filing_fee')),
+      serviceFee: toDollars(getItemTotal(quote, 'service_fee')),
+      total: toDollars(quote.total)
     };
   }
 
@@ -0,0 +1,54 @@
+import { DashboardTokenConfig, getDashboardTokenConfig, verifyDashboardToken } from './dashboard';
+import { TokenVerificationError } from './jwt';
+
+// Authentication state of one MCP connection. Each stdio or SSE connection and each
+// Streamable HTTP request gets its own, so one user's login never applies to another.
+export interface AuthContext {
+  token: string | null;
+  userId: string | null;
+  // When the token was stored - starts the 7-day persistence window
+  storedAt: number | null;
+  // How the connection authenticated: a dashboard token or OAuth access token in the
+  // Authorization header, or formation_set_token
+  source: 'bearer' | 'oauth' | 'tool' | null;
+  // When an OAuth access token expires - other tokens use the 7-day window
+  expiresAt?: number;
+}
+
+export function createAuthContext(): AuthContext {
+  return { token: null, userId: null, storedAt: null, source: null };
+}
+
+// Token from an `Authorization: Bearer <token>` header, or null for other schemes
+export function parseBearerToken(authorization: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || '');
+  return match ? match[1] : null;
+}
+
+// Auth context for a connection opened with an Authorization header.
+// Returns an unauthenticated context without a header, or when dashboard tokens cannot be
+// verified on this server, and null for a token whose signature does not check out.
+export async function createAuthContextFromHeader(
+  authorization: string | undefined,
+  config: DashboardTokenConfig | null = getDashboardTokenConfig()
+): Promise<AuthContext | null> {
+  const auth = createAuthContext();
+  if (!authorization || !config) return auth;
+
+  const token = parseBearerToken(authorization);
+  if (!token) return null;
+
+  let userId: string;
+  try {
+    userId = await verifyDashboardToken(token, config);
+  } catch (error) {
+    if (error instanceof TokenVerificationError) return null;
+    throw error;
+  }
+
+  auth.token = token;
+  auth.userId = userId;
+  auth.storedAt = Date.now();
+  auth.source = 'bearer';
+  return auth;
+}
@@ -0,0 +1,66 @@
+import { JwkResolver, TokenVerificationError, createRemoteJwks, verifyJwt } from './jwt';
+
+// Dashboard session tokens expire within a minute, but identify the user for our 7-day login
+const DASHBOARD_TOKEN_MAX_AGE_SEC = 7 * 24 * 60 * 60;
+
+// Signing keys of the Lovie dashboard, used to check session tokens pasted into
+// formation_set_token or sent in an Authorization header
+export interface DashboardTokenConfig {
+  // Issuer (`iss` claim) of dashboard session tokens
+  issuer: string;
+  keys: JwkResolver;
+  // Accepted audiences - tokens without an audience are accepted when empty
+  audience: string[];
+}
+
+function readList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Dashboard token settings from environment variables, or null when tokens cannot be verified
+function readDashboardTokenConfig(): DashboardTokenConfig | null {
+  const issuer = process.env.MCP_DASHBOARD_ISSUER?.replace(/\/+$/, '');
+  if (!issuer) return null;
+
+  return {
+    issuer,
+    keys: createRemoteJwks(process.env.MCP_DASHBOARD_JWKS_URL || `${issuer}/.well-known/jwks.json`),
+    audience: readList(process.env.MCP_DASHBOARD_AUDIENCE),
+  };
+}
+
+let dashboardTokenConfig: DashboardTokenConfig | null | undefined;
+
+export function getDashboardTokenConfig(): DashboardTokenConfig | null {
+  if (dashboardTokenConfig === undefined) {
+    dashboardTokenConfig = readDashboardTokenConfig();
+  }
+  return dashboardTokenConfig;
+}
+
+// Replace the dashboard token settings. Pass null to stop accepting dashboard tokens.
+export function setDashboardTokenConfig(next: DashboardTokenConfig | null): void {
+  dashboardTokenConfig = next;
+}
+
+// Lovie user ID (the `sub` claim) of a dashboard session token whose signature checks out.
+// Throws TokenVerificationError for any other token, and when no keys are configured.
+export async function verifyDashboardToken(
+  token: string,
+  config: DashboardTokenConfig | null = getDashboardTokenConfig()
+): Promise<string> {
+  if (!config) {
+    throw new TokenVerificationError('Dashboard tokens cannot be verified on this server');
+  }
+
+  const payload = await verifyJwt(token, {
+    keys: config.keys,
+    issuer: config.issuer,
+    audience: config.audience.length > 0 ? config.audience : undefined,
+    maxAgeSec: DASHBOARD_TOKEN_MAX_AGE_SEC,
+  });
+  if (typeof payload.sub !== 'string' || !payload.sub.startsWith('user_')) {
+    throw new TokenVerificationError('Token does not name a Lovie user');
+  }
+  return payload.sub;
+}
@@ -0,0 +1,5 @@
+export * from './context';
+export * from './oauth';
+export * from './dashboard';
+export { verifyJwt, signJwt, createRemoteJwks, createLocalJwks, TokenVerificationError } from './jwt';
+export type { Jwk, JwkResolver, JwtPayload, VerifyOptions } from './jwt';
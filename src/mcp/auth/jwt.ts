@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+// Signature algorithms accepted for access tokens
+const ALGORITHMS: Record<string, { kty: string; hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { kty: 'RSA', hash: 'sha256' },
+  ES256: { kty: 'EC', hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+};
+
+// How long fetched signing keys are reused before the JWKS is fetched again
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+// Minimum time between fetches triggered by unknown key IDs
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+
+export interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+// Looks up the public key a token was signed with
+export type JwkResolver = (kid: string | undefined) => Promise<Jwk | undefined>;
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  scope?: string;
+  [claim: string]: unknown;
+}
+
+export interface VerifyOptions {
+  keys: JwkResolver;
+  issuer: string;
+  // Accepted audiences - the token must name at least one. Not checked when omitted.
+  audience?: string[];
+  // Accept tokens issued (`iat`) within this many seconds instead of checking `exp`
+  maxAgeSec?: number;
+  // Allowed clock skew in seconds
+  clockToleranceSec?: number;
+}
+
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  } catch {
+    // Reported below
+  }
+  throw new TokenVerificationError('Malformed token');
+}
+
+// Verify a signed JWT and its registered claims, returning the payload
+export async function verifyJwt(token: string, options: VerifyOptions): Promise<JwtPayload> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenVerificationError('Malformed token');
+  }
+
+  const header = decodeSegment(parts[0]);
+  const payload = decodeSegment(parts[1]) as JwtPayload;
+  const algorithm = typeof header.alg === 'string' ? ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new TokenVerificationError(`Unsupported signing algorithm: ${String(header.alg)}`);
+  }
+
+  const jwk = await options.keys(typeof header.kid === 'string' ? header.kid : undefined);
+  if (!jwk || jwk.kty !== algorithm.kty || (jwk.alg && jwk.alg !== header.alg)) {
+    throw new TokenVerificationError('Unknown signing key');
+  }
+
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!valid) {
+    throw new TokenVerificationError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 30;
+  if (payload.iss !== options.issuer) {
+    throw new TokenVerificationError('Token was issued by another authorization server');
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+  const accepted = options.audience;
+  if (accepted && !audiences.some(audience => accepted.includes(audience))) {
+    throw new TokenVerificationError('Token was not issued for this server');
+  }
+  if (options.maxAgeSec !== undefined) {
+    if (typeof payload.iat !== 'number' || payload.iat + options.maxAgeSec + tolerance < now) {
+      throw new TokenVerificationError('Token has expired');
+    }
+  } else if (typeof payload.exp !== 'number' || payload.exp + tolerance < now) {
+    throw new TokenVerificationError('Token has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+    throw new TokenVerificationError('Token is not valid yet');
+  }
+
+  return payload;
+}
+
+// Sign a JWT with an RSA private key (RS256)
+export function signJwt(payload: JwtPayload, privateKey: crypto.KeyObject, kid: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+// Key resolver for a remote JWKS document. Keys are cached, and refetched when
+// a token names a key that is not in the cache (key rotation).
+export function createRemoteJwks(url: string): JwkResolver {
+  let keys: Jwk[] = [];
+  let fetchedAt = 0;
+
+  const refresh = async () => {
+    const response = await axios.get<{ keys?: Jwk[] }>(url, { timeout: 10000 });
+    keys = Array.isArray(response.data.keys) ? response.data.keys : [];
+    fetchedAt = Date.now();
+  };
+  const find = (kid: string | undefined) => keys.find(key => (key.use ?? 'sig') === 'sig' && (!kid || key.kid === kid));
+
+  return async (kid) => {
+    const age = Date.now() - fetchedAt;
+    if (age > JWKS_CACHE_MS || (!find(kid) && age > JWKS_MIN_REFRESH_MS)) {
+      try {
+        await refresh();
+      } catch (error) {
+        throw new TokenVerificationError(`Could not fetch signing keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return find(kid);
+  };
+}
+
+// Key resolver for a fixed set of keys
+export function createLocalJwks(keys: Jwk[]): JwkResolver {
+  return async (kid) => keys.find(key => !kid || key.kid === kid);
+}
@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import express, { Router, Request, Response } from 'express';
+import { Jwk, JwkResolver, createLocalJwks, signJwt } from './jwt';
+
+// Stand-in OAuth 2.1 authorization server for local development and tests.
+// It signs every user in as one configured user without asking - never run it in production.
+
+// Lifetime of authorization codes
+const CODE_TTL_MS = 60 * 1000;
+// PKCE code verifiers are 43-128 unreserved characters (RFC 7636 section 4.1)
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+
+export interface LocalIdentityProviderOptions {
+  // Issuer URL, e.g. http://localhost:3001/oauth - endpoints are served below it
+  issuer: string;
+  // User every sign-in resolves to
+  userId?: string;
+  // Audience for tokens requested without a resource parameter
+  defaultAudience?: string;
+  accessTokenTtlSec?: number;
+  scopes?: string[];
+}
+
+// Authorization server metadata (RFC 8414)
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint: string;
+  jwks_uri: string;
+  response_types_supported: string[];
+  grant_types_supported: string[];
+  code_challenge_methods_supported: string[];
+  token_endpoint_auth_methods_supported: string[];
+  scopes_supported: string[];
+}
+
+export interface RegisteredClient {
+  client_id: string;
+  client_id_issued_at: number;
+  redirect_uris: string[];
+  client_name?: string;
+  token_endpoint_auth_method: 'none';
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope?: string;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  audience: string;
+  scope?: string;
+  expiresAt: number;
+}
+
+// OAuth error response (RFC 6749 section 5.2)
+export class OAuthProviderError extends Error {
+  constructor(public readonly error: string, message: string) {
+    super(message);
+    this.name = 'OAuthProviderError';
+  }
+
+  toJSON() {
+    return { error: this.error, error_description: this.message };
+  }
+}
+
+type Params = Record<string, unknown>;
+
+function param(params: Params, name: string): string | undefined {
+  const value = params[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+// S256 code challenge for a code verifier
+export function createCodeChallenge(verifier: string): string {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
+
+export class LocalIdentityProvider {
+  readonly issuer: string;
+  private readonly userId: string;
+  private readonly defaultAudience?: string;
+  private readonly accessTokenTtlSec: number;
+  private readonly scopes: string[];
+  private readonly keyId = crypto.randomUUID();
+  private readonly privateKey: crypto.KeyObject;
+  private readonly publicJwk: Jwk;
+  private readonly clients = new Map<string, RegisteredClient>();
+  private readonly codes = new Map<string, AuthorizationCode>();
+
+  constructor(options: LocalIdentityProviderOptions) {
+    this.issuer = options.issuer.replace(/\/+$/, '');
+    this.userId = options.userId || 'user_local';
+    this.defaultAudience = options.defaultAudience;
+    this.accessTokenTtlSec = options.accessTokenTtlSec ?? 3600;
+    this.scopes = options.scopes || ['formation'];
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: this.keyId, alg: 'RS256', use: 'sig' };
+  }
+
+  getMetadata(): AuthorizationServerMetadata {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      registration_endpoint: `${this.issuer}/register`,
+      jwks_uri: `${this.issuer}/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none'],
+      scopes_supported: this.scopes,
+    };
+  }
+
+  getJwks(): { keys: Jwk[] } {
+    return { keys: [this.publicJwk] };
+  }
+
+  // Resolver for the provider's signing keys, for OAuthConfig.keys
+  get keys(): JwkResolver {
+    return createLocalJwks([this.publicJwk]);
+  }
+
+  // Dynamic client registration (RFC 7591) for public clients
+  registerClient(metadata: Params): RegisteredClient {
+    const redirectUris = metadata.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0 || !redirectUris.every(uri => typeof uri === 'string')) {
+      throw new OAuthProviderError('invalid_redirect_uri', 'redirect_uris must be a non-empty list of URLs');
+    }
+
+    const client: RegisteredClient = {
+      client_id: crypto.randomUUID(),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      redirect_uris: redirectUris,
+      client_name: param(metadata, 'client_name'),
+      token_endpoint_auth_method: 'none',
+    };
+    this.clients.set(client.client_id, client);
+    return client;
+  }
+
+  // Handle an authorization request and return the URL to redirect the browser to.
+  // Errors about the client or redirect URI are thrown, since they must not be redirected.
+  authorize(params: Params): string {
+    const clientId = param(params, 'client_id');
+    const redirectUri = param(params, 'redirect_uri');
+    const client = clientId ? this.clients.get(clientId) : undefined;
+    if (!client) {
+      throw new OAuthProviderError('invalid_client', 'Unknown client_id');
+    }
+    if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+      throw new OAuthProviderError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    const redirect = new URL(redirectUri);
+    const state = param(params, 'state');
+    if (state) redirect.searchParams.set('state', state);
+
+    const fail = (error: string, description: string) => {
+      redirect.searchParams.set('error', error);
+      redirect.searchParams.set('error_description', description);
+      return redirect.toString();
+    };
+
+    if (param(params, 'response_type') !== 'code') {
+      return fail('unsupported_response_type', 'Only the authorization code flow is supported');
+    }
+    const codeChallenge = param(params, 'code_challenge');
+    if (!codeChallenge || param(params, 'code_challenge_method') !== 'S256') {
+      return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    }
+    const audience = param(params, 'resource') || this.defaultAudience;
+    if (!audience) {
+      return fail('invalid_target', 'The resource parameter is required');
+    }
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    this.codes.set(code, {
+      clientId: client.client_id,
+      redirectUri,
+      codeChallenge,
+      audience,
+      scope: param(params, 'scope'),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
+  // Exchange an authorization code for an access token
+  exchangeCode(params: Params): TokenResponse {
+    if (param(params, 'grant_type') !== 'authorization_code') {
+      throw new OAuthProviderError('unsupported_grant_type', 'Only authorization_code is supported');
+    }
+
+    const code = param(params, 'code');
+    const grant = code ? this.codes.get(code) : undefined;
+    // Codes are single use, even when the exchange fails
+    if (code) this.codes.delete(code);
+
+    if (!grant || grant.expiresAt < Date.now()) {
+      throw new OAuthProviderError('invalid_grant', 'Authorization code is invalid or expired');
+    }
+    if (param(params, 'client_id') !== grant.clientId || param(params, 'redirect_uri') !== grant.redirectUri) {
+      throw new OAuthProviderError('invalid_grant', 'Authorization code was issued to another client or redirect_uri');
+    }
+    const verifier = param(params, 'code_verifier');
+    if (!verifier || !CODE_VERIFIER_PATTERN.test(verifier) || createCodeChallenge(verifier) !== grant.codeChallenge) {
+      throw new OAuthProviderError('invalid_grant', 'PKCE code_verifier does not match the code_challenge');
+    }
+    const resource = param(params, 'resource');
+    if (resource && resource !== grant.audience) {
+      throw new OAuthProviderError('invalid_target', 'resource does not match the authorization request');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = signJwt({
+      iss: this.issuer,
+      sub: this.userId,
+      aud: grant.audience,
+      iat: now,
+      exp: now + this.accessTokenTtlSec,
+      client_id: grant.clientId,
+      ...(grant.scope && { scope: grant.scope }),
+    }, this.privateKey, this.keyId);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenTtlSec,
+      ...(grant.scope && { scope: grant.scope }),
+    };
+  }
+}
+
+// Express routes for a local identity provider. Mount at the server root: metadata is served
+// at /.well-known/oauth-authorization-server/<issuer path> and endpoints below the issuer path.
+export function createLocalProviderRouter(provider: LocalIdentityProvider): Router {
+  const router = Router();
+  const issuerPath = new URL(provider.issuer).pathname.replace(/\/+$/, '');
+
+  const sendError = (res: Response, error: unknown) => {
+    if (error instanceof OAuthProviderError) {
+      res.status(error.error === 'invalid_client' ? 401 : 400).json(error.toJSON());
+      return;
+    }
+    res.status(500).json({ error: 'server_error', error_description: 'Unexpected error' });
+  };
+
+  router.get(`/.well-known/oauth-authorization-server${issuerPath}`, (_req: Request, res: Response) => {
+    res.json(provider.getMetadata());
+  });
+
+  router.get(`${issuerPath}/jwks`, (_req: Request, res: Response) => {
+    res.json(provider.getJwks());
+  });
+
+  router.post(`${issuerPath}/register`, (req: Request, res: Response) => {
+    try {
+      res.status(201).json(provider.registerClient(req.body || {}));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get(`${issuerPath}/authorize`, (req: Request, res: Response) => {
+    try {
+      res.redirect(302, provider.authorize(req.query));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Token requests are form-encoded (RFC 6749 section 4.1.3)
+  router.post(`${issuerPath}/token`, express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    try {
+      res.json(provider.exchangeCode(req.body || {}));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,173 @@
+import { AuthContext, createAuthContext, createAuthContextFromHeader, parseBearerToken } from './context';
+import { JwkResolver, TokenVerificationError, createRemoteJwks, verifyJwt } from './jwt';
+
+// OAuth 2.1 resource server settings for the hosted MCP endpoint (MCP authorization spec)
+export interface OAuthConfig {
+  // Authorization server that issues access tokens for this server
+  issuer: string;
+  // Signing keys of the authorization server
+  keys: JwkResolver;
+  // Canonical URL of the MCP endpoint. Tokens must be issued for it, and it is never taken
+  // from request headers, which the client controls.
+  resource: string;
+  // Audiences accepted besides the resource URL
+  audience: string[];
+  // Scopes advertised in the protected resource metadata
+  scopes: string[];
+  // Reject requests without a token. When false, anonymous requests are allowed
+  // and clients can still sign in.
+  required: boolean;
+  // Access token claim holding the Lovie user ID
+  userClaim: string;
+}
+
+// Metadata served at /.well-known/oauth-protected-resource (RFC 9728)
+export interface ProtectedResourceMetadata {
+  resource: string;
+  authorization_servers: string[];
+  bearer_methods_supported: string[];
+  scopes_supported: string[];
+  resource_name: string;
+}
+
+// A request that must be answered with 401 and a WWW-Authenticate challenge
+export class OAuthError extends Error {
+  constructor(
+    // OAuth error code - omitted when no credentials were sent (RFC 6750 section 3.1)
+    public readonly error: 'invalid_request' | 'invalid_token' | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+const METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+function readList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// OAuth settings from environment variables, or null when OAuth is not configured
+export function createOAuthConfig(): OAuthConfig | null {
+  const issuer = process.env.MCP_OAUTH_ISSUER?.replace(/\/+$/, '');
+  if (!issuer) return null;
+
+  const resource = process.env.MCP_OAUTH_RESOURCE;
+  if (!resource || !isUrl(resource)) {
+    throw new Error('Invalid MCP_OAUTH_RESOURCE: set it to the canonical MCP endpoint URL when MCP_OAUTH_ISSUER is set');
+  }
+
+  return {
+    issuer,
+    keys: createRemoteJwks(process.env.MCP_OAUTH_JWKS_URL || `${issuer}/.well-known/jwks.json`),
+    resource,
+    audience: readList(process.env.MCP_OAUTH_AUDIENCE),
+    scopes: readList(process.env.MCP_OAUTH_SCOPES || 'formation'),
+    required: process.env.MCP_OAUTH_REQUIRED !== 'false',
+    userClaim: process.env.MCP_OAUTH_USER_CLAIM || 'sub',
+  };
+}
+
+let oauthConfig: OAuthConfig | null | undefined;
+
+export function getOAuthConfig(): OAuthConfig | null {
+  if (oauthConfig === undefined) {
+    oauthConfig = createOAuthConfig();
+  }
+  return oauthConfig;
+}
+
+// Replace the OAuth settings, e.g. with a local identity provider. Pass null to turn OAuth off.
+export function setOAuthConfig(next: OAuthConfig | null): void {
+  oauthConfig = next;
+}
+
+// URL of the protected resource metadata for a resource, with the resource path
+// inserted after the well-known prefix (RFC 9728 section 3.1)
+export function getResourceMetadataUrl(resource: string): string {
+  const url = new URL(resource);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/+$/, '');
+  return `${url.origin}${METADATA_PATH}${path}`;
+}
+
+export function getProtectedResourceMetadata(config: OAuthConfig): ProtectedResourceMetadata {
+  return {
+    resource: config.resource,
+    authorization_servers: [config.issuer],
+    bearer_methods_supported: ['header'],
+    scopes_supported: config.scopes,
+    resource_name: 'Lovie Formation MCP Server',
+  };
+}
+
+// WWW-Authenticate challenge pointing clients at the protected resource metadata
+export function getAuthenticateHeader(config: OAuthConfig | null, error?: OAuthError): string {
+  const params: string[] = [];
+  if (config) {
+    params.push(`resource_metadata="${getResourceMetadataUrl(config.resource)}"`);
+    if (config.scopes.length > 0) params.push(`scope="${config.scopes.join(' ')}"`);
+  }
+  if (error?.error) {
+    params.push(`error="${error.error}"`, `error_description="${error.message.replace(/"/g, "'")}"`);
+  }
+  return params.length > 0 ? `Bearer ${params.join(', ')}` : 'Bearer';
+}
+
+// Auth context for a request from its Authorization header.
+// Without OAuth, dashboard session tokens signed by the dashboard's keys are accepted. With OAuth, only access
+// tokens issued by the configured authorization server for this resource are accepted.
+export async function authenticateRequest(
+  authorization: string | undefined,
+  config: OAuthConfig | null = getOAuthConfig()
+): Promise<AuthContext> {
+  if (!config) {
+    const auth = await createAuthContextFromHeader(authorization);
+    if (!auth) throw new OAuthError('invalid_token', 'Invalid bearer token');
+    return auth;
+  }
+
+  if (!authorization) {
+    if (config.required) throw new OAuthError(undefined, 'Authorization required');
+    return createAuthContext();
+  }
+
+  const token = parseBearerToken(authorization);
+  if (!token) {
+    throw new OAuthError('invalid_request', 'Expected a bearer token');
+  }
+
+  let payload;
+  try {
+    payload = await verifyJwt(token, {
+      keys: config.keys,
+      issuer: config.issuer,
+      audience: [config.resource, ...config.audience],
+    });
+  } catch (error) {
+    if (error instanceof TokenVerificationError) throw new OAuthError('invalid_token', error.message);
+    throw error;
+  }
+
+  const userId = payload[config.userClaim];
+  if (typeof userId !== 'string' || !userId) {
+    throw new OAuthError('invalid_token', `Token has no ${config.userClaim} claim`);
+  }
+
+  const auth = createAuthContext();
+  auth.token = token;
+  auth.userId = userId;
+  auth.storedAt = Date.now();
+  auth.source = 'oauth';
+  auth.expiresAt = (payload.exp as number) * 1000;
+  return auth;
+}
@@ -1,3 +1,5 @@
+import { ZodError, ZodIssue } from 'zod';
+
 // Error codes for MCP tools
 export enum ErrorCode {
   // Validation errors
@@ -11,6 +13,10 @@ export enum ErrorCode {
   SESSION_EXPIRED = 'SESSION_EXPIRED',
   SESSION_INVALID_STATE = 'SESSION_INVALID_STATE',
   SESSION_ALREADY_COMPLETED = 'SESSION_ALREADY_COMPLETED',
+  SESSION_CONFLICT = 'SESSION_CONFLICT',
+
+  // Auth errors
+  AUTH_REQUIRED = 'AUTH_REQUIRED',
 
   // API errors
   API_TIMEOUT = 'API_TIMEOUT',
@@ -26,13 +32,192 @@ export enum ErrorCode {
   CERTIFICATE_NOT_GENERATED = 'CERTIFICATE_NOT_GENERATED',
   CERTIFICATE_URL_EXPIRED = 'CERTIFICATE_URL_EXPIRED',
 
+  // Payment errors
+  PAYMENT_VERIFICATION_FAILED = 'PAYMENT_VERIFICATION_FAILED',
+  PROMO_CODE_INVALID = 'PROMO_CODE_INVALID',
+
+  // Submission errors
+  SUBMISSION_IN_PROGRESS = 'SUBMISSION_IN_PROGRESS',
+
   // Sync errors
   SYNC_FAILED = 'SYNC_FAILED',
 
+  // Export/import errors
+  BUNDLE_INVALID = 'BUNDLE_INVALID',
+  BUNDLE_CHECKSUM_MISMATCH = 'BUNDLE_CHECKSUM_MISMATCH',
+  BUNDLE_DECRYPTION_FAILED = 'BUNDLE_DECRYPTION_FAILED',
+  BUNDLE_UNSUPPORTED_VERSION = 'BUNDLE_UNSUPPORTED_VERSION',
+
+  // Tool errors
+  TOOL_NOT_FOUND = 'TOOL_NOT_FOUND',
+  REQUEST_CANCELLED = 'REQUEST_CANCELLED',
+  RATE_LIMITED = 'RATE_LIMITED',
+
   // Internal errors
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
+export interface ErrorCatalogEntry {
+  description: string;
+  retryable: boolean;
+  // What a client should do when it sees the code
+  action: string;
+}
+
+// Stable description of every error code, published as the formation://errors resource
+export const ERROR_CATALOG: Record<ErrorCode, ErrorCatalogEntry> = {
+  [ErrorCode.VALIDATION_ERROR]: {
+    description: 'A value is invalid or the session data does not pass validation',
+    retryable: true,
+    action: 'Fix the field named in details.field (or every entry in details.errors) and call the tool again',
+  },
+  [ErrorCode.VALIDATION_REQUIRED_FIELD]: {
+    description: 'A required field is missing',
+    retryable: true,
+    action: 'Ask the user for the field named in details.field and call the tool again',
+  },
+  [ErrorCode.VALIDATION_INVALID_FORMAT]: {
+    description: 'A field has the wrong type or format (e.g. email, ZIP code, enum value)',
+    retryable: true,
+    action: 'Correct the format of the field named in details.field',
+  },
+  [ErrorCode.VALIDATION_OUT_OF_RANGE]: {
+    description: 'A number or text length is outside the allowed range',
+    retryable: true,
+    action: 'Use a value within the range described in the message',
+  },
+  [ErrorCode.SESSION_NOT_FOUND]: {
+    description: 'No session exists with the given ID',
+    retryable: false,
+    action: 'Find the session with formation_list_sessions or start a new one with formation_start',
+  },
+  [ErrorCode.SESSION_EXPIRED]: {
+    description: 'The session expired after a period of inactivity',
+    retryable: false,
+    action: 'If details.recoverableUntil is set, call formation_resume before then; otherwise start a new session',
+  },
+  [ErrorCode.SESSION_INVALID_STATE]: {
+    description: 'Earlier steps must be completed before this tool can run',
+    retryable: false,
+    action: 'Complete each step in details.missingSteps using the listed tool',
+  },
+  [ErrorCode.SESSION_ALREADY_COMPLETED]: {
+    description: 'The formation was already submitted and can no longer be changed',
+    retryable: false,
+    action: 'Contact Lovie support to amend a submitted formation',
+  },
+  [ErrorCode.SESSION_CONFLICT]: {
+    description: 'The session was changed by another request at the same time',
+    retryable: true,
+    action: 'Reload the session with formation_get_status and retry',
+  },
+  [ErrorCode.AUTH_REQUIRED]: {
+    description: 'The tool needs a logged-in user',
+    retryable: true,
+    action: 'Log in with formation_login and formation_set_token, then retry',
+  },
+  [ErrorCode.API_TIMEOUT]: {
+    description: 'A backend service did not respond in time',
+    retryable: true,
+    action: 'Wait a few moments and retry',
+  },
+  [ErrorCode.API_UNAVAILABLE]: {
+    description: 'A backend service is unavailable',
+    retryable: true,
+    action: 'Retry later',
+  },
+  [ErrorCode.API_ERROR]: {
+    description: 'A backend service returned an error',
+    retryable: true,
+    action: 'Retry; contact support if the error persists',
+  },
+  [ErrorCode.NAME_CHECK_FAILED]: {
+    description: 'The name availability check could not be completed',
+    retryable: true,
+    action: 'Retry formation_check_name or continue without the check',
+  },
+  [ErrorCode.NAME_UNAVAILABLE]: {
+    description: 'The company name is already taken',
+    retryable: false,
+    action: 'Choose another name with formation_set_company_name',
+  },
+  [ErrorCode.CERTIFICATE_GENERATION_FAILED]: {
+    description: 'The certificate could not be generated',
+    retryable: true,
+    action: 'Retry formation_generate_certificate',
+  },
+  [ErrorCode.CERTIFICATE_NOT_GENERATED]: {
+    description: 'No certificate has been generated for the session',
+    retryable: false,
+    action: 'Call formation_generate_certificate first',
+  },
+  [ErrorCode.CERTIFICATE_URL_EXPIRED]: {
+    description: 'The certificate review link has expired',
+    retryable: true,
+    action: 'Generate a new certificate with formation_generate_certificate',
+  },
+  [ErrorCode.PAYMENT_VERIFICATION_FAILED]: {
+    description: 'Stripe could not be asked whether the payment was made',
+    retryable: true,
+    action: 'Retry formation_confirm_payment in a few moments - the payment itself is not affected',
+  },
+  [ErrorCode.PROMO_CODE_INVALID]: {
+    description: 'The promo code does not exist, has expired, has been used up or does not cover the company type',
+    retryable: false,
+    action: 'Tell the user why the code was rejected (details.reason) and continue at the full price or with another code',
+  },
+  [ErrorCode.SUBMISSION_IN_PROGRESS]: {
+    description: 'Another formation_submit call for the session is still waiting for the backend',
+    retryable: true,
+    action: 'Wait a minute, then check with formation_check_submission_status or call formation_submit again',
+  },
+  [ErrorCode.SYNC_FAILED]: {
+    description: 'The session could not be synced to the Lovie dashboard',
+    retryable: true,
+    action: 'Retry the sync later',
+  },
+  [ErrorCode.BUNDLE_INVALID]: {
+    description: 'The import bundle is malformed or not a formation session bundle',
+    retryable: false,
+    action: 'Export the session again and import the unmodified bundle',
+  },
+  [ErrorCode.BUNDLE_CHECKSUM_MISMATCH]: {
+    description: 'The import bundle was modified after export',
+    retryable: false,
+    action: 'Export the session again and import the unmodified bundle',
+  },
+  [ErrorCode.BUNDLE_DECRYPTION_FAILED]: {
+    description: 'The bundle is encrypted and the passphrase is missing or wrong',
+    retryable: true,
+    action: 'Ask the user for the passphrase used when exporting',
+  },
+  [ErrorCode.BUNDLE_UNSUPPORTED_VERSION]: {
+    description: 'The bundle was exported by a newer server version',
+    retryable: false,
+    action: 'Import the bundle on an up-to-date server',
+  },
+  [ErrorCode.TOOL_NOT_FOUND]: {
+    description: 'No tool exists with the given name',
+    retryable: false,
+    action: 'List the available tools with tools/list',
+  },
+  [ErrorCode.REQUEST_CANCELLED]: {
+    description: 'The client cancelled the tool call before it finished; the session was left unchanged',
+    retryable: true,
+    action: 'Call the tool again if the result is still needed',
+  },
+  [ErrorCode.RATE_LIMITED]: {
+    description: 'Too many requests from this user or client; details.scope names the limit that was hit',
+    retryable: true,
+    action: 'Wait details.retryAfter seconds before calling again',
+  },
+  [ErrorCode.INTERNAL_ERROR]: {
+    description: 'An unexpected server error occurred',
+    retryable: true,
+    action: 'Retry; contact support if the error persists',
+  },
+};
+
 export interface MCPErrorDetails {
   code: ErrorCode;
   message: string;
@@ -79,13 +264,34 @@ export function sessionNotFound(sessionId: string): MCPToolError {
   });
 }
 
-export function sessionExpired(sessionId: string): MCPToolError {
+export function sessionExpired(sessionId: string, recoverableUntil?: string): MCPToolError {
   return new MCPToolError({
     code: ErrorCode.SESSION_EXPIRED,
     message: `Session has expired: ${sessionId}`,
-    details: { sessionId },
+    details: recoverableUntil ? { sessionId, recoverableUntil } : { sessionId },
     retryable: false,
-    suggestion: 'Create a new session using formation_start',
+    suggestion: recoverableUntil
+      ? `Recover the session with formation_resume before ${recoverableUntil}`
+      : 'Create a new session using formation_start',
+  });
+}
+
+export function sessionConflict(sessionId: string, expectedVersion: number, currentVersion: number): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.SESSION_CONFLICT,
+    message: `Session was modified concurrently: ${sessionId}`,
+    details: { sessionId, expectedVersion, currentVersion },
+    retryable: true,
+    suggestion: 'Reload the session with formation_get_status and try again',
+  });
+}
+
+export function authRequired(action: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.AUTH_REQUIRED,
+    message: `Authentication is required to ${action}`,
+    retryable: true,
+    suggestion: 'Log in with formation_login and formation_set_token, then try again',
   });
 }
 
@@ -119,12 +325,158 @@ export function apiTimeout(service: string): MCPToolError {
   });
 }
 
-export function invalidState(expectedStep: string, currentStep: string): MCPToolError {
+export function paymentVerificationFailed(sessionId: string, reason: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.PAYMENT_VERIFICATION_FAILED,
+    message: `Payment could not be verified: ${reason}`,
+    details: { sessionId },
+    retryable: true,
+    suggestion: ERROR_CATALOG[ErrorCode.PAYMENT_VERIFICATION_FAILED].action,
+  });
+}
+
+export function promoCodeInvalid(code: string, reason: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.PROMO_CODE_INVALID,
+    message: `Promo code ${code} cannot be used: ${reason}`,
+    details: { code, reason },
+    retryable: false,
+    suggestion: ERROR_CATALOG[ErrorCode.PROMO_CODE_INVALID].action,
+  });
+}
+
+export function submissionInProgress(sessionId: string, since: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.SUBMISSION_IN_PROGRESS,
+    message: `Submission in progress: the formation request for ${sessionId} is being sent`,
+    details: { sessionId, since },
+    retryable: true,
+    suggestion: ERROR_CATALOG[ErrorCode.SUBMISSION_IN_PROGRESS].action,
+  });
+}
+
+export function paymentLinkFailed(sessionId: string, reason: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.API_UNAVAILABLE,
+    message: `Payment link could not be created: ${reason}`,
+    details: { service: 'stripe', sessionId },
+    retryable: true,
+    suggestion: 'Retry formation_get_payment_link in a few moments',
+  });
+}
+
+export function invalidState(
+  expectedStep: string,
+  currentStep: string,
+  missingSteps: { step: string; tool: string }[] = []
+): MCPToolError {
   return new MCPToolError({
     code: ErrorCode.SESSION_INVALID_STATE,
-    message: `Invalid session state. Expected: ${expectedStep}, Current: ${currentStep}`,
-    details: { expectedStep, currentStep },
+    message: missingSteps.length > 0
+      ? `Invalid session state. Missing steps: ${missingSteps.map(m => m.step).join(', ')} (current: ${currentStep})`
+      : `Invalid session state. Expected: ${expectedStep}, Current: ${currentStep}`,
+    details: { expectedStep, currentStep, missingSteps },
     retryable: false,
-    suggestion: 'Complete the required previous steps first',
+    suggestion: missingSteps.length > 0
+      ? `Complete the missing steps first using ${missingSteps.map(m => m.tool).join(', ')}`
+      : 'Complete the required previous steps first',
   });
 }
+
+export function toolNotFound(name: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.TOOL_NOT_FOUND,
+    message: `Unknown tool: ${name}`,
+    details: { name },
+    retryable: false,
+    suggestion: ERROR_CATALOG[ErrorCode.TOOL_NOT_FOUND].action,
+  });
+}
+
+export function requestCancelled(name: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.REQUEST_CANCELLED,
+    message: `${name} was cancelled`,
+    details: { name },
+    retryable: true,
+    suggestion: ERROR_CATALOG[ErrorCode.REQUEST_CANCELLED].action,
+  });
+}
+
+export function rateLimited(scope: string, retryAfterMs: number, tool?: string): MCPToolError {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return new MCPToolError({
+    code: ErrorCode.RATE_LIMITED,
+    message: tool
+      ? `Too many ${tool} calls. Try again in ${retryAfter}s`
+      : `Too many requests. Try again in ${retryAfter}s`,
+    details: tool ? { scope, retryAfter, tool } : { scope, retryAfter },
+    retryable: true,
+    suggestion: ERROR_CATALOG[ErrorCode.RATE_LIMITED].action,
+  });
+}
+
+// Field-level validation code for a Zod issue
+function zodIssueCode(issue: ZodIssue): ErrorCode {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined' ? ErrorCode.VALIDATION_REQUIRED_FIELD : ErrorCode.VALIDATION_INVALID_FORMAT;
+    case 'too_small':
+    case 'too_big':
+      return ErrorCode.VALIDATION_OUT_OF_RANGE;
+    case 'invalid_string':
+    case 'invalid_enum_value':
+    case 'invalid_literal':
+    case 'invalid_date':
+      return ErrorCode.VALIDATION_INVALID_FORMAT;
+    default:
+      return ErrorCode.VALIDATION_ERROR;
+  }
+}
+
+// Map a Zod validation error to a VALIDATION_* error listing every invalid field.
+// field names the validated value when the schema is applied to a single field.
+export function fromZodError(error: ZodError, field?: string): MCPToolError {
+  const fields = error.issues.map(issue => ({
+    field: [field, ...issue.path].filter(part => part !== undefined && part !== '').join('.') || '(root)',
+    code: zodIssueCode(issue),
+    message: issue.message,
+  }));
+  const [first] = fields;
+
+  return new MCPToolError({
+    code: first ? first.code : ErrorCode.VALIDATION_ERROR,
+    message: fields.length === 1
+      ? `Validation error for ${first.field}: ${first.message}`
+      : `${fields.length} validation errors: ${fields.map(f => `${f.field}: ${f.message}`).join('; ')}`,
+    details: { field: first?.field, fields },
+    retryable: true,
+    suggestion: 'Correct the listed fields and call the tool again',
+  });
+}
+
+// Normalize anything thrown by a tool into an MCPToolError
+export function toMCPToolError(error: unknown): MCPToolError {
+  if (error instanceof MCPToolError) return error;
+  if (error instanceof ZodError) return fromZodError(error);
+
+  return new MCPToolError({
+    code: ErrorCode.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : 'Unknown error',
+    retryable: ERROR_CATALOG[ErrorCode.INTERNAL_ERROR].retryable,
+    suggestion: ERROR_CATALOG[ErrorCode.INTERNAL_ERROR].action,
+  });
+}
+
+// Tool call result for a failed tool call, shared by every transport
+export function formatToolError(error: unknown) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(toMCPToolError(error).toJSON(), null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
@@ -1,113 +1,116 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { getAllTools, handleToolCall } from './tools/index';
+import { getAllTools } from './tools/index';
 import { getSessionStore } from './state/FormationSessionStore';
-import { getAllResources, getResourceContent } from './resources/index';
+import { getAllResources } from './resources/index';
+import { createMCPServer } from './server';
+import {
+  CORS_HEADERS,
+  JsonRpcErrorCode,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  getClientIp,
+  getServerCapabilities,
+  handleProtectedResourceMetadata,
+  handleStreamableHttp,
+  sendBodyTooLarge,
+  sendRateLimited,
+} from './protocol';
+import { startLifecycleScheduler } from './lifecycle';
+import { OAuthError, authenticateRequest, getAuthenticateHeader, getOAuthConfig, setOAuthConfig } from './auth';
+import { LocalIdentityProvider, createLocalProviderRouter } from './auth/local-provider';
+import { enforceRequestLimit, getRateLimitConfig } from './ratelimit';
+import { handleSubmissionStatusWebhook } from './webhooks';
+import { LocalStripe, createLocalStripeRouter, getStripeWebhookSecrets, handleStripeWebhook, setPaymentProvider } from './payments';
 
 const DEFAULT_PORT = 3001;
 
-// Store active transports for cleanup
+// Active legacy SSE transports by session ID
 const activeTransports = new Map<string, SSEServerTransport>();
 
-function createMCPServerInstance(): Server {
-  const server = new Server(
-    {
-      name: 'lovie-formation',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-        resources: {},
-      },
-    }
-  );
+export function createHttpServer(port: number = DEFAULT_PORT): express.Application {
+  const app = express();
 
-  // Initialize session store
-  const store = getSessionStore();
+  // CORS configuration - allow all origins for MCP clients
+  app.use(cors({
+    origin: '*',
+    methods: CORS_HEADERS['Access-Control-Allow-Methods'].split(', '),
+    allowedHeaders: CORS_HEADERS['Access-Control-Allow-Headers'].split(', '),
+    exposedHeaders: CORS_HEADERS['Access-Control-Expose-Headers'].split(', '),
+    credentials: true,
+  }));
 
-  // List available tools
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools = getAllTools();
-    return { tools };
-  });
+  const { maxBodyBytes } = getRateLimitConfig();
 
-  // List available resources
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    const resources = getAllResources();
-    return { resources };
-  });
+  // Signed submission status callbacks from the Lovie backend. The signature covers the raw
+  // body, so this route reads it as text before the JSON parser below runs.
+  app.post('/webhooks/submission-status', express.text({ type: '*/*', limit: maxBodyBytes }), (req: Request, res: Response) =>
+    handleSubmissionStatusWebhook(req, typeof req.body === 'string' ? req.body : '', res, getSessionStore()));
+  app.post('/webhooks/stripe', express.text({ type: '*/*', limit: maxBodyBytes }), (req: Request, res: Response) =>
+    handleStripeWebhook(req, typeof req.body === 'string' ? req.body : '', res, getSessionStore()));
 
-  // Read resource content
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const { uri } = request.params;
-    const content = getResourceContent(uri);
+  app.use(express.json({ limit: maxBodyBytes }));
 
-    if (!content) {
-      throw new Error(`Resource not found: ${uri}`);
+  // Malformed or oversized JSON bodies get a JSON-RPC error instead of an HTML page
+  app.use((error: Error & { type?: string }, _req: Request, res: Response, next: NextFunction) => {
+    if (error.type === 'entity.parse.failed') {
+      res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Parse error' } });
+      return;
     }
-
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/markdown',
-          text: content,
-        },
-      ],
-    };
+    if (error.type === 'entity.too.large') {
+      sendBodyTooLarge(res, maxBodyBytes);
+      return;
+    }
+    next(error);
   });
 
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
+  // Per-IP rate limit for the legacy SSE endpoints (/mcp is limited by handleStreamableHttp)
+  const limitRequests = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await handleToolCall(name, args || {}, store);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      await enforceRequestLimit(getClientIp(req));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: true,
-              code: 'TOOL_ERROR',
-              message: errorMessage,
-            }, null, 2),
-          },
-        ],
-        isError: true,
-      };
+      sendRateLimited(res, error);
+      return;
     }
-  });
-
-  return server;
-}
-
-export function createHttpServer(port: number = DEFAULT_PORT): express.Application {
-  const app = express();
+    next();
+  };
 
-  // CORS configuration - allow all origins for MCP clients
-  app.use(cors({
-    origin: '*',
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
-    credentials: true,
-  }));
+  // Stand-in OAuth authorization server that signs everyone in as MCP_OAUTH_LOCAL_USER.
+  // For local development and tests only.
+  if (process.env.MCP_OAUTH_LOCAL_PROVIDER === 'true') {
+    const origin = `http://localhost:${port}`;
+    const provider = new LocalIdentityProvider({
+      issuer: `${origin}/oauth`,
+      userId: process.env.MCP_OAUTH_LOCAL_USER,
+      defaultAudience: `${origin}/mcp`,
+    });
+    setOAuthConfig({
+      issuer: provider.issuer,
+      keys: provider.keys,
+      resource: `${origin}/mcp`,
+      audience: [],
+      scopes: ['formation'],
+      required: true,
+      userClaim: 'sub',
+    });
+    app.use(createLocalProviderRouter(provider));
+  }
+
+  // Stand-in for Stripe whose payment links pay at once and send signed webhooks to this server.
+  // For local development and tests only.
+  if (process.env.MCP_PAYMENT_PROVIDER === 'local') {
+    const origin = `http://localhost:${port}`;
+    const stripe = new LocalStripe({
+      baseUrl: `${origin}/stripe`,
+      webhookUrl: `${origin}/webhooks/stripe`,
+      webhookSecret: getStripeWebhookSecrets()[0],
+    });
+    setPaymentProvider(stripe);
+    app.use(createLocalStripeRouter(stripe));
+  }
 
-  app.use(express.json());
+  // OAuth protected resource metadata, with or without the resource path suffix
+  app.get(/^\/\.well-known\/oauth-protected-resource(\/.*)?$/, handleProtectedResourceMetadata);
 
   // Health check endpoint
   app.get('/health', (_req: Request, res: Response) => {
@@ -126,19 +129,38 @@ export function createHttpServer(port: number = DEFAULT_PORT): express.Applicati
       version: '1.0.0',
       description: 'MCP server for company formation - Form your US company via Claude',
       endpoints: {
+        mcp: '/mcp',
         sse: '/sse',
         messages: '/messages',
         health: '/health',
+        submissionStatusWebhook: '/webhooks/submission-status',
+        stripeWebhook: '/webhooks/stripe',
       },
       mcp: {
-        version: '2024-11-05',
-        capabilities: ['tools', 'resources'],
+        version: SUPPORTED_PROTOCOL_VERSIONS[0],
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        capabilities: Object.keys(getServerCapabilities()),
       },
     });
   });
 
-  // SSE endpoint for MCP communication
-  app.get('/sse', async (req: Request, res: Response) => {
+  // Streamable HTTP endpoint for MCP communication
+  app.all('/mcp', (req: Request, res: Response) =>
+    handleStreamableHttp(req, res, { store: getSessionStore() }));
+
+  // Legacy SSE endpoint for MCP communication (protocol version 2024-11-05)
+  app.get('/sse', limitRequests, async (req: Request, res: Response) => {
+    // The connection is authenticated by the Authorization header that opened it
+    let auth;
+    try {
+      auth = await authenticateRequest(req.get('authorization'));
+    } catch (error) {
+      if (!(error instanceof OAuthError)) throw error;
+      res.setHeader('WWW-Authenticate', getAuthenticateHeader(getOAuthConfig(), error));
+      res.status(401).json({ error: error.error || 'unauthorized', message: error.message });
+      return;
+    }
+
     console.log('New SSE connection established');
 
     // Set SSE headers
@@ -149,10 +171,8 @@ export function createHttpServer(port: number = DEFAULT_PORT): express.Applicati
 
     // Create transport and server for this connection
     const transport = new SSEServerTransport('/messages', res);
-    const server = createMCPServerInstance();
-
-    // Generate a unique ID for this connection
-    const connectionId = `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const server = createMCPServer(getSessionStore(), { auth, clientIp: getClientIp(req) });
+    const connectionId = transport.sessionId;
     activeTransports.set(connectionId, transport);
 
     // Handle connection close
@@ -172,23 +192,29 @@ export function createHttpServer(port: number = DEFAULT_PORT): express.Applicati
   });
 
   // Messages endpoint for client-to-server communication
-  app.post('/messages', async (req: Request, res: Response) => {
-    // Find the active transport (in a simple setup, we just use the most recent one)
-    // For production, you'd want to use session IDs to match transports
-    const transports = Array.from(activeTransports.values());
+  app.post('/messages', limitRequests, async (req: Request, res: Response) => {
+    // The endpoint event sent on connect tells the client to add its session ID.
+    // Messages without one are rejected - each connection carries its own login.
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    if (!sessionId) {
+      res.status(400).json({
+        error: 'Missing sessionId',
+        message: 'Use the message endpoint URL sent by GET /sse, including its sessionId',
+      });
+      return;
+    }
 
-    if (transports.length === 0) {
-      res.status(503).json({
+    const transport = activeTransports.get(sessionId);
+    if (!transport) {
+      res.status(404).json({
         error: 'No active SSE connection',
         message: 'Please establish an SSE connection first via GET /sse',
       });
       return;
     }
 
-    const transport = transports[transports.length - 1];
-
     try {
-      await transport.handlePostMessage(req, res);
+      await transport.handlePostMessage(req, res, req.body);
     } catch (error) {
       console.error('Error handling message:', error);
       res.status(500).json({
@@ -226,10 +252,13 @@ export async function startHttpServer(port: number = DEFAULT_PORT): Promise<void
 ║  Endpoints:                                                ║
 ║    GET  /        - Server info                             ║
 ║    GET  /health  - Health check                            ║
+║    POST /mcp     - Streamable HTTP endpoint for MCP        ║
 ║    GET  /sse     - SSE endpoint for MCP                    ║
 ║    POST /messages - Message endpoint for MCP               ║
 ║    GET  /tools   - List available tools                    ║
 ║    GET  /resources - List available resources              ║
+║    POST /webhooks/submission-status - Status callbacks     ║
+║    POST /webhooks/stripe - Stripe payment events           ║
 ║                                                            ║
 ║  MCP Client Config:                                        ║
 ║  {                                                         ║
@@ -241,11 +270,16 @@ export async function startHttpServer(port: number = DEFAULT_PORT): Promise<void
 ║  }                                                         ║
 ╚════════════════════════════════════════════════════════════╝
 `);
+    console.log(`Session storage: ${getSessionStore().storageType}`);
   });
 
+  // Expire, abandon and remind about idle sessions in the background
+  const stopLifecycle = startLifecycleScheduler(getSessionStore());
+
   // Handle graceful shutdown
   const shutdown = () => {
     console.log('\nShutting down server...');
+    stopLifecycle();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
@@ -5,10 +5,67 @@ import { startHttpServer } from './http-server';
 
 // Export server functions
 export { createMCPServer, startStdioServer } from './server';
+export type { MCPServer, MCPServerOptions } from './server';
 export { createHttpServer, startHttpServer } from './http-server';
 
+// Export the JSON-RPC dispatcher and Streamable HTTP handler
+export * from './protocol';
+
+// Export per-connection authentication and OAuth
+export {
+  createAuthContext,
+  createAuthContextFromHeader,
+  parseBearerToken,
+  authenticateRequest,
+  getOAuthConfig,
+  setOAuthConfig,
+  getDashboardTokenConfig,
+  setDashboardTokenConfig,
+  createRemoteJwks,
+} from './auth';
+export type { AuthContext, OAuthConfig, DashboardTokenConfig, ProtectedResourceMetadata } from './auth';
+export { LocalIdentityProvider, createLocalProviderRouter } from './auth/local-provider';
+
 // Export session store
 export { getSessionStore, FormationSessionStore } from './state/FormationSessionStore';
+export * from './state/adapters';
+
+// Export session lifecycle
+export { setSessionNotifier, runLifecycleSweep, startLifecycleScheduler, handleLifecycleCron, getLifecycleConfig, ConsoleNotifier, WebhookNotifier } from './lifecycle';
+export type { SessionNotifier, LifecycleEvent, LifecycleConfig } from './lifecycle';
+
+// Export rate limiting
+export { setRateLimitStore, getRateLimitConfig, MemoryRateLimitStore, RedisRateLimitStore } from './ratelimit';
+export type { RateLimitStore, RateLimitRule, RateLimitResult, RateLimitConfig } from './ratelimit';
+
+// Export submission status webhooks
+export {
+  handleSubmissionStatusWebhook,
+  onSubmissionStatusChange,
+  recordSubmissionStatus,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhooks';
+export type { SubmissionStatusEvent, SubmissionStatusUpdate } from './webhooks';
+
+// Export Stripe payment verification
+export {
+  handleStripeWebhook,
+  getPaymentProvider,
+  setPaymentProvider,
+  StripeClient,
+  LocalStripe,
+  createLocalStripeRouter,
+} from './payments';
+export type { PaymentProvider, CheckoutSession, StripeEvent } from './payments';
+
+// Export promo codes
+export { getPromoCodes, setPromoCodes, parsePromoCodes, countRedemptions } from './promo';
+export type { PromoCode } from './promo';
+
+// Export the pricing engine
+export { createQuote, getStatePricing, getExpediteLevels, formatAmount, PricingError } from '../services/pricing';
+export type { Quote, QuoteItem, QuoteRequest, ExpediteLevel, Discount } from '../services/pricing';
 
 // Export tool utilities
 export { registerTool, getAllTools, handleToolCall, initializeTools } from './tools/index';
@@ -20,7 +77,10 @@ export * from './state/types';
 export * from './errors';
 
 // Export resources
-export { getAllResources, getResourceContent, FORMATION_RESOURCES, RESOURCE_CONTENT } from './resources/index';
+export { getAllResources, getResourceContent, getAllResourceTemplates, readSessionResource, FORMATION_RESOURCES, RESOURCE_CONTENT } from './resources/index';
+
+// Export prompts
+export { getAllPrompts, getPrompt, getToolSequence, FORMATION_PROMPTS } from './prompts/index';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FormationSession, FormationStep, NameCheckJob, NameCheckResult, CompanyType, USState } from '../state/types';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { isStepBefore } from '../state/steps';
+import { updateSession, updateStoredSession } from '../middleware/session';
+import { createNameCheckAgent, NameCheckAgent } from '../../services/agents/NameCheckAgent';
+
+// Longest a status call may wait for a running check - kept below common serverless and proxy timeouts
+export const NAME_CHECK_MAX_WAIT_SECONDS = 25;
+
+// How long a job stays with the process running it without a renewal, and how often that
+// process renews it. Longer than a save takes, so a busy process does not lose its job.
+export const NAME_CHECK_LEASE_MS = 30 * 1000;
+const NAME_CHECK_LEASE_RENEW_MS = 10 * 1000;
+
+interface RunningNameCheck {
+  jobId: string;
+  controller: AbortController;
+  heartbeat: NodeJS.Timeout;
+  done: Promise<void>;
+}
+
+// Checks running in this process, by session ID
+const runningChecks = new Map<string, RunningNameCheck>();
+
+export interface NameCheckRequest {
+  companyName: string;
+  state?: USState;
+  companyType?: CompanyType;
+}
+
+// Name check result reported in tool responses
+export interface NameCheckSummary {
+  jobId: string;
+  status: NameCheckJob['status'];
+  companyName: string;
+  available?: boolean;
+  reason?: string;
+  suggestions?: string[];
+  checkedAt?: string;
+  message: string;
+}
+
+// Agent for background checks, or null when they are disabled (MCP_BACKGROUND_NAME_CHECK=false)
+// or the name check service is not configured
+export function getBackgroundNameCheckAgent(): NameCheckAgent | null {
+  if (process.env.MCP_BACKGROUND_NAME_CHECK === 'false') return null;
+  try {
+    return createNameCheckAgent();
+  } catch {
+    return null;
+  }
+}
+
+// Check a company name with the Secretary of State
+export async function checkCompanyName(
+  agent: NameCheckAgent,
+  request: NameCheckRequest,
+  signal?: AbortSignal
+): Promise<NameCheckResult> {
+  const startTime = Date.now();
+  const result = await agent.checkAvailability({
+    companyName: request.companyName,
+    state: request.state || 'DE',
+    companyType: request.companyType || 'LLC',
+  }, { signal });
+
+  return {
+    available: result.available,
+    checkedAt: new Date().toISOString(),
+    reason: result.reason,
+    suggestions: result.suggestions,
+    responseTimeMs: Date.now() - startTime,
+  };
+}
+
+// Stored result for a check that could not be completed - the user can still continue
+export function failedNameCheckResult(errorMessage: string): NameCheckResult {
+  return {
+    available: false,
+    checkedAt: new Date().toISOString(),
+    reason: `Name check failed: ${errorMessage}`,
+    error: true,
+  };
+}
+
+function leaseUntil(): string {
+  return new Date(Date.now() + NAME_CHECK_LEASE_MS).toISOString();
+}
+
+export function createNameCheckJob(companyName: string): NameCheckJob {
+  return {
+    jobId: uuidv4(),
+    companyName,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    leaseExpiresAt: leaseUntil(),
+  };
+}
+
+// Whether the job is being run by this process
+export function isNameCheckJobRunning(sessionId: string, jobId: string): boolean {
+  return runningChecks.get(sessionId)?.jobId === jobId;
+}
+
+// Whether a process - this one or another sharing the session storage - still holds the job.
+// Jobs saved without a lease have no process holding them.
+export function isNameCheckJobLeased(job: NameCheckJob, now: number = Date.now()): boolean {
+  return Boolean(job.leaseExpiresAt && Date.parse(job.leaseExpiresAt) > now);
+}
+
+// Take over a running job whose lease has passed, so this process can run it again. The lease
+// is taken with a versioned save, so only one process gets it. Returns false if the job
+// finished, was replaced or was taken over meanwhile.
+export async function claimNameCheckJob(sessionId: string, jobId: string, store: FormationSessionStore): Promise<boolean> {
+  let claimed = false;
+  await updateStoredSession(sessionId, store, (session) => {
+    const job = session.nameCheckJob;
+    claimed = job?.jobId === jobId && job.status === 'running' && !isNameCheckJobLeased(job);
+    if (claimed) job!.leaseExpiresAt = leaseUntil();
+  });
+  return claimed;
+}
+
+// Extend the lease of a job this process is running. Not user activity, so the session's
+// expiry stays as it is.
+async function renewNameCheckLease(sessionId: string, jobId: string, store: FormationSessionStore): Promise<void> {
+  await updateStoredSession(sessionId, store, (session) => {
+    const job = session.nameCheckJob;
+    if (job?.jobId === jobId && job.status === 'running') {
+      job.leaseExpiresAt = leaseUntil();
+    }
+  });
+}
+
+// Abort the check running for a session, if any. Its result is discarded.
+export function cancelNameCheckJob(sessionId: string): void {
+  const running = runningChecks.get(sessionId);
+  if (!running) return;
+  running.controller.abort();
+  clearInterval(running.heartbeat);
+  runningChecks.delete(sessionId);
+}
+
+// Run the check for a job already saved on the session, without waiting for it.
+// The result is merged into the latest session once it arrives. The job's lease is renewed
+// while the check runs, so other processes do not run it again.
+export function startNameCheckJob(
+  sessionId: string,
+  job: NameCheckJob,
+  request: NameCheckRequest,
+  store: FormationSessionStore,
+  agent: NameCheckAgent
+): void {
+  cancelNameCheckJob(sessionId);
+
+  const controller = new AbortController();
+  const heartbeat = setInterval(() => {
+    renewNameCheckLease(sessionId, job.jobId, store)
+      .catch(error => console.error(`Failed to renew the lease of name check job ${job.jobId}:`, error));
+  }, NAME_CHECK_LEASE_RENEW_MS);
+  heartbeat.unref();
+
+  const done = runNameCheckJob(sessionId, job, request, store, agent, controller.signal)
+    .catch(error => console.error(`Name check job ${job.jobId} failed to save:`, error))
+    .finally(() => {
+      clearInterval(heartbeat);
+      if (isNameCheckJobRunning(sessionId, job.jobId)) runningChecks.delete(sessionId);
+    });
+
+  runningChecks.set(sessionId, { jobId: job.jobId, controller, heartbeat, done });
+}
+
+async function runNameCheckJob(
+  sessionId: string,
+  job: NameCheckJob,
+  request: NameCheckRequest,
+  store: FormationSessionStore,
+  agent: NameCheckAgent,
+  signal: AbortSignal
+): Promise<void> {
+  let result: NameCheckResult;
+  let errorMessage: string | undefined;
+  try {
+    result = await checkCompanyName(agent, request, signal);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    result = failedNameCheckResult(errorMessage);
+  }
+  if (signal.aborted) return;
+
+  await updateSession(sessionId, store, (session) => {
+    const current = session.nameCheckJob;
+    // A newer job or a direct formation_check_name call took over
+    if (current?.jobId !== job.jobId || current.status !== 'running') return;
+
+    current.completedAt = new Date().toISOString();
+    if (session.companyDetails?.fullName !== job.companyName || session.companyDetails?.state !== request.state) {
+      current.status = 'superseded';
+      return;
+    }
+
+    session.nameCheckResult = result;
+    current.status = errorMessage ? 'failed' : 'completed';
+    if (errorMessage) current.error = errorMessage;
+    // Only advance sessions still waiting on the check - never move a session backwards
+    if (isStepBefore(session.currentStep, FormationStep.NAME_CHECKED)) {
+      session.currentStep = FormationStep.NAME_CHECKED;
+    }
+  });
+}
+
+// Wait until the check running for a session finishes, the timeout (if any) passes or the signal is aborted.
+// Returns true if the check finished.
+export async function waitForNameCheckJob(sessionId: string, timeoutMs?: number, signal?: AbortSignal): Promise<boolean> {
+  const running = runningChecks.get(sessionId);
+  if (!running) return true;
+  if (timeoutMs === 0 || signal?.aborted) return false;
+
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const stopped = new Promise<boolean>(resolve => {
+    if (timeoutMs !== undefined) timer = setTimeout(() => resolve(false), timeoutMs);
+    onAbort = () => resolve(false);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+  try {
+    return await Promise.race([running.done.then(() => true), stopped]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export function summarizeNameCheck(job: NameCheckJob, result?: NameCheckResult): NameCheckSummary {
+  const summary = { jobId: job.jobId, status: job.status, companyName: job.companyName };
+
+  if (job.status === 'running') {
+    return { ...summary, message: `Still checking "${job.companyName}" - continue collecting information and check back later.` };
+  }
+  if (job.status === 'superseded' || !result) {
+    return { ...summary, message: `The check for "${job.companyName}" was replaced by a newer check or a change to the company name or state.` };
+  }
+  if (job.status === 'failed') {
+    return {
+      ...summary,
+      checkedAt: result.checkedAt,
+      message: `Name check failed: ${job.error}. You can still proceed - the name will be verified during filing.`,
+    };
+  }
+
+  return {
+    ...summary,
+    available: result.available,
+    reason: result.reason,
+    suggestions: result.suggestions,
+    checkedAt: result.checkedAt,
+    message: result.available
+      ? `"${job.companyName}" is available.`
+      : `"${job.companyName}" is not available${result.reason ? `: ${result.reason}` : ''}. Ask the user to choose another name with formation_set_company_name.`,
+  };
+}
+
+// Mark the session's job as reported, superseding it if it is still running.
+// Used when the result has been delivered some other way, e.g. by formation_check_name.
+export function settleNameCheckJob(session: FormationSession): void {
+  const job = session.nameCheckJob;
+  if (!job) return;
+  if (job.status === 'running') {
+    job.status = 'superseded';
+    job.completedAt = new Date().toISOString();
+  }
+  job.reportedAt = job.reportedAt || new Date().toISOString();
+}
+
+// Summary of a finished check that has not been included in a tool response yet.
+// The job is marked as reported, so each result is surfaced once.
+export async function takeFinishedNameCheck(sessionId: string, store: FormationSessionStore): Promise<NameCheckSummary | null> {
+  const session = await store.get(sessionId);
+  const job = session?.nameCheckJob;
+  if (!job || job.reportedAt || (job.status !== 'completed' && job.status !== 'failed')) return null;
+
+  let summary: NameCheckSummary | null = null;
+  await updateSession(sessionId, store, (current) => {
+    const currentJob = current.nameCheckJob;
+    if (currentJob?.jobId !== job.jobId || currentJob.reportedAt) return;
+    currentJob.reportedAt = new Date().toISOString();
+    // The result was cleared since, e.g. by a change of state - nothing left to report
+    if (!current.nameCheckResult || current.companyDetails?.fullName !== currentJob.companyName) return;
+    summary = summarizeNameCheck(currentJob, current.nameCheckResult);
+  });
+  return summary;
+}
@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { FormationSession, SessionStatus } from '../state/types';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { STEP_DEPENDENCIES } from '../middleware/dependencies';
+import { getFirstIncompleteStep } from '../middleware/prerequisites';
+import { sessionNotFound, sessionExpired, MCPToolError, ErrorCode } from '../errors';
+import type { HttpRequest, HttpResponse } from '../protocol';
+import { createNotifier } from './notifiers';
+import { LifecycleConfig, LifecycleEvent, LifecycleEventType, LifecycleSweepResult, SessionNotifier } from './types';
+
+export * from './types';
+export { ConsoleNotifier, WebhookNotifier, createNotifier } from './notifiers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Read a non-negative number from the environment
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Lifecycle settings from environment variables
+export function getLifecycleConfig(): LifecycleConfig {
+  const reminderHours = (process.env.MCP_SESSION_REMINDER_HOURS || '1,12')
+    .split(',')
+    .map(hours => Number(hours.trim()))
+    .filter(hours => Number.isFinite(hours) && hours > 0)
+    .sort((a, b) => a - b);
+
+  return {
+    ttlMs: readNumber('MCP_SESSION_TTL_HOURS', 24) * HOUR_MS,
+    abandonAfterMs: readNumber('MCP_SESSION_ABANDON_HOURS', 6) * HOUR_MS,
+    gracePeriodMs: readNumber('MCP_SESSION_GRACE_HOURS', 7 * 24) * HOUR_MS,
+    reminderHours,
+    sweepIntervalMs: readNumber('MCP_LIFECYCLE_INTERVAL_MINUTES', 15) * 60 * 1000,
+  };
+}
+
+let notifier: SessionNotifier | null = null;
+
+// Replace the notifier that receives lifecycle events
+export function setSessionNotifier(next: SessionNotifier): void {
+  notifier = next;
+}
+
+export function getSessionNotifier(): SessionNotifier {
+  if (!notifier) {
+    notifier = createNotifier();
+  }
+  return notifier;
+}
+
+// Time of the last tool call that changed the session
+export function getLastActivity(session: FormationSession): number {
+  return Date.parse(session.lastActivityAt || session.updatedAt);
+}
+
+// Paid and submitted formations hold the payment record and the filing status, so they
+// never expire and are never deleted
+export function isRetainedSession(session: FormationSession): boolean {
+  return Boolean(session.payment || session.paymentStatus === 'completed' || session.submissionResult);
+}
+
+// Deadline for recovering an expired session
+export function getRecoverableUntil(session: FormationSession, config: LifecycleConfig = getLifecycleConfig()): Date {
+  return new Date(Date.parse(session.expiresAt) + config.gracePeriodMs);
+}
+
+// Record activity: extend the expiry, reactivate abandoned or expired sessions and reset reminders
+export function touchSession(
+  session: FormationSession,
+  config: LifecycleConfig = getLifecycleConfig(),
+  now: Date = new Date()
+): void {
+  session.lastActivityAt = now.toISOString();
+
+  const extended = new Date(now.getTime() + config.ttlMs);
+  if (extended > new Date(session.expiresAt)) {
+    session.expiresAt = extended.toISOString();
+  }
+
+  if (session.status === SessionStatus.ABANDONED || session.status === SessionStatus.EXPIRED) {
+    session.status = session.lifecycle?.previousStatus || SessionStatus.IN_PROGRESS;
+  }
+  delete session.lifecycle;
+}
+
+// Reactivate an abandoned session, or an expired one within its grace period
+export async function recoverSession(
+  sessionId: string,
+  store: FormationSessionStore,
+  config: LifecycleConfig = getLifecycleConfig()
+): Promise<{ session: FormationSession; recovered: boolean }> {
+  const session = await store.get(sessionId);
+  if (!session) {
+    throw sessionNotFound(sessionId);
+  }
+
+  const now = new Date();
+  const expired = session.status === SessionStatus.EXPIRED || (new Date(session.expiresAt) < now && !isRetainedSession(session));
+  if (!expired && session.status !== SessionStatus.ABANDONED) {
+    return { session, recovered: false };
+  }
+  if (expired && getRecoverableUntil(session, config) < now) {
+    throw sessionExpired(sessionId);
+  }
+
+  touchSession(session, config, now);
+  await store.save(session);
+  return { session, recovered: true };
+}
+
+function buildEvent(
+  type: LifecycleEventType,
+  session: FormationSession,
+  now: Date,
+  extra: Partial<LifecycleEvent> = {}
+): LifecycleEvent {
+  return {
+    type,
+    sessionId: session.sessionId,
+    userId: session.userId,
+    companyName: session.companyDetails?.fullName,
+    status: session.status,
+    currentStep: session.currentStep,
+    idleHours: Math.floor((now.getTime() - getLastActivity(session)) / HOUR_MS),
+    at: now.toISOString(),
+    ...extra,
+  };
+}
+
+// Apply lifecycle rules to one session. Returns the events to emit; the session is
+// deleted or saved by the caller when it changed.
+function evaluateSession(
+  session: FormationSession,
+  config: LifecycleConfig,
+  now: Date
+): { action: 'none' | 'save' | 'delete'; events: LifecycleEvent[] } {
+  const expiresAt = Date.parse(session.expiresAt);
+  const idleMs = now.getTime() - getLastActivity(session);
+  const lifecycle = session.lifecycle || {};
+  const retained = isRetainedSession(session);
+
+  // Past the grace period - gone for good
+  if (!retained && now.getTime() > expiresAt + config.gracePeriodMs) {
+    return { action: 'delete', events: [buildEvent('session.deleted', session, now)] };
+  }
+
+  // Expired but still recoverable
+  if (!retained && now.getTime() > expiresAt) {
+    if (session.status === SessionStatus.EXPIRED) return { action: 'none', events: [] };
+
+    session.lifecycle = {
+      ...lifecycle,
+      previousStatus: lifecycle.previousStatus || session.status,
+      expiredAt: now.toISOString(),
+    };
+    session.status = SessionStatus.EXPIRED;
+    const recoverableUntil = getRecoverableUntil(session, config).toISOString();
+    return { action: 'save', events: [buildEvent('session.expired', session, now, { recoverableUntil })] };
+  }
+
+  // Submitted formations are not abandoned and need no reminders
+  if (session.submissionResult) return { action: 'none', events: [] };
+
+  const events: LifecycleEvent[] = [];
+
+  if (idleMs >= config.abandonAfterMs && session.status !== SessionStatus.ABANDONED) {
+    session.lifecycle = {
+      ...session.lifecycle,
+      previousStatus: session.status,
+      abandonedAt: now.toISOString(),
+    };
+    session.status = SessionStatus.ABANDONED;
+    events.push(buildEvent('session.abandoned', session, now));
+  }
+
+  // One reminder per crossed threshold, only for sessions stuck before payment
+  if (session.paymentStatus !== 'completed') {
+    const sent = session.lifecycle?.remindersSent || [];
+    const due = config.reminderHours.filter(hours => idleMs >= hours * HOUR_MS && !sent.includes(hours));
+    if (due.length > 0) {
+      session.lifecycle = { ...session.lifecycle, remindersSent: [...sent, ...due] };
+      const nextAction = STEP_DEPENDENCIES[getFirstIncompleteStep(session)].tool;
+      events.push(buildEvent('session.reminder', session, now, { nextAction }));
+    }
+  }
+
+  if (events.length > 0 && !session.lastActivityAt) {
+    // Pin the idle clock before saving bumps updatedAt
+    session.lastActivityAt = new Date(getLastActivity(session)).toISOString();
+  }
+
+  return { action: events.length > 0 ? 'save' : 'none', events };
+}
+
+// Mark idle sessions abandoned, expire and delete old sessions and send reminders
+export async function runLifecycleSweep(
+  store: FormationSessionStore,
+  config: LifecycleConfig = getLifecycleConfig(),
+  target: SessionNotifier = getSessionNotifier(),
+  now: Date = new Date()
+): Promise<LifecycleSweepResult> {
+  const result: LifecycleSweepResult = { reminded: 0, abandoned: 0, expired: 0, deleted: 0 };
+
+  for (const session of await store.list()) {
+    const { action, events } = evaluateSession(session, config, now);
+
+    try {
+      if (action === 'delete') {
+        await store.delete(session.sessionId);
+      } else if (action === 'save') {
+        await store.save(session);
+      }
+    } catch (error) {
+      // The session was changed by a tool call in the meantime - it is active again
+      if (error instanceof MCPToolError && error.code === ErrorCode.SESSION_CONFLICT) continue;
+      throw error;
+    }
+
+    for (const event of events) {
+      if (event.type === 'session.reminder') result.reminded++;
+      if (event.type === 'session.abandoned') result.abandoned++;
+      if (event.type === 'session.expired') result.expired++;
+      if (event.type === 'session.deleted') result.deleted++;
+
+      try {
+        await target.notify(event);
+      } catch (error) {
+        // Notification failures must not stop the sweep
+        console.error(`Failed to deliver ${event.type} for ${event.sessionId}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Run the lifecycle sweep periodically. Returns a function that stops it.
+export function startLifecycleScheduler(
+  store: FormationSessionStore,
+  config: LifecycleConfig = getLifecycleConfig()
+): () => void {
+  if (config.sweepIntervalMs <= 0) return () => undefined;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runLifecycleSweep(store, config);
+    } catch (error) {
+      console.error('Lifecycle sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, config.sweepIntervalMs);
+
+  // Never keep the process alive just for the sweep
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+// Run one lifecycle sweep on request, for hosting without long-running processes (Vercel Cron).
+// The caller must send `Authorization: Bearer <CRON_SECRET>`; the route answers 404 while
+// CRON_SECRET is unset.
+export async function handleLifecycleCron(
+  req: HttpRequest,
+  res: HttpResponse,
+  store: FormationSessionStore,
+  secret: string | undefined = process.env.CRON_SECRET
+): Promise<void> {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'method_not_allowed', message: 'Method not allowed' });
+    return;
+  }
+  if (!secret) {
+    res.status(404).json({ error: 'not_found', message: 'The lifecycle sweep is not enabled on this server' });
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(String(req.headers.authorization || ''));
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    res.status(401).json({ error: 'unauthorized', message: 'Invalid cron secret' });
+    return;
+  }
+
+  try {
+    res.status(200).json(await runLifecycleSweep(store));
+  } catch (error) {
+    console.error('Lifecycle sweep failed:', error);
+    res.status(500).json({ error: 'server_error', message: 'Lifecycle sweep failed' });
+  }
+}
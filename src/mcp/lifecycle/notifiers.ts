@@ -0,0 +1,32 @@
+import { LifecycleEvent, SessionNotifier } from './types';
+
+// Logs lifecycle events to stderr (stdout is reserved for the stdio transport)
+export class ConsoleNotifier implements SessionNotifier {
+  async notify(event: LifecycleEvent): Promise<void> {
+    console.error(`[lifecycle] ${event.type} ${event.sessionId} (${event.currentStep}, idle ${event.idleHours}h)`);
+  }
+}
+
+// POSTs lifecycle events as JSON to a webhook
+export class WebhookNotifier implements SessionNotifier {
+  constructor(private url: string, private timeoutMs: number = 5000) {}
+
+  async notify(event: LifecycleEvent): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Notifier webhook responded with ${response.status}`);
+    }
+  }
+}
+
+// Create the notifier configured by MCP_REMINDER_WEBHOOK_URL (console logging by default)
+export function createNotifier(): SessionNotifier {
+  const webhookUrl = process.env.MCP_REMINDER_WEBHOOK_URL;
+  return webhookUrl ? new WebhookNotifier(webhookUrl) : new ConsoleNotifier();
+}
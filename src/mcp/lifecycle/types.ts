@@ -0,0 +1,43 @@
+import { FormationStep, SessionStatus } from '../state/types';
+
+export interface LifecycleConfig {
+  // Sessions expire this long after their last activity
+  ttlMs: number;
+  // Sessions idle this long are marked abandoned
+  abandonAfterMs: number;
+  // Expired sessions can be recovered for this long before they are deleted
+  gracePeriodMs: number;
+  // Idle hours after which a reminder is sent for sessions that have not been paid for
+  reminderHours: number[];
+  // How often the lifecycle sweep runs (0 disables the scheduler)
+  sweepIntervalMs: number;
+}
+
+export type LifecycleEventType = 'session.reminder' | 'session.abandoned' | 'session.expired' | 'session.deleted';
+
+export interface LifecycleEvent {
+  type: LifecycleEventType;
+  sessionId: string;
+  userId?: string;
+  companyName?: string;
+  status: SessionStatus;
+  currentStep: FormationStep;
+  idleHours: number;
+  // Tool the user should call next (reminders only)
+  nextAction?: string;
+  // Recovery deadline for expired sessions
+  recoverableUntil?: string;
+  at: string;
+}
+
+// Receives lifecycle events, e.g. to email or message the user
+export interface SessionNotifier {
+  notify(event: LifecycleEvent): Promise<void>;
+}
+
+export interface LifecycleSweepResult {
+  reminded: number;
+  abandoned: number;
+  expired: number;
+  deleted: number;
+}
@@ -0,0 +1,260 @@
+import {
+  FormationSession,
+  FormationStep,
+  SessionInvalidation,
+  SessionStatus,
+  ENTITY_ENDINGS,
+  STATE_COMPANY_TYPES,
+  OWNER_ROLES_BY_COMPANY_TYPE,
+} from '../state/types';
+import { STEP_ORDER, isStepBefore } from '../state/steps';
+
+// Maximum number of invalidation records kept per session
+const MAX_INVALIDATIONS = 20;
+
+type InvalidationOutcome = Pick<SessionInvalidation, 'action' | 'reason'>;
+
+export interface StepDependency {
+  // Tool that sets the data for this step
+  tool: string;
+  // Upstream steps this step's data is derived from
+  dependsOn: FormationStep[];
+  // Data owned by this step - a change invalidates every dependent step
+  watch?: (session: FormationSession) => unknown;
+  // Clear, adjust or flag this step's data after an upstream change.
+  // Returns null when the data is still valid.
+  invalidate?: (session: FormationSession) => InvalidationOutcome | null;
+}
+
+// Drop a generated or approved certificate once the data it was generated from changes.
+// The session is rolled back so the certificate must be regenerated and re-approved.
+// Returns true if a certificate was invalidated.
+export function invalidateCertificate(session: FormationSession): boolean {
+  if (!session.certificateData) return false;
+
+  delete session.certificateData;
+
+  if (isStepBefore(FormationStep.AUTHORIZED_PARTY_SET, session.currentStep)) {
+    session.currentStep = FormationStep.AUTHORIZED_PARTY_SET;
+  }
+  if (session.status === SessionStatus.REVIEW || session.status === SessionStatus.COMPLETED) {
+    session.status = SessionStatus.IN_PROGRESS;
+  }
+
+  return true;
+}
+
+// Declarative dependency graph over formation steps
+export const STEP_DEPENDENCIES: Record<FormationStep, StepDependency> = {
+  [FormationStep.CREATED]: {
+    tool: 'formation_start',
+    dependsOn: [],
+  },
+  [FormationStep.BUSINESS_DESCRIBED]: {
+    tool: 'formation_describe_business',
+    dependsOn: [],
+    watch: s => s.companyDetails?.businessDescription,
+  },
+  [FormationStep.STATE_SELECTED]: {
+    tool: 'formation_set_state',
+    dependsOn: [],
+    watch: s => s.companyDetails?.state,
+  },
+  [FormationStep.TYPE_SELECTED]: {
+    tool: 'formation_set_company_type',
+    dependsOn: [FormationStep.STATE_SELECTED],
+    watch: s => s.companyDetails?.companyType,
+    invalidate: (s) => {
+      const state = s.companyDetails?.state;
+      const companyType = s.companyDetails?.companyType;
+
+      if (state && s.incorporator && state !== 'DE') {
+        delete s.incorporator;
+      }
+      if (state && companyType && !STATE_COMPANY_TYPES[state].includes(companyType)) {
+        delete s.companyDetails!.companyType;
+        return { action: 'cleared', reason: `${companyType} is not available in ${state}` };
+      }
+      return null;
+    },
+  },
+  [FormationStep.ENDING_SELECTED]: {
+    tool: 'formation_set_entity_ending',
+    dependsOn: [FormationStep.TYPE_SELECTED],
+    watch: s => s.companyDetails?.entityEnding,
+    invalidate: (s) => {
+      const entityEnding = s.companyDetails?.entityEnding;
+      const companyType = s.companyDetails?.companyType;
+
+      if (entityEnding && (!companyType || !ENTITY_ENDINGS[companyType].includes(entityEnding))) {
+        delete s.companyDetails!.entityEnding;
+        return { action: 'cleared', reason: `"${entityEnding}" is not a valid ending for ${companyType || 'the selected company type'}` };
+      }
+      return null;
+    },
+  },
+  [FormationStep.NAME_SET]: {
+    tool: 'formation_set_company_name',
+    dependsOn: [FormationStep.ENDING_SELECTED],
+    watch: s => s.companyDetails?.fullName,
+    invalidate: (s) => {
+      const details = s.companyDetails;
+      if (!details?.fullName) return null;
+
+      const expected = details.baseName && details.entityEnding
+        ? `${details.baseName} ${details.entityEnding}`
+        : undefined;
+      if (details.fullName === expected) return null;
+
+      if (expected) {
+        details.fullName = expected;
+        return { action: 'updated', reason: `Full legal name updated to "${expected}"` };
+      }
+      delete details.fullName;
+      return { action: 'cleared', reason: 'Full legal name needs a valid entity ending' };
+    },
+  },
+  [FormationStep.NAME_CHECKED]: {
+    tool: 'formation_check_name',
+    dependsOn: [FormationStep.NAME_SET, FormationStep.STATE_SELECTED],
+    watch: s => s.nameCheckResult,
+    invalidate: (s) => {
+      if (!s.nameCheckResult) return null;
+      delete s.nameCheckResult;
+      return { action: 'cleared', reason: 'Name availability must be checked again for the new name or state' };
+    },
+  },
+  [FormationStep.COMPANY_ADDRESS_SET]: {
+    tool: 'formation_set_company_address',
+    dependsOn: [],
+    watch: s => s.companyDetails?.companyAddress,
+  },
+  [FormationStep.AGENT_SET]: {
+    tool: 'formation_set_registered_agent',
+    dependsOn: [FormationStep.STATE_SELECTED],
+    watch: s => s.registeredAgent,
+    invalidate: (s) => {
+      const state = s.companyDetails?.state;
+      const agentState = s.registeredAgent?.address.state;
+      if (!state || !agentState || agentState === state) return null;
+      return { action: 'flagged', reason: `Registered agent address is in ${agentState} but the company is formed in ${state}` };
+    },
+  },
+  [FormationStep.SHARES_SET]: {
+    tool: 'formation_set_share_structure',
+    dependsOn: [FormationStep.TYPE_SELECTED],
+    watch: s => s.shareStructure,
+    invalidate: (s) => {
+      if (!s.shareStructure || s.companyDetails?.companyType !== 'LLC') return null;
+      delete s.shareStructure;
+      return { action: 'cleared', reason: 'LLCs do not have a share structure' };
+    },
+  },
+  [FormationStep.SHAREHOLDERS_ADDED]: {
+    tool: 'formation_add_shareholder',
+    dependsOn: [FormationStep.TYPE_SELECTED],
+    watch: s => s.shareholders,
+    invalidate: (s) => {
+      const companyType = s.companyDetails?.companyType;
+      if (!companyType) return null;
+
+      const validRoles = OWNER_ROLES_BY_COMPANY_TYPE[companyType];
+      const mismatched = s.shareholders.filter(sh => sh.role && !validRoles.includes(sh.role));
+      if (mismatched.length === 0) return null;
+
+      mismatched.forEach(sh => { sh.role = validRoles[0]; });
+      return { action: 'updated', reason: `Reset ${mismatched.length} owner role(s) to "${validRoles[0]}" for ${companyType}` };
+    },
+  },
+  [FormationStep.AUTHORIZED_PARTY_SET]: {
+    tool: 'formation_set_authorized_party',
+    dependsOn: [],
+    watch: s => s.authorizedParty,
+  },
+  [FormationStep.CERTIFICATE_GENERATED]: {
+    tool: 'formation_generate_certificate',
+    dependsOn: [
+      FormationStep.STATE_SELECTED,
+      FormationStep.TYPE_SELECTED,
+      FormationStep.NAME_SET,
+      FormationStep.AGENT_SET,
+      FormationStep.SHARES_SET,
+      FormationStep.SHAREHOLDERS_ADDED,
+      FormationStep.AUTHORIZED_PARTY_SET,
+    ],
+    watch: s => s.certificateData?.certificateId,
+    invalidate: (s) => invalidateCertificate(s)
+      ? { action: 'cleared', reason: 'Certificate was generated from outdated data and must be regenerated and approved again' }
+      : null,
+  },
+  [FormationStep.CERTIFICATE_APPROVED]: {
+    tool: 'formation_approve_certificate',
+    dependsOn: [FormationStep.CERTIFICATE_GENERATED],
+    watch: s => s.certificateData?.approvedAt,
+  },
+  [FormationStep.COMPLETED]: {
+    tool: 'formation_submit',
+    dependsOn: [FormationStep.CERTIFICATE_APPROVED],
+    invalidate: (s) => {
+      if (s.paymentStatus === 'pending') {
+        delete s.paymentStatus;
+        return { action: 'cleared', reason: 'Payment link must be requested again for the updated formation' };
+      }
+      if (s.paymentStatus === 'completed' && !s.submissionResult) {
+        return { action: 'flagged', reason: 'Payment was completed for earlier formation details - review before submitting' };
+      }
+      return null;
+    },
+  },
+};
+
+// All steps that directly or transitively depend on the given steps, in step order
+export function getDependentSteps(steps: FormationStep[]): FormationStep[] {
+  const dependents = new Set<FormationStep>();
+
+  // STEP_ORDER is topological: every step only depends on earlier steps
+  for (const step of STEP_ORDER) {
+    const upstream = STEP_DEPENDENCIES[step].dependsOn;
+    if (upstream.some(dep => steps.includes(dep) || dependents.has(dep))) {
+      dependents.add(step);
+    }
+  }
+
+  return STEP_ORDER.filter(step => dependents.has(step) && !steps.includes(step));
+}
+
+// Steps whose watched data differs between two versions of a session
+export function getChangedSteps(before: FormationSession, after: FormationSession): FormationStep[] {
+  return STEP_ORDER.filter((step) => {
+    const watch = STEP_DEPENDENCIES[step].watch;
+    return watch !== undefined && JSON.stringify(watch(before)) !== JSON.stringify(watch(after));
+  });
+}
+
+// Clear, adjust or flag everything downstream of the data changed between before and after.
+// Flags on steps whose data changed are resolved. Returns the new invalidation records.
+export function applyDependencyInvalidation(before: FormationSession, after: FormationSession): SessionInvalidation[] {
+  const changed = getChangedSteps(before, after);
+  if (changed.length === 0) return [];
+
+  const at = new Date().toISOString();
+  const records: SessionInvalidation[] = [];
+
+  for (const step of getDependentSteps(changed)) {
+    const outcome = STEP_DEPENDENCIES[step].invalidate?.(after);
+    if (outcome) {
+      records.push({ step, causedBy: changed, ...outcome, at });
+    }
+  }
+
+  const unresolved = (after.invalidations || []).filter(
+    record => !(record.action === 'flagged' && changed.includes(record.step))
+  );
+  const invalidations = [...unresolved, ...records].slice(-MAX_INVALIDATIONS);
+
+  if (invalidations.length > 0 || after.invalidations) {
+    after.invalidations = invalidations;
+  }
+
+  return records;
+}
@@ -0,0 +1,158 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { FormationSession, SessionEvent, SessionFieldChange } from '../state/types';
+import { normalizeStep } from '../state/steps';
+
+// Maximum number of events kept per session
+const MAX_HISTORY_EVENTS = 100;
+
+// Bookkeeping fields that are never recorded as changes
+const UNTRACKED_FIELDS = new Set([
+  'sessionId', 'version', 'createdAt', 'updatedAt', 'expiresAt', 'history', 'lastActivityAt', 'lifecycle',
+  'nameCheckJob',
+]);
+
+// Changes to these fields involve money or the backend and cannot be undone
+const IRREVERSIBLE_FIELDS = new Set([
+  'paymentStatus', 'paymentCompletedAt', 'payment', 'paymentShortfall', 'refundedCheckoutSessionIds', 'quote',
+  'submissionResult', 'submissionAttempt', 'submissionTimeline',
+]);
+
+// Tools that manage the history themselves
+const HISTORY_EXCLUDED_TOOLS = new Set(['formation_undo', 'formation_get_history']);
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T;
+}
+
+// Field-level diff between two versions of a session
+export function diffSessions(before: FormationSession, after: FormationSession): SessionFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: SessionFieldChange[] = [];
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const beforeValue = (before as unknown as Record<string, unknown>)[field];
+    const afterValue = (after as unknown as Record<string, unknown>)[field];
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: clone(beforeValue), after: clone(afterValue) });
+    }
+  }
+
+  return changes;
+}
+
+// Whether tool calls with this name should be recorded
+export function isHistoryTracked(toolName: string): boolean {
+  return !HISTORY_EXCLUDED_TOOLS.has(toolName);
+}
+
+// A tracked tool call in progress. Its event is created by the first write that changes the
+// session and extended by later writes of the same call.
+interface ToolCallRecording {
+  toolName: string;
+  args: Record<string, unknown>;
+  sessionId: string;
+  eventId?: string;
+  // Writes that outlive the call (e.g. a background name check) are not part of it
+  active: boolean;
+}
+
+const recordings = new AsyncLocalStorage<ToolCallRecording>();
+
+// Run a tool call so that every session write it makes is recorded in the session's history
+export async function runRecorded<T>(
+  toolName: string,
+  args: Record<string, unknown>,
+  sessionId: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const recording: ToolCallRecording = { toolName, args, sessionId, active: true };
+  try {
+    return await recordings.run(recording, fn);
+  } finally {
+    recording.active = false;
+  }
+}
+
+// Merge later changes of the same call into its event - the first `before` and the last `after` win
+function mergeChanges(recorded: SessionFieldChange[], changes: SessionFieldChange[]): SessionFieldChange[] {
+  const merged = recorded.map(change => ({ ...change }));
+  for (const change of changes) {
+    const existing = merged.find(item => item.field === change.field);
+    if (existing) {
+      existing.after = change.after;
+    } else {
+      merged.push(change);
+    }
+  }
+  return merged.filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+// Record the changes a write makes on the session it is about to save. Called by updateSession,
+// so the event is saved with the changes it describes and a concurrent write is never attributed
+// to the wrong call.
+export function recordChanges(before: FormationSession, after: FormationSession): void {
+  const recording = recordings.getStore();
+  if (!recording || !recording.active || recording.sessionId !== after.sessionId) return;
+
+  const changes = diffSessions(before, after);
+  if (changes.length === 0) return;
+
+  const history = [...(after.history || [])];
+  const index = recording.eventId ? history.findIndex(event => event.id === recording.eventId) : -1;
+
+  if (index >= 0) {
+    const merged = mergeChanges(history[index].changes, changes);
+    history[index] = {
+      ...history[index],
+      changes: merged,
+      reversible: !merged.some(change => IRREVERSIBLE_FIELDS.has(change.field)),
+    };
+  } else {
+    // sessionId is implied by the session the event belongs to
+    const eventArgs = { ...recording.args };
+    delete eventArgs.sessionId;
+    const event: SessionEvent = {
+      id: uuidv4(),
+      toolName: recording.toolName,
+      args: clone(eventArgs),
+      changes,
+      timestamp: new Date().toISOString(),
+      reversible: !changes.some(change => IRREVERSIBLE_FIELDS.has(change.field)),
+    };
+    history.push(event);
+    recording.eventId = event.id;
+  }
+
+  after.history = history.slice(-MAX_HISTORY_EVENTS);
+}
+
+// Events that can still be undone, most recent first
+export function getUndoableEvents(session: FormationSession): SessionEvent[] {
+  return (session.history || []).filter(event => !event.undoneAt).reverse();
+}
+
+// Revert the given events (most recent first) on the session
+export function revertEvents(session: FormationSession, events: SessionEvent[]): void {
+  const target = session as unknown as Record<string, unknown>;
+  const undoneAt = new Date().toISOString();
+
+  for (const event of events) {
+    for (const change of [...event.changes].reverse()) {
+      if (change.before === undefined) {
+        delete target[change.field];
+      } else {
+        target[change.field] = clone(change.before);
+      }
+    }
+
+    const recorded = session.history?.find(e => e.id === event.id);
+    if (recorded) {
+      recorded.undoneAt = undoneAt;
+    }
+  }
+
+  session.currentStep = normalizeStep(session.currentStep, session.companyDetails?.companyType);
+}
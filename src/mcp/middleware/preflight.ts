@@ -0,0 +1,255 @@
+import { FormationSession, FormationStep, STATE_COMPANY_TYPES } from '../state/types';
+import { MCPToolError, ErrorCode } from '../errors';
+
+// Point in the flow a session is validated for
+export type ValidationStage = 'payment' | 'submission';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  code: string;
+  severity: ValidationSeverity;
+  field: string;
+  message: string;
+  // Step and tool that fix the issue, if any
+  step?: FormationStep;
+  tool?: string;
+}
+
+export interface ValidationReport {
+  stage: ValidationStage;
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+interface ValidationRule {
+  code: string;
+  severity: ValidationSeverity;
+  field: string;
+  // Stages the rule applies to (default: all)
+  stages?: ValidationStage[];
+  step?: FormationStep;
+  tool?: string;
+  // Returns a message for each problem found
+  check: (session: FormationSession) => string | string[] | null;
+}
+
+// Ownership totals within this tolerance of 100% are accepted
+const OWNERSHIP_TOLERANCE = 0.01;
+
+// Single rule set shared by formation_validate, payment and submission
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    code: 'PAYMENT_REQUIRED',
+    severity: 'error',
+    field: 'payment',
+    stages: ['submission'],
+    tool: 'formation_get_payment_link',
+    check: s => s.paymentStatus !== 'completed'
+      ? 'Payment must be completed before submitting. Use formation_get_payment_link first.'
+      : null,
+  },
+  {
+    code: 'STATE_REQUIRED',
+    severity: 'error',
+    field: 'companyDetails.state',
+    step: FormationStep.STATE_SELECTED,
+    tool: 'formation_set_state',
+    check: s => !s.companyDetails?.state ? 'State is required' : null,
+  },
+  {
+    code: 'COMPANY_TYPE_REQUIRED',
+    severity: 'error',
+    field: 'companyDetails.entityType',
+    step: FormationStep.TYPE_SELECTED,
+    tool: 'formation_set_company_type',
+    check: s => !s.companyDetails?.companyType ? 'Company type is required' : null,
+  },
+  {
+    code: 'COMPANY_TYPE_NOT_AVAILABLE',
+    severity: 'error',
+    field: 'companyDetails.entityType',
+    step: FormationStep.TYPE_SELECTED,
+    tool: 'formation_set_company_type',
+    check: (s) => {
+      const { state, companyType } = s.companyDetails || {};
+      return state && companyType && !STATE_COMPANY_TYPES[state].includes(companyType)
+        ? `${companyType} is not available in ${state}`
+        : null;
+    },
+  },
+  {
+    code: 'COMPANY_NAME_REQUIRED',
+    severity: 'error',
+    field: 'companyDetails.name',
+    step: FormationStep.NAME_SET,
+    tool: 'formation_set_company_name',
+    check: s => !s.companyDetails?.fullName ? 'Company name is required' : null,
+  },
+  {
+    code: 'COMPANY_ADDRESS_REQUIRED',
+    severity: 'error',
+    field: 'companyDetails.companyAddress',
+    step: FormationStep.COMPANY_ADDRESS_SET,
+    tool: 'formation_set_company_address',
+    check: s => !s.companyDetails?.companyAddress ? 'Company address is required' : null,
+  },
+  {
+    code: 'REGISTERED_AGENT_REQUIRED',
+    severity: 'error',
+    field: 'registeredAgent',
+    step: FormationStep.AGENT_SET,
+    tool: 'formation_set_registered_agent',
+    check: s => !s.registeredAgent ? 'Registered agent is required' : null,
+  },
+  {
+    code: 'SHARE_STRUCTURE_REQUIRED',
+    severity: 'error',
+    field: 'shareStructure',
+    step: FormationStep.SHARES_SET,
+    tool: 'formation_set_share_structure',
+    check: s => s.companyDetails?.companyType === 'C-Corp' && !s.shareStructure
+      ? 'Share structure is required for a C-Corp'
+      : null,
+  },
+  {
+    code: 'SHAREHOLDERS_REQUIRED',
+    severity: 'error',
+    field: 'shareholders',
+    step: FormationStep.SHAREHOLDERS_ADDED,
+    tool: 'formation_add_shareholder',
+    check: s => !s.shareholders || s.shareholders.length === 0
+      ? 'At least one shareholder/member is required'
+      : null,
+  },
+  {
+    code: 'OWNERSHIP_TOTAL',
+    severity: 'error',
+    field: 'shareholders',
+    step: FormationStep.SHAREHOLDERS_ADDED,
+    tool: 'formation_update_shareholder',
+    check: (s) => {
+      if (!s.shareholders || s.shareholders.length === 0) return null;
+      const total = s.shareholders.reduce((sum, sh) => sum + sh.ownershipPercentage, 0);
+      return Math.abs(total - 100) > OWNERSHIP_TOLERANCE
+        ? `Shareholder ownership must sum to 100% (currently ${total}%)`
+        : null;
+    },
+  },
+  {
+    code: 'AUTHORIZED_PARTY_REQUIRED',
+    severity: 'error',
+    field: 'authorizedParty',
+    step: FormationStep.AUTHORIZED_PARTY_SET,
+    tool: 'formation_set_authorized_party',
+    check: s => !s.authorizedParty ? 'Authorized party is required' : null,
+  },
+  {
+    code: 'REGISTERED_AGENT_OUT_OF_STATE',
+    severity: 'warning',
+    field: 'registeredAgent.address.state',
+    step: FormationStep.AGENT_SET,
+    tool: 'formation_set_registered_agent',
+    check: (s) => {
+      const state = s.companyDetails?.state;
+      const agentState = s.registeredAgent?.address.state;
+      return state && agentState && agentState !== state
+        ? `Registered agent address is in ${agentState} but the company is formed in ${state}`
+        : null;
+    },
+  },
+  {
+    code: 'NAME_NOT_CHECKED',
+    severity: 'warning',
+    field: 'nameCheckResult',
+    step: FormationStep.NAME_CHECKED,
+    tool: 'formation_check_name',
+    check: s => s.companyDetails?.fullName && !s.nameCheckResult
+      ? 'Name availability has not been checked'
+      : null,
+  },
+  {
+    code: 'NAME_UNAVAILABLE',
+    severity: 'warning',
+    field: 'nameCheckResult',
+    step: FormationStep.NAME_SET,
+    tool: 'formation_set_company_name',
+    check: s => s.nameCheckResult && !s.nameCheckResult.available && !s.nameCheckResult.error
+      ? `The name was reported unavailable${s.nameCheckResult.reason ? `: ${s.nameCheckResult.reason}` : ''}`
+      : null,
+  },
+  {
+    code: 'CERTIFICATE_NOT_APPROVED',
+    severity: 'error',
+    field: 'certificateData',
+    step: FormationStep.CERTIFICATE_APPROVED,
+    tool: 'formation_approve_certificate',
+    check: (s) => {
+      if (!s.certificateData) return 'Certificate has not been generated';
+      return !s.certificateData.approvedAt ? 'Certificate has not been approved' : null;
+    },
+  },
+  {
+    code: 'CERTIFICATE_URL_EXPIRED',
+    severity: 'warning',
+    field: 'certificateData.expiresAt',
+    step: FormationStep.CERTIFICATE_GENERATED,
+    tool: 'formation_generate_certificate',
+    check: s => s.certificateData?.expiresAt && new Date(s.certificateData.expiresAt) < new Date()
+      ? 'Certificate review URL has expired'
+      : null,
+  },
+  {
+    code: 'FLAGGED_FOR_REVIEW',
+    severity: 'warning',
+    field: 'invalidations',
+    check: s => (s.invalidations || [])
+      .filter(invalidation => invalidation.action === 'flagged')
+      .map(invalidation => invalidation.reason),
+  },
+];
+
+// Evaluate every rule for the stage and collect all errors and warnings
+export function validateSession(session: FormationSession, stage: ValidationStage): ValidationReport {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  for (const rule of VALIDATION_RULES) {
+    if (rule.stages && !rule.stages.includes(stage)) continue;
+
+    const result = rule.check(session);
+    const messages = result === null ? [] : Array.isArray(result) ? result : [result];
+
+    for (const message of messages) {
+      const issue: ValidationIssue = {
+        code: rule.code,
+        severity: rule.severity,
+        field: rule.field,
+        message,
+        ...(rule.step && { step: rule.step }),
+        ...(rule.tool && { tool: rule.tool }),
+      };
+      (rule.severity === 'error' ? errors : warnings).push(issue);
+    }
+  }
+
+  return { stage, valid: errors.length === 0, errors, warnings };
+}
+
+// Throw a validation error listing every blocking issue for the stage
+export function assertSessionValid(session: FormationSession, stage: ValidationStage): ValidationReport {
+  const report = validateSession(session, stage);
+  if (report.valid) return report;
+
+  const [first] = report.errors;
+  throw new MCPToolError({
+    code: ErrorCode.VALIDATION_ERROR,
+    message: report.errors.length === 1
+      ? `Validation error for ${first.field}: ${first.message}`
+      : `${report.errors.length} validation errors: ${report.errors.map(e => e.message).join('; ')}`,
+    details: { field: first.field, errors: report.errors, warnings: report.warnings },
+    retryable: true,
+    suggestion: 'Use formation_validate to see every issue, then fix them with the listed tools',
+  });
+}
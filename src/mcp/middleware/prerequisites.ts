@@ -0,0 +1,84 @@
+import { FormationSession, FormationStep } from '../state/types';
+import { getStepOrder } from '../state/steps';
+import { STEP_DEPENDENCIES } from './dependencies';
+import { invalidState } from '../errors';
+
+// Steps whose data must be present before a tool can run.
+// Steps that do not apply to the company type (e.g. SHARES_SET for an LLC) are skipped.
+const FORMATION_DATA_STEPS: FormationStep[] = [
+  FormationStep.STATE_SELECTED,
+  FormationStep.TYPE_SELECTED,
+  FormationStep.NAME_SET,
+  FormationStep.COMPANY_ADDRESS_SET,
+  FormationStep.AGENT_SET,
+  FormationStep.SHAREHOLDERS_ADDED,
+  FormationStep.AUTHORIZED_PARTY_SET,
+];
+
+export const TOOL_PREREQUISITES: Record<string, FormationStep[]> = {
+  formation_set_company_type: [FormationStep.STATE_SELECTED],
+  formation_set_entity_ending: [FormationStep.TYPE_SELECTED],
+  formation_set_company_name: [FormationStep.ENDING_SELECTED],
+  formation_check_name: [FormationStep.NAME_SET],
+  formation_set_registered_agent: [FormationStep.STATE_SELECTED],
+  formation_set_share_structure: [FormationStep.TYPE_SELECTED],
+  formation_add_shareholder: [FormationStep.TYPE_SELECTED],
+  formation_update_shareholder: [FormationStep.TYPE_SELECTED],
+  formation_remove_shareholder: [FormationStep.TYPE_SELECTED],
+  formation_generate_certificate: [
+    FormationStep.STATE_SELECTED,
+    FormationStep.TYPE_SELECTED,
+    FormationStep.NAME_SET,
+    FormationStep.AGENT_SET,
+    FormationStep.SHARES_SET,
+    FormationStep.SHAREHOLDERS_ADDED,
+    FormationStep.AUTHORIZED_PARTY_SET,
+  ],
+  formation_apply_promo_code: [FormationStep.TYPE_SELECTED],
+  formation_get_payment_link: FORMATION_DATA_STEPS,
+  formation_submit: FORMATION_DATA_STEPS,
+};
+
+// Whether the data a step collects is present on the session
+export function isStepComplete(session: FormationSession, step: FormationStep): boolean {
+  const watch = STEP_DEPENDENCIES[step].watch;
+  if (!watch) return false;
+
+  const value = watch(session);
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== '';
+}
+
+// First step in the flow whose data is missing (the optional name check is skipped)
+export function getFirstIncompleteStep(session: FormationSession): FormationStep {
+  const steps = getStepOrder(session.companyDetails?.companyType);
+  return steps.find(step =>
+    step !== FormationStep.CREATED
+    && step !== FormationStep.NAME_CHECKED
+    && !isStepComplete(session, step)
+  ) || FormationStep.COMPLETED;
+}
+
+// Prerequisite steps of a tool that have not been completed, in step order
+export function getMissingSteps(toolName: string, session: FormationSession): FormationStep[] {
+  const required = TOOL_PREREQUISITES[toolName];
+  if (!required) return [];
+
+  const applicable = getStepOrder(session.companyDetails?.companyType);
+  return applicable.filter(step => required.includes(step) && !isStepComplete(session, step));
+}
+
+export function hasPrerequisites(toolName: string): boolean {
+  return toolName in TOOL_PREREQUISITES;
+}
+
+// Throw SESSION_INVALID_STATE listing every missing prerequisite step
+export function assertPrerequisites(toolName: string, session: FormationSession): void {
+  const missing = getMissingSteps(toolName, session);
+  if (missing.length === 0) return;
+
+  throw invalidState(
+    missing.join(', '),
+    session.currentStep,
+    missing.map(step => ({ step, tool: STEP_DEPENDENCIES[step].tool }))
+  );
+}
@@ -1,43 +1,15 @@
 import { FormationSession, FormationStep, CompanyType } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { sessionNotFound, sessionExpired } from '../errors';
-
-// Step order for progress calculation (C-Corp)
-const STEP_ORDER: FormationStep[] = [
-  FormationStep.CREATED,
-  FormationStep.BUSINESS_DESCRIBED,
-  FormationStep.STATE_SELECTED,
-  FormationStep.TYPE_SELECTED,
-  FormationStep.ENDING_SELECTED,
-  FormationStep.NAME_SET,
-  FormationStep.NAME_CHECKED,
-  FormationStep.COMPANY_ADDRESS_SET,
-  FormationStep.AGENT_SET,
-  FormationStep.SHARES_SET,
-  FormationStep.SHAREHOLDERS_ADDED,
-  FormationStep.AUTHORIZED_PARTY_SET,
-  FormationStep.CERTIFICATE_GENERATED,
-  FormationStep.CERTIFICATE_APPROVED,
-  FormationStep.COMPLETED,
-];
-
-// Steps for LLC (no share structure)
-const LLC_STEP_ORDER: FormationStep[] = [
-  FormationStep.CREATED,
-  FormationStep.BUSINESS_DESCRIBED,
-  FormationStep.STATE_SELECTED,
-  FormationStep.TYPE_SELECTED,
-  FormationStep.ENDING_SELECTED,
-  FormationStep.NAME_SET,
-  FormationStep.NAME_CHECKED,
-  FormationStep.COMPANY_ADDRESS_SET,
-  FormationStep.AGENT_SET,
-  FormationStep.SHAREHOLDERS_ADDED,
-  FormationStep.AUTHORIZED_PARTY_SET,
-  FormationStep.CERTIFICATE_GENERATED,
-  FormationStep.CERTIFICATE_APPROVED,
-  FormationStep.COMPLETED,
-];
+import { getStepOrder } from '../state/steps';
+import { applyDependencyInvalidation } from './dependencies';
+import { touchSession, getRecoverableUntil, isRetainedSession } from '../lifecycle';
+import { recordChanges } from './history';
+import { sessionNotFound, sessionExpired, MCPToolError, ErrorCode } from '../errors';
+
+export { normalizeStep } from '../state/steps';
+
+// Attempts made by updateSession before giving up on a conflicting session
+const MAX_UPDATE_ATTEMPTS = 3;
 
 // Load and validate session
 export async function loadSession(sessionId: string, store: FormationSessionStore): Promise<FormationSession> {
@@ -47,17 +19,76 @@ export async function loadSession(sessionId: string, store: FormationSessionStor
     throw sessionNotFound(sessionId);
   }
 
-  // Check expiration
-  if (new Date(session.expiresAt) < new Date()) {
-    throw sessionExpired(sessionId);
+  // Check expiration - expired sessions can be recovered during the grace period.
+  // Paid and submitted formations do not expire.
+  const now = new Date();
+  if (new Date(session.expiresAt) < now && !isRetainedSession(session)) {
+    const recoverableUntil = getRecoverableUntil(session);
+    throw sessionExpired(sessionId, recoverableUntil > now ? recoverableUntil.toISOString() : undefined);
   }
 
   return session;
 }
 
-// Get step order based on company type
-function getStepOrder(companyType?: CompanyType): FormationStep[] {
-  return companyType === 'LLC' ? LLC_STEP_ORDER : STEP_ORDER;
+// Load a session, apply a mutation and save it, retrying on SESSION_CONFLICT.
+// The mutation is re-applied to a freshly loaded session on each attempt, so
+// concurrent tool calls that change different fields are merged rather than lost.
+// Downstream data that depended on the changed fields is invalidated and the expiry is extended before saving.
+// Inside a tracked tool call the change is added to the call's history event in the same save.
+// Errors thrown by the mutation itself (e.g. validation errors) are not retried.
+export async function updateSession(
+  sessionId: string,
+  store: FormationSessionStore,
+  mutate: (session: FormationSession) => void | Promise<void>,
+  maxAttempts: number = MAX_UPDATE_ATTEMPTS
+): Promise<FormationSession> {
+  return saveWithRetry(sessionId, store, mutate, maxAttempts, true);
+}
+
+// Apply a change reported by the backend (e.g. a filing status callback) to a stored session.
+// Filings outlive the session's expiry, so expired sessions are updated too - and the update
+// is not user activity, so it does not extend the expiry. Same retries as updateSession.
+export async function updateStoredSession(
+  sessionId: string,
+  store: FormationSessionStore,
+  mutate: (session: FormationSession) => void | Promise<void>,
+  maxAttempts: number = MAX_UPDATE_ATTEMPTS
+): Promise<FormationSession> {
+  return saveWithRetry(sessionId, store, mutate, maxAttempts, false);
+}
+
+async function saveWithRetry(
+  sessionId: string,
+  store: FormationSessionStore,
+  mutate: (session: FormationSession) => void | Promise<void>,
+  maxAttempts: number,
+  activity: boolean
+): Promise<FormationSession> {
+  for (let attempt = 1; ; attempt++) {
+    const session = activity ? await loadSession(sessionId, store) : await store.get(sessionId);
+    if (!session) {
+      throw sessionNotFound(sessionId);
+    }
+    const before: FormationSession = JSON.parse(JSON.stringify(session));
+    await mutate(session);
+
+    // Clear or flag data that depended on anything the mutation changed
+    applyDependencyInvalidation(before, session);
+    // Any change by the user counts as activity and keeps the session alive
+    if (activity) touchSession(session);
+    // Record the change in the history of the tool call making it, in the same save
+    recordChanges(before, session);
+
+    try {
+      await store.save(session);
+      return session;
+    } catch (error) {
+      const isConflict = error instanceof MCPToolError && error.code === ErrorCode.SESSION_CONFLICT;
+      if (!isConflict || attempt >= maxAttempts) {
+        throw error;
+      }
+    }
+  }
 }
 
 // Calculate progress percentage
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { ErrorCode, MCPToolError } from '../errors';
+import type { HttpRequest, HttpResponse } from '../protocol';
+import { WebhookSignatureError, verifyWebhookSignature } from '../webhooks/signature';
+import { LocalStripe } from './local';
+import { STRIPE_SIGNATURE_HEADER, StripeClient, toCheckoutSession } from './stripe';
+import { recordPayment, recordRefund } from './record';
+import { PaymentEventOutcome, PaymentProvider, PaymentProviderType, StripeChargeObject } from './types';
+
+export * from './types';
+export { StripeClient, StripeApiError, STRIPE_SIGNATURE_HEADER, toCheckoutSession } from './stripe';
+export { LocalStripe, createLocalStripeRouter } from './local';
+export type { LocalStripeOptions } from './local';
+export { applyPayment, applyRefund, recordPayment, recordRefund } from './record';
+
+const PROVIDER_TYPES: PaymentProviderType[] = ['stripe', 'local'];
+
+// Customers return to the Lovie dashboard after paying
+const DEFAULT_SUCCESS_URL = 'https://lovie-web.vercel.app/dashboard';
+
+// Create the payment provider configured by environment variables
+//   MCP_PAYMENT_PROVIDER  - stripe (default) or local, an offline stand-in for development
+//   STRIPE_SECRET_KEY     - key with write access to Checkout Sessions, to take and verify payments
+//   STRIPE_SUCCESS_URL    - page customers return to after paying
+export function createPaymentProvider(): PaymentProvider {
+  const requested = (process.env.MCP_PAYMENT_PROVIDER || 'stripe').toLowerCase();
+  if (!PROVIDER_TYPES.includes(requested as PaymentProviderType)) {
+    throw new Error(`Invalid MCP_PAYMENT_PROVIDER "${requested}". Valid options: ${PROVIDER_TYPES.join(', ')}`);
+  }
+  if (requested === 'local') {
+    return new LocalStripe({ baseUrl: 'http://localhost:3001/stripe' });
+  }
+
+  return new StripeClient({
+    secretKey: process.env.STRIPE_SECRET_KEY,
+    successUrl: process.env.STRIPE_SUCCESS_URL || DEFAULT_SUCCESS_URL,
+  });
+}
+
+let provider: PaymentProvider | null = null;
+
+// Replace the provider payments are taken and verified with
+export function setPaymentProvider(next: PaymentProvider): void {
+  provider = next;
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = createPaymentProvider();
+  }
+  return provider;
+}
+
+// Signing secrets of the Stripe webhook endpoint (STRIPE_WEBHOOK_SECRET, comma-separated while
+// rolling the secret). The endpoint is disabled when there are none.
+export function getStripeWebhookSecrets(): string[] {
+  return (process.env.STRIPE_WEBHOOK_SECRET || '').split(',').map(secret => secret.trim()).filter(Boolean);
+}
+
+const checkoutSessionSchema = z.object({
+  id: z.string().min(1),
+  object: z.literal('checkout.session'),
+  client_reference_id: z.string().nullable(),
+  status: z.enum(['open', 'complete', 'expired']),
+  payment_status: z.enum(['paid', 'unpaid', 'no_payment_required']),
+  amount_total: z.number().int().nullable(),
+  currency: z.string().nullable(),
+  payment_intent: z.string().nullable(),
+  created: z.number().int(),
+});
+
+const chargeSchema = z.object({
+  id: z.string().min(1),
+  object: z.literal('charge'),
+  payment_intent: z.string().nullable(),
+  amount: z.number().int(),
+  amount_refunded: z.number().int(),
+  currency: z.string(),
+  refunded: z.boolean(),
+});
+
+// Event envelope. Only checkout.session.completed and charge.refunded are acted on - other
+// event types are acknowledged and ignored.
+const stripeEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  data: z.object({ object: z.unknown() }),
+});
+
+// Stripe webhook. The signature is checked against the raw body, so the caller must pass the
+// body exactly as it was received.
+export async function handleStripeWebhook(
+  req: HttpRequest,
+  rawBody: string,
+  res: HttpResponse,
+  store: FormationSessionStore
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'method_not_allowed', message: 'Method not allowed' });
+    return;
+  }
+
+  const secrets = getStripeWebhookSecrets();
+  if (secrets.length === 0) {
+    res.status(404).json({ error: 'not_found', message: 'Stripe webhooks are not enabled on this server' });
+    return;
+  }
+
+  const signature = req.headers[STRIPE_SIGNATURE_HEADER];
+  try {
+    verifyWebhookSignature(rawBody, Array.isArray(signature) ? signature[0] : signature, secrets);
+  } catch (error) {
+    if (!(error instanceof WebhookSignatureError)) throw error;
+    res.status(401).json({ error: 'invalid_signature', message: error.message });
+    return;
+  }
+
+  let event: z.infer<typeof stripeEventSchema>;
+  let apply: (() => Promise<PaymentEventOutcome>) | null = null;
+  try {
+    event = stripeEventSchema.parse(JSON.parse(rawBody));
+    const eventId = event.id;
+
+    if (event.type === 'checkout.session.completed') {
+      const checkout = checkoutSessionSchema.parse(event.data.object);
+      // Delayed payment methods complete the checkout before the money arrives
+      if (checkout.client_reference_id && checkout.payment_status === 'paid') {
+        const sessionId = checkout.client_reference_id;
+        apply = () => recordPayment(store, sessionId, toCheckoutSession(checkout), 'webhook', eventId);
+      }
+    } else if (event.type === 'charge.refunded') {
+      const charge: StripeChargeObject = chargeSchema.parse(event.data.object);
+      if (charge.payment_intent) {
+        const paymentIntent = charge.payment_intent;
+        // Charges do not carry the client_reference_id - the Checkout Session that created them does
+        apply = async () => {
+          const checkout = await getPaymentProvider().findCheckoutSessionByPaymentIntent(paymentIntent);
+          return checkout?.clientReferenceId
+            ? recordRefund(store, checkout.clientReferenceId, charge, eventId)
+            : 'ignored';
+        };
+      }
+    }
+  } catch (error) {
+    res.status(400).json({
+      error: 'invalid_payload',
+      message: error instanceof z.ZodError
+        ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : 'Body must be JSON',
+    });
+    return;
+  }
+
+  if (!apply) {
+    res.status(200).json({ received: true, outcome: 'ignored' });
+    return;
+  }
+
+  try {
+    res.status(200).json({ received: true, outcome: await apply() });
+  } catch (error) {
+    // Retrying will not make an unknown session appear, so the event is acknowledged
+    if (error instanceof MCPToolError && (error.code === ErrorCode.SESSION_NOT_FOUND || error.code === ErrorCode.SESSION_EXPIRED)) {
+      res.status(202).json({ received: true, outcome: 'ignored', message: error.message });
+      return;
+    }
+    console.error(`Failed to apply Stripe event ${event.id}:`, error);
+    res.status(500).json({ error: 'server_error', message: 'Event could not be applied - please retry' });
+  }
+}
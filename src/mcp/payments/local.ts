@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import express, { Router, Request, Response } from 'express';
+import { signWebhookPayload } from '../webhooks/signature';
+import { STRIPE_SIGNATURE_HEADER, toCheckoutSession } from './stripe';
+import {
+  CheckoutSession,
+  CreateCheckoutOptions,
+  FindCheckoutSessionsOptions,
+  PaymentProvider,
+  StripeChargeObject,
+  StripeCheckoutSessionObject,
+  StripeEvent,
+} from './types';
+
+// Stand-in for Stripe for local development and tests. Opening a checkout page pays it at
+// once, and events are signed and delivered like Stripe's - never run it in production.
+
+export interface LocalStripeOptions {
+  // Base URL of the stand-in's routes, e.g. http://localhost:3001/stripe
+  baseUrl: string;
+  // Webhook endpoint events are delivered to - events are not delivered when unset
+  webhookUrl?: string;
+  // Secret events are signed with, as STRIPE_WEBHOOK_SECRET
+  webhookSecret?: string;
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_local_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+export class LocalStripe implements PaymentProvider {
+  readonly baseUrl: string;
+  private readonly webhookUrl?: string;
+  private readonly webhookSecret?: string;
+  private readonly checkoutSessions = new Map<string, StripeCheckoutSessionObject>();
+  // Charges by payment intent
+  private readonly charges = new Map<string, StripeChargeObject>();
+
+  constructor(options: LocalStripeOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.webhookUrl = options.webhookUrl;
+    this.webhookSecret = options.webhookSecret;
+  }
+
+  async createCheckout(options: CreateCheckoutOptions): Promise<{ checkoutSession: CheckoutSession; url: string }> {
+    const object: StripeCheckoutSessionObject = {
+      id: randomId('cs'),
+      object: 'checkout.session',
+      client_reference_id: options.clientReferenceId,
+      status: 'open',
+      payment_status: 'unpaid',
+      amount_total: options.quote.total,
+      currency: options.quote.currency,
+      payment_intent: null,
+      created: Math.floor(Date.now() / 1000),
+      expires_at: options.expiresAt,
+    };
+    object.url = `${this.baseUrl}/checkout/${object.id}`;
+    this.checkoutSessions.set(object.id, object);
+    return { checkoutSession: toCheckoutSession(object), url: object.url };
+  }
+
+  async findCheckoutSessions(clientReferenceId: string, options: FindCheckoutSessionsOptions = {}): Promise<CheckoutSession[]> {
+    return [...this.checkoutSessions.values()]
+      .filter(object => object.client_reference_id === clientReferenceId)
+      .filter(object => options.createdAfter === undefined || object.created >= options.createdAfter)
+      .map(toCheckoutSession)
+      .sort((a, b) => b.created - a.created);
+  }
+
+  async findCheckoutSessionByPaymentIntent(paymentIntentId: string): Promise<CheckoutSession | null> {
+    const object = [...this.checkoutSessions.values()].find(candidate => candidate.payment_intent === paymentIntentId);
+    return object ? toCheckoutSession(object) : null;
+  }
+
+  // Pay an open Checkout Session the way a customer completes Stripe Checkout
+  pay(checkoutSessionId: string): StripeEvent<StripeCheckoutSessionObject> {
+    const object = this.checkoutSessions.get(checkoutSessionId);
+    if (!object || object.status !== 'open') {
+      throw new Error(`No open checkout session: ${checkoutSessionId}`);
+    }
+    if (object.expires_at !== undefined && object.expires_at * 1000 <= Date.now()) {
+      Object.assign(object, { status: 'expired', url: null });
+      throw new Error(`Checkout session expired: ${checkoutSessionId}`);
+    }
+
+    const paymentIntent = randomId('pi');
+    Object.assign(object, { status: 'complete', payment_status: 'paid', payment_intent: paymentIntent, url: null });
+    this.charges.set(paymentIntent, {
+      id: randomId('ch'),
+      object: 'charge',
+      payment_intent: paymentIntent,
+      amount: object.amount_total ?? 0,
+      amount_refunded: 0,
+      currency: object.currency ?? 'usd',
+      refunded: false,
+    });
+    return this.createEvent('checkout.session.completed', { ...object });
+  }
+
+  // Refund a payment, in full unless an amount is given
+  refund(paymentIntentId: string, amount?: number): StripeEvent<StripeChargeObject> {
+    const charge = this.charges.get(paymentIntentId);
+    if (!charge) {
+      throw new Error(`No such payment_intent: ${paymentIntentId}`);
+    }
+    if (amount !== undefined && !(Number.isInteger(amount) && amount > 0)) {
+      throw new Error('amount must be a positive integer');
+    }
+    charge.amount_refunded = Math.min(charge.amount, charge.amount_refunded + (amount ?? charge.amount));
+    charge.refunded = charge.amount_refunded === charge.amount;
+    return this.createEvent('charge.refunded', { ...charge });
+  }
+
+  // Body and signature header of an event, as Stripe sends them
+  signEvent(event: StripeEvent): { body: string; signature: string } {
+    if (!this.webhookSecret) {
+      throw new Error('The local Stripe has no webhook secret to sign events with');
+    }
+    const body = JSON.stringify(event);
+    return { body, signature: signWebhookPayload(body, this.webhookSecret) };
+  }
+
+  // Send an event to the webhook endpoint. Returns false when webhooks are not configured.
+  async deliver(event: StripeEvent): Promise<boolean> {
+    if (!this.webhookUrl || !this.webhookSecret) return false;
+
+    const { body, signature } = this.signEvent(event);
+    const response = await fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [STRIPE_SIGNATURE_HEADER]: signature },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook endpoint responded with ${response.status}`);
+    }
+    return true;
+  }
+
+  private createEvent<T>(type: string, object: T): StripeEvent<T> {
+    return { id: randomId('evt'), object: 'event', type, created: Math.floor(Date.now() / 1000), data: { object } };
+  }
+}
+
+// Routes of the local Stripe: checkout pages and the refunds API
+export function createLocalStripeRouter(stripe: LocalStripe): Router {
+  const router = Router();
+  const basePath = new URL(stripe.baseUrl).pathname.replace(/\/+$/, '');
+
+  // Delivery failures are logged - the payment can still be found by formation_confirm_payment
+  const deliver = async (event: StripeEvent) => {
+    try {
+      return await stripe.deliver(event);
+    } catch (error) {
+      console.error(`Failed to deliver local Stripe event ${event.type}:`, error);
+      return false;
+    }
+  };
+
+  router.get(`${basePath}/checkout/:id`, async (req: Request, res: Response) => {
+    let event: StripeEvent<StripeCheckoutSessionObject>;
+    try {
+      event = stripe.pay(req.params.id);
+    } catch (error) {
+      res.status(404).json({ error: { message: error instanceof Error ? error.message : 'Checkout failed' } });
+      return;
+    }
+
+    const delivered = await deliver(event);
+    res.json({
+      paid: true,
+      checkoutSession: event.data.object,
+      webhookDelivered: delivered,
+      message: 'Payment complete. Return to your assistant to continue.',
+    });
+  });
+
+  // Refunds are form-encoded, like Stripe's POST /v1/refunds
+  router.post(`${basePath}/v1/refunds`, express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+    const paymentIntent = req.body?.payment_intent;
+    const amount = req.body?.amount === undefined ? undefined : Number(req.body.amount);
+    try {
+      const event = stripe.refund(String(paymentIntent), amount);
+      await deliver(event);
+      res.json(event.data.object);
+    } catch (error) {
+      res.status(400).json({ error: { message: error instanceof Error ? error.message : 'Refund failed' } });
+    }
+  });
+
+  return router;
+}
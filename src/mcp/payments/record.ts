@@ -0,0 +1,128 @@
+import { FormationSession, PaymentDetails } from '../state/types';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { updateSession } from '../middleware/session';
+import { recordPromoCodeClaim, redeemPromoCode } from '../promo';
+import { CheckoutSession, PaymentEventOutcome, StripeChargeObject } from './types';
+
+// Applied Stripe event IDs kept per session
+const MAX_EVENT_IDS = 20;
+
+function rememberEvent(payment: PaymentDetails, eventId?: string): void {
+  if (eventId) {
+    payment.eventIds = [...(payment.eventIds ?? []), eventId].slice(-MAX_EVENT_IDS);
+  }
+}
+
+// Mark a session as paid by a paid Checkout Session. The webhook and formation_confirm_payment
+// can both report the same payment - whichever comes second leaves the session as it is.
+export function applyPayment(
+  session: FormationSession,
+  checkout: CheckoutSession,
+  verifiedBy: PaymentDetails['verifiedBy'],
+  eventId?: string
+): PaymentEventOutcome {
+  const current = session.payment;
+  if (eventId && current?.eventIds?.includes(eventId)) {
+    return 'duplicate';
+  }
+  if (session.refundedCheckoutSessionIds?.includes(checkout.id)) {
+    if (current) rememberEvent(current, eventId);
+    return 'unchanged';
+  }
+  if (current && (current.checkoutSessionId === checkout.id || session.paymentStatus === 'completed')) {
+    // A second Checkout Session for a paid session means the customer paid twice
+    if (current.checkoutSessionId !== checkout.id) {
+      console.error(`Session ${session.sessionId} was paid again by ${checkout.id} - refund one of the payments in Stripe`);
+    }
+    rememberEvent(current, eventId);
+    return 'unchanged';
+  }
+  // A checkout for an earlier, cheaper quote does not pay for the current one. The money was
+  // taken though, so the session is flagged for a refund or top-up.
+  if (session.quote && checkout.amountTotal !== null && checkout.amountTotal < session.quote.total) {
+    if (session.paymentShortfall?.checkoutSessionId !== checkout.id) {
+      console.error(`Session ${session.sessionId} was paid ${checkout.amountTotal} by ${checkout.id}, less than the quoted ${session.quote.total} - refund it or collect the difference in Stripe`);
+      session.paymentShortfall = {
+        checkoutSessionId: checkout.id,
+        amountTotal: checkout.amountTotal,
+        quotedTotal: session.quote.total,
+        ...(checkout.currency && { currency: checkout.currency }),
+        detectedAt: new Date().toISOString(),
+      };
+    }
+    return 'underpaid';
+  }
+
+  const paidAt = new Date().toISOString();
+  const payment: PaymentDetails = {
+    checkoutSessionId: checkout.id,
+    ...(checkout.paymentIntentId && { paymentIntentId: checkout.paymentIntentId }),
+    ...(checkout.amountTotal !== null && { amountTotal: checkout.amountTotal }),
+    ...(checkout.currency && { currency: checkout.currency }),
+    verifiedBy,
+    paidAt,
+  };
+  rememberEvent(payment, eventId);
+
+  session.payment = payment;
+  session.paymentStatus = 'completed';
+  session.paymentCompletedAt = paidAt;
+  redeemPromoCode(session, paidAt);
+  return 'applied';
+}
+
+// Record a refund of the session's payment. Only a full refund takes the payment back.
+export function applyRefund(session: FormationSession, charge: StripeChargeObject, eventId?: string): PaymentEventOutcome {
+  const payment = session.payment;
+  if (!payment || !charge.payment_intent || payment.paymentIntentId !== charge.payment_intent) {
+    return 'ignored';
+  }
+  if (eventId && payment.eventIds?.includes(eventId)) {
+    return 'duplicate';
+  }
+
+  rememberEvent(payment, eventId);
+  if (payment.amountRefunded === charge.amount_refunded) {
+    return 'unchanged';
+  }
+
+  payment.amountRefunded = charge.amount_refunded;
+  if (charge.refunded) {
+    payment.refundedAt = new Date().toISOString();
+    session.paymentStatus = 'refunded';
+    if (!session.refundedCheckoutSessionIds?.includes(payment.checkoutSessionId)) {
+      session.refundedCheckoutSessionIds = [...(session.refundedCheckoutSessionIds ?? []), payment.checkoutSessionId];
+    }
+  }
+  return 'applied';
+}
+
+export async function recordPayment(
+  store: FormationSessionStore,
+  sessionId: string,
+  checkout: CheckoutSession,
+  verifiedBy: PaymentDetails['verifiedBy'],
+  eventId?: string
+): Promise<PaymentEventOutcome> {
+  let outcome = 'unchanged' as PaymentEventOutcome;
+  const updated = await updateSession(sessionId, store, (session) => {
+    outcome = applyPayment(session, checkout, verifiedBy, eventId);
+  });
+  if (outcome === 'applied' && updated.promo?.redeemedAt) {
+    await recordPromoCodeClaim(store, sessionId, updated.promo.code);
+  }
+  return outcome;
+}
+
+export async function recordRefund(
+  store: FormationSessionStore,
+  sessionId: string,
+  charge: StripeChargeObject,
+  eventId?: string
+): Promise<PaymentEventOutcome> {
+  let outcome = 'unchanged' as PaymentEventOutcome;
+  await updateSession(sessionId, store, (session) => {
+    outcome = applyRefund(session, charge, eventId);
+  });
+  return outcome;
+}
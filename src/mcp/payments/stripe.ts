@@ -0,0 +1,152 @@
+import axios from 'axios';
+import {
+  CheckoutSession,
+  CreateCheckoutOptions,
+  FindCheckoutSessionsOptions,
+  PaymentProvider,
+  StripeCheckoutSessionObject,
+} from './types';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Header of webhook signatures: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">,
+// the same scheme as the Lovie backend's callbacks
+export const STRIPE_SIGNATURE_HEADER = 'stripe-signature';
+
+// Checkout Sessions read per page, and pages read per lookup
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+interface StripeList<T> {
+  data: T[];
+  has_more: boolean;
+}
+
+export class StripeApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'StripeApiError';
+  }
+}
+
+export function toCheckoutSession(object: StripeCheckoutSessionObject): CheckoutSession {
+  return {
+    id: object.id,
+    clientReferenceId: object.client_reference_id,
+    status: object.status,
+    paymentStatus: object.payment_status,
+    amountTotal: object.amount_total,
+    currency: object.currency,
+    paymentIntentId: object.payment_intent,
+    created: object.created,
+  };
+}
+
+export interface StripeClientOptions {
+  // Secret or restricted key with write access to Checkout Sessions
+  secretKey?: string;
+  // Page customers return to after paying
+  successUrl: string;
+  apiUrl?: string;
+  timeoutMs?: number;
+}
+
+// Verifies payments with the Stripe REST API
+export class StripeClient implements PaymentProvider {
+  private readonly secretKey?: string;
+  private readonly successUrl: string;
+  private readonly apiUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: StripeClientOptions) {
+    this.secretKey = options.secretKey;
+    this.successUrl = options.successUrl;
+    this.apiUrl = (options.apiUrl || STRIPE_API_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async createCheckout(options: CreateCheckoutOptions): Promise<{ checkoutSession: CheckoutSession; url: string }> {
+    const params: Record<string, string> = {
+      mode: 'payment',
+      client_reference_id: options.clientReferenceId,
+      success_url: this.successUrl,
+    };
+    if (options.expiresAt !== undefined) params.expires_at = String(options.expiresAt);
+    // Stripe rejects free and negative line items - they are only shown in the quote. A
+    // discounted quote is charged as one line item for its total.
+    const { quote } = options;
+    const lineItems = quote.promoCode
+      ? [{ description: `${quote.state} ${quote.entityType} formation (promo code ${quote.promoCode})`, amount: quote.total }]
+      : quote.items;
+    lineItems.filter(item => item.amount > 0).forEach((item, index) => {
+      params[`line_items[${index}][quantity]`] = '1';
+      params[`line_items[${index}][price_data][currency]`] = options.quote.currency;
+      params[`line_items[${index}][price_data][unit_amount]`] = String(item.amount);
+      params[`line_items[${index}][price_data][product_data][name]`] = item.description;
+    });
+
+    const object = await this.request<StripeCheckoutSessionObject>('POST', '/checkout/sessions', params, options.signal);
+    if (!object.url) {
+      throw new StripeApiError('Stripe did not return a payment page for the Checkout Session', 502);
+    }
+    return { checkoutSession: toCheckoutSession(object), url: object.url };
+  }
+
+  // The list endpoint cannot filter by client_reference_id, so Checkout Sessions completed
+  // since the formation session started are paged through and filtered here
+  async findCheckoutSessions(clientReferenceId: string, options: FindCheckoutSessionsOptions = {}): Promise<CheckoutSession[]> {
+    const found: CheckoutSession[] = [];
+    let startingAfter: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const params: Record<string, string> = { limit: String(PAGE_SIZE), status: 'complete' };
+      if (options.createdAfter !== undefined) params['created[gte]'] = String(options.createdAfter);
+      if (startingAfter) params.starting_after = startingAfter;
+
+      const list = await this.request<StripeList<StripeCheckoutSessionObject>>('GET', '/checkout/sessions', params, options.signal);
+      found.push(...list.data.filter(object => object.client_reference_id === clientReferenceId).map(toCheckoutSession));
+      if (!list.has_more || list.data.length === 0) break;
+      startingAfter = list.data[list.data.length - 1].id;
+    }
+
+    return found.sort((a, b) => b.created - a.created);
+  }
+
+  async findCheckoutSessionByPaymentIntent(paymentIntentId: string, signal?: AbortSignal): Promise<CheckoutSession | null> {
+    const list = await this.request<StripeList<StripeCheckoutSessionObject>>(
+      'GET',
+      '/checkout/sessions',
+      { payment_intent: paymentIntentId, limit: '1' },
+      signal
+    );
+    return list.data[0] ? toCheckoutSession(list.data[0]) : null;
+  }
+
+  // Stripe takes form-encoded parameters - in the query for GET, in the body for POST
+  private async request<T>(method: 'GET' | 'POST', path: string, params: Record<string, string>, signal?: AbortSignal): Promise<T> {
+    if (!this.secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not set - payments cannot be taken or verified');
+    }
+
+    const query = new URLSearchParams(params);
+    const response = await axios.request<T & { error?: { message?: string } }>({
+      method,
+      url: method === 'GET' ? `${this.apiUrl}${path}?${query}` : `${this.apiUrl}${path}`,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        ...(method === 'POST' && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+      },
+      ...(method === 'POST' && { data: query.toString() }),
+      timeout: this.timeoutMs,
+      signal,
+      // Stripe explains failures in the body - read it instead of throwing
+      validateStatus: () => true,
+    });
+    const body = response.data && typeof response.data === 'object' ? response.data : null;
+
+    if (response.status < 200 || response.status >= 300 || !body) {
+      throw new StripeApiError(body?.error?.message || `Stripe responded with ${response.status}`, response.status);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,87 @@
+import type { Quote } from '../../services/pricing';
+
+// Checkout Session as the Stripe API returns it (only the fields read here)
+export interface StripeCheckoutSessionObject {
+  id: string;
+  object: 'checkout.session';
+  // Formation session ID, set by formation_get_payment_link
+  client_reference_id: string | null;
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  amount_total: number | null;
+  currency: string | null;
+  payment_intent: string | null;
+  // Hosted payment page, while the Checkout Session is open
+  url?: string | null;
+  // Unix seconds
+  created: number;
+  // Unix seconds - the Checkout Session can no longer be paid after it
+  expires_at?: number;
+}
+
+// Charge as the Stripe API returns it (only the fields read here)
+export interface StripeChargeObject {
+  id: string;
+  object: 'charge';
+  payment_intent: string | null;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  // True once the whole amount was refunded
+  refunded: boolean;
+}
+
+// Webhook event envelope
+export interface StripeEvent<T = unknown> {
+  id: string;
+  object: 'event';
+  type: string;
+  created: number;
+  data: { object: T };
+}
+
+// A Checkout Session, as used to verify a payment
+export interface CheckoutSession {
+  id: string;
+  clientReferenceId: string | null;
+  status: StripeCheckoutSessionObject['status'];
+  paymentStatus: StripeCheckoutSessionObject['payment_status'];
+  // Smallest currency unit, e.g. cents
+  amountTotal: number | null;
+  currency: string | null;
+  paymentIntentId: string | null;
+  // Unix seconds
+  created: number;
+}
+
+export interface FindCheckoutSessionsOptions {
+  // Unix seconds - older Checkout Sessions are not read
+  createdAfter?: number;
+  signal?: AbortSignal;
+}
+
+export interface CreateCheckoutOptions {
+  // Formation session ID, stored as the client_reference_id
+  clientReferenceId: string;
+  // Charged as one line item per quote item
+  quote: Quote;
+  // Unix seconds, 30 minutes to 24 hours ahead - Stripe's default of 24 hours when unset
+  expiresAt?: number;
+  signal?: AbortSignal;
+}
+
+// Where payments are taken and verified
+export interface PaymentProvider {
+  // Checkout Session charging a quote, with the URL the customer pays at
+  createCheckout(options: CreateCheckoutOptions): Promise<{ checkoutSession: CheckoutSession; url: string }>;
+  // Checkout Sessions started for a formation session, newest first
+  findCheckoutSessions(clientReferenceId: string, options?: FindCheckoutSessionsOptions): Promise<CheckoutSession[]>;
+  // Checkout Session that created a payment intent, or null when there is none
+  findCheckoutSessionByPaymentIntent(paymentIntentId: string, signal?: AbortSignal): Promise<CheckoutSession | null>;
+}
+
+export type PaymentProviderType = 'stripe' | 'local';
+
+// applied: the session changed, duplicate: the event was already applied,
+// unchanged: the session already had this state, ignored: the event is not about a formation payment
+export type PaymentEventOutcome = 'applied' | 'duplicate' | 'unchanged' | 'ignored' | 'underpaid';
@@ -0,0 +1,212 @@
+import { z } from 'zod';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { updateSession } from '../middleware/session';
+import { CompanyType, FormationSession } from '../state/types';
+import { promoCodeInvalid } from '../errors';
+import type { Discount } from '../../services/pricing';
+import { PromoCode, PromoCodeUsage } from './types';
+
+export * from './types';
+
+// How long a payment link holds one of a limited code's redemptions. Stripe expires the
+// Checkout Session at the same time, so the link cannot be paid once the hold is released.
+export const PROMO_RESERVATION_MS = 60 * 60 * 1000;
+
+const promoCodeSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]+$/, 'use letters, digits, - and _'),
+  description: z.string().optional(),
+  percentOff: z.number().positive().max(100).optional(),
+  amountOff: z.number().int().positive().optional(),
+  expiresAt: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'not a date').optional(),
+  maxRedemptions: z.number().int().positive().optional(),
+  entityTypes: z.array(z.enum(['LLC', 'C-Corp'])).min(1).optional(),
+}).refine(promo => (promo.percentOff === undefined) !== (promo.amountOff === undefined), 'set one of percentOff or amountOff');
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Parse promo codes written as a JSON array, e.g.
+// [{"code":"ACCEL100","percentOff":100,"maxRedemptions":50,"entityTypes":["C-Corp"]}]
+export function parsePromoCodes(value: string): PromoCode[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid MCP_PROMO_CODES: not a JSON array');
+  }
+
+  const result = z.array(promoCodeSchema).safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid MCP_PROMO_CODES at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  const codes = result.data.map(promo => ({ ...promo, code: normalizeCode(promo.code) }));
+  const duplicate = codes.find((promo, index) => codes.findIndex(other => other.code === promo.code) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid MCP_PROMO_CODES: ${duplicate.code} is defined twice`);
+  }
+  return codes;
+}
+
+// Promo codes configured by environment variables
+//   MCP_PROMO_CODES - JSON array of codes with percentOff or amountOff (cents), and optionally
+//                     description, expiresAt, maxRedemptions and entityTypes
+export function createPromoCodes(): PromoCode[] {
+  return process.env.MCP_PROMO_CODES ? parsePromoCodes(process.env.MCP_PROMO_CODES) : [];
+}
+
+let promoCodes: PromoCode[] | null = null;
+
+// Replace the promo codes that can be applied
+export function setPromoCodes(next: PromoCode[]): void {
+  promoCodes = next.map(promo => ({ ...promo, code: normalizeCode(promo.code) }));
+}
+
+export function getPromoCodes(): PromoCode[] {
+  if (!promoCodes) {
+    promoCodes = createPromoCodes();
+  }
+  return promoCodes;
+}
+
+export function findPromoCode(code: string): PromoCode | null {
+  const wanted = normalizeCode(code);
+  return getPromoCodes().find(promo => promo.code === wanted) || null;
+}
+
+// The code's usage record and its lock share this name
+function usageKey(code: string): string {
+  return `promo-${code}`;
+}
+
+async function getPromoCodeUsage(store: FormationSessionStore, code: string): Promise<PromoCodeUsage> {
+  return (await store.getRecord<PromoCodeUsage>(usageKey(code))) ?? { code, claims: {} };
+}
+
+// Copy the session's claim on the code into the code's usage record, dropping reservations
+// that have run out. Callers hold the code's lock.
+async function saveClaim(store: FormationSessionStore, session: FormationSession, code: string): Promise<void> {
+  const now = Date.now();
+  const usage = await getPromoCodeUsage(store, code);
+  const claims = Object.fromEntries(Object.entries(usage.claims).filter(([, claim]) =>
+    claim.redeemedAt || (claim.reservedUntil && Date.parse(claim.reservedUntil) > now)
+  ));
+
+  const promo = session.promo?.code === code ? session.promo : undefined;
+  if (promo?.redeemedAt || promo?.reservedUntil) {
+    claims[session.sessionId] = {
+      ...(promo.redeemedAt && { redeemedAt: promo.redeemedAt }),
+      ...(promo.reservedUntil && { reservedUntil: promo.reservedUntil }),
+    };
+  } else {
+    delete claims[session.sessionId];
+  }
+  await store.setRecord(usageKey(code), { code, claims });
+}
+
+// Paid formations that used a code, plus unexpired payment links holding one of its
+// redemptions. Read from the code's usage record, so the count is shared by every server
+// instance that shares the session storage and survives deleted sessions. exceptSessionId
+// leaves out the session asking for a new link.
+export async function countRedemptions(
+  store: FormationSessionStore,
+  code: string,
+  exceptSessionId?: string,
+  now: number = Date.now()
+): Promise<number> {
+  const usage = await getPromoCodeUsage(store, code);
+  return Object.entries(usage.claims).filter(([sessionId, claim]) =>
+    sessionId !== exceptSessionId &&
+    (claim.redeemedAt || (claim.reservedUntil && Date.parse(claim.reservedUntil) > now))
+  ).length;
+}
+
+// Find a code and check it can still be used for a company type. Throws PROMO_CODE_INVALID.
+// Usage limits are checked when a code is applied, and enforced by claimPromoCode when the
+// payment link is created.
+export async function assertPromoCodeUsable(
+  store: FormationSessionStore,
+  code: string,
+  companyType: CompanyType | undefined,
+  sessionId?: string,
+  now: number = Date.now()
+): Promise<PromoCode> {
+  const promo = findPromoCode(code);
+  if (!promo) {
+    throw promoCodeInvalid(code, 'the code does not exist');
+  }
+  if (promo.expiresAt && Date.parse(promo.expiresAt) < now) {
+    throw promoCodeInvalid(promo.code, `the code expired on ${promo.expiresAt}`);
+  }
+  if (promo.entityTypes && companyType && !promo.entityTypes.includes(companyType)) {
+    throw promoCodeInvalid(promo.code, `the code only covers ${promo.entityTypes.join(', ')} formations`);
+  }
+  if (promo.maxRedemptions !== undefined && await countRedemptions(store, promo.code, sessionId, now) >= promo.maxRedemptions) {
+    throw promoCodeInvalid(promo.code, 'the code has been used up');
+  }
+  return promo;
+}
+
+// Discount a code grants, for the pricing engine
+export function toDiscount(promo: PromoCode): Discount {
+  return {
+    code: promo.code,
+    ...(promo.description && { description: promo.description }),
+    ...(promo.percentOff !== undefined && { percentOff: promo.percentOff }),
+    ...(promo.amountOff !== undefined && { amountOff: promo.amountOff }),
+  };
+}
+
+// Check the code's usage limit, update the session and record its claim while holding the
+// code's lock, so concurrent sessions cannot both take its last redemption. mutate must redeem
+// the code or reserve it (set promo.reservedUntil). Throws PROMO_CODE_INVALID when the code is
+// used up.
+export async function claimPromoCode(
+  store: FormationSessionStore,
+  sessionId: string,
+  promo: PromoCode,
+  companyType: CompanyType | undefined,
+  mutate: (session: FormationSession) => void
+): Promise<FormationSession> {
+  return store.withLock(usageKey(promo.code), async () => {
+    await assertPromoCodeUsable(store, promo.code, companyType, sessionId);
+    const updated = await updateSession(sessionId, store, mutate);
+    await saveClaim(store, updated, promo.code);
+    return updated;
+  });
+}
+
+// Update the session and record its claim on the code while holding the code's lock, e.g. to
+// give back a reservation
+export async function updatePromoCodeClaim(
+  store: FormationSessionStore,
+  sessionId: string,
+  code: string,
+  mutate: (session: FormationSession) => void
+): Promise<FormationSession> {
+  return store.withLock(usageKey(code), async () => {
+    const updated = await updateSession(sessionId, store, mutate);
+    await saveClaim(store, updated, code);
+    return updated;
+  });
+}
+
+// Record the session's claim on its code as it is stored now, e.g. once a payment redeemed it
+export async function recordPromoCodeClaim(store: FormationSessionStore, sessionId: string, code: string): Promise<void> {
+  await store.withLock(usageKey(code), async () => {
+    const session = await store.get(sessionId);
+    if (session) {
+      await saveClaim(store, session, code);
+    }
+  });
+}
+
+// Mark the session's code as used once a quote discounted by it is paid
+export function redeemPromoCode(session: FormationSession, redeemedAt: string): void {
+  if (session.promo && !session.promo.redeemedAt && session.quote?.promoCode === session.promo.code) {
+    session.promo.redeemedAt = redeemedAt;
+    delete session.promo.reservedUntil;
+  }
+}
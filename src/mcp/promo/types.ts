@@ -0,0 +1,25 @@
+import type { Discount } from '../../services/pricing';
+import { CompanyType } from '../state/types';
+
+// Promo code as configured in MCP_PROMO_CODES. Codes are matched case-insensitively.
+export interface PromoCode extends Discount {
+  // ISO date or timestamp - the code cannot be used after it
+  expiresAt?: string;
+  // Paid formations the code can be used for - unlimited when unset
+  maxRedemptions?: number;
+  // Company types the code covers - all when unset
+  entityTypes?: CompanyType[];
+}
+
+// A session's hold on, or use of, one of a code's redemptions
+export interface PromoCodeClaim {
+  redeemedAt?: string;
+  reservedUntil?: string;
+}
+
+// Every claim on a code, keyed by session ID. Kept as a storage record so paid formations
+// still count after their sessions are deleted.
+export interface PromoCodeUsage {
+  code: string;
+  claims: Record<string, PromoCodeClaim>;
+}
@@ -0,0 +1,175 @@
+import { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { CompanyType } from '../state/types';
+import { getStepOrder } from '../state/steps';
+import { STEP_DEPENDENCIES } from '../middleware/dependencies';
+import { getResourceContent, getResourceMimeType } from '../resources/index';
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptTemplate {
+  definition: Prompt;
+  // formation:// resources embedded ahead of the instructions
+  resources: string[];
+  render(args: PromptArgs): string;
+}
+
+// Tools in the order a formation of the given type calls them, from the step dependency graph
+export function getToolSequence(companyType: CompanyType): string[] {
+  const tools = getStepOrder(companyType).map(step => STEP_DEPENDENCIES[step].tool);
+  tools.splice(tools.indexOf('formation_submit'), 0, 'formation_validate', 'formation_get_payment_link', 'formation_confirm_payment');
+  return tools;
+}
+
+// Numbered tool list with prompt-specific guidance for individual tools
+function renderToolSequence(companyType: CompanyType, hints: Record<string, string>): string {
+  return getToolSequence(companyType)
+    .map((tool, index) => `${index + 1}. \`${tool}\`${hints[tool] ? ` - ${hints[tool]}` : ''}`)
+    .join('\n');
+}
+
+const COMMON_RULES = `Rules:
+- Ask one question at a time and confirm each answer before calling the tool.
+- Never invent names, addresses or emails - ask the user.
+- If a tool returns an error, read \`code\` and \`suggestion\` (see formation://errors) and follow them.
+- Call \`formation_validate\` before asking for payment and fix every blocking error it reports.`;
+
+const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  form_delaware_c_corp: {
+    definition: {
+      name: 'form_delaware_c_corp',
+      title: 'Form a Delaware C-Corp for a VC-backed startup',
+      description: 'Guided Delaware C-Corp formation with the share structure and owner setup investors expect',
+      arguments: [
+        { name: 'companyName', description: 'Company name without the ending, if already chosen', required: false },
+        { name: 'founders', description: 'Founder names and ownership split, e.g. "Alice 60%, Bob 40%"', required: false },
+      ],
+    },
+    resources: ['formation://guide', 'formation://company-types', 'formation://incorporation-process', 'formation://requirements'],
+    render: ({ companyName, founders }) => `I want to form a Delaware C-Corp for a venture-backed startup${companyName ? ` called "${companyName}"` : ''}.${founders ? ` Founders: ${founders}.` : ''}
+
+Walk me through the formation with the Lovie formation tools in this order:
+
+${renderToolSequence('C-Corp', {
+  formation_describe_business: 'ask what the startup does',
+  formation_set_state: 'state "DE"',
+  formation_set_company_type: 'companyType "C-Corp"',
+  formation_set_entity_ending: 'recommend "Inc." - the most common ending for venture-backed companies',
+  formation_set_company_name: companyName ? `baseName "${companyName}"` : 'ask for the name without the ending',
+  formation_check_name: 'pick another name if it is not available',
+  formation_set_share_structure: 'use the default 10,000,000 shares at $0.00001 par value, the standard investors expect',
+  formation_add_shareholder: founders
+    ? `one call per founder (${founders}); ownership must total 100%`
+    : 'one call per founder; ownership must total 100%',
+  formation_set_authorized_party: 'usually the CEO',
+  formation_generate_certificate: 'show the preview link and ask the user to review it',
+})}
+
+${COMMON_RULES}`,
+  },
+
+  form_wyoming_llc: {
+    definition: {
+      name: 'form_wyoming_llc',
+      title: 'Form a Wyoming single-member LLC',
+      description: 'Guided Wyoming LLC formation for a single owner',
+      arguments: [
+        { name: 'companyName', description: 'Company name without the ending, if already chosen', required: false },
+        { name: 'ownerName', description: 'Full name of the sole member', required: false },
+      ],
+    },
+    resources: ['formation://guide', 'formation://company-types', 'formation://pricing', 'formation://requirements'],
+    render: ({ companyName, ownerName }) => `I want to form a single-member Wyoming LLC${companyName ? ` called "${companyName}"` : ''}.${ownerName ? ` I am the only member: ${ownerName}.` : ''}
+
+Walk me through the formation with the Lovie formation tools in this order:
+
+${renderToolSequence('LLC', {
+  formation_describe_business: 'ask what the business does',
+  formation_set_state: 'state "WY"',
+  formation_set_company_type: 'companyType "LLC" (the only type available in Wyoming)',
+  formation_set_entity_ending: 'recommend "LLC"',
+  formation_set_company_name: companyName ? `baseName "${companyName}"` : 'ask for the name without the ending',
+  formation_check_name: 'pick another name if it is not available',
+  formation_set_registered_agent: 'the default agent is in Delaware - ask for a Wyoming registered agent (useDefault false)',
+  formation_add_shareholder: `a single member${ownerName ? ` (${ownerName})` : ''} with 100% ownership and role "managing_member"`,
+  formation_set_authorized_party: 'the sole member, usually with the title "Managing Member"',
+  formation_generate_certificate: 'show the preview link and ask the user to review it',
+})}
+
+${COMMON_RULES}`,
+  },
+
+  resume_formation: {
+    definition: {
+      name: 'resume_formation',
+      title: 'Resume my formation',
+      description: 'Pick up an existing formation session where it left off',
+      arguments: [
+        { name: 'sessionId', description: 'Session ID from formation_start or formation_list_sessions', required: false },
+      ],
+    },
+    resources: ['formation://guide', 'formation://requirements'],
+    render: ({ sessionId }) => `I want to continue my company formation.
+
+${sessionId
+  ? `1. Call \`formation_resume\` with sessionId "${sessionId}".`
+  : '1. Call `formation_list_sessions` and ask me which session to continue, then call `formation_resume` with it.'}
+2. Call \`formation_get_status\` and summarize what is done, what is left and any invalidations.
+3. Continue with the tool named in \`nextAction\`. Use \`formation_go_to_step\` if I want to change an earlier answer.
+4. Before payment, call \`formation_validate\` and fix every blocking error it reports.
+
+If the session has expired, \`formation_resume\` recovers it during the grace period; otherwise offer \`formation_clone_session\` or a fresh \`formation_start\`.
+
+${COMMON_RULES}`,
+  },
+};
+
+// Prompt definitions for prompts/list
+export const FORMATION_PROMPTS: Prompt[] = Object.values(PROMPT_TEMPLATES).map(template => template.definition);
+
+export function getAllPrompts(): Prompt[] {
+  return FORMATION_PROMPTS;
+}
+
+// Own keys only, so names like constructor are unknown prompts rather than inherited members
+function findPromptTemplate(name: string): PromptTemplate | null {
+  return Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, name) ? PROMPT_TEMPLATES[name] : null;
+}
+
+export function getPromptDefinition(name: string): Prompt | null {
+  return findPromptTemplate(name)?.definition || null;
+}
+
+// Names of required arguments that are missing or empty
+export function getMissingPromptArguments(name: string, args: PromptArgs): string[] {
+  return (getPromptDefinition(name)?.arguments || [])
+    .filter(argument => argument.required && !args[argument.name])
+    .map(argument => argument.name);
+}
+
+// Render a prompt: embedded formation:// resources followed by the instructions
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult | null {
+  const template = findPromptTemplate(name);
+  if (!template) return null;
+
+  const messages: PromptMessage[] = template.resources.map(uri => ({
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri,
+        mimeType: getResourceMimeType(uri),
+        text: getResourceContent(uri) || '',
+      },
+    },
+  }));
+
+  messages.push({
+    role: 'user',
+    content: { type: 'text', text: template.render(args) },
+  });
+
+  return {
+    description: template.definition.description,
+    messages,
+  };
+}
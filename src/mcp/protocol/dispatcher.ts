@@ -0,0 +1,421 @@
+import { getAllTools, handleToolCall } from '../tools/index';
+import {
+  getAllResources,
+  getAllResourceTemplates,
+  getResourceContent,
+  getResourceMimeType,
+  parseSessionResourceUri,
+  readSessionResource,
+} from '../resources/index';
+import { getAllPrompts, getMissingPromptArguments, getPrompt } from '../prompts/index';
+import { formatToolError, MCPToolError } from '../errors';
+import { createAuthContext } from '../auth';
+import { describeSubmissionStatus, onSubmissionStatusChange } from '../webhooks/status';
+import { SubmissionStatus } from '../state/types';
+import {
+  DispatchContext,
+  LOGGING_LEVELS,
+  LoggingLevel,
+  JsonRpcErrorCode,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MethodHandler,
+  NotificationHandler,
+} from './types';
+
+export const SERVER_INFO = {
+  name: 'lovie-formation',
+  version: '1.0.0',
+};
+
+// Newest first - initialize answers with the client's version when it is listed here
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Versions are dates, so they compare as strings. JSON-RPC batches were removed in this one.
+const BATCHING_REMOVED_IN = '2025-06-18';
+
+// Streamable HTTP clients that omit the MCP-Protocol-Version header are assumed to speak this version
+export const DEFAULT_HTTP_PROTOCOL_VERSION = '2025-03-26';
+
+export function getServerCapabilities() {
+  return {
+    tools: {},
+    resources: { subscribe: true },
+    prompts: {},
+    logging: {},
+  };
+}
+
+export function isSupportedProtocolVersion(version: unknown): version is string {
+  return typeof version === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+// Pick the protocol version to answer initialize with
+export function negotiateProtocolVersion(requested: unknown): string {
+  return isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+// Error returned to the client as a JSON-RPC error rather than a tool result
+export class ProtocolError extends Error {
+  code: JsonRpcErrorCode;
+  data?: unknown;
+
+  constructor(code: JsonRpcErrorCode, message: string, data?: unknown) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+function requireString(params: Record<string, unknown>, name: string): string {
+  const value = params[name];
+  if (typeof value !== 'string' || !value) {
+    throw new ProtocolError(JsonRpcErrorCode.INVALID_PARAMS, `Missing or invalid parameter: ${name}`);
+  }
+  return value;
+}
+
+// Progress reporter for a request. Sends notifications/progress only when the client
+// passed a progress token and the transport can deliver notifications.
+function createProgressReporter(params: Record<string, unknown>, context: DispatchContext) {
+  const meta = params._meta;
+  const progressToken = isObject(meta) && isValidId(meta.progressToken) ? meta.progressToken : undefined;
+  let last = -Infinity;
+
+  return (progress: number, total?: number, message?: string) => {
+    const { notify } = context;
+    // Progress must increase with every notification
+    if (progressToken === undefined || !notify || progress <= last) return;
+    last = progress;
+
+    Promise.resolve(notify({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message }),
+      },
+    })).catch(error => console.error('Failed to send progress notification:', error));
+  };
+}
+
+function statusLogLevel(status: SubmissionStatus): LoggingLevel {
+  if (status === 'ERROR') return 'error';
+  return status === 'COMPLETED' ? 'notice' : 'info';
+}
+
+// Tell a persistent connection when the submission status of a session it has worked on
+// changes, e.g. after a status webhook. Sent as a log message so that clients see it
+// without subscribing to the session resource.
+function watchSubmissionStatus(context: DispatchContext, sessionId: string): void {
+  const { subscriptions, notify } = context;
+  const key = `submission-status:${sessionId}`;
+  if (!subscriptions || !notify || subscriptions.has(key)) return;
+
+  subscriptions.set(key, onSubmissionStatusChange((event) => {
+    const level = statusLogLevel(event.status);
+    const minimum = LOGGING_LEVELS.indexOf(context.logLevel || 'info');
+    if (event.sessionId !== sessionId || LOGGING_LEVELS.indexOf(level) < minimum) return;
+
+    Promise.resolve(notify({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level,
+        logger: 'formation.submission',
+        data: { ...event, message: describeSubmissionStatus(event.status, event.filingError) },
+      },
+    })).catch(error => console.error(`Failed to send the submission status of ${sessionId}:`, error));
+  }));
+}
+
+const METHODS: Record<string, MethodHandler> = {
+  async initialize(params, context) {
+    const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+    context.protocolVersion = protocolVersion;
+
+    return {
+      protocolVersion,
+      serverInfo: SERVER_INFO,
+      capabilities: getServerCapabilities(),
+    };
+  },
+
+  async ping() {
+    return {};
+  },
+
+  async 'logging/setLevel'(params, context) {
+    const level = requireString(params, 'level');
+    if (!LOGGING_LEVELS.includes(level as LoggingLevel)) {
+      throw new ProtocolError(JsonRpcErrorCode.INVALID_PARAMS, `Invalid log level: ${level} (valid: ${LOGGING_LEVELS.join(', ')})`);
+    }
+    context.logLevel = level as LoggingLevel;
+    return {};
+  },
+
+  async 'tools/list'() {
+    return { tools: getAllTools() };
+  },
+
+  async 'tools/call'(params, context, request) {
+    const name = requireString(params, 'name');
+    const args = params.arguments;
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      throw new ProtocolError(JsonRpcErrorCode.INVALID_PARAMS, 'Tool arguments must be an object');
+    }
+
+    try {
+      context.auth ??= createAuthContext();
+      const toolArgs = (args as Record<string, unknown>) || {};
+      const result = await handleToolCall(name, toolArgs, context.store, {
+        signal: request.signal,
+        reportProgress: createProgressReporter(params, context),
+        auth: context.auth,
+        local: context.local,
+        clientIp: context.clientIp,
+      });
+
+      // formation_start returns the ID of the session it created
+      const sessionId = toolArgs.sessionId ?? (isObject(result) ? result.sessionId : undefined);
+      if (typeof sessionId === 'string') {
+        watchSubmissionStatus(context, sessionId);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return formatToolError(error);
+    }
+  },
+
+  async 'resources/list'() {
+    return { resources: getAllResources() };
+  },
+
+  async 'resources/templates/list'() {
+    return { resourceTemplates: getAllResourceTemplates() };
+  },
+
+  async 'resources/read'(params, context) {
+    const uri = requireString(params, 'uri');
+    const content = getResourceContent(uri);
+
+    if (content) {
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: getResourceMimeType(uri),
+            text: content,
+          },
+        ],
+      };
+    }
+
+    let sessionContent;
+    try {
+      sessionContent = await readSessionResource(uri, context.store);
+    } catch (error) {
+      // Missing or expired sessions are reported as missing resources, keeping the tool error code
+      if (error instanceof MCPToolError) {
+        throw new ProtocolError(JsonRpcErrorCode.RESOURCE_NOT_FOUND, error.message, { uri, code: error.code });
+      }
+      throw error;
+    }
+
+    if (!sessionContent) {
+      throw new ProtocolError(JsonRpcErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+    }
+    return { contents: [sessionContent] };
+  },
+
+  async 'resources/subscribe'(params, context) {
+    const uri = requireString(params, 'uri');
+    const { subscriptions, notify } = context;
+
+    if (!subscriptions || !notify) {
+      throw new ProtocolError(
+        JsonRpcErrorCode.INVALID_REQUEST,
+        'Resource subscriptions need a persistent connection (stdio or SSE)'
+      );
+    }
+
+    // Static resources never change, so subscribing to them is accepted but never notifies
+    const parsed = parseSessionResourceUri(uri);
+    if (!parsed && !getResourceContent(uri)) {
+      throw new ProtocolError(JsonRpcErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+    }
+
+    if (parsed && !subscriptions.has(uri)) {
+      const unsubscribe = context.store.onSave(session => {
+        if (session.sessionId === parsed.sessionId) {
+          Promise.resolve(notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } }))
+            .catch(error => console.error(`Failed to notify subscribers of ${uri}:`, error));
+        }
+      });
+      subscriptions.set(uri, unsubscribe);
+    }
+    return {};
+  },
+
+  async 'resources/unsubscribe'(params, context) {
+    const uri = requireString(params, 'uri');
+    context.subscriptions?.get(uri)?.();
+    context.subscriptions?.delete(uri);
+    return {};
+  },
+
+  async 'prompts/list'() {
+    return { prompts: getAllPrompts() };
+  },
+
+  async 'prompts/get'(params) {
+    const name = requireString(params, 'name');
+    const args = (params.arguments || {}) as Record<string, string | undefined>;
+
+    const missing = getMissingPromptArguments(name, args);
+    if (missing.length > 0) {
+      throw new ProtocolError(JsonRpcErrorCode.INVALID_PARAMS, `Missing required prompt arguments: ${missing.join(', ')}`, { missing });
+    }
+
+    const prompt = getPrompt(name, args);
+    if (!prompt) {
+      throw new ProtocolError(JsonRpcErrorCode.INVALID_PARAMS, `Prompt not found: ${name}`);
+    }
+    return prompt;
+  },
+};
+
+// Notifications never get a response; unknown ones are ignored as the spec requires
+const NOTIFICATIONS: Record<string, NotificationHandler> = {
+  'notifications/initialized': () => undefined,
+  'notifications/cancelled': (params, context) => {
+    if (isValidId(params.requestId)) {
+      context.requests?.get(params.requestId)?.abort(params.reason);
+    }
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
+
+function errorResponse(id: JsonRpcId | null, code: JsonRpcErrorCode, message: string, data?: unknown): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
+
+// True when the message is a request and therefore expects a response
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return isObject(message) && typeof message.method === 'string' && 'id' in message;
+}
+
+// Handle a single JSON-RPC message. Returns null for notifications and client responses.
+export async function dispatchMessage(message: unknown, context: DispatchContext): Promise<JsonRpcResponse | null> {
+  if (!isObject(message) || message.jsonrpc !== '2.0') {
+    const id = isObject(message) && isValidId(message.id) ? message.id : null;
+    return errorResponse(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  // Responses to server-initiated requests - the server does not send any, so there is nothing to match
+  if (message.method === undefined && 'id' in message && ('result' in message || 'error' in message)) {
+    return null;
+  }
+
+  const { method, params = {} } = message;
+  const isNotification = !('id' in message);
+
+  if (typeof method !== 'string' || (!isNotification && !isValidId(message.id))) {
+    return errorResponse(isValidId(message.id) ? message.id : null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  if (isNotification) {
+    const handler = NOTIFICATIONS[method];
+    if (handler && isObject(params)) {
+      try {
+        await handler(params, context);
+      } catch (error) {
+        console.error(`Error handling notification ${method}:`, error);
+      }
+    }
+    return null;
+  }
+
+  const id = message.id as JsonRpcId;
+
+  if (!isObject(params)) {
+    return errorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, 'Params must be an object');
+  }
+
+  const handler = METHODS[method];
+  if (!handler) {
+    return errorResponse(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (context.signal?.aborted) abort();
+  context.signal?.addEventListener('abort', abort);
+  context.requests?.set(id, controller);
+
+  try {
+    const result = await handler(params, context, { id, signal: controller.signal });
+    // Cancelled requests get no response
+    return controller.signal.aborted ? null : { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (controller.signal.aborted) return null;
+    if (error instanceof ProtocolError) {
+      return errorResponse(id, error.code, error.message, error.data);
+    }
+    return errorResponse(id, JsonRpcErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    context.requests?.delete(id);
+    context.signal?.removeEventListener('abort', abort);
+  }
+}
+
+// Handle a JSON-RPC message or batch. Returns null when nothing needs a response.
+export async function dispatch(
+  body: unknown,
+  context: DispatchContext
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (!Array.isArray(body)) {
+    return dispatchMessage(body, context);
+  }
+
+  if (body.length === 0) {
+    return errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: empty batch');
+  }
+  if (context.protocolVersion !== undefined && context.protocolVersion >= BATCHING_REMOVED_IN) {
+    return errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, `Invalid Request: protocol version ${context.protocolVersion} does not support batches`);
+  }
+
+  // Messages run in order so tool calls in one batch see each other's session changes
+  const responses: JsonRpcResponse[] = [];
+  for (const message of body) {
+    const response = isJsonRpcRequest(message) && message.method === 'initialize'
+      ? errorResponse(isValidId(message.id) ? message.id : null, JsonRpcErrorCode.INVALID_REQUEST, 'initialize must not be part of a batch')
+      : await dispatchMessage(message, context);
+    if (response) responses.push(response);
+  }
+
+  return responses.length > 0 ? responses : null;
+}
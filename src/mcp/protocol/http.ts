@@ -0,0 +1,246 @@
+import type { IncomingHttpHeaders } from 'http';
+import {
+  DEFAULT_HTTP_PROTOCOL_VERSION,
+  SERVER_INFO,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  dispatch,
+  getServerCapabilities,
+  isJsonRpcRequest,
+  isSupportedProtocolVersion,
+} from './dispatcher';
+import { DispatchContext, JsonRpcErrorCode, JsonRpcResponse } from './types';
+import {
+  OAuthError,
+  authenticateRequest,
+  getAuthenticateHeader,
+  getOAuthConfig,
+  getProtectedResourceMetadata,
+} from '../auth';
+import { MCPToolError, ErrorCode } from '../errors';
+import { enforceRequestLimit, getRateLimitConfig } from '../ratelimit';
+
+// The parts of a request used here - satisfied by both Express and Vercel requests
+export interface HttpRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+  socket?: { remoteAddress?: string };
+}
+
+// The parts of a response used here - satisfied by both Express and Vercel responses
+export interface HttpResponse {
+  status(code: number): HttpResponse;
+  setHeader(name: string, value: string): unknown;
+  json(body: unknown): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+  on?(event: 'close', listener: () => void): unknown;
+  writableEnded?: boolean;
+}
+
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept, Mcp-Session-Id, MCP-Protocol-Version',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, WWW-Authenticate',
+};
+
+export function setCorsHeaders(res: HttpResponse): void {
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    res.setHeader(name, value);
+  }
+}
+
+// Server description returned by GET on the MCP endpoints
+export function getServerDescription() {
+  return {
+    ...SERVER_INFO,
+    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+    supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+    capabilities: getServerCapabilities(),
+  };
+}
+
+function header(req: HttpRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Clients that only accept an event stream get their responses as SSE events
+function wantsEventStream(req: HttpRequest): boolean {
+  const accept = header(req, 'accept') || '';
+  return accept.includes('text/event-stream') && !accept.includes('application/json');
+}
+
+// IP address of the client. X-Forwarded-For is only trusted behind a proxy that sets it.
+export function getClientIp(req: HttpRequest, trustProxy: boolean = getRateLimitConfig().trustProxy): string | undefined {
+  const forwarded = trustProxy ? header(req, 'x-forwarded-for')?.split(',')[0].trim() : undefined;
+  return forwarded || req.socket?.remoteAddress || undefined;
+}
+
+function errorBody(code: JsonRpcErrorCode, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id: null, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+export function sendBodyTooLarge(res: HttpResponse, maxBodyBytes: number): void {
+  res.status(413).json(errorBody(JsonRpcErrorCode.INVALID_REQUEST, `Request body is larger than ${maxBodyBytes} bytes`));
+}
+
+// Answer 429 with Retry-After for a RATE_LIMITED error, or rethrow anything else
+export function sendRateLimited(res: HttpResponse, error: unknown): void {
+  if (!(error instanceof MCPToolError) || error.code !== ErrorCode.RATE_LIMITED) throw error;
+  res.setHeader('Retry-After', String(error.details?.retryAfter));
+  res.status(429).json(errorBody(JsonRpcErrorCode.INVALID_REQUEST, error.message, error.toJSON()));
+}
+
+function writeEvent(res: HttpResponse, data: unknown): void {
+  res.write(`event: message\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// MCP Streamable HTTP transport. Sessions are not kept between requests, so the
+// server neither issues Mcp-Session-Id nor offers a GET stream.
+export async function handleStreamableHttp(
+  req: HttpRequest,
+  res: HttpResponse,
+  context: DispatchContext
+): Promise<void> {
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method === 'GET') {
+    if ((header(req, 'accept') || '').includes('text/event-stream')) {
+      res.setHeader('Allow', 'POST, OPTIONS');
+      res.status(405).json(errorBody(JsonRpcErrorCode.INVALID_REQUEST, 'Server-initiated streams are not supported'));
+      return;
+    }
+    res.json(getServerDescription());
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST, OPTIONS');
+    res.status(405).json(errorBody(JsonRpcErrorCode.INVALID_REQUEST, 'Method not allowed'));
+    return;
+  }
+
+  const config = getRateLimitConfig();
+  const clientIp = getClientIp(req, config.trustProxy);
+  try {
+    await enforceRequestLimit(clientIp, config);
+  } catch (error) {
+    sendRateLimited(res, error);
+    return;
+  }
+
+  if (Number(header(req, 'content-length')) > config.maxBodyBytes) {
+    sendBodyTooLarge(res, config.maxBodyBytes);
+    return;
+  }
+  context.clientIp = clientIp;
+
+  const protocolVersion = header(req, 'mcp-protocol-version');
+  if (protocolVersion !== undefined && !isSupportedProtocolVersion(protocolVersion)) {
+    res.status(400).json(errorBody(
+      JsonRpcErrorCode.INVALID_REQUEST,
+      `Unsupported protocol version: ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+    ));
+    return;
+  }
+  context.protocolVersion = protocolVersion || DEFAULT_HTTP_PROTOCOL_VERSION;
+
+  // Each request is its own connection - it is authenticated only by its Authorization header
+  try {
+    context.auth = await authenticateRequest(header(req, 'authorization'));
+  } catch (error) {
+    if (!(error instanceof OAuthError)) throw error;
+    res.setHeader('WWW-Authenticate', getAuthenticateHeader(getOAuthConfig(), error));
+    res.status(401).json(errorBody(JsonRpcErrorCode.INVALID_REQUEST, error.message));
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = req.body;
+  } catch {
+    // Vercel parses the body lazily and throws on malformed JSON
+    body = undefined;
+  }
+  // Chunked requests have no Content-Length, so their size is only known once read
+  if (header(req, 'content-length') === undefined && body !== undefined
+    && Buffer.byteLength(typeof body === 'string' ? body : JSON.stringify(body)) > config.maxBodyBytes) {
+    sendBodyTooLarge(res, config.maxBodyBytes);
+    return;
+  }
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      body = undefined;
+    }
+  }
+  if (body === undefined || body === null || typeof body !== 'object') {
+    res.status(400).json(errorBody(JsonRpcErrorCode.PARSE_ERROR, 'Parse error'));
+    return;
+  }
+
+  // A client that disconnects before the response is sent cancels its requests
+  const connection = new AbortController();
+  res.on?.('close', () => {
+    if (!res.writableEnded) connection.abort();
+  });
+  context = { ...context, signal: connection.signal };
+
+  const messages = Array.isArray(body) ? body : [body];
+
+  // Only notifications and responses - acknowledge without a body
+  if (messages.length > 0 && !messages.some(isJsonRpcRequest)) {
+    await dispatch(body, context);
+    res.status(202).end();
+    return;
+  }
+
+  if (wantsEventStream(req)) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.status(200);
+
+    const response = await dispatch(body, { ...context, notify: notification => writeEvent(res, notification) });
+    for (const message of Array.isArray(response) ? response : response ? [response] : []) {
+      writeEvent(res, message);
+    }
+    res.end();
+    return;
+  }
+
+  const response = await dispatch(body, context);
+  if (!response) {
+    res.status(202).end();
+    return;
+  }
+  res.status(200).json(response);
+}
+
+// OAuth protected resource metadata (RFC 9728), served at /.well-known/oauth-protected-resource
+// and at the same path followed by the MCP endpoint path
+export function handleProtectedResourceMetadata(req: HttpRequest, res: HttpResponse): void {
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  const config = getOAuthConfig();
+  if (!config) {
+    res.status(404).json({ error: 'OAuth is not enabled on this server' });
+    return;
+  }
+
+  // This server protects one resource - the configured MCP endpoint
+  res.json(getProtectedResourceMetadata(config));
+}
@@ -0,0 +1,25 @@
+export * from './types';
+export {
+  SERVER_INFO,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+  DEFAULT_HTTP_PROTOCOL_VERSION,
+  ProtocolError,
+  getServerCapabilities,
+  isSupportedProtocolVersion,
+  negotiateProtocolVersion,
+  isJsonRpcRequest,
+  dispatchMessage,
+  dispatch,
+} from './dispatcher';
+export {
+  CORS_HEADERS,
+  setCorsHeaders,
+  getServerDescription,
+  getClientIp,
+  sendBodyTooLarge,
+  sendRateLimited,
+  handleStreamableHttp,
+  handleProtectedResourceMetadata,
+} from './http';
+export type { HttpRequest, HttpResponse } from './http';
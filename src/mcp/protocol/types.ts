@@ -0,0 +1,84 @@
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { AuthContext } from '../auth';
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  // null when the request was too malformed to read its id
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+// JSON-RPC and MCP protocol-level error codes
+export enum JsonRpcErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  RESOURCE_NOT_FOUND = -32002,
+}
+
+// Log message severities (RFC 5424), least severe first
+export const LOGGING_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LoggingLevel = typeof LOGGING_LEVELS[number];
+
+// Per-connection state shared by every message dispatched on that connection
+export interface DispatchContext {
+  store: FormationSessionStore;
+  // Set by initialize; HTTP transports also set it from the MCP-Protocol-Version header
+  protocolVersion?: string;
+  // Send a server-to-client notification, when the transport can deliver one
+  notify?: (notification: JsonRpcNotification) => void | Promise<void>;
+  // Resource subscriptions by URI and submission status watches by session, with the function
+  // that ends each one. Only connections that outlive a single request (stdio, SSE) keep them.
+  subscriptions?: Map<string, () => void>;
+  // Least severe log message sent to the client, set by logging/setLevel
+  logLevel?: LoggingLevel;
+  // In-flight requests, so notifications/cancelled can abort them (persistent connections only)
+  requests?: Map<JsonRpcId, AbortController>;
+  // Aborted when the connection closes; aborts every request still running on it
+  signal?: AbortSignal;
+  // Who is logged in on this connection - created on first use when the transport does not set it
+  auth?: AuthContext;
+  // True for stdio, where the client runs on the same machine as the server
+  local?: boolean;
+  // IP address of a remote client, used for rate limits
+  clientIp?: string;
+}
+
+// The request being handled by a method handler
+export interface RequestInfo {
+  id: JsonRpcId;
+  // Aborted when the client cancels the request or the connection closes
+  signal: AbortSignal;
+}
+
+export type MethodHandler = (
+  params: Record<string, unknown>,
+  context: DispatchContext,
+  request: RequestInfo
+) => Promise<unknown>;
+
+export type NotificationHandler = (params: Record<string, unknown>, context: DispatchContext) => void | Promise<void>;
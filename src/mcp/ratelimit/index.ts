@@ -0,0 +1,140 @@
+import { rateLimited } from '../errors';
+import { MemoryRateLimitStore, RedisRateLimitStore } from './stores';
+import { RateLimitConfig, RateLimitRule, RateLimitScope, RateLimitStore, RateLimitStoreType } from './types';
+
+export * from './types';
+export { MemoryRateLimitStore, RedisRateLimitStore } from './stores';
+
+const STORE_TYPES: RateLimitStoreType[] = ['memory', 'redis'];
+
+// Tools that call paid services: the Delaware name check (set_company_name starts one in
+// the background) and certificate generation
+const DEFAULT_TOOL_LIMITS = [
+  'formation_check_name=20/3600',
+  'formation_set_company_name=20/3600',
+  'formation_generate_certificate=10/3600',
+].join(',');
+
+// Parse a rule written as <requests>/<seconds>, e.g. 60/60. "off" or 0 turns the limit off.
+function parseRule(name: string, value: string): RateLimitRule | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'off' || trimmed === '0') return null;
+
+  const match = /^(\d+)\s*\/\s*(\d+)$/.exec(trimmed);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    throw new Error(`Invalid ${name} "${value}". Use <requests>/<seconds>, e.g. 60/60, or off`);
+  }
+  return { capacity: Number(match[1]), periodMs: Number(match[2]) * 1000 };
+}
+
+// Parse per-tool rules written as <tool>=<requests>/<seconds>, separated by commas
+function parseToolRules(value: string): Record<string, RateLimitRule> {
+  const rules: Record<string, RateLimitRule> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [tool, rule] = entry.split('=');
+    const parsed = parseRule('MCP_RATE_LIMIT_TOOLS', rule || '');
+    if (parsed) rules[tool.trim()] = parsed;
+  }
+  return rules;
+}
+
+// Rate limit settings from environment variables
+//   MCP_RATE_LIMIT          - false turns every limit off
+//   MCP_RATE_LIMIT_IP       - HTTP requests per client IP (default 120/60)
+//   MCP_RATE_LIMIT_USER     - tool calls per user (default 60/60)
+//   MCP_RATE_LIMIT_TOOLS    - calls per tool and caller, e.g. formation_check_name=20/3600
+//   MCP_MAX_BODY_BYTES      - largest HTTP request body (default 1 MB)
+//   MCP_TRUST_PROXY         - read the client IP from X-Forwarded-For (default: on Vercel)
+export function getRateLimitConfig(): RateLimitConfig {
+  const maxBodyBytes = Number(process.env.MCP_MAX_BODY_BYTES);
+
+  return {
+    enabled: process.env.MCP_RATE_LIMIT !== 'false',
+    ip: parseRule('MCP_RATE_LIMIT_IP', process.env.MCP_RATE_LIMIT_IP || '120/60'),
+    user: parseRule('MCP_RATE_LIMIT_USER', process.env.MCP_RATE_LIMIT_USER || '60/60'),
+    tools: parseToolRules(process.env.MCP_RATE_LIMIT_TOOLS ?? DEFAULT_TOOL_LIMITS),
+    maxBodyBytes: Number.isFinite(maxBodyBytes) && maxBodyBytes > 0 ? maxBodyBytes : 1024 * 1024,
+    trustProxy: process.env.MCP_TRUST_PROXY
+      ? process.env.MCP_TRUST_PROXY === 'true'
+      : Boolean(process.env.VERCEL),
+  };
+}
+
+// Create the counter store configured by environment variables
+//   MCP_RATE_LIMIT_STORE       - memory (default) or redis
+//   MCP_RATE_LIMIT_REDIS_URL   - Redis REST API URL (default: KV_REST_API_URL)
+//   MCP_RATE_LIMIT_REDIS_TOKEN - Redis REST API token (default: KV_REST_API_TOKEN)
+export function createRateLimitStore(): RateLimitStore {
+  const requested = (process.env.MCP_RATE_LIMIT_STORE || 'memory').toLowerCase();
+  if (!STORE_TYPES.includes(requested as RateLimitStoreType)) {
+    throw new Error(`Invalid MCP_RATE_LIMIT_STORE "${requested}". Valid options: ${STORE_TYPES.join(', ')}`);
+  }
+  if (requested === 'memory') {
+    return new MemoryRateLimitStore();
+  }
+
+  const url = process.env.MCP_RATE_LIMIT_REDIS_URL || process.env.KV_REST_API_URL;
+  const token = process.env.MCP_RATE_LIMIT_REDIS_TOKEN || process.env.KV_REST_API_TOKEN;
+  if (!url || !token) {
+    throw new Error('MCP_RATE_LIMIT_STORE=redis needs MCP_RATE_LIMIT_REDIS_URL and MCP_RATE_LIMIT_REDIS_TOKEN');
+  }
+  return new RedisRateLimitStore(url, token);
+}
+
+let store: RateLimitStore | null = null;
+
+// Replace the store that keeps the rate limit counters
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
+  }
+  return store;
+}
+
+// Take a token from a bucket and throw RATE_LIMITED when it is empty.
+// Limits fail open: an unreachable store must not take the server down with it.
+async function take(scope: RateLimitScope, key: string, rule: RateLimitRule, tool?: string): Promise<void> {
+  let result;
+  try {
+    result = await getRateLimitStore().take(`${scope}:${key}`, rule);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${scope}:${key}:`, error);
+    return;
+  }
+  if (!result.allowed) {
+    throw rateLimited(scope, result.retryAfterMs, tool);
+  }
+}
+
+// Limit HTTP requests per client IP
+export async function enforceRequestLimit(clientIp: string | undefined, config: RateLimitConfig = getRateLimitConfig()): Promise<void> {
+  if (!config.enabled || !config.ip || !clientIp) return;
+  await take('ip', clientIp, config.ip);
+}
+
+// Limit tool calls per user, and calls of expensive tools per user and per IP.
+// The IP bucket is always charged, so switching between user IDs does not get around a tool limit.
+export async function enforceToolLimits(
+  tool: string,
+  caller: { userId?: string | null; clientIp?: string },
+  config: RateLimitConfig = getRateLimitConfig()
+): Promise<void> {
+  if (!config.enabled) return;
+
+  if (config.user && caller.userId) {
+    await take('user', caller.userId, config.user);
+  }
+
+  const toolRule = config.tools[tool];
+  if (!toolRule) return;
+  if (caller.clientIp) {
+    await take('tool', `${tool}:ip:${caller.clientIp}`, toolRule, tool);
+  }
+  if (caller.userId) {
+    await take('tool', `${tool}:user:${caller.userId}`, toolRule, tool);
+  }
+}
@@ -0,0 +1,105 @@
+import { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket is full again and can be forgotten
+  fullAt: number;
+}
+
+// Refill a bucket up to `now` and take one token from it
+function takeToken(tokens: number, updatedAt: number, rule: RateLimitRule, now: number) {
+  const refillPerMs = rule.capacity / rule.periodMs;
+  const available = Math.min(rule.capacity, tokens + Math.max(0, now - updatedAt) * refillPerMs);
+
+  if (available >= 1) {
+    return { tokens: available - 1, result: { allowed: true, remaining: Math.floor(available - 1), retryAfterMs: 0 } };
+  }
+  return {
+    tokens: available,
+    result: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - available) / refillPerMs) },
+  };
+}
+
+// Buckets in this process only - limits are per instance
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private maxBuckets: number = 10000) {}
+
+  async take(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitResult> {
+    const bucket = this.buckets.get(key);
+    const { tokens, result } = takeToken(bucket?.tokens ?? rule.capacity, bucket?.updatedAt ?? now, rule, now);
+
+    if (!bucket && this.buckets.size >= this.maxBuckets) {
+      this.prune(now);
+    }
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + ((rule.capacity - tokens) * rule.periodMs) / rule.capacity,
+    });
+    return result;
+  }
+
+  // Forget full buckets, which behave the same as missing ones
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+// Refills and takes a token atomically; the key expires once the bucket would be full
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local period = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * capacity / period)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], period)
+return {allowed, tostring(tokens)}
+`;
+
+// Buckets in Redis, shared by every instance. Talks to the Redis REST API offered by
+// Upstash and Vercel KV, so no Redis client or open connection is needed.
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private url: string,
+    private token: string,
+    private prefix: string = 'ratelimit:',
+    private timeoutMs: number = 2000
+  ) {}
+
+  async take(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+      body: JSON.stringify(['EVAL', TAKE_SCRIPT, '1', `${this.prefix}${key}`, rule.capacity, rule.periodMs, now]),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    const body = await response.json() as { result?: [number, string]; error?: string };
+
+    if (!response.ok || body.error || !Array.isArray(body.result)) {
+      throw new Error(`Rate limit store responded with ${body.error || response.status}`);
+    }
+
+    const [allowed, tokens] = body.result;
+    if (allowed === 1) {
+      return { allowed: true, remaining: Math.floor(Number(tokens)), retryAfterMs: 0 };
+    }
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil(((1 - Number(tokens)) * rule.periodMs) / rule.capacity),
+    };
+  }
+}
@@ -0,0 +1,40 @@
+// Token bucket: holds up to `capacity` tokens and refills all of them over `periodMs`.
+// Each request takes one token, so bursts of `capacity` are allowed.
+export interface RateLimitRule {
+  capacity: number;
+  periodMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Tokens left in the bucket after this request
+  remaining: number;
+  // How long until a token is available again (0 when allowed)
+  retryAfterMs: number;
+}
+
+// Counter backend for the buckets. Server instances must share one for limits
+// to hold across instances (e.g. on Vercel).
+export interface RateLimitStore {
+  take(key: string, rule: RateLimitRule, now?: number): Promise<RateLimitResult>;
+}
+
+// What a limit is counted per
+export type RateLimitScope = 'ip' | 'user' | 'tool';
+
+export type RateLimitStoreType = 'memory' | 'redis';
+
+export interface RateLimitConfig {
+  // False turns every limit off
+  enabled: boolean;
+  // Every HTTP request from one client IP
+  ip: RateLimitRule | null;
+  // Every tool call by one signed-in user
+  user: RateLimitRule | null;
+  // Calls of one tool by one caller (user, or IP when signed out), by tool name
+  tools: Record<string, RateLimitRule>;
+  // Largest accepted HTTP request body
+  maxBodyBytes: number;
+  // Read the client IP from X-Forwarded-For (only behind a proxy that sets it)
+  trustProxy: boolean;
+}
@@ -1,4 +1,39 @@
-import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ERROR_CATALOG } from '../errors';
+import { SESSION_RESOURCE_TEMPLATES } from './sessions';
+import { STATE_COMPANY_TYPES, USState } from '../state/types';
+import { EXPEDITE_LABELS, SERVICE_FEE, formatAmount, getExpediteLevels, getStatePricing } from '../../services/pricing';
+
+export {
+  SESSION_RESOURCE_TEMPLATES,
+  getSessionResourceUri,
+  parseSessionResourceUri,
+  readSessionResource,
+} from './sessions';
+export type { SessionResourceView, SessionResourceContent } from './sessions';
+
+// Filing fee tables for the states formations can be submitted in, from the pricing engine
+function renderStateFilingFees(): string {
+  return (Object.keys(STATE_COMPANY_TYPES) as USState[]).map((state) => {
+    const pricing = getStatePricing(state);
+    const levels = getExpediteLevels(state);
+    const rows = STATE_COMPANY_TYPES[state].map((companyType) => {
+      const fees = levels.map(level => level === 'standard'
+        ? formatAmount(pricing.filingFees[companyType]!)
+        : `+${formatAmount(pricing.expediteFees[level]!)}`);
+      return `| ${companyType} | ${fees.join(' | ')} |`;
+    });
+    return [
+      `### ${pricing.name}`,
+      `Government fees that go directly to ${pricing.name}:`,
+      '',
+      `| Company Type | ${levels.map(level => EXPEDITE_LABELS[level]).join(' | ')} |`,
+      `|--------------|${levels.map(() => '------').join('|')}|`,
+      ...rows,
+      ...(pricing.notes ? ['', ...pricing.notes.map(note => `- ${note}`)] : []),
+    ].join('\n');
+  }).join('\n\n');
+}
 
 // Resource definitions
 export const FORMATION_RESOURCES: Resource[] = [
@@ -11,7 +46,7 @@ export const FORMATION_RESOURCES: Resource[] = [
   {
     uri: 'formation://pricing',
     name: 'Pricing Information',
-    description: 'Delaware filing fees and service costs',
+    description: 'State filing fees and service costs',
     mimeType: 'text/markdown',
   },
   {
@@ -38,6 +73,12 @@ export const FORMATION_RESOURCES: Resource[] = [
     description: 'How our legal team incorporates your company and transfers ownership to you',
     mimeType: 'text/markdown',
   },
+  {
+    uri: 'formation://errors',
+    name: 'Error Catalog',
+    description: 'Every error code tools can return, whether it is retryable and what to do about it',
+    mimeType: 'application/json',
+  },
 ];
 
 // Resource content - EDIT THIS CONTENT TO CUSTOMIZE YOUR MCP
@@ -107,7 +148,9 @@ Review the PDF at the provided URL, then call \`formation_approve_certificate\`
   'formation://pricing': `# Lovie Formation Pricing
 
 ## Lovie Service Fee
-**FREE** - We don't charge you for company formation. Lovie handles everything at no cost to you.
+${SERVICE_FEE === 0
+    ? '**FREE** - We don\'t charge you for company formation. Lovie handles everything at no cost to you.'
+    : `**${formatAmount(SERVICE_FEE)}** per formation.`}
 
 ## What's Included (Free)
 - Company formation filing
@@ -131,18 +174,10 @@ Lovie handles all post-formation compliance at no cost:
 - FinCEN BOI report guidance
 - Legal document updates
 
-## State Filing Fees (Paid to Delaware)
-These are government fees that go directly to Delaware:
-
-### LLC
-- **Standard Filing**: $90
-- **Same-Day Filing**: +$100
-- **24-Hour Filing**: +$50
+## State Filing Fees
+${renderStateFilingFees()}
 
-### Corporation (C-Corp / S-Corp)
-- **Standard Filing**: $89 (minimum)
-- **Same-Day Filing**: +$100
-- **24-Hour Filing**: +$50
+Use \`formation_get_quote\` for an itemized quote of a formation. Partner promo codes (accelerators, law firms) can discount or waive the fees - apply them with \`formation_apply_promo_code\`.
 
 ## Annual Fees (Delaware Requirements)
 
@@ -528,12 +563,27 @@ This is the same process used by:
 `,
 };
 
+// Error catalog as JSON - codes and fields are stable across releases
+RESOURCE_CONTENT['formation://errors'] = JSON.stringify({
+  errors: Object.entries(ERROR_CATALOG).map(([code, entry]) => ({ code, ...entry })),
+}, null, 2);
+
 // Get resource content by URI
 export function getResourceContent(uri: string): string | null {
   return RESOURCE_CONTENT[uri] || null;
 }
 
+// Get the MIME type of a resource by URI
+export function getResourceMimeType(uri: string): string {
+  return FORMATION_RESOURCES.find(resource => resource.uri === uri)?.mimeType || 'text/markdown';
+}
+
 // List all available resources
 export function getAllResources(): Resource[] {
   return FORMATION_RESOURCES;
 }
+
+// List resource templates rendered from live session data
+export function getAllResourceTemplates(): ResourceTemplate[] {
+  return SESSION_RESOURCE_TEMPLATES;
+}
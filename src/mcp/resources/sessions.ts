@@ -0,0 +1,160 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { Address, FormationSession, FormationStep } from '../state/types';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { loadSession, calculateProgress, getRemainingSteps, STEP_DESCRIPTIONS } from '../middleware/session';
+import { STEP_DEPENDENCIES } from '../middleware/dependencies';
+import { validateSession } from '../middleware/preflight';
+
+export type SessionResourceView = 'summary' | 'certificate' | 'checklist';
+
+interface SessionResourceRenderer {
+  template: ResourceTemplate;
+  render(session: FormationSession): string;
+}
+
+export interface SessionResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const SESSION_URI_PATTERN = /^formation:\/\/session\/([^/]+)\/([a-z]+)$/;
+
+function formatAddress(address?: Address): string {
+  if (!address) return 'Not set';
+  return [address.street1, address.street2, `${address.city}, ${address.state} ${address.zipCode}`].filter(Boolean).join(', ');
+}
+
+function renderSummary(session: FormationSession): string {
+  const details = session.companyDetails || {};
+  const companyType = details.companyType;
+  const owners = session.shareholders.length > 0
+    ? session.shareholders.map(s => `- ${s.firstName} ${s.lastName} (${s.email}) - ${s.ownershipPercentage}%${s.role ? `, ${s.role}` : ''}`).join('\n')
+    : '- None yet';
+
+  return `# ${details.fullName || 'Unnamed company'}
+
+**Status:** ${session.status} - ${calculateProgress(session.currentStep, companyType)}% complete
+**Current step:** ${STEP_DESCRIPTIONS[session.currentStep]}
+
+## Company
+- **State:** ${details.state || 'Not set'}
+- **Type:** ${companyType || 'Not set'}
+- **Name check:** ${session.nameCheckResult ? (session.nameCheckResult.available ? 'Available' : 'Not available') : 'Not checked'}
+- **Company address:** ${details.companyAddress?.address ? formatAddress(details.companyAddress.address) : details.companyAddress ? 'Assistance requested' : 'Not set'}
+- **Registered agent:** ${session.registeredAgent ? `${session.registeredAgent.name} (${formatAddress(session.registeredAgent.address)})` : 'Not set'}
+${session.shareStructure ? `- **Shares:** ${session.shareStructure.authorizedShares.toLocaleString('en-US')} at $${session.shareStructure.parValuePerShare} par value\n` : ''}- **Authorized party:** ${session.authorizedParty ? `${session.authorizedParty.name}, ${session.authorizedParty.title}` : 'Not set'}
+
+## ${companyType === 'LLC' ? 'Members' : 'Shareholders'}
+${owners}
+
+## Filing
+- **Certificate:** ${session.certificateData ? (session.certificateData.approvedAt ? 'Approved' : 'Generated, awaiting approval') : 'Not generated'}
+- **Payment:** ${session.paymentStatus || 'Not started'}
+- **Submission:** ${session.submissionResult ? session.submissionResult.status : 'Not submitted'}
+
+_Updated ${session.updatedAt}_
+`;
+}
+
+function renderCertificate(session: FormationSession): string {
+  const certificate = session.certificateData;
+
+  return JSON.stringify({
+    sessionId: session.sessionId,
+    status: certificate ? (certificate.approvedAt ? 'approved' : 'generated') : 'not_generated',
+    certificateId: certificate?.certificateId,
+    generatedAt: certificate?.generatedAt,
+    approvedAt: certificate?.approvedAt,
+    previewUrl: certificate?.previewUrl,
+    downloadUrl: certificate?.downloadUrl,
+    expiresAt: certificate?.expiresAt,
+    nextAction: certificate
+      ? (certificate.approvedAt ? null : 'formation_approve_certificate')
+      : 'formation_generate_certificate',
+  }, null, 2);
+}
+
+function renderChecklist(session: FormationSession): string {
+  const companyType = session.companyDetails?.companyType;
+  const remaining = getRemainingSteps(session.currentStep, companyType) as FormationStep[];
+  const report = validateSession(session, session.paymentStatus === 'completed' ? 'submission' : 'payment');
+  const steps = remaining.length > 0
+    ? remaining.map(step => `- [ ] ${STEP_DESCRIPTIONS[step]} (\`${STEP_DEPENDENCIES[step].tool}\`)`).join('\n')
+    : '- [x] All steps complete';
+  const issues = (list: typeof report.errors) => list.length > 0
+    ? list.map(issue => `- ${issue.message}${issue.tool ? ` (\`${issue.tool}\`)` : ''}`).join('\n')
+    : '- None';
+
+  return `# Formation Checklist
+
+## Remaining Steps
+${steps}
+
+## Blocking ${report.stage === 'payment' ? 'Payment' : 'Submission'}
+${issues(report.errors)}
+
+## Warnings
+${issues(report.warnings)}
+`;
+}
+
+const SESSION_RESOURCES: Record<SessionResourceView, SessionResourceRenderer> = {
+  summary: {
+    template: {
+      uriTemplate: 'formation://session/{sessionId}/summary',
+      name: 'Session Summary',
+      description: 'Live summary of a formation session: company, owners and filing status',
+      mimeType: 'text/markdown',
+    },
+    render: renderSummary,
+  },
+  certificate: {
+    template: {
+      uriTemplate: 'formation://session/{sessionId}/certificate',
+      name: 'Session Certificate',
+      description: 'Certificate status and preview/download links for a formation session',
+      mimeType: 'application/json',
+    },
+    render: renderCertificate,
+  },
+  checklist: {
+    template: {
+      uriTemplate: 'formation://session/{sessionId}/checklist',
+      name: 'Session Checklist',
+      description: 'Remaining steps, blocking errors and warnings for a formation session',
+      mimeType: 'text/markdown',
+    },
+    render: renderChecklist,
+  },
+};
+
+export const SESSION_RESOURCE_TEMPLATES: ResourceTemplate[] = Object.values(SESSION_RESOURCES).map(r => r.template);
+
+export function getSessionResourceUri(sessionId: string, view: SessionResourceView): string {
+  return `formation://session/${sessionId}/${view}`;
+}
+
+// Session ID and view of a session resource URI, or null for other URIs
+export function parseSessionResourceUri(uri: string): { sessionId: string; view: SessionResourceView } | null {
+  const match = SESSION_URI_PATTERN.exec(uri);
+  // Own keys only - `in` would also match constructor, toString and other inherited keys
+  if (!match || !Object.prototype.hasOwnProperty.call(SESSION_RESOURCES, match[2])) return null;
+  return { sessionId: decodeURIComponent(match[1]), view: match[2] as SessionResourceView };
+}
+
+// Render a session resource from the stored session.
+// Returns null for URIs that are not session resources; throws for missing or expired sessions.
+export async function readSessionResource(uri: string, store: FormationSessionStore): Promise<SessionResourceContent | null> {
+  const parsed = parseSessionResourceUri(uri);
+  if (!parsed) return null;
+
+  const session = await loadSession(parsed.sessionId, store);
+  const resource = SESSION_RESOURCES[parsed.view];
+
+  return {
+    uri,
+    mimeType: resource.template.mimeType || 'text/markdown',
+    text: resource.render(session),
+  };
+}
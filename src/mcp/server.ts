@@ -1,107 +1,93 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { getAllTools, handleToolCall } from './tools/index';
-import { getSessionStore } from './state/FormationSessionStore';
-import { getAllResources, getResourceContent } from './resources/index';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { getSessionStore, FormationSessionStore } from './state/FormationSessionStore';
+import { DispatchContext, dispatchMessage } from './protocol';
+import { startLifecycleScheduler } from './lifecycle';
+import { AuthContext, createAuthContext } from './auth';
 
-export function createMCPServer(): Server {
-  const server = new Server(
-    {
-      name: 'lovie-formation',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-        resources: {},
-      },
-    }
-  );
-
-  // Initialize session store
-  const store = getSessionStore();
-
-  // List available tools
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools = getAllTools();
-    return { tools };
-  });
-
-  // List available resources
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    const resources = getAllResources();
-    return { resources };
-  });
-
-  // Read resource content
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const { uri } = request.params;
-    const content = getResourceContent(uri);
+// MCP server bound to one connection - messages are handled by the shared dispatcher
+export interface MCPServer {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
 
-    if (!content) {
-      throw new Error(`Resource not found: ${uri}`);
-    }
+export interface MCPServerOptions {
+  // Authentication for the connection, e.g. from the Authorization header that opened it
+  auth?: AuthContext;
+  // True when the client runs on this machine (stdio)
+  local?: boolean;
+  // IP address of a remote client, used for rate limits
+  clientIp?: string;
+}
 
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/markdown',
-          text: content,
-        },
-      ],
-    };
-  });
+export function createMCPServer(store: FormationSessionStore = getSessionStore(), options: MCPServerOptions = {}): MCPServer {
+  let connected: Transport | undefined;
+  const subscriptions = new Map<string, () => void>();
+  const connection = new AbortController();
 
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  return {
+    async connect(transport: Transport) {
+      connected = transport;
+      const context: DispatchContext = {
+        store,
+        notify: notification => transport.send(notification as JSONRPCMessage),
+        subscriptions,
+        requests: new Map(),
+        signal: connection.signal,
+        auth: options.auth || createAuthContext(),
+        local: options.local,
+        clientIp: options.clientIp,
+      };
 
-    try {
-      const result = await handleToolCall(name, args || {}, store);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
+      transport.onmessage = async (message) => {
+        try {
+          const response = await dispatchMessage(message, context);
+          if (response) {
+            await transport.send(response as JSONRPCMessage);
+          }
+        } catch (error) {
+          console.error('Failed to handle MCP message:', error);
+        }
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: true,
-              code: 'TOOL_ERROR',
-              message: errorMessage,
-            }, null, 2),
-          },
-        ],
-        isError: true,
+      transport.onerror = (error) => {
+        console.error('MCP transport error:', error);
       };
-    }
-  });
 
-  return server;
+      await transport.start();
+    },
+
+    async close() {
+      // Abort tool calls still running for this connection
+      connection.abort();
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe();
+      }
+      subscriptions.clear();
+      await connected?.close();
+      connected = undefined;
+    },
+  };
 }
 
 export async function startStdioServer(): Promise<void> {
-  const server = createMCPServer();
+  const server = createMCPServer(getSessionStore(), { local: true });
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
 
+  // Expire, abandon and remind about idle sessions in the background
+  const stopLifecycle = startLifecycleScheduler(getSessionStore());
+
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
+    stopLifecycle();
     await server.close();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
+    stopLifecycle();
     await server.close();
     process.exit(0);
   });
@@ -1,75 +1,172 @@
 import { v4 as uuidv4 } from 'uuid';
 import { FormationSession, FormationStep, SessionStatus } from './types';
+import { SessionStorageAdapter, SessionStorageType, createStorageAdapter, MemoryStorageAdapter } from './adapters';
+import { sessionConflict } from '../errors';
+import { getLifecycleConfig } from '../lifecycle';
 
-// In-memory session store (for development/testing)
-// In production, this would use Redis or a database
-const sessions = new Map<string, FormationSession>();
+// Default session TTL in milliseconds (24 hours) - extended on activity by the lifecycle subsystem
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 
-// Session TTL in milliseconds (24 hours)
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// Called after a session is saved, with the saved session
+export type SessionSaveListener = (session: FormationSession) => void;
 
+// Session store backed by a pluggable storage adapter
+// Defaults to in-memory storage; configure MCP_SESSION_STORAGE for durable backends
 export class FormationSessionStore {
+  private adapter: SessionStorageAdapter;
+  // Per-session write queue, so saves in this process do not race each other for the version
+  private writeLocks = new Map<string, Promise<void>>();
+  private saveListeners = new Set<SessionSaveListener>();
+
+  private ttlMs: number;
+
+  constructor(adapter: SessionStorageAdapter = new MemoryStorageAdapter(), ttlMs: number = DEFAULT_SESSION_TTL_MS) {
+    this.adapter = adapter;
+    this.ttlMs = ttlMs;
+  }
+
+  // Storage backend in use
+  get storageType(): SessionStorageType {
+    return this.adapter.type;
+  }
+
   // Create a new session
   async create(userId?: string): Promise<FormationSession> {
     const now = new Date();
     const session: FormationSession = {
       sessionId: uuidv4(),
+      version: 1,
       userId,
       status: SessionStatus.CREATED,
       currentStep: FormationStep.CREATED,
       shareholders: [],
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
-      expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+      lastActivityAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
     };
 
-    sessions.set(session.sessionId, session);
+    await this.adapter.set(session);
     return session;
   }
 
   // Get session by ID
   async get(sessionId: string): Promise<FormationSession | null> {
-    return sessions.get(sessionId) || null;
+    return this.adapter.get(sessionId);
   }
 
   // Save/update session
+  // Rejects with SESSION_CONFLICT if the session was saved by someone else since it was loaded.
+  // The adapter checks the version and writes in one step, so this holds across processes
+  // sharing the storage as well as within this one.
   async save(session: FormationSession): Promise<void> {
-    session.updatedAt = new Date().toISOString();
-    sessions.set(session.sessionId, session);
+    await this.withWriteLock(session.sessionId, async () => {
+      // Sessions persisted before versioning was introduced have no version
+      const expectedVersion = session.version ?? 0;
+
+      const updated: FormationSession = {
+        ...session,
+        version: expectedVersion + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      const result = await this.adapter.compareAndSet(updated, expectedVersion);
+      if (!result.written) {
+        throw sessionConflict(session.sessionId, expectedVersion, result.storedVersion);
+      }
+
+      session.version = updated.version;
+      session.updatedAt = updated.updatedAt;
+      this.emitSaved(updated);
+    });
+  }
+
+  // Listen for saved sessions (e.g. to notify resource subscribers). Returns an unsubscribe function.
+  onSave(listener: SessionSaveListener): () => void {
+    this.saveListeners.add(listener);
+    return () => {
+      this.saveListeners.delete(listener);
+    };
   }
 
   // Delete session
   async delete(sessionId: string): Promise<boolean> {
-    return sessions.delete(sessionId);
+    return this.adapter.delete(sessionId);
   }
 
   // List all sessions (for debugging)
   async list(): Promise<FormationSession[]> {
-    return Array.from(sessions.values());
+    return this.adapter.list();
   }
 
-  // Clean up expired sessions
-  async cleanup(): Promise<number> {
-    const now = new Date();
+  // List sessions owned by a user
+  async listByUser(userId: string): Promise<FormationSession[]> {
+    return (await this.adapter.list()).filter(session => session.userId === userId);
+  }
+
+  // Shared document stored next to the sessions, or null when it was never written
+  async getRecord<T>(key: string): Promise<T | null> {
+    return (await this.adapter.getRecord(key)) as T | null;
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    await this.adapter.setRecord(key, value);
+  }
+
+  // Run fn while no other process sharing the storage holds the lock with the same name
+  async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    return this.adapter.withLock(name, fn);
+  }
+
+  // Delete sessions that expired more than graceMs ago
+  async cleanup(graceMs: number = 0): Promise<number> {
+    const now = Date.now();
     let cleaned = 0;
 
-    for (const [sessionId, session] of sessions) {
-      if (new Date(session.expiresAt) < now) {
-        sessions.delete(sessionId);
-        cleaned++;
+    for (const session of await this.adapter.list()) {
+      if (Date.parse(session.expiresAt) + graceMs < now) {
+        if (await this.adapter.delete(session.sessionId)) {
+          cleaned++;
+        }
       }
     }
 
     return cleaned;
   }
+
+  // A failing listener must not fail the save that triggered it
+  private emitSaved(session: FormationSession): void {
+    for (const listener of this.saveListeners) {
+      try {
+        listener(session);
+      } catch (error) {
+        console.error('Session save listener failed:', error);
+      }
+    }
+  }
+
+  private async withWriteLock(sessionId: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.writeLocks.get(sessionId) || Promise.resolve();
+    const current = previous.then(fn);
+    const settled = current.catch(() => undefined);
+    this.writeLocks.set(sessionId, settled);
+
+    try {
+      await current;
+    } finally {
+      if (this.writeLocks.get(sessionId) === settled) {
+        this.writeLocks.delete(sessionId);
+      }
+    }
+  }
 }
 
 // Singleton instance
 let storeInstance: FormationSessionStore | null = null;
 
+// Shared store used by the stdio server, the Express server and the Vercel handlers
 export function getSessionStore(): FormationSessionStore {
   if (!storeInstance) {
-    storeInstance = new FormationSessionStore();
+    storeInstance = new FormationSessionStore(createStorageAdapter(), getLifecycleConfig().ttlMs);
   }
   return storeInstance;
 }
@@ -0,0 +1,158 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FormationSession } from '../types';
+import { CompareAndSetResult, SessionStorageAdapter } from './types';
+import { withFileLock } from './lock';
+
+// Session IDs are UUIDs - anything else must never reach the filesystem
+const SAFE_SESSION_ID = /^[A-Za-z0-9-]+$/;
+const SAFE_NAME = /^[A-Za-z0-9_-]+$/;
+
+// Temp files are unique per write, so concurrent writes never rename each other's file
+let tempFileCounter = 0;
+
+export function uniqueTempPath(filePath: string): string {
+  tempFileCounter += 1;
+  return `${filePath}.${process.pid}.${tempFileCounter}.tmp`;
+}
+
+// File-backed adapter - one JSON document per session, and one per record in records/
+export class FileStorageAdapter implements SessionStorageAdapter {
+  readonly type = 'file' as const;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  async get(sessionId: string): Promise<FormationSession | null> {
+    const filePath = this.filePath(sessionId);
+    if (!filePath) return null;
+
+    await this.ensureDirectory();
+    return this.readSession(filePath);
+  }
+
+  async set(session: FormationSession): Promise<void> {
+    await this.write(this.requireFilePath(session.sessionId), session);
+  }
+
+  // Processes sharing the directory take the session's lock file, so the version check
+  // and the write cannot interleave with another writer
+  async compareAndSet(session: FormationSession, expectedVersion: number): Promise<CompareAndSetResult> {
+    const filePath = this.requireFilePath(session.sessionId);
+    await this.ensureDirectory();
+
+    return withFileLock(`${filePath}.lock`, async () => {
+      const stored = await this.readSession(filePath);
+      const storedVersion = stored?.version ?? 0;
+      if (stored && storedVersion !== expectedVersion) {
+        return { written: false, storedVersion };
+      }
+      await this.write(filePath, session);
+      return { written: true, storedVersion };
+    });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const filePath = this.filePath(sessionId);
+    if (!filePath) return false;
+
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<FormationSession[]> {
+    await this.ensureDirectory();
+    const files = await fs.readdir(this.directory);
+    const sessions: FormationSession[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const session = await this.readSession(path.join(this.directory, file));
+      if (session) sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  async getRecord(key: string): Promise<unknown | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(key), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    const filePath = this.recordPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await this.write(filePath, value);
+  }
+
+  async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    if (!SAFE_NAME.test(name)) {
+      throw new Error(`Invalid lock name: ${name}`);
+    }
+    await this.ensureDirectory();
+    return withFileLock(path.join(this.directory, `${name}.lock`), fn);
+  }
+
+  private requireFilePath(sessionId: string): string {
+    const filePath = this.filePath(sessionId);
+    if (!filePath) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return filePath;
+  }
+
+  // Records live in a subdirectory, so list() never reads them as sessions
+  private recordPath(key: string): string {
+    if (!SAFE_NAME.test(key)) {
+      throw new Error(`Invalid record key: ${key}`);
+    }
+    return path.join(this.directory, 'records', `${key}.json`);
+  }
+
+  // Write to a temp file first so a crash never leaves a half-written document
+  private async write(filePath: string, value: unknown): Promise<void> {
+    await this.ensureDirectory();
+    const tempPath = uniqueTempPath(filePath);
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(sessionId: string): string | null {
+    if (!sessionId || !SAFE_SESSION_ID.test(sessionId)) return null;
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+
+  private async readSession(filePath: string): Promise<FormationSession | null> {
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(data) as FormationSession;
+    } catch (error) {
+      // Missing or unreadable file - treat as no session
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true })
+        .then(() => undefined)
+        .catch((error) => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+}
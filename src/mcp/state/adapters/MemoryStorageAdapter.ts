@@ -0,0 +1,54 @@
+import { FormationSession } from '../types';
+import { CompareAndSetResult, SessionStorageAdapter } from './types';
+import { withProcessLock } from './lock';
+
+// In-memory adapter (development/testing)
+// Sessions are lost when the process restarts
+export class MemoryStorageAdapter implements SessionStorageAdapter {
+  readonly type = 'memory' as const;
+  private sessions = new Map<string, string>();
+  private records = new Map<string, string>();
+
+  async get(sessionId: string): Promise<FormationSession | null> {
+    const data = this.sessions.get(sessionId);
+    return data ? JSON.parse(data) as FormationSession : null;
+  }
+
+  // Sessions are stored serialized so callers never share references,
+  // matching the behaviour of the durable adapters
+  async set(session: FormationSession): Promise<void> {
+    this.sessions.set(session.sessionId, JSON.stringify(session));
+  }
+
+  async compareAndSet(session: FormationSession, expectedVersion: number): Promise<CompareAndSetResult> {
+    const data = this.sessions.get(session.sessionId);
+    const storedVersion = data ? (JSON.parse(data) as FormationSession).version ?? 0 : 0;
+    if (data && storedVersion !== expectedVersion) {
+      return { written: false, storedVersion };
+    }
+    this.sessions.set(session.sessionId, JSON.stringify(session));
+    return { written: true, storedVersion };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<FormationSession[]> {
+    return Array.from(this.sessions.values()).map(data => JSON.parse(data) as FormationSession);
+  }
+
+  async getRecord(key: string): Promise<unknown | null> {
+    const data = this.records.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    this.records.set(key, JSON.stringify(value));
+  }
+
+  // Nothing else can see this storage, so a lock within the process is enough
+  async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    return withProcessLock(`memory:${name}`, fn);
+  }
+}
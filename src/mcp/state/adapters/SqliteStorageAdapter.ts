@@ -0,0 +1,193 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Database, SqlJsStatic } from 'sql.js';
+import { FormationSession } from '../types';
+import { CompareAndSetResult, SessionStorageAdapter } from './types';
+import { withFileLock } from './lock';
+import { uniqueTempPath } from './FileStorageAdapter';
+
+const CREATE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS formation_sessions (
+    session_id TEXT PRIMARY KEY,
+    user_id TEXT,
+    data TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS formation_records (
+    record_key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
+
+// sql.js is pure WebAssembly, so it runs on Vercel and npx installs without native builds
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js').then(module => module.default());
+  }
+  return sqlJsPromise;
+}
+
+const UPSERT_SQL = `
+  INSERT INTO formation_sessions (session_id, user_id, data, expires_at, updated_at)
+  VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT(session_id) DO UPDATE SET
+    user_id = excluded.user_id,
+    data = excluded.data,
+    expires_at = excluded.expires_at,
+    updated_at = excluded.updated_at
+`;
+
+// Embedded SQLite adapter
+// The database lives in memory and is flushed to databasePath after every write.
+// If another process writes the file, it is reloaded before the next operation.
+// Writes hold a lock file next to the database, so each one reloads, changes and flushes
+// the database without another process flushing in between.
+export class SqliteStorageAdapter implements SessionStorageAdapter {
+  readonly type = 'sqlite' as const;
+  private db: Database | null = null;
+  private loadedMtimeMs = 0;
+  // Flushes run one at a time, so an older snapshot never lands on disk after a newer one
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly databasePath: string) {}
+
+  async get(sessionId: string): Promise<FormationSession | null> {
+    const db = await this.open();
+    const statement = db.prepare('SELECT data FROM formation_sessions WHERE session_id = ?');
+
+    try {
+      statement.bind([sessionId]);
+      if (!statement.step()) return null;
+      const row = statement.getAsObject();
+      return JSON.parse(row.data as string) as FormationSession;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async set(session: FormationSession): Promise<void> {
+    await this.withWriteLock(async () => {
+      const db = await this.open();
+      db.run(UPSERT_SQL, this.row(session));
+      await this.flush(db);
+    });
+  }
+
+  async compareAndSet(session: FormationSession, expectedVersion: number): Promise<CompareAndSetResult> {
+    return this.withWriteLock(async () => {
+      const db = await this.open();
+      const found = db.exec(
+        "SELECT COALESCE(json_extract(data, '$.version'), 0) FROM formation_sessions WHERE session_id = ?",
+        [session.sessionId]
+      );
+      const stored = found.length > 0 && found[0].values.length > 0;
+      const storedVersion = stored ? Number(found[0].values[0][0]) : 0;
+      if (stored && storedVersion !== expectedVersion) {
+        return { written: false, storedVersion };
+      }
+
+      db.run(UPSERT_SQL, this.row(session));
+      await this.flush(db);
+      return { written: true, storedVersion };
+    });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.withWriteLock(async () => {
+      const db = await this.open();
+      db.run('DELETE FROM formation_sessions WHERE session_id = ?', [sessionId]);
+      const deleted = db.getRowsModified() > 0;
+      if (deleted) {
+        await this.flush(db);
+      }
+      return deleted;
+    });
+  }
+
+  async list(): Promise<FormationSession[]> {
+    const db = await this.open();
+    const results = db.exec('SELECT data FROM formation_sessions ORDER BY updated_at DESC');
+    if (results.length === 0) return [];
+
+    return results[0].values.map(([data]) => JSON.parse(data as string) as FormationSession);
+  }
+
+  async getRecord(key: string): Promise<unknown | null> {
+    const db = await this.open();
+    const results = db.exec('SELECT data FROM formation_records WHERE record_key = ?', [key]);
+    if (results.length === 0 || results[0].values.length === 0) return null;
+
+    return JSON.parse(results[0].values[0][0] as string);
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    await this.withWriteLock(async () => {
+      const db = await this.open();
+      db.run(
+        `INSERT INTO formation_records (record_key, data, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(record_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+        [key, JSON.stringify(value), new Date().toISOString()]
+      );
+      await this.flush(db);
+    });
+  }
+
+  async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    return withFileLock(`${this.databasePath}.${name}.lock`, fn);
+  }
+
+  private row(session: FormationSession): (string | null)[] {
+    return [session.sessionId, session.userId ?? null, JSON.stringify(session), session.expiresAt, session.updatedAt];
+  }
+
+  private withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(`${this.databasePath}.lock`, fn);
+  }
+
+  // Open (or reload) the database from disk
+  private async open(): Promise<Database> {
+    const SQL = await loadSqlJs();
+    const mtimeMs = await this.fileMtime();
+
+    if (this.db && mtimeMs === this.loadedMtimeMs) {
+      return this.db;
+    }
+
+    if (this.db) {
+      this.db.close();
+    }
+
+    const contents = mtimeMs > 0 ? await fs.readFile(this.databasePath) : null;
+    this.db = contents ? new SQL.Database(contents) : new SQL.Database();
+    this.db.run(CREATE_TABLE_SQL);
+    this.loadedMtimeMs = mtimeMs;
+
+    return this.db;
+  }
+
+  private flush(db: Database): Promise<void> {
+    const flushed = this.flushing.then(async () => {
+      await fs.mkdir(path.dirname(this.databasePath), { recursive: true });
+      const tempPath = uniqueTempPath(this.databasePath);
+      await fs.writeFile(tempPath, Buffer.from(db.export()));
+      await fs.rename(tempPath, this.databasePath);
+      this.loadedMtimeMs = await this.fileMtime();
+    });
+    this.flushing = flushed.catch(() => undefined);
+    return flushed;
+  }
+
+  private async fileMtime(): Promise<number> {
+    try {
+      const stats = await fs.stat(this.databasePath);
+      return stats.mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import os from 'os';
+import path from 'path';
+import { SessionStorageAdapter, SessionStorageConfig, SessionStorageType } from './types';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { FileStorageAdapter } from './FileStorageAdapter';
+import { SqliteStorageAdapter } from './SqliteStorageAdapter';
+
+export * from './types';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { FileStorageAdapter } from './FileStorageAdapter';
+export { SqliteStorageAdapter } from './SqliteStorageAdapter';
+
+const STORAGE_TYPES: SessionStorageType[] = ['memory', 'file', 'sqlite'];
+
+// Vercel functions can only write under the OS temp directory
+function defaultSessionDirectory(): string {
+  return process.env['VERCEL']
+    ? path.join(os.tmpdir(), 'lovie-formation', 'sessions')
+    : path.resolve('data', 'sessions');
+}
+
+// Read storage configuration from environment variables
+//   MCP_SESSION_STORAGE - memory (default), file or sqlite
+//   MCP_SESSION_DIR     - directory for the file adapter
+//   MCP_SESSION_DB      - database file for the SQLite adapter
+export function getSessionStorageConfig(): SessionStorageConfig {
+  const requested = (process.env['MCP_SESSION_STORAGE'] || 'memory').toLowerCase();
+  if (!STORAGE_TYPES.includes(requested as SessionStorageType)) {
+    throw new Error(`Invalid MCP_SESSION_STORAGE "${requested}". Valid options: ${STORAGE_TYPES.join(', ')}`);
+  }
+
+  const directory = process.env['MCP_SESSION_DIR']
+    ? path.resolve(process.env['MCP_SESSION_DIR'])
+    : defaultSessionDirectory();
+
+  return {
+    type: requested as SessionStorageType,
+    directory,
+    databasePath: process.env['MCP_SESSION_DB']
+      ? path.resolve(process.env['MCP_SESSION_DB'])
+      : path.join(directory, 'sessions.sqlite'),
+  };
+}
+
+// Create the storage adapter for a configuration
+export function createStorageAdapter(config: SessionStorageConfig = getSessionStorageConfig()): SessionStorageAdapter {
+  switch (config.type) {
+    case 'file':
+      return new FileStorageAdapter(config.directory);
+    case 'sqlite':
+      return new SqliteStorageAdapter(config.databasePath);
+    case 'memory':
+    default:
+      return new MemoryStorageAdapter();
+  }
+}
@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// A lock file older than this belongs to a crashed process and is taken over
+const STALE_LOCK_MS = 10_000;
+const RETRY_DELAY_MS = 10;
+const LOCK_TIMEOUT_MS = 15_000;
+
+// Holders in this process queue here instead of polling the lock file
+const queues = new Map<string, Promise<void>>();
+
+async function acquire(lockPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+        await fs.unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+    } catch (error) {
+      // Released between open and stat - try again straight away
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+  }
+}
+
+// Run fn after every earlier holder of key in this process has finished
+export async function withProcessLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) || Promise.resolve();
+  const current = previous.then(fn);
+  const settled = current.then(() => undefined, () => undefined);
+  queues.set(key, settled);
+
+  try {
+    return await current;
+  } finally {
+    if (queues.get(key) === settled) {
+      queues.delete(key);
+    }
+  }
+}
+
+// Run fn while holding an exclusive lock shared by every process using the same lockPath
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  return withProcessLock(lockPath, async () => {
+    await acquire(lockPath);
+    try {
+      return await fn();
+    } finally {
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  });
+}
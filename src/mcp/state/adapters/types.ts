@@ -0,0 +1,38 @@
+import { FormationSession } from '../types';
+
+// Storage adapter contract used by FormationSessionStore
+// Adapters only persist and retrieve sessions - TTL and step logic stay in the store
+export interface SessionStorageAdapter {
+  readonly type: SessionStorageType;
+  get(sessionId: string): Promise<FormationSession | null>;
+  set(session: FormationSession): Promise<void>;
+  // Write the session only if the stored copy is still at expectedVersion, or there is none.
+  // The check and the write are atomic across every process sharing the storage.
+  compareAndSet(session: FormationSession, expectedVersion: number): Promise<CompareAndSetResult>;
+  delete(sessionId: string): Promise<boolean>;
+  list(): Promise<FormationSession[]>;
+  // Small documents shared by every session, e.g. a promo code's redemptions. Keys use letters,
+  // digits, - and _. Writers that read before they write hold withLock with the key's name.
+  getRecord(key: string): Promise<unknown | null>;
+  setRecord(key: string, value: unknown): Promise<void>;
+  // Run fn while no other process sharing the storage holds the lock with the same name.
+  // Guards checks that span several sessions, e.g. a promo code's usage limit.
+  withLock<T>(name: string, fn: () => Promise<T>): Promise<T>;
+}
+
+export interface CompareAndSetResult {
+  written: boolean;
+  // Version found in storage (0 when there was no stored copy or it had no version)
+  storedVersion: number;
+}
+
+// Supported storage backends
+export type SessionStorageType = 'memory' | 'file' | 'sqlite';
+
+export interface SessionStorageConfig {
+  type: SessionStorageType;
+  // Directory for the file adapter (one JSON document per session)
+  directory: string;
+  // Database file for the SQLite adapter
+  databasePath: string;
+}
@@ -0,0 +1,136 @@
+import { FormationSession } from './types';
+import { encrypt, decrypt, hash } from '../../utils/encryption';
+import { MCPToolError, ErrorCode } from '../errors';
+
+// Identifies a JSON document as an exported formation session
+export const SESSION_BUNDLE_FORMAT = 'lovie.formation-session';
+
+// Schema version of the session data in a bundle.
+// 1: sessions before optimistic concurrency (no version, history or invalidations)
+// 2: current FormationSession
+export const SESSION_SCHEMA_VERSION = 2;
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  // sha256 of the serialized session, checked after decryption
+  checksum: string;
+  encrypted: boolean;
+  // Plain session data (unencrypted bundles)
+  session?: Record<string, unknown>;
+  // Encrypted session data (aes-256-gcm, base64)
+  payload?: string;
+}
+
+type SessionData = Record<string, unknown>;
+
+// Upgrades session data from schema version N to N + 1
+const MIGRATIONS: Record<number, (data: SessionData) => SessionData> = {
+  1: data => ({
+    ...data,
+    version: typeof data.version === 'number' ? data.version : 0,
+    shareholders: Array.isArray(data.shareholders) ? data.shareholders : [],
+  }),
+};
+
+function bundleError(code: ErrorCode, message: string, details?: Record<string, unknown>): MCPToolError {
+  return new MCPToolError({
+    code,
+    message,
+    details,
+    retryable: false,
+    suggestion: 'Export the session again with formation_export_session and import the unmodified bundle',
+  });
+}
+
+// Serialize a session into a versioned, checksummed bundle, optionally encrypted with a passphrase
+export function createSessionBundle(session: FormationSession, passphrase?: string): SessionBundle {
+  const serialized = JSON.stringify(session);
+  const bundle: SessionBundle = {
+    format: SESSION_BUNDLE_FORMAT,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: hash(serialized),
+    encrypted: Boolean(passphrase),
+  };
+
+  if (passphrase) {
+    bundle.payload = encrypt(serialized, passphrase);
+  } else {
+    bundle.session = JSON.parse(serialized);
+  }
+
+  return bundle;
+}
+
+// Verify a bundle, decrypt it if needed and migrate its session data to the current schema
+export function readSessionBundle(input: unknown, passphrase?: string): { data: SessionData; schemaVersion: number } {
+  let bundle = input;
+  if (typeof bundle === 'string') {
+    try {
+      bundle = JSON.parse(bundle);
+    } catch {
+      throw bundleError(ErrorCode.BUNDLE_INVALID, 'Bundle is not valid JSON');
+    }
+  }
+
+  const candidate = bundle as Partial<SessionBundle> | null;
+  if (!candidate || typeof candidate !== 'object' || candidate.format !== SESSION_BUNDLE_FORMAT) {
+    throw bundleError(ErrorCode.BUNDLE_INVALID, 'Not a formation session bundle');
+  }
+  if (!Number.isInteger(candidate.schemaVersion) || candidate.schemaVersion! < 1) {
+    throw bundleError(ErrorCode.BUNDLE_INVALID, 'Bundle has no valid schema version');
+  }
+  if (candidate.schemaVersion! > SESSION_SCHEMA_VERSION) {
+    throw bundleError(
+      ErrorCode.BUNDLE_UNSUPPORTED_VERSION,
+      `Bundle schema version ${candidate.schemaVersion} is newer than supported version ${SESSION_SCHEMA_VERSION}`,
+      { schemaVersion: candidate.schemaVersion, supportedVersion: SESSION_SCHEMA_VERSION }
+    );
+  }
+  if (typeof candidate.checksum !== 'string') {
+    throw bundleError(ErrorCode.BUNDLE_INVALID, 'Bundle has no checksum');
+  }
+
+  let serialized: string;
+  if (candidate.encrypted) {
+    if (typeof candidate.payload !== 'string') {
+      throw bundleError(ErrorCode.BUNDLE_INVALID, 'Encrypted bundle has no payload');
+    }
+    if (!passphrase) {
+      throw new MCPToolError({
+        code: ErrorCode.BUNDLE_DECRYPTION_FAILED,
+        message: 'This bundle is encrypted and needs a passphrase',
+        retryable: true,
+        suggestion: 'Ask the user for the passphrase used when exporting the session',
+      });
+    }
+    try {
+      serialized = decrypt(candidate.payload, passphrase);
+    } catch {
+      throw new MCPToolError({
+        code: ErrorCode.BUNDLE_DECRYPTION_FAILED,
+        message: 'Could not decrypt the bundle - the passphrase is wrong or the bundle was modified',
+        retryable: true,
+        suggestion: 'Check the passphrase and try again',
+      });
+    }
+  } else {
+    if (!candidate.session || typeof candidate.session !== 'object') {
+      throw bundleError(ErrorCode.BUNDLE_INVALID, 'Bundle has no session data');
+    }
+    serialized = JSON.stringify(candidate.session);
+  }
+
+  if (hash(serialized) !== candidate.checksum) {
+    throw bundleError(ErrorCode.BUNDLE_CHECKSUM_MISMATCH, 'Bundle checksum does not match its contents');
+  }
+
+  let data: SessionData = JSON.parse(serialized);
+  for (let version = candidate.schemaVersion!; version < SESSION_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+
+  return { data, schemaVersion: candidate.schemaVersion! };
+}
@@ -0,0 +1,61 @@
+import { FormationStep, CompanyType } from './types';
+
+// Step order for progress calculation (C-Corp)
+export const STEP_ORDER: FormationStep[] = [
+  FormationStep.CREATED,
+  FormationStep.BUSINESS_DESCRIBED,
+  FormationStep.STATE_SELECTED,
+  FormationStep.TYPE_SELECTED,
+  FormationStep.ENDING_SELECTED,
+  FormationStep.NAME_SET,
+  FormationStep.NAME_CHECKED,
+  FormationStep.COMPANY_ADDRESS_SET,
+  FormationStep.AGENT_SET,
+  FormationStep.SHARES_SET,
+  FormationStep.SHAREHOLDERS_ADDED,
+  FormationStep.AUTHORIZED_PARTY_SET,
+  FormationStep.CERTIFICATE_GENERATED,
+  FormationStep.CERTIFICATE_APPROVED,
+  FormationStep.COMPLETED,
+];
+
+// Steps for LLC (no share structure)
+export const LLC_STEP_ORDER: FormationStep[] = [
+  FormationStep.CREATED,
+  FormationStep.BUSINESS_DESCRIBED,
+  FormationStep.STATE_SELECTED,
+  FormationStep.TYPE_SELECTED,
+  FormationStep.ENDING_SELECTED,
+  FormationStep.NAME_SET,
+  FormationStep.NAME_CHECKED,
+  FormationStep.COMPANY_ADDRESS_SET,
+  FormationStep.AGENT_SET,
+  FormationStep.SHAREHOLDERS_ADDED,
+  FormationStep.AUTHORIZED_PARTY_SET,
+  FormationStep.CERTIFICATE_GENERATED,
+  FormationStep.CERTIFICATE_APPROVED,
+  FormationStep.COMPLETED,
+];
+
+// Get step order based on company type
+export function getStepOrder(companyType?: CompanyType): FormationStep[] {
+  return companyType === 'LLC' ? LLC_STEP_ORDER : STEP_ORDER;
+}
+
+// Whether step a comes before step b in the full (C-Corp) order
+export function isStepBefore(a: FormationStep, b: FormationStep): boolean {
+  return STEP_ORDER.indexOf(a) < STEP_ORDER.indexOf(b);
+}
+
+// Make sure a step exists in the step order for the company type.
+// Steps that do not apply (e.g. SHARES_SET for an LLC) fall back to the closest earlier step.
+export function normalizeStep(step: FormationStep, companyType?: CompanyType): FormationStep {
+  const steps = getStepOrder(companyType);
+  if (steps.includes(step)) return step;
+
+  const fullIndex = STEP_ORDER.indexOf(step);
+  for (let i = fullIndex - 1; i >= 0; i--) {
+    if (steps.includes(STEP_ORDER[i])) return STEP_ORDER[i];
+  }
+  return FormationStep.CREATED;
+}
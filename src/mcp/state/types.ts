@@ -1,3 +1,5 @@
+import type { Quote } from '../../services/pricing';
+
 // Formation workflow step enumeration
 export enum FormationStep {
   CREATED = 'created',
@@ -67,6 +69,12 @@ export interface ShareStructure {
 // Shareholder/member roles
 export type ShareholderRole = 'member' | 'managing_member' | 'shareholder' | 'director' | 'officer';
 
+// Roles allowed for owners of each company type (first entry is the default)
+export const OWNER_ROLES_BY_COMPANY_TYPE: Record<CompanyType, ShareholderRole[]> = {
+  'LLC': ['member', 'managing_member'],
+  'C-Corp': ['shareholder', 'director', 'officer'],
+};
+
 export interface Shareholder {
   id: string;
   firstName: string;
@@ -125,10 +133,31 @@ export interface NameCheckResult {
   error?: boolean;
 }
 
+// running: the check is in flight, completed/failed: the result is stored in nameCheckResult,
+// superseded: the company name changed before the check finished
+export type NameCheckJobStatus = 'running' | 'completed' | 'failed' | 'superseded';
+
+// Background name check started by formation_set_company_name
+export interface NameCheckJob {
+  jobId: string;
+  companyName: string;
+  status: NameCheckJobStatus;
+  startedAt: string;
+  // Renewed by the process running the check. Once it passes, that process is taken to have
+  // stopped and another one may run the check again.
+  leaseExpiresAt?: string;
+  completedAt?: string;
+  error?: string;
+  // Set once the result has been included in a tool response
+  reportedAt?: string;
+}
+
 export interface CertificateData {
   certificateId: string;
   generatedAt: string;
   previewUrl?: string;
+  downloadUrl?: string;
+  expiresAt?: string;
   htmlContent?: string;
   approvedAt?: string;
 }
@@ -151,11 +180,121 @@ export interface SubmissionResult {
   filedAt?: string | null;
 }
 
+// Where a submission status change was learned from
+export type SubmissionStatusSource = 'submission' | 'webhook' | 'poll';
+
+// Entry in the submission status timeline
+export interface SubmissionStatusChange {
+  status: SubmissionStatus;
+  // When the backend changed the status
+  at: string;
+  source: SubmissionStatusSource;
+  // Webhook event ID, used to ignore redelivered events
+  eventId?: string;
+  filingError?: string | null;
+}
+
+// A formation_submit call, saved before the request is sent so that a retry after a
+// timeout reuses the idempotency key instead of creating a second formation request
+export interface SubmissionAttempt {
+  idempotencyKey: string;
+  // Certificate the submission was made for
+  certificateId?: string;
+  attempts: number;
+  startedAt: string;
+  lastAttemptAt: string;
+  // Set while the last attempt's request is being sent, so concurrent calls do not send it again
+  pending?: boolean;
+  // Error of the last attempt, when its outcome is known to be a failure
+  lastError?: string;
+  completedAt?: string;
+}
+
 // Payment status
-export type PaymentStatus = 'pending' | 'completed' | 'failed';
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+// Stripe payment a session was paid with
+export interface PaymentDetails {
+  // Paid Stripe Checkout Session (cs_...)
+  checkoutSessionId: string;
+  paymentIntentId?: string;
+  // Amounts are in the smallest currency unit, e.g. cents
+  amountTotal?: number;
+  currency?: string;
+  // checkout: found by formation_confirm_payment, webhook: reported by Stripe
+  verifiedBy: 'checkout' | 'webhook';
+  paidAt: string;
+  amountRefunded?: number;
+  refundedAt?: string;
+  // Stripe events already applied - redelivered events are ignored
+  eventIds?: string[];
+}
+
+// A paid checkout that did not cover the quote, e.g. one for an earlier, cheaper quote.
+// It does not pay for the formation and has to be refunded or topped up in Stripe.
+export interface PaymentShortfall {
+  checkoutSessionId: string;
+  amountTotal: number;
+  quotedTotal: number;
+  currency?: string;
+  detectedAt: string;
+}
+
+// Promo code applied with formation_apply_promo_code
+export interface PromoRedemption {
+  code: string;
+  appliedAt: string;
+  // Set once the discounted formation is paid - counts towards the code's usage limit
+  redeemedAt?: string;
+  // The session's payment link can be paid until then - counts towards the usage limit until it passes
+  reservedUntil?: string;
+}
+
+// A single field change recorded by a tool call
+export interface SessionFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Downstream data cleared or flagged after an upstream change
+export interface SessionInvalidation {
+  step: FormationStep;
+  // Step whose data changed and triggered the invalidation
+  causedBy: FormationStep[];
+  // cleared: data was removed, updated: data was adjusted automatically,
+  // flagged: data was kept but needs review
+  action: 'cleared' | 'updated' | 'flagged';
+  reason: string;
+  at: string;
+}
+
+// History event recorded for every tool call that mutated the session
+export interface SessionEvent {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  changes: SessionFieldChange[];
+  timestamp: string;
+  // False when the event touched payment or submission data, which cannot be undone
+  reversible: boolean;
+  undoneAt?: string;
+}
+
+// Lifecycle bookkeeping maintained by the lifecycle sweep
+export interface SessionLifecycle {
+  // Status to restore when an abandoned or expired session becomes active again
+  previousStatus?: SessionStatus;
+  abandonedAt?: string;
+  expiredAt?: string;
+  // Idle-hour thresholds a reminder was already sent for since the last activity
+  remindersSent?: number[];
+}
 
 export interface FormationSession {
   sessionId: string;
+  // Incremented on every save - used for optimistic concurrency control
+  version: number;
   userId?: string;
   status: SessionStatus;
   currentStep: FormationStep;
@@ -166,12 +305,28 @@ export interface FormationSession {
   authorizedParty?: AuthorizedParty;
   incorporator?: Incorporator;
   nameCheckResult?: NameCheckResult;
+  nameCheckJob?: NameCheckJob;
   certificateData?: CertificateData;
   submissionResult?: SubmissionResult;
+  submissionAttempt?: SubmissionAttempt;
+  // Status changes of the submitted formation request, oldest first
+  submissionTimeline?: SubmissionStatusChange[];
   paymentStatus?: PaymentStatus;
   paymentCompletedAt?: string;
+  payment?: PaymentDetails;
+  paymentShortfall?: PaymentShortfall;
+  // Checkout Sessions whose payment was refunded in full - they never pay for the formation again
+  refundedCheckoutSessionIds?: string[];
+  // Quote the latest payment link charges
+  quote?: Quote;
+  promo?: PromoRedemption;
+  history?: SessionEvent[];
+  invalidations?: SessionInvalidation[];
+  lifecycle?: SessionLifecycle;
   createdAt: string;
   updatedAt: string;
+  // Last tool call that changed the session - unlike updatedAt, not bumped by the lifecycle sweep
+  lastActivityAt?: string;
   expiresAt: string;
 }
 
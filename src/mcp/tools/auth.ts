@@ -1,12 +1,8 @@
-import { registerTool, ToolDefinition } from './index';
+import { registerTool, ToolCallContext, ToolDefinition } from './index';
 import { FormationSessionStore } from '../state/FormationSessionStore';
+import { AuthContext, TokenVerificationError, verifyDashboardToken } from '../auth';
 import { validationError } from '../errors';
 
-// In-memory token storage (per MCP session)
-let authToken: string | null = null;
-let userId: string | null = null;
-let tokenStoredAt: number | null = null;
-
 // Token persistence duration: 7 days in milliseconds
 const TOKEN_PERSIST_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
 
@@ -23,22 +19,27 @@ export const formationLoginTool: ToolDefinition = {
 
 const handleFormationLogin = async (
   _args: Record<string, unknown>,
-  _store: FormationSessionStore
+  _store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
-  // Dynamic import of 'open' package
-  const open = (await import('open')).default;
-
   const dashboardUrl = 'https://lovie-web.vercel.app/dashboard';
 
-  // Open browser to dashboard
-  await open(dashboardUrl);
+  // Only open a browser when the server runs on the user's machine - a hosted server
+  // would open it on the server, so the user gets the link instead
+  if (context.local) {
+    // Dynamic import of 'open' package
+    const open = (await import('open')).default;
+    await open(dashboardUrl);
+  }
 
   return {
     success: true,
-    action: 'browser_opened',
+    action: context.local ? 'browser_opened' : 'open_url',
     url: dashboardUrl,
     instructions: [
-      '1. A browser window has been opened to the Lovie dashboard',
+      context.local
+        ? '1. A browser window has been opened to the Lovie dashboard'
+        : `1. Open ${dashboardUrl} in your browser`,
       '2. Log in if you are not already logged in',
       '3. On the dashboard, find and copy your **User ID** (starts with "user_...")',
       '4. Also copy the **session token** (starts with "eyJ...")',
@@ -70,11 +71,17 @@ export const formationSetTokenTool: ToolDefinition = {
 
 const handleFormationSetToken = async (
   args: Record<string, unknown>,
-  _store: FormationSessionStore
+  _store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
   const token = args.token as string;
   const providedUserId = args.userId as string;
 
+  // A verified OAuth sign-in is never replaced by a pasted token
+  if (context.auth.source === 'oauth') {
+    throw validationError('token', 'This connection is already signed in with OAuth. No token is needed.');
+  }
+
   if (!token) {
     throw validationError('token', 'Token is required');
   }
@@ -91,40 +98,43 @@ const handleFormationSetToken = async (
     throw validationError('userId', 'Invalid User ID format. User ID should start with "user_..."');
   }
 
-  // Validate JWT format
+  // Only a token signed by the dashboard identifies the user - the pasted userId must match it
+  let tokenUserId: string;
   try {
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      throw validationError('token', 'Invalid JWT format');
+    tokenUserId = await verifyDashboardToken(token);
+  } catch (error) {
+    if (error instanceof TokenVerificationError) {
+      throw validationError('token', `${error.message}. Please copy the complete token from the dashboard.`);
     }
+    throw error;
+  }
+  if (tokenUserId !== providedUserId) {
+    throw validationError('userId', 'User ID does not match the token. Copy both values from the same dashboard session.');
+  }
 
-    // Note: We ignore the JWT's short expiry (Clerk tokens expire in ~60s)
-    // Instead, we persist the token for 7 days on our side
-    // The token is used for user identification, not for API calls that need fresh tokens
+  // Note: We ignore the JWT's short expiry (Clerk tokens expire in ~60s)
+  // Instead, we persist the token for 7 days on our side
+  // The token is used for user identification, not for API calls that need fresh tokens
 
-    // Store token and user info with our own timestamp
-    authToken = token;
-    userId = providedUserId; // Use the userId from dashboard, not from JWT
-    tokenStoredAt = Date.now();
+  // Store token and user info on this connection with our own timestamp
+  const auth = context.auth;
+  auth.token = token;
+  auth.userId = tokenUserId;
+  auth.storedAt = Date.now();
+  auth.source = 'tool';
 
-    // Calculate our 7-day expiry
-    const ourExpiresAt = new Date(tokenStoredAt + TOKEN_PERSIST_DURATION_MS);
-    const daysUntilExpiry = 7;
+  // Calculate our 7-day expiry
+  const ourExpiresAt = new Date(auth.storedAt + TOKEN_PERSIST_DURATION_MS);
+  const daysUntilExpiry = 7;
 
-    return {
-      success: true,
-      authenticated: true,
-      userId,
-      expiresAt: ourExpiresAt.toISOString(),
-      daysUntilExpiry,
-      message: `Successfully authenticated as ${userId}! Your session will remain active for ${daysUntilExpiry} days. You can now use all formation tools.`,
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('Invalid')) {
-      throw error;
-    }
-    throw validationError('token', 'Failed to parse token. Please copy the complete token from the dashboard.');
-  }
+  return {
+    success: true,
+    authenticated: true,
+    userId: tokenUserId,
+    expiresAt: ourExpiresAt.toISOString(),
+    daysUntilExpiry,
+    message: `Successfully authenticated as ${tokenUserId}! Your session will remain active for ${daysUntilExpiry} days. You can now use all formation tools.`,
+  };
 };
 
 // formation_logout tool
@@ -140,13 +150,12 @@ export const formationLogoutTool: ToolDefinition = {
 
 const handleFormationLogout = async (
   _args: Record<string, unknown>,
-  _store: FormationSessionStore
+  _store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
-  const wasLoggedIn = authToken !== null;
+  const wasLoggedIn = context.auth.token !== null;
 
-  authToken = null;
-  userId = null;
-  tokenStoredAt = null;
+  clearAuth(context.auth);
 
   return {
     success: true,
@@ -170,9 +179,11 @@ export const formationAuthStatusTool: ToolDefinition = {
 
 const handleFormationAuthStatus = async (
   _args: Record<string, unknown>,
-  _store: FormationSessionStore
+  _store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
-  if (!authToken || !tokenStoredAt) {
+  const auth = context.auth;
+  if (!auth.token || !auth.storedAt) {
     return {
       authenticated: false,
       message: 'Not logged in. Use formation_login to authenticate.',
@@ -180,13 +191,11 @@ const handleFormationAuthStatus = async (
   }
 
   // Check if our 7-day session has expired
-  const sessionExpiresAt = tokenStoredAt + TOKEN_PERSIST_DURATION_MS;
+  const sessionExpiresAt = getAuthExpiry(auth, auth.storedAt);
   const isExpired = Date.now() > sessionExpiresAt;
 
   if (isExpired) {
-    authToken = null;
-    userId = null;
-    tokenStoredAt = null;
+    clearAuth(auth);
     return {
       authenticated: false,
       message: 'Session expired (7 days). Use formation_login to authenticate again.',
@@ -197,29 +206,43 @@ const handleFormationAuthStatus = async (
 
   return {
     authenticated: true,
-    userId,
+    userId: auth.userId,
+    method: auth.source === 'oauth' ? 'oauth' : auth.source === 'bearer' ? 'authorization_header' : 'token',
     expiresAt: new Date(sessionExpiresAt).toISOString(),
     daysRemaining,
     message: `Authenticated and session is valid. ${daysRemaining} day(s) remaining.`,
   };
 };
 
-// Helper function to get current auth token (for other tools to use)
-export function getAuthToken(): string | null {
-  return authToken;
+// OAuth access tokens expire with the token; other tokens get our 7-day persistence
+function getAuthExpiry(auth: AuthContext, storedAt: number): number {
+  return auth.expiresAt ?? storedAt + TOKEN_PERSIST_DURATION_MS;
+}
+
+function clearAuth(auth: AuthContext): void {
+  auth.token = null;
+  auth.userId = null;
+  auth.storedAt = null;
+  auth.source = null;
+  delete auth.expiresAt;
+}
+
+// Helper function to get the connection's auth token (for other tools to use)
+export function getAuthToken(auth: AuthContext): string | null {
+  return isAuthenticated(auth) ? auth.token : null;
 }
 
-// Helper function to get current user ID (for other tools to use)
-export function getUserId(): string | null {
-  return userId;
+// Helper function to get the connection's user ID (for other tools to use)
+export function getUserId(auth: AuthContext): string | null {
+  return isAuthenticated(auth) ? auth.userId : null;
 }
 
-// Helper function to check if authenticated (uses our 7-day persistence)
-export function isAuthenticated(): boolean {
-  if (!authToken || !tokenStoredAt) return false;
+// Helper function to check if the connection is authenticated (uses our 7-day persistence)
+export function isAuthenticated(auth: AuthContext): boolean {
+  if (!auth.token || !auth.storedAt) return false;
 
   // Check our 7-day session expiry, not the JWT's expiry
-  const sessionExpiresAt = tokenStoredAt + TOKEN_PERSIST_DURATION_MS;
+  const sessionExpiresAt = getAuthExpiry(auth, auth.storedAt);
   return Date.now() < sessionExpiresAt;
 }
 
@@ -1,9 +1,10 @@
-import { registerTool, ToolDefinition } from './index';
-import { FormationStep, SessionStatus, DEFAULT_INCORPORATOR } from '../state/types';
+import { registerTool, trackProgress, ToolCallContext, ToolDefinition } from './index';
+import { FormationSession, FormationStep, SessionStatus, DEFAULT_INCORPORATOR } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession } from '../middleware/session';
-import { validationError, MCPToolError, ErrorCode } from '../errors';
+import { loadSession, updateSession } from '../middleware/session';
+import { validationError, requestCancelled, sessionConflict, MCPToolError, ErrorCode } from '../errors';
 import { CertificateApiClient } from '../../services/certificate/api';
+import { CertificateGenerationRequest } from '../../services/certificate/types';
 
 // T039: formation_generate_certificate tool
 export const formationGenerateCertificateTool: ToolDefinition = {
@@ -18,27 +19,66 @@ export const formationGenerateCertificateTool: ToolDefinition = {
   },
 };
 
+// Typical certificate generation duration, used to pace progress notifications
+const CERTIFICATE_EXPECTED_MS = 10000;
+
+function getApiCompanyType(session: FormationSession): string {
+  const companyType = session.companyDetails?.companyType;
+  return companyType === 'LLC' ? 'llc' : companyType === 'C-Corp' ? 'c-corp' : 's-corp';
+}
+
+// Payload for the certificate API - everything the certificate shows.
+// Null when the session no longer has the company name or registered agent.
+function buildCertificateRequest(session: FormationSession): CertificateGenerationRequest | null {
+  const companyDetails = session.companyDetails;
+  const registeredAgent = session.registeredAgent;
+  if (!companyDetails?.fullName || !registeredAgent) return null;
+
+  const isLLC = companyDetails.companyType === 'LLC';
+  const request: any = {
+    companyType: getApiCompanyType(session),
+    companyName: companyDetails.fullName,
+    registeredAgent: {
+      name: registeredAgent.name,
+      address: {
+        street: registeredAgent.address.street1,
+        city: registeredAgent.address.city,
+        state: registeredAgent.address.state,
+        zipCode: registeredAgent.address.zipCode,
+        ...(isLLC ? {} : { county: registeredAgent.address.county || 'Sussex' }),
+      },
+    },
+  };
+
+  // Add corporation-specific fields (C-Corp and S-Corp)
+  if (!isLLC) {
+    request.authorizedShares = session.shareStructure?.authorizedShares || 10000000;
+    request.parValue = String(session.shareStructure?.parValuePerShare || 0.00001);
+
+    // Use the session incorporator or default incorporator (Sema Kurt Caskey)
+    const incorporator = session.incorporator || DEFAULT_INCORPORATOR;
+    request.incorporator = {
+      name: incorporator.name,
+      address: {
+        street: incorporator.address.street1,
+        city: incorporator.address.city,
+        state: incorporator.address.state,
+        zipCode: incorporator.address.zipCode,
+      },
+    };
+  }
+
+  return request;
+}
+
 const handleFormationGenerateCertificate = async (
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
   const sessionId = args.sessionId as string;
   const session = await loadSession(sessionId, store);
 
-  // Validate all required data is present
-  if (!session.companyDetails?.fullName) {
-    throw validationError('companyName', 'Company name must be set before generating certificate');
-  }
-  if (!session.registeredAgent) {
-    throw validationError('registeredAgent', 'Registered agent must be set before generating certificate');
-  }
-  if (session.shareholders.length === 0) {
-    throw validationError('shareholders', 'At least one shareholder/member must be added before generating certificate');
-  }
-  if (!session.authorizedParty) {
-    throw validationError('authorizedParty', 'Authorized party must be set before generating certificate');
-  }
-
   try {
     // Create certificate API client
     const certificateClient = new CertificateApiClient();
@@ -46,47 +86,27 @@ const handleFormationGenerateCertificate = async (
     // Determine company type for API
     const companyType = session.companyDetails?.companyType;
     const isLLC = companyType === 'LLC';
-    const apiCompanyType = isLLC ? 'llc' : companyType === 'C-Corp' ? 'c-corp' : 's-corp';
+    const apiCompanyType = getApiCompanyType(session);
 
     // Determine document type for display
     const documentType = isLLC ? 'Certificate of Formation' : 'Certificate of Incorporation';
 
-    // Build the base request payload for the certificate API
-    const request: any = {
-      companyType: apiCompanyType,
-      companyName: session.companyDetails.fullName,
-      registeredAgent: {
-        name: session.registeredAgent.name,
-        address: {
-          street: session.registeredAgent.address.street1,
-          city: session.registeredAgent.address.city,
-          state: session.registeredAgent.address.state,
-          zipCode: session.registeredAgent.address.zipCode,
-          ...(isLLC ? {} : { county: session.registeredAgent.address.county || 'Sussex' }),
-        },
-      },
-    };
-
-    // Add corporation-specific fields (C-Corp and S-Corp)
-    if (!isLLC) {
-      request.authorizedShares = session.shareStructure?.authorizedShares || 10000000;
-      request.parValue = String(session.shareStructure?.parValuePerShare || 0.00001);
-
-      // Use the session incorporator or default incorporator (Sema Kurt Caskey)
-      const incorporator = session.incorporator || DEFAULT_INCORPORATOR;
-      request.incorporator = {
-        name: incorporator.name,
-        address: {
-          street: incorporator.address.street1,
-          city: incorporator.address.city,
-          state: incorporator.address.state,
-          zipCode: incorporator.address.zipCode,
-        },
-      };
-    }
+    const request = buildCertificateRequest(session)!;
 
     // Call the certificate generation API
-    const result = await certificateClient.generateCertificate(request);
+    const result = await trackProgress(context, certificateClient.generateCertificate(request, { signal: context.signal }), {
+      from: 0,
+      to: 90,
+      total: 100,
+      expectedMs: CERTIFICATE_EXPECTED_MS,
+      message: `Generating ${documentType}`,
+    });
+
+    // A certificate generated after cancellation is discarded so the session is unchanged
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_generate_certificate');
+    }
+    context.reportProgress(95, 100, 'Saving the certificate');
 
     // T041: Calculate expiration time (use API response or default to 60 minutes)
     const expiresAt = result.expiresAt;
@@ -103,10 +123,16 @@ const handleFormationGenerateCertificate = async (
       fileHash: result.metadata.fileHash,
     };
 
-    session.certificateData = certificateData as any;
-    session.currentStep = FormationStep.CERTIFICATE_GENERATED;
-    session.status = SessionStatus.REVIEW;
-    await store.save(session);
+    await updateSession(sessionId, store, (current) => {
+      // The certificate shows the data as loaded - if any of it changed during generation the
+      // certificate is out of date. Changes to other fields do not matter.
+      if (JSON.stringify(buildCertificateRequest(current)) !== JSON.stringify(request)) {
+        throw sessionConflict(sessionId, session.version, current.version);
+      }
+      current.certificateData = certificateData as any;
+      current.currentStep = FormationStep.CERTIFICATE_GENERATED;
+      current.status = SessionStatus.REVIEW;
+    });
 
     return {
       success: true,
@@ -132,6 +158,9 @@ const handleFormationGenerateCertificate = async (
     if (error instanceof MCPToolError) {
       throw error;
     }
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_generate_certificate');
+    }
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     throw new MCPToolError({
@@ -186,10 +215,12 @@ const handleFormationApproveCertificate = async (
 
   // T042: Mark as approved and complete
   certificateData.approvedAt = new Date().toISOString();
+  await updateSession(sessionId, store, (current) => {
+    current.certificateData = certificateData;
+    current.currentStep = FormationStep.CERTIFICATE_APPROVED;
+    current.status = SessionStatus.COMPLETED;
+  });
   session.certificateData = certificateData;
-  session.currentStep = FormationStep.CERTIFICATE_APPROVED;
-  session.status = SessionStatus.COMPLETED;
-  await store.save(session);
 
   // Build complete formation data for payment processing
   const formationData = {
@@ -1,10 +1,25 @@
-import { registerTool, ToolDefinition } from './index';
-import { FormationStep, ENTITY_ENDINGS, COMPANY_TYPE_DESCRIPTIONS, CompanyType, Address, AddressSource, CompanyAddress, USState, STATE_COMPANY_TYPES, STATE_DESCRIPTIONS, DEFAULT_INCORPORATOR } from '../state/types';
+import { registerTool, trackProgress, ToolCallContext, ToolDefinition } from './index';
+import { FormationStep, NameCheckJob, ENTITY_ENDINGS, COMPANY_TYPE_DESCRIPTIONS, CompanyType, Address, AddressSource, CompanyAddress, USState, STATE_COMPANY_TYPES, STATE_DESCRIPTIONS, DEFAULT_INCORPORATOR } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession } from '../middleware/session';
-import { validationError, requiredFieldError } from '../errors';
+import { loadSession, updateSession } from '../middleware/session';
+import { validationError, requiredFieldError, requestCancelled } from '../errors';
 import { validateEntityEnding } from '../validation';
 import { createNameCheckAgent } from '../../services/agents/NameCheckAgent';
+import {
+  cancelNameCheckJob,
+  checkCompanyName,
+  claimNameCheckJob,
+  createNameCheckJob,
+  failedNameCheckResult,
+  getBackgroundNameCheckAgent,
+  isNameCheckJobLeased,
+  isNameCheckJobRunning,
+  settleNameCheckJob,
+  NAME_CHECK_MAX_WAIT_SECONDS,
+  startNameCheckJob,
+  summarizeNameCheck,
+  waitForNameCheckJob,
+} from '../jobs/nameCheck';
 
 // Incorporation process explanation for Delaware formations
 const INCORPORATION_PROCESS_EXPLANATION = {
@@ -48,19 +63,18 @@ const handleFormationSetState = async (
     throw validationError('state', 'Only Delaware (DE) and Wyoming (WY) are currently supported');
   }
 
-  const session = await loadSession(sessionId, store);
+  const session = await updateSession(sessionId, store, (current) => {
+    current.companyDetails = {
+      ...current.companyDetails,
+      state,
+    };
+    current.currentStep = FormationStep.STATE_SELECTED;
+  });
 
   // Get available company types for this state
   const availableTypes = STATE_COMPANY_TYPES[state];
   const businessDescription = session.companyDetails?.businessDescription;
 
-  session.companyDetails = {
-    ...session.companyDetails,
-    state,
-  };
-  session.currentStep = FormationStep.STATE_SELECTED;
-  await store.save(session);
-
   // Build company type options based on state
   const companyTypes = availableTypes.map(type => ({
     value: type,
@@ -131,30 +145,31 @@ const handleFormationSetCompanyType = async (
     throw validationError('companyType', 'Must be LLC or C-Corp');
   }
 
-  const session = await loadSession(sessionId, store);
-  const state = session.companyDetails?.state;
+  const session = await updateSession(sessionId, store, (current) => {
+    const currentState = current.companyDetails?.state;
 
-  // Validate company type is available for selected state
-  if (state) {
-    const availableTypes = STATE_COMPANY_TYPES[state];
-    if (!availableTypes.includes(companyType)) {
-      throw validationError('companyType', `${companyType} is not available in ${state}. Available types: ${availableTypes.join(', ')}`);
+    // Validate company type is available for selected state
+    if (currentState) {
+      const availableTypes = STATE_COMPANY_TYPES[currentState];
+      if (!availableTypes.includes(companyType)) {
+        throw validationError('companyType', `${companyType} is not available in ${currentState}. Available types: ${availableTypes.join(', ')}`);
+      }
     }
-  }
 
-  // Set the default incorporator for Delaware formations
-  session.companyDetails = {
-    ...session.companyDetails,
-    companyType,
-  };
+    // Set the default incorporator for Delaware formations
+    current.companyDetails = {
+      ...current.companyDetails,
+      companyType,
+    };
 
-  // Always use our legal team as incorporator for Delaware
-  if (state === 'DE') {
-    session.incorporator = DEFAULT_INCORPORATOR;
-  }
+    // Always use our legal team as incorporator for Delaware
+    if (currentState === 'DE') {
+      current.incorporator = DEFAULT_INCORPORATOR;
+    }
 
-  session.currentStep = FormationStep.TYPE_SELECTED;
-  await store.save(session);
+    current.currentStep = FormationStep.TYPE_SELECTED;
+  });
+  const state = session.companyDetails?.state;
 
   const entityEndings = ENTITY_ENDINGS[companyType];
 
@@ -201,24 +216,24 @@ const handleFormationSetEntityEnding = async (
   const sessionId = args.sessionId as string;
   const entityEnding = args.entityEnding as string;
 
-  const session = await loadSession(sessionId, store);
-  const companyType = session.companyDetails?.companyType;
+  await updateSession(sessionId, store, (session) => {
+    const companyType = session.companyDetails?.companyType;
 
-  if (!companyType) {
-    throw validationError('companyType', 'Company type must be set first');
-  }
+    if (!companyType) {
+      throw validationError('companyType', 'Company type must be set first');
+    }
 
-  if (!validateEntityEnding(entityEnding, companyType)) {
-    const validEndings = ENTITY_ENDINGS[companyType].join(', ');
-    throw validationError('entityEnding', `Invalid entity ending for ${companyType}. Valid options: ${validEndings}`);
-  }
+    if (!validateEntityEnding(entityEnding, companyType)) {
+      const validEndings = ENTITY_ENDINGS[companyType].join(', ');
+      throw validationError('entityEnding', `Invalid entity ending for ${companyType}. Valid options: ${validEndings}`);
+    }
 
-  session.companyDetails = {
-    ...session.companyDetails,
-    entityEnding,
-  };
-  session.currentStep = FormationStep.ENDING_SELECTED;
-  await store.save(session);
+    session.companyDetails = {
+      ...session.companyDetails,
+      entityEnding,
+    };
+    session.currentStep = FormationStep.ENDING_SELECTED;
+  });
 
   return {
     success: true,
@@ -255,32 +270,59 @@ const handleFormationSetCompanyName = async (
     throw validationError('baseName', 'Company name must be at most 200 characters');
   }
 
-  const session = await loadSession(sessionId, store);
-  const entityEnding = session.companyDetails?.entityEnding;
+  const agent = getBackgroundNameCheckAgent();
+  let fullName = '';
+  let job: NameCheckJob | undefined;
+  const session = await updateSession(sessionId, store, (session) => {
+    const entityEnding = session.companyDetails?.entityEnding;
 
-  if (!entityEnding) {
-    throw validationError('entityEnding', 'Entity ending must be set first');
-  }
+    if (!entityEnding) {
+      throw validationError('entityEnding', 'Entity ending must be set first');
+    }
 
-  const fullName = `${baseName} ${entityEnding}`;
+    fullName = `${baseName} ${entityEnding}`;
 
-  if (fullName.length > 245) {
-    throw validationError('fullName', 'Full company name exceeds Delaware limit of 245 characters');
-  }
+    if (fullName.length > 245) {
+      throw validationError('fullName', 'Full company name exceeds Delaware limit of 245 characters');
+    }
 
-  session.companyDetails = {
-    ...session.companyDetails,
-    baseName,
-    fullName,
-  };
-  session.currentStep = FormationStep.NAME_SET;
-  await store.save(session);
+    // Start checking availability in the background unless this name was already checked
+    const alreadyChecked = session.companyDetails?.fullName === fullName
+      && session.nameCheckResult && !session.nameCheckResult.error;
+    job = agent && !alreadyChecked ? createNameCheckJob(fullName) : undefined;
+
+    session.companyDetails = {
+      ...session.companyDetails,
+      baseName,
+      fullName,
+    };
+    session.currentStep = FormationStep.NAME_SET;
+    if (job) {
+      session.nameCheckJob = job;
+    } else if (session.nameCheckJob?.companyName !== fullName) {
+      delete session.nameCheckJob;
+    }
+  });
+
+  if (!session.nameCheckJob) {
+    cancelNameCheckJob(sessionId);
+  }
+  if (agent && job) {
+    startNameCheckJob(sessionId, job, {
+      companyName: fullName,
+      state: session.companyDetails?.state,
+      companyType: session.companyDetails?.companyType,
+    }, store, agent);
+  }
 
   return {
     success: true,
     baseName,
     fullName,
-    message: `Company name set to "${fullName}". You can check name availability using formation_check_name, or continue with formation_set_registered_agent.`,
+    ...(job && { nameCheck: summarizeNameCheck(job) }),
+    message: job
+      ? `Company name set to "${fullName}". Name availability is being checked in the background - the result will be included in a later response, or use formation_get_name_check_status. Continue with formation_set_registered_agent.`
+      : `Company name set to "${fullName}". You can check name availability using formation_check_name, or continue with formation_set_registered_agent.`,
   };
 };
 
@@ -297,9 +339,38 @@ export const formationCheckNameTool: ToolDefinition = {
   },
 };
 
+// Typical Delaware name check duration, used to pace progress notifications
+const NAME_CHECK_EXPECTED_MS = 20000;
+
+// Response for a check that could not be completed - the formation can continue regardless
+function nameCheckFailedResponse(companyName: string, errorMessage: string) {
+  const common = {
+    available: false,
+    companyName,
+    canContinue: true,
+    continueMessage: 'You can still proceed with the formation. The name will be verified during filing.',
+    nextStep: 'Continue with formation_set_registered_agent to proceed.',
+  };
+
+  if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
+    return {
+      ...common,
+      error: 'API_TIMEOUT',
+      message: 'Name check timed out. The Delaware Secretary of State service may be slow.',
+    };
+  }
+
+  return {
+    ...common,
+    error: 'NAME_CHECK_FAILED',
+    message: `Name check failed: ${errorMessage}`,
+  };
+}
+
 const handleFormationCheckName = async (
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
   const sessionId = args.sessionId as string;
   const session = await loadSession(sessionId, store);
@@ -312,72 +383,172 @@ const handleFormationCheckName = async (
     throw validationError('companyName', 'Company name must be set first using formation_set_company_name');
   }
 
+  const progress = {
+    from: 0,
+    to: 90,
+    total: 100,
+    expectedMs: NAME_CHECK_EXPECTED_MS,
+    message: `Checking "${companyName}" with the ${state === 'WY' ? 'Wyoming' : 'Delaware'} Secretary of State`,
+  };
+
+  // Wait for the background check of this name rather than checking it twice
+  const job = session.nameCheckJob;
+  if (job?.status === 'running' && job.companyName === companyName && isNameCheckJobRunning(sessionId, job.jobId)) {
+    await trackProgress(context, waitForNameCheckJob(sessionId, undefined, context.signal), progress);
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_check_name');
+    }
+
+    const updated = await updateSession(sessionId, store, settleNameCheckJob);
+    const finished = updated.nameCheckJob;
+    const result = updated.nameCheckResult;
+    if (finished?.jobId === job.jobId && finished.status !== 'superseded' && result) {
+      if (finished.status === 'failed') {
+        return nameCheckFailedResponse(companyName, finished.error || 'Unknown error');
+      }
+      return {
+        available: result.available,
+        companyName,
+        reason: result.reason,
+        suggestions: result.suggestions,
+        checkedAt: result.checkedAt,
+      };
+    }
+  }
+
   try {
     const agent = createNameCheckAgent();
-    const startTime = Date.now();
+    const nameCheckResult = await trackProgress(
+      context,
+      checkCompanyName(agent, { companyName, state, companyType }, context.signal),
+      progress
+    );
+
+    // A check cancelled after the response arrived is discarded so the session is unchanged
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_check_name');
+    }
+    context.reportProgress(95, 100, 'Saving the result');
 
-    const result = await agent.checkAvailability({
-      companyName,
-      state: state || 'DE',
-      companyType: companyType || 'LLC',
+    // Store result in session - the check can take a minute, so merge into the latest version
+    await updateSession(sessionId, store, (current) => {
+      current.nameCheckResult = nameCheckResult;
+      current.currentStep = FormationStep.NAME_CHECKED;
+      settleNameCheckJob(current);
     });
 
-    const responseTimeMs = Date.now() - startTime;
-
-    // Store result in session
-    session.nameCheckResult = {
-      available: result.available,
-      checkedAt: new Date().toISOString(),
-      reason: result.reason,
-      suggestions: result.suggestions,
-      responseTimeMs,
-    };
-    session.currentStep = FormationStep.NAME_CHECKED;
-    await store.save(session);
-
     return {
-      available: result.available,
+      available: nameCheckResult.available,
       companyName,
-      reason: result.reason,
-      suggestions: result.suggestions,
-      checkedAt: session.nameCheckResult.checkedAt,
+      reason: nameCheckResult.reason,
+      suggestions: nameCheckResult.suggestions,
+      checkedAt: nameCheckResult.checkedAt,
     };
   } catch (error) {
+    // Cancelled checks leave the session as it was
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_check_name');
+    }
+
     // T034: Handle timeout and errors - but allow user to continue
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     // Store failed check in session but allow continuation
-    session.nameCheckResult = {
-      available: false,
-      checkedAt: new Date().toISOString(),
-      reason: `Name check failed: ${errorMessage}`,
-      error: true,
-    };
-    session.currentStep = FormationStep.NAME_CHECKED;
-    await store.save(session);
+    await updateSession(sessionId, store, (current) => {
+      current.nameCheckResult = failedNameCheckResult(errorMessage);
+      current.currentStep = FormationStep.NAME_CHECKED;
+      settleNameCheckJob(current);
+    });
 
-    if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
-      return {
-        available: false,
-        companyName,
-        error: 'API_TIMEOUT',
-        message: 'Name check timed out. The Delaware Secretary of State service may be slow.',
-        canContinue: true,
-        continueMessage: 'You can still proceed with the formation. The name will be verified during filing.',
-        nextStep: 'Continue with formation_set_registered_agent to proceed.',
-      };
-    }
+    return nameCheckFailedResponse(companyName, errorMessage);
+  }
+};
 
+// formation_get_name_check_status tool
+export const formationGetNameCheckStatusTool: ToolDefinition = {
+  name: 'formation_get_name_check_status',
+  description: 'Get the status of the background name availability check started by formation_set_company_name. Optionally wait a few seconds for it to finish.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      waitSeconds: {
+        type: 'integer',
+        minimum: 0,
+        maximum: NAME_CHECK_MAX_WAIT_SECONDS,
+        description: `Seconds to wait for a running check to finish (default: 0, max: ${NAME_CHECK_MAX_WAIT_SECONDS})`,
+      },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationGetNameCheckStatus = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const sessionId = args.sessionId as string;
+  const waitSeconds = (args.waitSeconds as number | undefined) ?? 0;
+
+  if (!Number.isInteger(waitSeconds) || waitSeconds < 0 || waitSeconds > NAME_CHECK_MAX_WAIT_SECONDS) {
+    throw validationError('waitSeconds', `Must be a whole number between 0 and ${NAME_CHECK_MAX_WAIT_SECONDS}`);
+  }
+
+  const session = await loadSession(sessionId, store);
+  const job = session.nameCheckJob;
+
+  if (!job) {
     return {
-      available: false,
-      companyName,
-      error: 'NAME_CHECK_FAILED',
-      message: `Name check failed: ${errorMessage}`,
-      canContinue: true,
-      continueMessage: 'You can still proceed with the formation. The name will be verified during filing.',
-      nextStep: 'Continue with formation_set_registered_agent to proceed.',
+      status: 'not_started',
+      companyName: session.companyDetails?.fullName,
+      nameCheckResult: session.nameCheckResult,
+      message: session.nameCheckResult
+        ? 'The name was checked with formation_check_name - see nameCheckResult.'
+        : 'No background name check has been started. Set the name with formation_set_company_name or check it with formation_check_name.',
     };
   }
+
+  // The process running the check stopped renewing its lease (restart, or a serverless instance
+  // that was frozen) - run it again here. A check another process is still running is left to it.
+  if (job.status === 'running' && !isNameCheckJobRunning(sessionId, job.jobId) && !isNameCheckJobLeased(job)) {
+    const agent = getBackgroundNameCheckAgent();
+    if (agent && job.companyName === session.companyDetails?.fullName) {
+      if (await claimNameCheckJob(sessionId, job.jobId, store)) {
+        startNameCheckJob(sessionId, job, {
+          companyName: job.companyName,
+          state: session.companyDetails?.state,
+          companyType: session.companyDetails?.companyType,
+        }, store, agent);
+      }
+    } else {
+      await updateSession(sessionId, store, settleNameCheckJob);
+    }
+  }
+
+  if (waitSeconds > 0) {
+    await trackProgress(context, waitForNameCheckJob(sessionId, waitSeconds * 1000, context.signal), {
+      from: 0,
+      to: 90,
+      total: 100,
+      expectedMs: NAME_CHECK_EXPECTED_MS,
+      message: `Waiting for the name check of "${job.companyName}"`,
+    });
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_get_name_check_status');
+    }
+  }
+
+  // Report a finished result here so it is not repeated in a later response
+  const updated = await loadSession(sessionId, store);
+  const current = updated.nameCheckJob;
+  if (current && current.status !== 'running' && !current.reportedAt) {
+    await updateSession(sessionId, store, (latest) => {
+      if (latest.nameCheckJob?.jobId === current.jobId) settleNameCheckJob(latest);
+    });
+  }
+
+  return summarizeNameCheck(current ?? { ...job, status: 'superseded' }, updated.nameCheckResult);
 };
 
 // T035: formation_set_company_address tool
@@ -457,8 +628,6 @@ const handleFormationSetCompanyAddress = async (
     };
   }
 
-  const session = await loadSession(sessionId, store);
-
   let companyAddress: CompanyAddress;
 
   if (source === 'own') {
@@ -484,12 +653,13 @@ const handleFormationSetCompanyAddress = async (
       },
     };
 
-    session.companyDetails = {
-      ...session.companyDetails,
-      companyAddress,
-    };
-    session.currentStep = FormationStep.COMPANY_ADDRESS_SET;
-    await store.save(session);
+    await updateSession(sessionId, store, (session) => {
+      session.companyDetails = {
+        ...session.companyDetails,
+        companyAddress,
+      };
+      session.currentStep = FormationStep.COMPANY_ADDRESS_SET;
+    });
 
     return {
       success: true,
@@ -503,12 +673,13 @@ const handleFormationSetCompanyAddress = async (
       virtualPostMailInterested: virtualPostMailInterested ?? true,
     };
 
-    session.companyDetails = {
-      ...session.companyDetails,
-      companyAddress,
-    };
-    session.currentStep = FormationStep.COMPANY_ADDRESS_SET;
-    await store.save(session);
+    await updateSession(sessionId, store, (session) => {
+      session.companyDetails = {
+        ...session.companyDetails,
+        companyAddress,
+      };
+      session.currentStep = FormationStep.COMPANY_ADDRESS_SET;
+    });
 
     return {
       success: true,
@@ -538,5 +709,6 @@ export function registerCompanyTools(): void {
   registerTool(formationSetEntityEndingTool, handleFormationSetEntityEnding);
   registerTool(formationSetCompanyNameTool, handleFormationSetCompanyName);
   registerTool(formationCheckNameTool, handleFormationCheckName);
+  registerTool(formationGetNameCheckStatusTool, handleFormationGetNameCheckStatus);
   registerTool(formationSetCompanyAddressTool, handleFormationSetCompanyAddress);
 }
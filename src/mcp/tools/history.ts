@@ -0,0 +1,129 @@
+import { registerTool, ToolDefinition } from './index';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { loadSession, updateSession, calculateProgress, STEP_DESCRIPTIONS } from '../middleware/session';
+import { getUndoableEvents, revertEvents } from '../middleware/history';
+import { validationError, MCPToolError, ErrorCode } from '../errors';
+import { SessionEvent } from '../state/types';
+
+// formation_get_history tool
+export const formationGetHistoryTool: ToolDefinition = {
+  name: 'formation_get_history',
+  description: 'Show the timeline of changes made to a formation session, including which tool made each change and the before/after values.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Maximum number of most recent events to return (default: all)' },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationGetHistory = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const limit = args.limit as number | undefined;
+  const session = await loadSession(sessionId, store);
+
+  const history = session.history || [];
+  const events = limit ? history.slice(-limit) : history;
+
+  return {
+    sessionId: session.sessionId,
+    totalEvents: history.length,
+    undoableEvents: getUndoableEvents(session).length,
+    events: events.map(event => ({
+      id: event.id,
+      toolName: event.toolName,
+      timestamp: event.timestamp,
+      args: event.args,
+      changedFields: event.changes.map(change => change.field),
+      changes: event.changes,
+      reversible: event.reversible,
+      undone: Boolean(event.undoneAt),
+      undoneAt: event.undoneAt,
+    })),
+  };
+};
+
+// formation_undo tool
+export const formationUndoTool: ToolDefinition = {
+  name: 'formation_undo',
+  description: 'Undo the last N changes made to a formation session. Restores the previous values and rolls the current step back. Payment and submission changes cannot be undone.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      count: { type: 'integer', minimum: 1, default: 1, description: 'Number of changes to undo (default: 1)' },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationUndo = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const count = (args.count as number | undefined) ?? 1;
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw validationError('count', 'Must be a positive whole number');
+  }
+
+  let undone: SessionEvent[] = [];
+  const session = await updateSession(sessionId, store, (current) => {
+    const undoable = getUndoableEvents(current);
+
+    if (undoable.length === 0) {
+      throw new MCPToolError({
+        code: ErrorCode.SESSION_INVALID_STATE,
+        message: 'There are no changes to undo',
+        details: { sessionId },
+        retryable: false,
+      });
+    }
+
+    if (count > undoable.length) {
+      throw validationError('count', `Only ${undoable.length} change(s) can be undone`);
+    }
+
+    undone = undoable.slice(0, count);
+    const blocking = undone.find(event => !event.reversible);
+    if (blocking) {
+      throw new MCPToolError({
+        code: ErrorCode.SESSION_INVALID_STATE,
+        message: `Cannot undo ${blocking.toolName}: payment and submission changes are permanent`,
+        details: { sessionId, eventId: blocking.id, toolName: blocking.toolName },
+        retryable: false,
+        suggestion: 'Undo fewer changes, or contact Lovie support to amend a submitted formation',
+      });
+    }
+
+    revertEvents(current, undone);
+  });
+
+  const companyType = session.companyDetails?.companyType;
+
+  return {
+    success: true,
+    undoneCount: undone.length,
+    undone: undone.map(event => ({
+      id: event.id,
+      toolName: event.toolName,
+      timestamp: event.timestamp,
+      changedFields: event.changes.map(change => change.field),
+    })),
+    currentStep: session.currentStep,
+    percentComplete: calculateProgress(session.currentStep, companyType),
+    message: `Undid ${undone.length} change(s). Current step: ${STEP_DESCRIPTIONS[session.currentStep]}.`,
+  };
+};
+
+// Register tools
+export function registerHistoryTools(): void {
+  registerTool(formationGetHistoryTool, handleFormationGetHistory);
+  registerTool(formationUndoTool, handleFormationUndo);
+}
@@ -1,4 +1,11 @@
 import { FormationSessionStore } from '../state/FormationSessionStore';
+import { isHistoryTracked, runRecorded } from '../middleware/history';
+import { hasPrerequisites, assertPrerequisites } from '../middleware/prerequisites';
+import { loadSession } from '../middleware/session';
+import { toolNotFound, requestCancelled } from '../errors';
+import { takeFinishedNameCheck } from '../jobs/nameCheck';
+import { AuthContext, createAuthContext } from '../auth';
+import { enforceToolLimits } from '../ratelimit';
 
 // Tool definition interface
 export interface ToolDefinition {
@@ -11,12 +18,63 @@ export interface ToolDefinition {
   };
 }
 
+// Per-call context: the caller's connection and controls for long-running tools
+export interface ToolCallContext {
+  // Aborted when the client cancels the call - pass it to outgoing HTTP requests
+  signal: AbortSignal;
+  // Report progress to the client; ignored when the client did not ask for progress
+  reportProgress(progress: number, total?: number, message?: string): void;
+  // Authentication state of the caller's connection
+  auth: AuthContext;
+  // True when the client runs on this machine (stdio), so tools may open a browser
+  local?: boolean;
+  // IP address of a remote client, used for rate limits
+  clientIp?: string;
+}
+
 // Tool handler function type
 export type ToolHandler = (
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext
 ) => Promise<unknown>;
 
+// Context for calls made without a transport (tests, CLI) - never cancelled, progress is dropped
+// and every such call shares one auth context
+const DEFAULT_TOOL_CALL_CONTEXT: ToolCallContext = {
+  signal: new AbortController().signal,
+  reportProgress: () => undefined,
+  auth: createAuthContext(),
+};
+
+// Report progress periodically while waiting on a slow remote call, moving from
+// `from` towards (but never reaching) `to` over roughly expectedMs
+export async function trackProgress<T>(
+  context: ToolCallContext,
+  work: Promise<T>,
+  options: { from: number; to: number; total: number; expectedMs: number; message: string; intervalMs?: number }
+): Promise<T> {
+  const { from, to, total, expectedMs, message, intervalMs = 5000 } = options;
+  const startedAt = Date.now();
+
+  context.reportProgress(from, total, message);
+  const timer = setInterval(() => {
+    const elapsed = Date.now() - startedAt;
+    // Approach `to` asymptotically so progress keeps increasing if the call runs long
+    const fraction = 1 - Math.exp(-elapsed / expectedMs);
+    context.reportProgress(from + (to - from) * fraction, total, `${message} (${Math.round(elapsed / 1000)}s)`);
+  }, intervalMs);
+
+  try {
+    return await work;
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+// Tools that report the background name check themselves
+const NAME_CHECK_TOOLS = new Set(['formation_set_company_name', 'formation_check_name', 'formation_get_name_check_status']);
+
 // Tool registry
 const toolHandlers = new Map<string, ToolHandler>();
 const toolDefinitions = new Map<string, ToolDefinition>();
@@ -36,17 +94,50 @@ export function getAllTools(): ToolDefinition[] {
 export async function handleToolCall(
   name: string,
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext = DEFAULT_TOOL_CALL_CONTEXT
 ): Promise<unknown> {
   const handler = toolHandlers.get(name);
   if (!handler) {
-    throw new Error(`Unknown tool: ${name}`);
+    throw toolNotFound(name);
+  }
+  if (context.signal.aborted) {
+    throw requestCancelled(name);
+  }
+  // Local clients are not rate limited - they only use their own machine
+  if (!context.local) {
+    await enforceToolLimits(name, { userId: context.auth.userId, clientIp: context.clientIp });
+  }
+
+  const sessionId = typeof args.sessionId === 'string' ? args.sessionId : undefined;
+
+  // Make sure every step the tool depends on has been completed
+  if (sessionId && hasPrerequisites(name)) {
+    assertPrerequisites(name, await loadSession(sessionId, store));
+  }
+
+  // Session writes made by the call are recorded in its history as they are saved
+  const result = sessionId && isHistoryTracked(name)
+    ? await runRecorded(name, args, sessionId, () => handler(args, store, context))
+    : await handler(args, store, context);
+
+  // Include a background name check that finished since the last response
+  if (sessionId && !NAME_CHECK_TOOLS.has(name) && result && typeof result === 'object' && !Array.isArray(result)) {
+    try {
+      const nameCheck = await takeFinishedNameCheck(sessionId, store);
+      if (nameCheck) {
+        return { ...result, nameCheck };
+      }
+    } catch (error) {
+      console.error(`Failed to report the name check after ${name}:`, error);
+    }
   }
 
-  return handler(args, store);
+  return result;
 }
 
 // Import tool registration functions
+import { registerAuthTools } from './auth';
 import { registerSessionTools } from './session';
 import { registerCompanyTools } from './company';
 import { registerStakeholderTools } from './stakeholders';
@@ -55,9 +146,13 @@ import { registerSyncTools } from './sync';
 import { registerInfoTools } from './info';
 import { registerSubmissionTools } from './submission';
 import { registerPaymentTools } from './payment';
+import { registerHistoryTools } from './history';
+import { registerValidationTools } from './validate';
+import { registerTransferTools } from './transfer';
 
 // Import and register all tools
 export function initializeTools(): void {
+  registerAuthTools();
   registerSessionTools();
   registerCompanyTools();
   registerStakeholderTools();
@@ -66,6 +161,9 @@ export function initializeTools(): void {
   registerInfoTools();
   registerPaymentTools();
   registerSubmissionTools();
+  registerHistoryTools();
+  registerValidationTools();
+  registerTransferTools();
 }
 
 // Initialize tools on module load
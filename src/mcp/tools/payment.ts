@@ -1,93 +1,340 @@
-import { registerTool, ToolDefinition } from './index';
+import { registerTool, ToolCallContext, ToolDefinition } from './index';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession } from '../middleware/session';
-import { validationError } from '../errors';
-import { PaymentStatus } from '../state/types';
-
-// Stripe payment links (test mode for now)
-const STRIPE_PAYMENT_LINKS = {
-  LLC: 'https://buy.stripe.com/test_llc_formation_placeholder',
-  'C-Corp': 'https://buy.stripe.com/test_ccorp_formation_placeholder',
-};
+import { loadSession, updateSession } from '../middleware/session';
+import { assertSessionValid } from '../middleware/preflight';
+import { CompanyType, FormationSession, PaymentDetails, PaymentStatus, STATE_COMPANY_TYPES, USState } from '../state/types';
+import {
+  ErrorCode,
+  MCPToolError,
+  paymentLinkFailed,
+  paymentVerificationFailed,
+  requestCancelled,
+  requiredFieldError,
+  validationError,
+} from '../errors';
+import { getPaymentProvider, recordPayment } from '../payments';
+import { PROMO_RESERVATION_MS, PromoCode, assertPromoCodeUsable, claimPromoCode, redeemPromoCode, toDiscount, updatePromoCodeClaim } from '../promo';
+import {
+  EXPEDITE_LABELS,
+  ExpediteLevel,
+  PricingError,
+  Quote,
+  QuoteRequest,
+  REGISTERED_AGENT_PRICING,
+  RegisteredAgentChoice,
+  createQuote,
+  formatAmount,
+  getExpediteLevels,
+} from '../../services/pricing';
 
 // Lovie dashboard URL for tracking
 const LOVIE_DASHBOARD_URL = 'https://lovie-web.vercel.app/dashboard';
 const LOVIE_APP_STORE_URL = 'https://apps.apple.com/app/lovie'; // placeholder
 const LOVIE_PLAY_STORE_URL = 'https://play.google.com/store/apps/details?id=com.lovie'; // placeholder
 
-// formation_get_payment_link tool
-export const formationGetPaymentLinkTool: ToolDefinition = {
-  name: 'formation_get_payment_link',
-  description: 'Get the Stripe payment link for the formation. Call this after all information has been collected and the certificate has been approved. The user must complete payment before the formation is processed.',
+const EXPEDITE_LEVELS = Object.keys(EXPEDITE_LABELS) as ExpediteLevel[];
+const REGISTERED_AGENT_CHOICES = Object.keys(REGISTERED_AGENT_PRICING) as RegisteredAgentChoice[];
+
+// Price a formation, reporting anything that cannot be priced as a validation error
+function priceFormation(request: QuoteRequest): Quote {
+  if (request.expedite !== undefined && !EXPEDITE_LEVELS.includes(request.expedite)) {
+    throw validationError('expedite', `Valid options: ${EXPEDITE_LEVELS.join(', ')}`);
+  }
+  if (request.registeredAgent !== undefined && !REGISTERED_AGENT_CHOICES.includes(request.registeredAgent)) {
+    throw validationError('registeredAgent', `Valid options: ${REGISTERED_AGENT_CHOICES.join(', ')}`);
+  }
+  try {
+    return createQuote(request);
+  } catch (error) {
+    if (error instanceof PricingError) {
+      throw validationError(error.field === 'entityType' ? 'companyType' : error.field, error.message);
+    }
+    throw error;
+  }
+}
+
+// Quote for a session's state, company type and registered agent
+function priceSession(session: FormationSession, expedite?: ExpediteLevel, promo?: PromoCode): Quote {
+  return priceFormation({
+    state: session.companyDetails!.state!,
+    entityType: session.companyDetails!.companyType!,
+    registeredAgent: session.registeredAgent?.isDefault === false ? 'own' : 'default',
+    expedite: expedite ?? session.quote?.expedite,
+    ...(promo && { discount: toDiscount(promo) }),
+  });
+}
+
+// Quote with display amounts for the assistant
+function presentQuote(quote: Quote) {
+  return {
+    ...quote,
+    items: quote.items.map(item => ({ ...item, display: formatAmount(item.amount) })),
+    totalDisplay: formatAmount(quote.total),
+  };
+}
+
+// formation_get_quote tool
+export const formationGetQuoteTool: ToolDefinition = {
+  name: 'formation_get_quote',
+  description: 'Get an itemized price quote for a formation: Lovie service fee, state filing fee, expedite fee and registered agent. Pass a sessionId to quote the session\'s state, company type, registered agent and promo code, or pass state and companyType to quote before starting. Amounts are in cents.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start (optional)' },
+      state: { type: 'string', enum: ['DE', 'WY'], description: 'State of formation - defaults to the session\'s state' },
+      companyType: { type: 'string', enum: ['LLC', 'C-Corp'], description: 'Company type - defaults to the session\'s company type' },
+      registeredAgent: {
+        type: 'string',
+        enum: REGISTERED_AGENT_CHOICES,
+        description: '"default" for Northwest Registered Agent, "own" for the user\'s own agent - defaults to the session\'s choice',
+      },
+      expedite: {
+        type: 'string',
+        enum: EXPEDITE_LEVELS,
+        description: 'How fast the state files the formation (default: standard)',
+      },
+      promoCode: { type: 'string', description: 'Promo code to price in - defaults to the code applied to the session' },
+    },
+    required: [],
+  },
+};
+
+const handleFormationGetQuote = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const session = typeof args.sessionId === 'string' ? await loadSession(args.sessionId, store) : undefined;
+
+  const state = (args.state as USState | undefined) ?? session?.companyDetails?.state;
+  const companyType = (args.companyType as CompanyType | undefined) ?? session?.companyDetails?.companyType;
+  if (!state) throw requiredFieldError('state');
+  if (!companyType) throw requiredFieldError('companyType');
+  if (!STATE_COMPANY_TYPES[state]) {
+    throw validationError('state', 'Only Delaware (DE) and Wyoming (WY) are currently supported');
+  }
+  if (!STATE_COMPANY_TYPES[state].includes(companyType)) {
+    throw validationError('companyType', `${companyType} formations are not available in ${state}. Available: ${STATE_COMPANY_TYPES[state].join(', ')}`);
+  }
+
+  // A code passed in must be usable. The session's code is left out of the quote, with a
+  // warning, when it no longer is.
+  let promo: PromoCode | undefined;
+  let promoCodeWarning: string | undefined;
+  if (typeof args.promoCode === 'string' && args.promoCode.trim()) {
+    promo = await assertPromoCodeUsable(store, args.promoCode, companyType, session?.sessionId);
+  } else if (session?.promo) {
+    try {
+      promo = await assertPromoCodeUsable(store, session.promo.code, companyType, session.sessionId);
+    } catch (error) {
+      if (!(error instanceof MCPToolError) || error.code !== ErrorCode.PROMO_CODE_INVALID) throw error;
+      promoCodeWarning = `${error.message}. The quote is at the full price.`;
+    }
+  }
+
+  const sessionAgent = session?.registeredAgent ? (session.registeredAgent.isDefault === false ? 'own' : 'default') : undefined;
+  const quote = priceFormation({
+    state,
+    entityType: companyType,
+    registeredAgent: (args.registeredAgent as RegisteredAgentChoice | undefined) ?? sessionAgent,
+    expedite: (args.expedite as ExpediteLevel | undefined) ?? session?.quote?.expedite,
+    ...(promo && { discount: toDiscount(promo) }),
+  });
+
+  return {
+    success: true,
+    quote: presentQuote(quote),
+    availableExpediteLevels: getExpediteLevels(state).map(level => ({
+      level,
+      description: EXPEDITE_LABELS[level],
+    })),
+    ...(promoCodeWarning && { promoCodeWarning }),
+    message: `The ${companyType} formation in ${state} costs ${formatAmount(quote.total)} in total.`,
+  };
+};
+
+// formation_apply_promo_code tool
+export const formationApplyPromoCodeTool: ToolDefinition = {
+  name: 'formation_apply_promo_code',
+  description: 'Apply a partner promo code to the formation. The discount is shown by formation_get_quote and charged by formation_get_payment_link. Pass remove: true to take the code off again. Codes cannot be changed once the formation is paid.',
   inputSchema: {
     type: 'object',
     properties: {
       sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      code: { type: 'string', description: 'Promo code, e.g. ACCEL100 (case-insensitive)' },
+      remove: { type: 'boolean', description: 'Remove the applied promo code instead' },
     },
     required: ['sessionId'],
   },
 };
 
-const handleFormationGetPaymentLink = async (
+const handleFormationApplyPromoCode = async (
   args: Record<string, unknown>,
   store: FormationSessionStore
 ) => {
   const sessionId = args.sessionId as string;
   const session = await loadSession(sessionId, store);
 
-  // Validate session has all required data before payment
-  if (!session.companyDetails?.fullName) {
-    throw validationError('companyDetails.name', 'Company name is required before payment');
-  }
+  // Checked against the session being saved, so a payment that lands meanwhile keeps its code
+  const assertNotPaid = (current: FormationSession) => {
+    if (current.paymentStatus === 'completed') {
+      throw validationError('code', 'This formation has already been paid for - promo codes can no longer be changed');
+    }
+  };
+  assertNotPaid(session);
 
-  if (!session.companyDetails?.state) {
-    throw validationError('companyDetails.state', 'State is required before payment');
+  if (args.remove === true) {
+    const updated = await updateSession(sessionId, store, (current) => {
+      assertNotPaid(current);
+      delete current.promo;
+    });
+    return {
+      success: true,
+      promoCode: null,
+      quote: presentQuote(priceSession(updated)),
+      message: session.promo ? `Promo code ${session.promo.code} was removed.` : 'No promo code was applied.',
+    };
   }
 
-  if (!session.companyDetails?.companyType) {
-    throw validationError('companyDetails.entityType', 'Company type is required before payment');
+  if (typeof args.code !== 'string' || !args.code.trim()) {
+    throw requiredFieldError('code');
   }
+  const promo = await assertPromoCodeUsable(store, args.code, session.companyDetails?.companyType, sessionId);
 
-  if (!session.companyDetails?.companyAddress) {
-    throw validationError('companyDetails.companyAddress', 'Company address is required before payment');
-  }
+  const updated = await updateSession(sessionId, store, (current) => {
+    assertNotPaid(current);
+    current.promo = { code: promo.code, appliedAt: new Date().toISOString() };
+  });
+  const quote = priceSession(updated, undefined, promo);
 
-  if (!session.shareholders || session.shareholders.length === 0) {
-    throw validationError('shareholders', 'At least one shareholder/member is required before payment');
-  }
+  return {
+    success: true,
+    promoCode: promo.code,
+    ...(promo.description && { description: promo.description }),
+    ...(promo.expiresAt && { expiresAt: promo.expiresAt }),
+    quote: presentQuote(quote),
+    message: `Promo code ${promo.code} applied. The formation now costs ${formatAmount(quote.total)}.`,
+    nextStep: 'Call formation_get_payment_link when the user is ready to pay.',
+  };
+};
 
-  if (!session.registeredAgent) {
-    throw validationError('registeredAgent', 'Registered agent is required before payment');
-  }
+// formation_get_payment_link tool
+export const formationGetPaymentLinkTool: ToolDefinition = {
+  name: 'formation_get_payment_link',
+  description: 'Get the Stripe payment link for the formation. The link charges the amount from formation_get_quote, including any promo code. Call this after all information has been collected and the certificate has been approved. The user must complete payment before the formation is processed.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      expedite: {
+        type: 'string',
+        enum: EXPEDITE_LEVELS,
+        description: 'How fast the state files the formation (default: standard, or the level of the previous link)',
+      },
+    },
+    required: ['sessionId'],
+  },
+};
 
-  if (!session.authorizedParty) {
-    throw validationError('authorizedParty', 'Authorized party is required before payment');
+const handleFormationGetPaymentLink = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const sessionId = args.sessionId as string;
+  const session = await loadSession(sessionId, store);
+
+  // Required data is guaranteed by the tool's prerequisites
+  const companyDetails = session.companyDetails!;
+
+  // Same rules as formation_validate
+  assertSessionValid(session, 'payment');
+
+  if (session.paymentStatus === 'completed') {
+    return {
+      success: true,
+      paymentRequired: false,
+      message: 'This formation has already been paid for.',
+      nextStep: 'Call formation_submit to submit your formation request.',
+    };
   }
 
-  // Validate ownership percentages sum to 100
-  const totalOwnership = session.shareholders.reduce((sum, s) => sum + s.ownershipPercentage, 0);
-  if (Math.abs(totalOwnership - 100) > 0.01) {
-    throw validationError('shareholders', `Shareholder ownership must sum to 100% (currently ${totalOwnership}%)`);
+  // The code may have expired or been used up since it was applied
+  const promo = session.promo
+    ? await assertPromoCodeUsable(store, session.promo.code, companyDetails.companyType, sessionId)
+    : undefined;
+  const quote = priceSession(session, args.expedite as ExpediteLevel | undefined, promo);
+
+  // Nothing to charge - a promo code waives the whole price
+  if (quote.total === 0) {
+    await claimPromoCode(store, sessionId, promo!, companyDetails.companyType, (current) => {
+      const now = new Date().toISOString();
+      current.paymentStatus = 'completed' as PaymentStatus;
+      current.paymentCompletedAt = now;
+      current.quote = quote;
+      redeemPromoCode(current, now);
+    });
+    return {
+      success: true,
+      paymentRequired: false,
+      quote: presentQuote(quote),
+      message: `Promo code ${quote.promoCode} covers the full price - no payment is needed.`,
+      nextStep: 'Call formation_submit to submit your formation request.',
+    };
   }
 
-  const companyType = session.companyDetails.companyType as 'LLC' | 'C-Corp';
-  const paymentLink = STRIPE_PAYMENT_LINKS[companyType];
+  // A code with a usage limit holds one of its redemptions until the link expires, so links
+  // already handed out cannot be paid for more formations than the limit allows
+  const reservedUntil = promo?.maxRedemptions !== undefined ? Date.now() + PROMO_RESERVATION_MS : undefined;
+  if (promo && reservedUntil !== undefined) {
+    await claimPromoCode(store, sessionId, promo, companyDetails.companyType, (current) => {
+      current.promo!.reservedUntil = new Date(reservedUntil).toISOString();
+    });
+  }
 
-  // Add session ID to payment link for tracking
-  const paymentLinkWithSession = `${paymentLink}?client_reference_id=${sessionId}`;
+  // Every link is a new Checkout Session for the current quote, tagged with the session ID
+  // so the payment can be found again
+  let url: string;
+  try {
+    ({ url } = await getPaymentProvider().createCheckout({
+      clientReferenceId: sessionId,
+      quote,
+      ...(reservedUntil !== undefined && { expiresAt: Math.floor(reservedUntil / 1000) }),
+      signal: context.signal,
+    }));
+  } catch (error) {
+    // Give the redemption back - only an earlier link of this session may still hold it
+    if (promo && reservedUntil !== undefined) {
+      await updatePromoCodeClaim(store, sessionId, promo.code, (current) => {
+        if (!current.promo) return;
+        if (session.promo?.reservedUntil) {
+          current.promo.reservedUntil = session.promo.reservedUntil;
+        } else {
+          delete current.promo.reservedUntil;
+        }
+      }).catch(releaseError => console.error(`Failed to release the promo code held for ${sessionId}:`, releaseError));
+    }
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_get_payment_link');
+    }
+    console.error(`Failed to create a payment link for ${sessionId}:`, error);
+    throw paymentLinkFailed(sessionId, error instanceof Error ? error.message : 'Stripe request failed');
+  }
 
-  // Mark session as awaiting payment
-  session.paymentStatus = 'pending' as PaymentStatus;
-  await store.save(session);
+  // Mark session as awaiting payment of the quote
+  await updateSession(sessionId, store, (current) => {
+    current.paymentStatus = 'pending' as PaymentStatus;
+    current.quote = quote;
+  });
 
   return {
     success: true,
     paymentRequired: true,
-    paymentLink: paymentLinkWithSession,
-    companyName: session.companyDetails.fullName,
-    companyType: session.companyDetails.companyType,
-    state: session.companyDetails.state,
-    message: 'Please complete the payment to proceed with your company formation.',
+    paymentLink: url,
+    quote: presentQuote(quote),
+    companyName: companyDetails.fullName,
+    companyType: companyDetails.companyType,
+    state: companyDetails.state,
+    message: `Please complete the payment of ${formatAmount(quote.total)} to proceed with your company formation.`,
     instructions: [
       '1. Click the payment link above to pay via Stripe',
       '2. After payment, your formation will be automatically submitted',
@@ -100,47 +347,103 @@ const handleFormationGetPaymentLink = async (
 // formation_confirm_payment tool
 export const formationConfirmPaymentTool: ToolDefinition = {
   name: 'formation_confirm_payment',
-  description: 'Confirm that payment has been completed and submit the formation. Call this after the user has completed the Stripe payment.',
+  description: 'Verify with Stripe that the payment for the formation has been completed. Call this after the user has completed the Stripe payment. The payment is looked up by the session ID in the payment link, so nothing needs to be passed besides the session.',
   inputSchema: {
     type: 'object',
     properties: {
       sessionId: { type: 'string', description: 'Session ID from formation_start' },
       paymentConfirmed: {
         type: 'boolean',
-        description: 'Set to true to confirm the user has completed payment'
+        description: 'Deprecated and ignored - the payment is verified with Stripe',
       },
     },
-    required: ['sessionId', 'paymentConfirmed'],
+    required: ['sessionId'],
   },
 };
 
+function paymentConfirmedResponse(payment: PaymentDetails, alreadyConfirmed: boolean = false) {
+  return {
+    success: true,
+    paymentStatus: 'completed',
+    ...(alreadyConfirmed && { alreadyConfirmed }),
+    payment: {
+      checkoutSessionId: payment.checkoutSessionId,
+      amountTotal: payment.amountTotal,
+      currency: payment.currency,
+      paidAt: payment.paidAt,
+    },
+    message: 'Payment confirmed! Your formation will now be submitted.',
+    nextStep: 'Call formation_submit to submit your formation request.',
+  };
+}
+
 const handleFormationConfirmPayment = async (
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
   const sessionId = args.sessionId as string;
-  const paymentConfirmed = args.paymentConfirmed as boolean;
   const session = await loadSession(sessionId, store);
 
-  if (!paymentConfirmed) {
+  if (session.paymentStatus === 'completed' && session.payment) {
+    return paymentConfirmedResponse(session.payment, true);
+  }
+  if (session.paymentStatus === 'completed' && session.quote?.total === 0) {
     return {
-      success: false,
-      message: 'Payment must be completed before proceeding. Please complete the Stripe payment first.',
-      paymentLink: STRIPE_PAYMENT_LINKS[session.companyDetails?.companyType as 'LLC' | 'C-Corp'] || STRIPE_PAYMENT_LINKS.LLC,
+      success: true,
+      paymentStatus: 'completed',
+      alreadyConfirmed: true,
+      message: `No payment is needed - promo code ${session.quote.promoCode} covers the full price.`,
+      nextStep: 'Call formation_submit to submit your formation request.',
     };
   }
 
-  // Mark payment as completed
-  session.paymentStatus = 'completed' as PaymentStatus;
-  session.paymentCompletedAt = new Date().toISOString();
-  await store.save(session);
+  // Checkout Sessions cannot be older than the formation session
+  let checkoutSessions;
+  try {
+    checkoutSessions = await getPaymentProvider().findCheckoutSessions(sessionId, {
+      createdAfter: Math.floor(Date.parse(session.createdAt) / 1000),
+      signal: context.signal,
+    });
+  } catch (error) {
+    if (context.signal.aborted) {
+      throw requestCancelled('formation_confirm_payment');
+    }
+    console.error(`Failed to look up the payment for ${sessionId}:`, error);
+    throw paymentVerificationFailed(sessionId, error instanceof Error ? error.message : 'Stripe request failed');
+  }
+
+  // A refunded payment does not count - the user has to pay again. Neither does a checkout
+  // for an earlier, cheaper quote.
+  const refunded = session.refundedCheckoutSessionIds ?? [];
+  const quoted = session.quote?.total ?? 0;
+  const paidCheckouts = checkoutSessions.filter(checkout => checkout.paymentStatus === 'paid' && !refunded.includes(checkout.id));
+  const paid = paidCheckouts.find(checkout => checkout.amountTotal === null || checkout.amountTotal >= quoted);
+  const underpaid = !paid ? paidCheckouts[0] : undefined;
+  if (underpaid) {
+    // Flags the session for a refund or top-up of the underpayment
+    await recordPayment(store, sessionId, underpaid, 'checkout');
+  }
 
-  return {
-    success: true,
-    paymentStatus: 'completed',
-    message: 'Payment confirmed! Your formation will now be submitted.',
-    nextStep: 'Call formation_submit to submit your formation request.',
-  };
+  if (!paid) {
+    return {
+      success: false,
+      paymentStatus: session.paymentStatus || 'not_started',
+      message: session.paymentStatus === 'refunded'
+        ? 'The payment for this formation was refunded. Please complete a new payment to proceed.'
+        : underpaid
+          ? `The payment of ${formatAmount(underpaid.amountTotal!)} does not cover the current quote of ${formatAmount(quoted)}. Please pay with a new payment link.`
+          : 'No completed payment was found for this formation. Please complete the Stripe payment first, then call this tool again.',
+      ...(checkoutSessions.some(checkout => checkout.status === 'complete' && checkout.paymentStatus === 'unpaid') && {
+        note: 'A checkout was completed but the payment has not cleared yet. Try again once the bank confirms it.',
+      }),
+      nextStep: 'Call formation_get_payment_link for a payment link.',
+    };
+  }
+
+  await recordPayment(store, sessionId, paid, 'checkout');
+  const updated = await loadSession(sessionId, store);
+  return paymentConfirmedResponse(updated.payment!);
 };
 
 // formation_track_progress tool
@@ -189,6 +492,8 @@ const handleFormationTrackProgress = async (
 
 // Register tools
 export function registerPaymentTools(): void {
+  registerTool(formationGetQuoteTool, handleFormationGetQuote);
+  registerTool(formationApplyPromoCodeTool, handleFormationApplyPromoCode);
   registerTool(formationGetPaymentLinkTool, handleFormationGetPaymentLink);
   registerTool(formationConfirmPaymentTool, handleFormationConfirmPayment);
   registerTool(formationTrackProgressTool, handleFormationTrackProgress);
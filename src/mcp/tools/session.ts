@@ -1,9 +1,12 @@
-import { registerTool, ToolDefinition } from './index';
-import { FormationStep } from '../state/types';
+import { registerTool, ToolCallContext, ToolDefinition } from './index';
+import { FormationStep, FormationSession, SessionStatus } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession, getCompletedSteps, getRemainingSteps, calculateProgress } from '../middleware/session';
-import { requiredFieldError } from '../errors';
+import { loadSession, updateSession, getCompletedSteps, getRemainingSteps, calculateProgress } from '../middleware/session';
+import { getStepOrder, isStepBefore } from '../state/steps';
+import { STEP_DEPENDENCIES, getDependentSteps } from '../middleware/dependencies';
+import { requiredFieldError, validationError, authRequired, MCPToolError, ErrorCode } from '../errors';
 import { getUserId } from './auth';
+import { recoverSession } from '../lifecycle';
 
 // T018: formation_start tool
 export const formationStartTool: ToolDefinition = {
@@ -18,10 +21,11 @@ export const formationStartTool: ToolDefinition = {
 
 const handleFormationStart = async (
   args: Record<string, unknown>,
-  store: FormationSessionStore
+  store: FormationSessionStore,
+  context: ToolCallContext
 ) => {
   // Get userId from authenticated session
-  const userId = getUserId();
+  const userId = getUserId(context.auth);
   const session = await store.create(userId || undefined);
 
   return {
@@ -75,14 +79,13 @@ const handleFormationDescribeBusiness = async (
     throw requiredFieldError('businessDescription');
   }
 
-  const session = await loadSession(sessionId, store);
-
-  session.companyDetails = {
-    ...session.companyDetails,
-    businessDescription,
-  };
-  session.currentStep = FormationStep.BUSINESS_DESCRIBED;
-  await store.save(session);
+  await updateSession(sessionId, store, (session) => {
+    session.companyDetails = {
+      ...session.companyDetails,
+      businessDescription,
+    };
+    session.currentStep = FormationStep.BUSINESS_DESCRIBED;
+  });
 
   // Analyze business description to make recommendations
   const lowerDesc = businessDescription.toLowerCase();
@@ -173,8 +176,10 @@ const handleFormationGetStatus = async (
       shareholders: session.shareholders,
       authorizedParty: session.authorizedParty,
       nameCheckResult: session.nameCheckResult,
+      nameCheckJob: session.nameCheckJob,
       certificateData: session.certificateData,
     },
+    invalidations: session.invalidations || [],
     createdAt: session.createdAt,
     updatedAt: session.updatedAt,
   };
@@ -198,7 +203,8 @@ const handleFormationResume = async (
   store: FormationSessionStore
 ) => {
   const sessionId = args.sessionId as string;
-  const session = await loadSession(sessionId, store);
+  // Resuming is activity - abandoned and recently expired sessions are brought back
+  const { session, recovered } = await recoverSession(sessionId, store);
 
   const companyType = session.companyDetails?.companyType;
   const completedSteps = getCompletedSteps(session.currentStep, companyType);
@@ -284,6 +290,7 @@ const handleFormationResume = async (
       shareholders: session.shareholders,
       authorizedParty: session.authorizedParty,
       nameCheckResult: session.nameCheckResult,
+      nameCheckJob: session.nameCheckJob,
       certificateData: session.certificateData,
     },
     progress: {
@@ -293,7 +300,177 @@ const handleFormationResume = async (
     },
     nextAction,
     nextActionDescription,
-    message: `Session resumed. Current step: ${session.currentStep}. Next: ${nextActionDescription}`,
+    recovered,
+    expiresAt: session.expiresAt,
+    message: `Session ${recovered ? 'recovered' : 'resumed'}. Current step: ${session.currentStep}. Next: ${nextActionDescription}`,
+  };
+};
+
+// Steps that can be revisited with formation_go_to_step
+const REVISITABLE_STEPS: FormationStep[] = Object.values(FormationStep).filter(
+  step => step !== FormationStep.CREATED
+    && step !== FormationStep.CERTIFICATE_APPROVED
+    && step !== FormationStep.COMPLETED
+);
+
+// formation_go_to_step tool
+export const formationGoToStepTool: ToolDefinition = {
+  name: 'formation_go_to_step',
+  description: 'Go back to an earlier step to change its data. Dependent data (name check, certificate, payment link) is cleared or flagged automatically when the step\'s data changes.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      step: {
+        type: 'string',
+        enum: REVISITABLE_STEPS,
+        description: 'Step to go back to (e.g. STATE_SELECTED, TYPE_SELECTED, NAME_SET)',
+      },
+    },
+    required: ['sessionId', 'step'],
+  },
+};
+
+const handleFormationGoToStep = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const step = args.step as FormationStep;
+
+  if (!step) throw requiredFieldError('step');
+  if (!REVISITABLE_STEPS.includes(step)) {
+    throw validationError('step', `Must be one of: ${REVISITABLE_STEPS.join(', ')}`);
+  }
+
+  const session = await updateSession(sessionId, store, (current) => {
+    if (current.submissionResult) {
+      throw new MCPToolError({
+        code: ErrorCode.SESSION_ALREADY_COMPLETED,
+        message: 'Steps cannot be revisited after the formation has been submitted',
+        details: { sessionId: current.sessionId, submissionStatus: current.submissionResult.status },
+        retryable: false,
+        suggestion: 'Contact Lovie support to amend a submitted formation',
+      });
+    }
+
+    const steps = getStepOrder(current.companyDetails?.companyType);
+    if (!steps.includes(step)) {
+      throw validationError('step', `${step} does not apply to a ${current.companyDetails?.companyType}`);
+    }
+    if (isStepBefore(current.currentStep, step)) {
+      throw validationError('step', `${step} has not been reached yet (current step: ${current.currentStep})`);
+    }
+
+    // Resume from the step before the target so its tool is the next action
+    current.currentStep = steps[steps.indexOf(step) - 1];
+  });
+
+  const node = STEP_DEPENDENCIES[step];
+  const affectedSteps = getDependentSteps([step]);
+
+  return {
+    success: true,
+    sessionId: session.sessionId,
+    currentStep: session.currentStep,
+    targetStep: step,
+    currentValue: node.watch?.(session) ?? null,
+    affectedSteps,
+    invalidations: session.invalidations || [],
+    nextAction: node.tool,
+    message: `Moved back to ${step}. Call ${node.tool} to change it; dependent steps (${affectedSteps.join(', ') || 'none'}) will be updated if the data changes.`,
+  };
+};
+
+// Default and maximum number of sessions returned by formation_list_sessions
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// Whether a session's company name contains the search text (case-insensitive)
+function matchesCompanyName(session: FormationSession, companyName: string): boolean {
+  const search = companyName.trim().toLowerCase();
+  const names = [session.companyDetails?.fullName, session.companyDetails?.baseName];
+  return names.some(name => name?.toLowerCase().includes(search));
+}
+
+// Whether any shareholder/member of a session has the email (case-insensitive)
+function matchesShareholderEmail(session: FormationSession, email: string): boolean {
+  const search = email.trim().toLowerCase();
+  return session.shareholders.some(shareholder => shareholder.email.toLowerCase() === search);
+}
+
+// formation_list_sessions tool
+export const formationListSessionsTool: ToolDefinition = {
+  name: 'formation_list_sessions',
+  description: 'List the logged-in user\'s formation sessions, most recently updated first. Use it to find a session ID by company name or shareholder email before calling formation_resume.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: Object.values(SessionStatus),
+        description: 'Only return sessions with this status',
+      },
+      companyName: { type: 'string', description: 'Only return sessions whose company name contains this text' },
+      shareholderEmail: { type: 'string', description: 'Only return sessions with a shareholder/member with this email' },
+      includeExpired: { type: 'boolean', description: 'Include sessions that have expired (default: false)' },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_LIST_LIMIT, description: `Maximum number of sessions to return (default: ${DEFAULT_LIST_LIMIT})` },
+    },
+    required: [],
+  },
+};
+
+const handleFormationListSessions = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const status = args.status as SessionStatus | undefined;
+  const companyName = args.companyName as string | undefined;
+  const shareholderEmail = args.shareholderEmail as string | undefined;
+  const includeExpired = args.includeExpired === true;
+  const limit = (args.limit as number | undefined) ?? DEFAULT_LIST_LIMIT;
+
+  // Every way of signing in checks the token signature, so the user ID can be trusted here
+  const userId = getUserId(context.auth);
+  if (!userId) {
+    throw authRequired('list formation sessions');
+  }
+  if (status !== undefined && !Object.values(SessionStatus).includes(status)) {
+    throw validationError('status', `Must be one of: ${Object.values(SessionStatus).join(', ')}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw validationError('limit', `Must be a whole number between 1 and ${MAX_LIST_LIMIT}`);
+  }
+
+  const now = new Date();
+  const sessions = (await store.listByUser(userId))
+    .filter(session => includeExpired || new Date(session.expiresAt) >= now)
+    .filter(session => !status || session.status === status)
+    .filter(session => !companyName || matchesCompanyName(session, companyName))
+    .filter(session => !shareholderEmail || matchesShareholderEmail(session, shareholderEmail))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  return {
+    userId,
+    total: sessions.length,
+    sessions: sessions.slice(0, limit).map(session => ({
+      sessionId: session.sessionId,
+      companyName: session.companyDetails?.fullName,
+      state: session.companyDetails?.state,
+      companyType: session.companyDetails?.companyType,
+      status: session.status,
+      currentStep: session.currentStep,
+      percentComplete: calculateProgress(session.currentStep, session.companyDetails?.companyType),
+      shareholderCount: session.shareholders.length,
+      submitted: Boolean(session.submissionResult),
+      updatedAt: session.updatedAt,
+      expiresAt: session.expiresAt,
+      expired: new Date(session.expiresAt) < now,
+    })),
+    message: sessions.length === 0
+      ? 'No matching formation sessions found. Start a new one with formation_start.'
+      : `Found ${sessions.length} formation session(s). Use formation_resume with a sessionId to continue.`,
   };
 };
 
@@ -303,4 +480,6 @@ export function registerSessionTools(): void {
   registerTool(formationDescribeBusinessTool, handleFormationDescribeBusiness);
   registerTool(formationGetStatusTool, handleFormationGetStatus);
   registerTool(formationResumeTool, handleFormationResume);
+  registerTool(formationGoToStepTool, handleFormationGoToStep);
+  registerTool(formationListSessionsTool, handleFormationListSessions);
 }
@@ -1,10 +1,11 @@
 import { v4 as uuidv4 } from 'uuid';
 import { registerTool, ToolDefinition } from './index';
-import { FormationStep, DEFAULT_REGISTERED_AGENT, DEFAULT_SHARE_STRUCTURE, RegisteredAgent, ShareStructure, Shareholder, ShareholderRole, Address } from '../state/types';
+import { FormationSession, FormationStep, DEFAULT_REGISTERED_AGENT, DEFAULT_SHARE_STRUCTURE, RegisteredAgent, ShareStructure, Shareholder, ShareholderRole, Address, OWNER_ROLES_BY_COMPANY_TYPE } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession } from '../middleware/session';
-import { validationError, requiredFieldError } from '../errors';
-import { safeValidateInput, emailSchema, validateTotalOwnership } from '../validation';
+import { loadSession, updateSession, normalizeStep } from '../middleware/session';
+import { invalidateCertificate } from '../middleware/dependencies';
+import { validationError, requiredFieldError, MCPToolError, ErrorCode } from '../errors';
+import { validateInput, emailSchema, validateTotalOwnership } from '../validation';
 
 // T024: formation_set_registered_agent tool
 export const formationSetRegisteredAgentTool: ToolDefinition = {
@@ -64,8 +65,6 @@ const handleFormationSetRegisteredAgent = async (
     };
   }
 
-  const session = await loadSession(sessionId, store);
-
   let agent: RegisteredAgent;
 
   if (useDefault) {
@@ -88,9 +87,10 @@ const handleFormationSetRegisteredAgent = async (
     };
   }
 
-  session.registeredAgent = agent;
-  session.currentStep = FormationStep.AGENT_SET;
-  await store.save(session);
+  const session = await updateSession(sessionId, store, (current) => {
+    current.registeredAgent = agent;
+    current.currentStep = FormationStep.AGENT_SET;
+  });
 
   const nextStep = session.companyDetails?.companyType === 'LLC'
     ? 'formation_add_shareholder'
@@ -162,9 +162,10 @@ const handleFormationSetShareStructure = async (
     };
   }
 
-  session.shareStructure = shareStructure;
-  session.currentStep = FormationStep.SHARES_SET;
-  await store.save(session);
+  await updateSession(sessionId, store, (current) => {
+    current.shareStructure = shareStructure;
+    current.currentStep = FormationStep.SHARES_SET;
+  });
 
   // Calculate total par value that founders need to pay to the company
   const totalParValue = shareStructure.authorizedShares * shareStructure.parValuePerShare;
@@ -190,6 +191,99 @@ const handleFormationSetShareStructure = async (
   };
 };
 
+type ShareholderInput = Partial<Omit<Shareholder, 'address'>> & { address?: Partial<Address> };
+
+// Validate shareholder/member input and build the stored record
+// Shared by add and update so both enforce the same rules
+function buildShareholder(id: string, shareholderInput: ShareholderInput, isLLC: boolean): Shareholder {
+  // Validate required fields
+  if (!shareholderInput.firstName) throw requiredFieldError('shareholder.firstName');
+  if (!shareholderInput.lastName) throw requiredFieldError('shareholder.lastName');
+  if (!shareholderInput.email) throw requiredFieldError('shareholder.email');
+  if (shareholderInput.ownershipPercentage === undefined) throw requiredFieldError('shareholder.ownershipPercentage');
+
+  // Validate address is provided
+  if (!shareholderInput.address) {
+    throw requiredFieldError('shareholder.address');
+  }
+  if (!shareholderInput.address.street1) throw requiredFieldError('shareholder.address.street1');
+  if (!shareholderInput.address.city) throw requiredFieldError('shareholder.address.city');
+  if (!shareholderInput.address.state) throw requiredFieldError('shareholder.address.state');
+  if (!shareholderInput.address.zipCode) throw requiredFieldError('shareholder.address.zipCode');
+
+  // Validate email
+  validateInput(emailSchema, shareholderInput.email, 'shareholder.email');
+
+  // Validate ownership percentage
+  if (shareholderInput.ownershipPercentage < 0.01 || shareholderInput.ownershipPercentage > 100) {
+    throw validationError('shareholder.ownershipPercentage', 'Must be between 0.01% and 100%');
+  }
+
+  // Validate role for the company type if provided
+  const validRoles = OWNER_ROLES_BY_COMPANY_TYPE[isLLC ? 'LLC' : 'C-Corp'];
+  if (shareholderInput.role && !validRoles.includes(shareholderInput.role)) {
+    throw validationError('shareholder.role', `Invalid role for ${isLLC ? 'an LLC' : 'a corporation'}. Valid options: ${validRoles.join(', ')}`);
+  }
+
+  // Determine default role based on company type
+  let role: ShareholderRole | undefined = shareholderInput.role;
+  if (!role) {
+    role = isLLC ? 'member' : 'shareholder';
+  }
+
+  return {
+    id,
+    firstName: shareholderInput.firstName,
+    lastName: shareholderInput.lastName,
+    email: shareholderInput.email,
+    phone: shareholderInput.phone,
+    ownershipPercentage: shareholderInput.ownershipPercentage,
+    role,
+    address: {
+      street1: shareholderInput.address.street1,
+      street2: shareholderInput.address.street2 || null,
+      city: shareholderInput.address.city,
+      state: shareholderInput.address.state,
+      zipCode: shareholderInput.address.zipCode,
+      country: shareholderInput.address.country || 'US',
+    },
+  };
+}
+
+// Owners cannot change once the formation has been submitted for filing
+function assertOwnersEditable(session: FormationSession): void {
+  if (session.submissionResult) {
+    throw new MCPToolError({
+      code: ErrorCode.SESSION_ALREADY_COMPLETED,
+      message: 'Shareholders/members cannot be changed after the formation has been submitted',
+      details: { sessionId: session.sessionId, submissionStatus: session.submissionResult.status },
+      retryable: false,
+      suggestion: 'Contact Lovie support to amend a submitted formation',
+    });
+  }
+}
+
+// Find an owner by ID or throw a validation error
+function findShareholderIndex(session: FormationSession, shareholderId: string): number {
+  const index = session.shareholders.findIndex(s => s.id === shareholderId);
+  if (index === -1) {
+    const validIds = session.shareholders.map(s => `${s.id} (${s.firstName} ${s.lastName})`).join(', ') || 'none';
+    throw validationError('shareholderId', `No shareholder/member found with ID ${shareholderId}. Current IDs: ${validIds}`);
+  }
+  return index;
+}
+
+// Summary of owners returned by the shareholder tools
+function summarizeShareholders(shareholders: Shareholder[]) {
+  return shareholders.map(s => ({
+    id: s.id,
+    name: `${s.firstName} ${s.lastName}`,
+    ownershipPercentage: s.ownershipPercentage,
+    role: s.role,
+    address: s.address,
+  }));
+}
+
 // T026: formation_add_shareholder tool
 export const formationAddShareholderTool: ToolDefinition = {
   name: 'formation_add_shareholder',
@@ -237,92 +331,187 @@ const handleFormationAddShareholder = async (
   store: FormationSessionStore
 ) => {
   const sessionId = args.sessionId as string;
-  const shareholderInput = args.shareholder as Partial<Shareholder> & { address?: Partial<Address> };
+  const shareholderInput = args.shareholder as ShareholderInput;
 
   const session = await loadSession(sessionId, store);
 
   const isLLC = session.companyDetails?.companyType === 'LLC';
   const ownerType = isLLC ? 'member' : 'shareholder';
 
-  // Validate required fields
-  if (!shareholderInput.firstName) throw requiredFieldError('shareholder.firstName');
-  if (!shareholderInput.lastName) throw requiredFieldError('shareholder.lastName');
-  if (!shareholderInput.email) throw requiredFieldError('shareholder.email');
-  if (shareholderInput.ownershipPercentage === undefined) throw requiredFieldError('shareholder.ownershipPercentage');
+  const shareholder = buildShareholder(uuidv4(), shareholderInput, isLLC);
 
-  // Validate address is provided
-  if (!shareholderInput.address) {
-    throw requiredFieldError('shareholder.address');
-  }
-  if (!shareholderInput.address.street1) throw requiredFieldError('shareholder.address.street1');
-  if (!shareholderInput.address.city) throw requiredFieldError('shareholder.address.city');
-  if (!shareholderInput.address.state) throw requiredFieldError('shareholder.address.state');
-  if (!shareholderInput.address.zipCode) throw requiredFieldError('shareholder.address.zipCode');
+  // Append to the latest version so concurrently added shareholders are kept
+  let certificateInvalidated = false;
+  const updated = await updateSession(sessionId, store, (current) => {
+    assertOwnersEditable(current);
+    current.shareholders.push(shareholder);
+    certificateInvalidated = invalidateCertificate(current);
+    current.currentStep = FormationStep.SHAREHOLDERS_ADDED;
+  });
 
-  // Validate email
-  const emailResult = safeValidateInput(emailSchema, shareholderInput.email);
-  if (!emailResult.success) {
-    throw validationError('shareholder.email', 'Invalid email format');
-  }
+  // Calculate total ownership
+  const percentages = updated.shareholders.map(s => s.ownershipPercentage);
+  const ownershipCheck = validateTotalOwnership(percentages);
 
-  // Validate ownership percentage
-  if (shareholderInput.ownershipPercentage < 0.01 || shareholderInput.ownershipPercentage > 100) {
-    throw validationError('shareholder.ownershipPercentage', 'Must be between 0.01% and 100%');
-  }
+  return {
+    success: true,
+    shareholderId: shareholder.id,
+    shareholders: summarizeShareholders(updated.shareholders),
+    totalOwnership: ownershipCheck.total,
+    certificateInvalidated,
+    message: ownershipCheck.total < 100
+      ? `${ownerType} added. Total ownership: ${ownershipCheck.total}%. Add more ${ownerType}s or proceed with formation_set_authorized_party.`
+      : `${ownerType} added. Total ownership: ${ownershipCheck.total}%. Proceed with formation_set_authorized_party.`,
+  };
+};
 
-  // Validate role if provided
-  const validRoles: ShareholderRole[] = ['member', 'managing_member', 'shareholder', 'director', 'officer'];
-  if (shareholderInput.role && !validRoles.includes(shareholderInput.role)) {
-    throw validationError('shareholder.role', `Invalid role. Valid options: ${validRoles.join(', ')}`);
-  }
+// formation_update_shareholder tool
+export const formationUpdateShareholderTool: ToolDefinition = {
+  name: 'formation_update_shareholder',
+  description: 'Update an existing shareholder (for corps) or member (for LLCs), e.g. to fix a typo in an address or change an ownership percentage. Only the provided fields are changed. Any generated certificate must be regenerated afterwards.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      shareholderId: { type: 'string', description: 'Shareholder ID returned by formation_add_shareholder' },
+      updates: {
+        type: 'object',
+        description: 'Fields to change. Address fields are merged with the existing address.',
+        properties: {
+          firstName: { type: 'string', minLength: 1, description: 'First name' },
+          lastName: { type: 'string', minLength: 1, description: 'Last name' },
+          email: { type: 'string', format: 'email', description: 'Email address' },
+          phone: { type: 'string', description: 'Phone number (e.g., +1-555-123-4567)' },
+          ownershipPercentage: { type: 'number', minimum: 0.01, maximum: 100, description: 'Ownership percentage (0.01 to 100)' },
+          role: {
+            type: 'string',
+            enum: ['member', 'managing_member', 'shareholder', 'director', 'officer'],
+            description: 'Role in the company: "member" or "managing_member" for LLCs, "shareholder", "director", or "officer" for Corps',
+          },
+          address: {
+            type: 'object',
+            description: 'Address fields to change',
+            properties: {
+              street1: { type: 'string', description: 'Street address line 1' },
+              street2: { type: 'string', description: 'Street address line 2 (apt, suite, etc.) - optional' },
+              city: { type: 'string', description: 'City' },
+              state: { type: 'string', description: 'State code (e.g., CA, NY, TX)' },
+              zipCode: { type: 'string', description: 'ZIP code' },
+              country: { type: 'string', description: 'Country code' },
+            },
+            required: [],
+          },
+        },
+        required: [],
+      },
+    },
+    required: ['sessionId', 'shareholderId', 'updates'],
+  },
+};
 
-  // Determine default role based on company type
-  let role: ShareholderRole | undefined = shareholderInput.role;
-  if (!role) {
-    role = isLLC ? 'member' : 'shareholder';
-  }
+const handleFormationUpdateShareholder = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const shareholderId = args.shareholderId as string;
+  const updates = args.updates as ShareholderInput | undefined;
+
+  if (!shareholderId) throw requiredFieldError('shareholderId');
+  if (!updates || Object.keys(updates).length === 0) throw requiredFieldError('updates');
+
+  let shareholder: Shareholder | undefined;
+  let certificateInvalidated = false;
+  const session = await updateSession(sessionId, store, (current) => {
+    assertOwnersEditable(current);
+    const index = findShareholderIndex(current, shareholderId);
+    const existing = current.shareholders[index];
+
+    shareholder = buildShareholder(existing.id, {
+      ...existing,
+      ...updates,
+      address: { ...existing.address, ...updates.address },
+    }, current.companyDetails?.companyType === 'LLC');
+
+    const shareholders = [...current.shareholders];
+    shareholders[index] = shareholder;
+
+    const ownershipCheck = validateTotalOwnership(shareholders.map(s => s.ownershipPercentage));
+    if (!ownershipCheck.valid) {
+      throw validationError('updates.ownershipPercentage', ownershipCheck.message || 'Total ownership exceeds 100%');
+    }
 
-  const shareholder: Shareholder = {
-    id: uuidv4(),
-    firstName: shareholderInput.firstName,
-    lastName: shareholderInput.lastName,
-    email: shareholderInput.email,
-    phone: shareholderInput.phone,
-    ownershipPercentage: shareholderInput.ownershipPercentage,
-    role,
-    address: {
-      street1: shareholderInput.address.street1,
-      street2: shareholderInput.address.street2 || null,
-      city: shareholderInput.address.city,
-      state: shareholderInput.address.state,
-      zipCode: shareholderInput.address.zipCode,
-      country: shareholderInput.address.country || 'US',
-    },
+    current.shareholders = shareholders;
+    certificateInvalidated = invalidateCertificate(current);
+  });
+
+  const ownershipCheck = validateTotalOwnership(session.shareholders.map(s => s.ownershipPercentage));
+  const ownerType = session.companyDetails?.companyType === 'LLC' ? 'Member' : 'Shareholder';
+
+  return {
+    success: true,
+    shareholder,
+    shareholders: summarizeShareholders(session.shareholders),
+    totalOwnership: ownershipCheck.total,
+    certificateInvalidated,
+    message: certificateInvalidated
+      ? `${ownerType} updated. Total ownership: ${ownershipCheck.total}%. The previously generated certificate is no longer valid - regenerate it with formation_generate_certificate.`
+      : `${ownerType} updated. Total ownership: ${ownershipCheck.total}%.`,
   };
+};
+
+// formation_remove_shareholder tool
+export const formationRemoveShareholderTool: ToolDefinition = {
+  name: 'formation_remove_shareholder',
+  description: 'Remove a shareholder (for corps) or member (for LLCs), e.g. a co-founder who is no longer part of the company. Any generated certificate must be regenerated afterwards.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      shareholderId: { type: 'string', description: 'Shareholder ID returned by formation_add_shareholder' },
+    },
+    required: ['sessionId', 'shareholderId'],
+  },
+};
 
-  session.shareholders.push(shareholder);
+const handleFormationRemoveShareholder = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const shareholderId = args.shareholderId as string;
 
-  // Calculate total ownership
-  const percentages = session.shareholders.map(s => s.ownershipPercentage);
-  const ownershipCheck = validateTotalOwnership(percentages);
+  if (!shareholderId) throw requiredFieldError('shareholderId');
+
+  let removed: Shareholder | undefined;
+  let certificateInvalidated = false;
+  const session = await updateSession(sessionId, store, (current) => {
+    assertOwnersEditable(current);
+    const index = findShareholderIndex(current, shareholderId);
+
+    removed = current.shareholders[index];
+    current.shareholders = current.shareholders.filter(s => s.id !== shareholderId);
+    certificateInvalidated = invalidateCertificate(current);
 
-  session.currentStep = FormationStep.SHAREHOLDERS_ADDED;
-  await store.save(session);
+    // With no owners left, the session goes back to collecting them
+    if (current.shareholders.length === 0) {
+      current.currentStep = normalizeStep(FormationStep.SHARES_SET, current.companyDetails?.companyType);
+    }
+  });
+
+  const ownershipCheck = validateTotalOwnership(session.shareholders.map(s => s.ownershipPercentage));
+  const ownerType = session.companyDetails?.companyType === 'LLC' ? 'member' : 'shareholder';
+  const removedName = removed ? `${removed.firstName} ${removed.lastName}` : shareholderId;
 
   return {
     success: true,
-    shareholderId: shareholder.id,
-    shareholders: session.shareholders.map(s => ({
-      id: s.id,
-      name: `${s.firstName} ${s.lastName}`,
-      ownershipPercentage: s.ownershipPercentage,
-      role: s.role,
-      address: s.address,
-    })),
+    removedShareholderId: shareholderId,
+    shareholders: summarizeShareholders(session.shareholders),
     totalOwnership: ownershipCheck.total,
-    message: ownershipCheck.total < 100
-      ? `${ownerType} added. Total ownership: ${ownershipCheck.total}%. Add more ${ownerType}s or proceed with formation_set_authorized_party.`
-      : `${ownerType} added. Total ownership: ${ownershipCheck.total}%. Proceed with formation_set_authorized_party.`,
+    certificateInvalidated,
+    message: session.shareholders.length === 0
+      ? `Removed ${removedName}. No ${ownerType}s remain - add at least one with formation_add_shareholder.`
+      : `Removed ${removedName}. Total ownership: ${ownershipCheck.total}%.${ownershipCheck.total < 100 ? ` Adjust ownership with formation_update_shareholder or add another ${ownerType} so it totals 100%.` : ''}`,
   };
 };
 
@@ -352,12 +541,11 @@ const handleFormationSetAuthorizedParty = async (
   if (!name) throw requiredFieldError('name');
   if (!title) throw requiredFieldError('title');
 
-  const session = await loadSession(sessionId, store);
-
   const authorizedParty = { name, title };
-  session.authorizedParty = authorizedParty;
-  session.currentStep = FormationStep.AUTHORIZED_PARTY_SET;
-  await store.save(session);
+  await updateSession(sessionId, store, (session) => {
+    session.authorizedParty = authorizedParty;
+    session.currentStep = FormationStep.AUTHORIZED_PARTY_SET;
+  });
 
   return {
     success: true,
@@ -371,5 +559,7 @@ export function registerStakeholderTools(): void {
   registerTool(formationSetRegisteredAgentTool, handleFormationSetRegisteredAgent);
   registerTool(formationSetShareStructureTool, handleFormationSetShareStructure);
   registerTool(formationAddShareholderTool, handleFormationAddShareholder);
+  registerTool(formationUpdateShareholderTool, handleFormationUpdateShareholder);
+  registerTool(formationRemoveShareholderTool, handleFormationRemoveShareholder);
   registerTool(formationSetAuthorizedPartyTool, handleFormationSetAuthorizedParty);
 }
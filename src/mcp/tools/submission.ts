@@ -1,8 +1,14 @@
-import { registerTool, ToolDefinition } from './index';
-import { FormationStep, SubmissionResult, SubmissionStatus } from '../state/types';
+import crypto from 'crypto';
+import { registerTool, ToolCallContext, ToolDefinition } from './index';
+import { FormationSession, FormationStep, SubmissionResult, SubmissionStatus } from '../state/types';
 import { FormationSessionStore } from '../state/FormationSessionStore';
-import { loadSession } from '../middleware/session';
-import { validationError } from '../errors';
+import { loadSession, updateSession } from '../middleware/session';
+import { assertSessionValid } from '../middleware/preflight';
+import { applySubmissionStatus, describeSubmissionStatus, recordSubmissionStatus } from '../webhooks/status';
+import { sessionConflict, submissionInProgress } from '../errors';
+
+// A pending attempt older than this is assumed lost (e.g. the server restarted mid-request)
+const SUBMISSION_PENDING_TIMEOUT_MS = 2 * 60 * 1000;
 
 // Backend API URLs
 const LOVIE_WEB_API_URL = 'https://lovie-web.vercel.app/api/v1';
@@ -59,79 +65,213 @@ export const formationSubmitTool: ToolDefinition = {
   },
 };
 
-const handleFormationSubmit = async (
-  args: Record<string, unknown>,
-  store: FormationSessionStore
-) => {
-  const sessionId = args.sessionId as string;
-  const session = await loadSession(sessionId, store);
+// Idempotency key for submitting a session with its certificate. Retries reuse it, and it only
+// changes when the certificate is generated or approved again (after the formation data changed).
+export function getSubmissionIdempotencyKey(session: FormationSession): string {
+  const certificate = session.certificateData;
+  const source = [session.sessionId, certificate?.certificateId ?? '', certificate?.approvedAt ?? ''].join(':');
+  return `formation_${crypto.createHash('sha256').update(source).digest('hex').slice(0, 32)}`;
+}
 
-  // Validate payment was completed
-  if (session.paymentStatus !== 'completed') {
-    throw validationError('payment', 'Payment must be completed before submitting. Use formation_get_payment_link first.');
-  }
+function toSubmissionResult(data: NonNullable<StatusApiResponse['data']>, userId: string): SubmissionResult {
+  return {
+    id: data.id,
+    sessionId: data.sessionId,
+    userId,
+    status: data.status,
+    companyName: data.companyName,
+    entityType: data.entityType,
+    stateOfFormation: data.stateOfFormation,
+    confirmationNumber: data.confirmationNumber,
+    certificateUrl: data.certificateUrl,
+    filingError: data.filingError,
+    submittedAt: data.createdAt,
+    filedAt: data.filedAt,
+  };
+}
 
-  // Validate session has all required data
-  if (!session.companyDetails?.fullName) {
-    throw validationError('companyDetails.name', 'Company name is required');
-  }
+// Formation request the backend has for a session, or null when there is none
+async function fetchSubmissionStatus(sessionId: string, signal?: AbortSignal): Promise<StatusApiResponse['data'] | null> {
+  const response = await fetch(`${LOVIE_WEB_API_URL}/formations/${sessionId}/status`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    signal,
+  });
 
-  if (!session.companyDetails?.state) {
-    throw validationError('companyDetails.state', 'State is required');
+  if (response.status === 404) {
+    return null;
   }
 
-  if (!session.companyDetails?.companyType) {
-    throw validationError('companyDetails.entityType', 'Company type is required');
+  const result = await response.json() as StatusApiResponse;
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to check status');
   }
-
-  if (!session.companyDetails?.companyAddress) {
-    throw validationError('companyDetails.companyAddress', 'Company address is required');
+  if (!result.data) {
+    throw new Error('Invalid response from server');
   }
+  return result.data;
+}
+
+// Store the backend's formation request on the session and complete the flow
+async function saveSubmissionResult(sessionId: string, store: FormationSessionStore, submissionResult: SubmissionResult) {
+  await updateSession(sessionId, store, (current) => {
+    const earlier = current.submissionResult;
+    current.submissionResult = submissionResult;
+    const outcome = applySubmissionStatus(current, {
+      sessionId,
+      status: submissionResult.status,
+      at: submissionResult.submittedAt,
+      source: 'submission',
+    });
+    // A status webhook that arrived before the response already reported a newer status
+    if (outcome === 'stale' && earlier) {
+      current.submissionResult = {
+        ...submissionResult,
+        status: earlier.status,
+        confirmationNumber: earlier.confirmationNumber,
+        certificateUrl: earlier.certificateUrl,
+        filingError: earlier.filingError,
+        filedAt: earlier.filedAt,
+      };
+    }
+    current.currentStep = FormationStep.COMPLETED;
+    if (current.submissionAttempt) {
+      current.submissionAttempt.completedAt = new Date().toISOString();
+      delete current.submissionAttempt.pending;
+      delete current.submissionAttempt.lastError;
+    }
+  });
+}
 
-  if (!session.shareholders || session.shareholders.length === 0) {
-    throw validationError('shareholders', 'At least one shareholder/member is required');
+// Record how an attempt ended without a formation request - a message when it failed
+async function endSubmissionAttempt(sessionId: string, store: FormationSessionStore, message?: string) {
+  try {
+    await updateSession(sessionId, store, (current) => {
+      if (!current.submissionAttempt) return;
+      delete current.submissionAttempt.pending;
+      if (message) current.submissionAttempt.lastError = message;
+    });
+  } catch (error) {
+    console.error(`Failed to record the submission error for ${sessionId}:`, error);
   }
+}
 
-  if (!session.registeredAgent) {
-    throw validationError('registeredAgent', 'Registered agent is required');
+function submittedResponse(submissionResult: SubmissionResult, alreadySubmitted: boolean = false) {
+  return {
+    success: true,
+    message: alreadySubmitted
+      ? 'This formation was already submitted. Returning the existing formation request.'
+      : 'Formation request submitted successfully! Our team will review and process your request.',
+    ...(alreadySubmitted && { alreadySubmitted }),
+    submission: submissionResult,
+    nextSteps: [
+      'Your formation request is now in the queue for review',
+      'You can check the status anytime using formation_check_submission_status',
+      'Once filed, you will receive your confirmation number and certificate URL',
+    ],
+  };
+}
+
+const handleFormationSubmit = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const sessionId = args.sessionId as string;
+  const session = await loadSession(sessionId, store);
+
+  // Repeated calls return the formation request instead of posting it again
+  if (session.submissionResult) {
+    return submittedResponse(session.submissionResult, true);
   }
 
-  if (!session.authorizedParty) {
-    throw validationError('authorizedParty', 'Authorized party is required');
+  // Payment, required data and ownership - same rules as formation_validate
+  assertSessionValid(session, 'submission');
+
+  const idempotencyKey = getSubmissionIdempotencyKey(session);
+
+  // An earlier attempt may have been accepted before it failed or timed out - look for it
+  // before posting again. If the lookup fails, the retry below is still deduplicated by its key.
+  if (session.submissionAttempt?.idempotencyKey === idempotencyKey) {
+    try {
+      const existing = await fetchSubmissionStatus(sessionId, context.signal);
+      if (existing) {
+        const submissionResult = toSubmissionResult(existing, session.userId || '');
+        await saveSubmissionResult(sessionId, store, submissionResult);
+        return submittedResponse(submissionResult, true);
+      }
+    } catch (error) {
+      console.error(`Failed to look up the earlier submission for ${sessionId}:`, error);
+    }
   }
 
-  // Validate ownership percentages sum to 100
-  const totalOwnership = session.shareholders.reduce((sum, s) => sum + s.ownershipPercentage, 0);
-  if (Math.abs(totalOwnership - 100) > 0.01) {
-    throw validationError('shareholders', `Shareholder ownership must sum to 100% (currently ${totalOwnership}%)`);
+  // Save the attempt as pending before sending, so a retry after a timeout reuses the key and
+  // a call made while the request is still being sent does not send it again. The payload is
+  // built from the session saved here, so it is exactly what the key was recorded for.
+  let alreadySubmitted: SubmissionResult | undefined;
+  const submitted = await updateSession(sessionId, store, (current) => {
+    if (current.submissionResult) {
+      alreadySubmitted = current.submissionResult;
+      return;
+    }
+    const attempt = current.submissionAttempt;
+    if (attempt?.pending && Date.now() - Date.parse(attempt.lastAttemptAt) < SUBMISSION_PENDING_TIMEOUT_MS) {
+      throw submissionInProgress(sessionId, attempt.lastAttemptAt);
+    }
+    assertSessionValid(current, 'submission');
+    // The certificate was regenerated or approved again since the session was loaded
+    if (getSubmissionIdempotencyKey(current) !== idempotencyKey) {
+      throw sessionConflict(sessionId, session.version, current.version);
+    }
+
+    const now = new Date().toISOString();
+    const previous = attempt?.idempotencyKey === idempotencyKey ? attempt : undefined;
+    current.submissionAttempt = {
+      idempotencyKey,
+      certificateId: current.certificateData?.certificateId,
+      attempts: (previous?.attempts ?? 0) + 1,
+      startedAt: previous?.startedAt ?? now,
+      lastAttemptAt: now,
+      pending: true,
+    };
+  });
+  if (alreadySubmitted) {
+    return submittedResponse(alreadySubmitted, true);
   }
 
+  // Required data is guaranteed by the tool's prerequisites
+  const companyDetails = submitted.companyDetails!;
+  const registeredAgent = submitted.registeredAgent!;
+
   // Build the submission payload matching the API spec
   const payload = {
-    sessionId: session.sessionId,
-    userId: session.userId,
+    sessionId: submitted.sessionId,
+    userId: submitted.userId,
+    idempotencyKey,
     companyDetails: {
-      businessDescription: session.companyDetails.businessDescription,
-      name: session.companyDetails.fullName,
-      state: session.companyDetails.state,
-      entityType: session.companyDetails.companyType,
-      purpose: session.companyDetails.purpose || 'Any lawful purpose',
-      effectiveDate: session.companyDetails.effectiveDate,
-      companyAddress: session.companyDetails.companyAddress,
+      businessDescription: companyDetails.businessDescription,
+      name: companyDetails.fullName,
+      state: companyDetails.state,
+      entityType: companyDetails.companyType,
+      purpose: companyDetails.purpose || 'Any lawful purpose',
+      effectiveDate: companyDetails.effectiveDate,
+      companyAddress: companyDetails.companyAddress,
     },
     // Include incorporator for Delaware formations
-    incorporator: session.incorporator ? {
-      name: session.incorporator.name,
-      address: session.incorporator.address,
+    incorporator: submitted.incorporator ? {
+      name: submitted.incorporator.name,
+      address: submitted.incorporator.address,
     } : undefined,
-    shareStructure: session.companyDetails.companyType === 'C-Corp' && session.shareStructure
+    shareStructure: companyDetails.companyType === 'C-Corp' && submitted.shareStructure
       ? {
-          authorizedShares: session.shareStructure.authorizedShares,
-          parValuePerShare: session.shareStructure.parValuePerShare,
-          isDefault: session.shareStructure.isDefault,
+          authorizedShares: submitted.shareStructure.authorizedShares,
+          parValuePerShare: submitted.shareStructure.parValuePerShare,
+          isDefault: submitted.shareStructure.isDefault,
         }
       : undefined,
-    shareholders: session.shareholders.map(s => ({
+    shareholders: submitted.shareholders.map(s => ({
       firstName: s.firstName,
       lastName: s.lastName,
       email: s.email,
@@ -141,13 +281,21 @@ const handleFormationSubmit = async (
       address: s.address,
     })),
     registeredAgent: {
-      name: session.registeredAgent.name,
-      email: session.registeredAgent.email,
-      phone: session.registeredAgent.phone,
-      isDefault: session.registeredAgent.isDefault,
-      address: session.registeredAgent.address,
+      name: registeredAgent.name,
+      email: registeredAgent.email,
+      phone: registeredAgent.phone,
+      isDefault: registeredAgent.isDefault,
+      address: registeredAgent.address,
     },
-    authorizedParty: session.authorizedParty,
+    authorizedParty: submitted.authorizedParty,
+    // Filing speed that was paid for
+    expedite: submitted.quote?.expedite,
+    promoCode: submitted.promo?.redeemedAt ? submitted.promo.code : undefined,
+  };
+
+  const headers = {
+    'Content-Type': 'application/json',
+    'Idempotency-Key': idempotencyKey,
   };
 
   try {
@@ -156,18 +304,16 @@ const handleFormationSubmit = async (
       // Primary: Lovie Web API
       fetch(`${LOVIE_WEB_API_URL}/formations`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers,
         body: JSON.stringify(payload),
+        signal: context.signal,
       }),
       // Secondary: Railway API (for backend processing)
       fetch(`${RAILWAY_API_URL}/api/submissions/formation`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers,
         body: JSON.stringify(payload),
+        signal: context.signal,
       }).catch(err => {
         // Don't fail if Railway API is down, just log it
         console.error('Railway API submission failed:', err);
@@ -186,6 +332,14 @@ const handleFormationSubmit = async (
     if (!lovieWebResponse.ok) {
       // Handle API errors
       if (lovieWebResponse.status === 409) {
+        // The backend already has a formation request for the session - return it when we can
+        const existing = await fetchSubmissionStatus(sessionId, context.signal).catch(() => null);
+        if (existing) {
+          const submissionResult = toSubmissionResult(existing, session.userId || '');
+          await saveSubmissionResult(sessionId, store, submissionResult);
+          return submittedResponse(submissionResult, true);
+        }
+        await endSubmissionAttempt(sessionId, store);
         return {
           success: false,
           error: 'ALREADY_SUBMITTED',
@@ -195,6 +349,7 @@ const handleFormationSubmit = async (
       }
 
       if (lovieWebResponse.status === 400 || lovieWebResponse.status === 422) {
+        await endSubmissionAttempt(sessionId, store, result.message || 'Validation failed');
         return {
           success: false,
           error: 'VALIDATION_ERROR',
@@ -222,22 +377,12 @@ const handleFormationSubmit = async (
       submittedAt: result.data.createdAt,
     };
 
-    session.submissionResult = submissionResult;
-    session.currentStep = FormationStep.COMPLETED;
-    await store.save(session);
+    await saveSubmissionResult(sessionId, store, submissionResult);
 
-    return {
-      success: true,
-      message: 'Formation request submitted successfully! Our team will review and process your request.',
-      submission: submissionResult,
-      nextSteps: [
-        'Your formation request is now in the queue for review',
-        'You can check the status anytime using formation_check_submission_status',
-        'Once filed, you will receive your confirmation number and certificate URL',
-      ],
-    };
+    return submittedResponse(submissionResult);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await endSubmissionAttempt(sessionId, store, errorMessage);
     return {
       success: false,
       error: 'SUBMISSION_FAILED',
@@ -267,79 +412,35 @@ const handleFormationCheckSubmissionStatus = async (
   const sessionId = args.sessionId as string;
 
   try {
-    const response = await fetch(`${LOVIE_WEB_API_URL}/formations/${sessionId}/status`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const result = await response.json() as StatusApiResponse;
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return {
-          success: false,
-          error: 'NOT_FOUND',
-          message: 'Formation request not found. It may not have been submitted yet.',
-          sessionId,
-        };
-      }
-
-      throw new Error(result.message || 'Failed to check status');
+    const data = await fetchSubmissionStatus(sessionId);
+    if (!data) {
+      return {
+        success: false,
+        error: 'NOT_FOUND',
+        message: 'Formation request not found. It may not have been submitted yet.',
+        sessionId,
+      };
     }
 
-    if (!result.data) {
-      throw new Error('Invalid response from server');
-    }
-
-    const data = result.data;
-
     // Update session with latest status if we have it
     try {
-      const session = await store.get(sessionId);
-      if (session) {
-        session.submissionResult = {
-          id: data.id,
-          sessionId: data.sessionId,
-          userId: session.userId || '',
-          status: data.status,
-          companyName: data.companyName,
-          entityType: data.entityType,
-          stateOfFormation: data.stateOfFormation,
-          confirmationNumber: data.confirmationNumber,
-          certificateUrl: data.certificateUrl,
-          filingError: data.filingError,
-          submittedAt: data.createdAt,
-          filedAt: data.filedAt,
-        };
-        await store.save(session);
-      }
+      await recordSubmissionStatus(store, {
+        sessionId,
+        status: data.status,
+        at: data.updatedAt,
+        source: 'poll',
+        formationId: data.id,
+        submittedAt: data.createdAt,
+        confirmationNumber: data.confirmationNumber,
+        certificateUrl: data.certificateUrl,
+        filingError: data.filingError,
+        filedAt: data.filedAt,
+      });
     } catch {
       // Session may not exist locally, that's okay
     }
 
-    // Build user-friendly status message
-    let statusMessage: string;
-    switch (data.status) {
-      case 'PENDING_REVIEW':
-        statusMessage = 'Your formation request is in the queue waiting for review.';
-        break;
-      case 'IN_REVIEW':
-        statusMessage = 'Your formation request is currently being reviewed by our team.';
-        break;
-      case 'FILING':
-        statusMessage = 'Your formation is being filed with the state. This typically takes a few minutes.';
-        break;
-      case 'COMPLETED':
-        statusMessage = 'Your company has been successfully formed!';
-        break;
-      case 'ERROR':
-        statusMessage = `There was an issue with your formation: ${data.filingError || 'Unknown error'}`;
-        break;
-      default:
-        statusMessage = `Current status: ${data.status}`;
-    }
+    const statusMessage = describeSubmissionStatus(data.status, data.filingError);
 
     return {
       success: true,
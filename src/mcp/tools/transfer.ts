@@ -0,0 +1,336 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { registerTool, ToolCallContext, ToolDefinition } from './index';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { FormationSession, FormationStep, SessionStatus, Shareholder, OWNER_ROLES_BY_COMPANY_TYPE } from '../state/types';
+import { getStepOrder, isStepBefore, normalizeStep } from '../state/steps';
+import { createSessionBundle, readSessionBundle } from '../state/bundle';
+import { loadSession } from '../middleware/session';
+import { getFirstIncompleteStep } from '../middleware/prerequisites';
+import { STEP_DEPENDENCIES } from '../middleware/dependencies';
+import { validationError, requiredFieldError, MCPToolError, ErrorCode } from '../errors';
+import { validateTotalOwnership } from '../validation';
+import { getUserId } from './auth';
+
+// Minimum passphrase length for encrypted bundles
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Formation data copied into the imported session
+const IMPORTED_FIELDS: (keyof FormationSession)[] = [
+  'companyDetails',
+  'registeredAgent',
+  'shareStructure',
+  'shareholders',
+  'authorizedParty',
+  'incorporator',
+  'nameCheckResult',
+  'certificateData',
+];
+
+// Tied to the original session (payment reference, backend submission, undo stack, running name check) and never imported
+const DROPPED_FIELDS = [
+  'paymentStatus', 'paymentCompletedAt', 'payment', 'paymentShortfall', 'refundedCheckoutSessionIds', 'quote', 'promo',
+  'submissionResult', 'submissionAttempt', 'submissionTimeline',
+  'history', 'invalidations', 'nameCheckJob',
+];
+
+// Shapes of the imported fields as the tools save them. Formats are not re-checked, so any
+// session this server or an older one exported can be imported again.
+const requiredString = z.string().min(1);
+
+const storedAddressSchema = z.object({
+  street1: requiredString,
+  street2: z.string().nullable().optional(),
+  city: requiredString,
+  state: requiredString,
+  zipCode: requiredString,
+  county: z.string().optional(),
+  country: z.string().optional(),
+});
+
+const importedFieldsSchema = z.object({
+  companyDetails: z.object({
+    state: z.enum(['DE', 'WY']).optional(),
+    companyType: z.enum(['LLC', 'C-Corp']).optional(),
+    entityEnding: z.string().optional(),
+    baseName: z.string().optional(),
+    fullName: z.string().optional(),
+    purpose: z.string().optional(),
+    effectiveDate: z.string().optional(),
+    companyAddress: z.object({
+      address: storedAddressSchema.optional(),
+      source: z.enum(['own', 'need_assistance']),
+      virtualPostMailInterested: z.boolean(),
+    }).optional(),
+    businessDescription: z.string().optional(),
+  }).optional(),
+  registeredAgent: z.object({
+    isDefault: z.boolean().optional(),
+    name: requiredString,
+    email: requiredString,
+    phone: requiredString,
+    address: storedAddressSchema,
+  }).optional(),
+  shareStructure: z.object({
+    isDefault: z.boolean().optional(),
+    authorizedShares: z.number().int().positive(),
+    parValuePerShare: z.number().nonnegative(),
+  }).optional(),
+  shareholders: z.array(z.object({
+    id: requiredString,
+    firstName: requiredString,
+    lastName: requiredString,
+    email: requiredString,
+    phone: z.string().optional(),
+    ownershipPercentage: z.number().min(0.01).max(100),
+    address: storedAddressSchema,
+    role: z.enum(['member', 'managing_member', 'shareholder', 'director', 'officer']).optional(),
+  })).optional(),
+  authorizedParty: z.object({ name: requiredString, title: requiredString }).optional(),
+  incorporator: z.object({ name: requiredString, address: storedAddressSchema }).optional(),
+  nameCheckResult: z.object({
+    available: z.boolean(),
+    checkedAt: z.string(),
+    reason: z.string().optional(),
+    suggestions: z.array(z.string()).optional(),
+    responseTimeMs: z.number().optional(),
+    error: z.boolean().optional(),
+  }).optional(),
+  certificateData: z.object({
+    certificateId: requiredString,
+    generatedAt: z.string(),
+    previewUrl: z.string().optional(),
+    downloadUrl: z.string().optional(),
+    expiresAt: z.string().optional(),
+    htmlContent: z.string().optional(),
+    approvedAt: z.string().optional(),
+  }).optional(),
+});
+
+function invalidBundleData(field: string, message: string): MCPToolError {
+  return new MCPToolError({
+    code: ErrorCode.BUNDLE_INVALID,
+    message: `Bundle session has invalid ${field}: ${message}`,
+    details: { field },
+    retryable: false,
+  });
+}
+
+// Check the formation data a bundle carries before any of it is imported.
+// Throws BUNDLE_INVALID naming the first bad field.
+function assertImportableData(data: Record<string, unknown>): void {
+  const result = importedFieldsSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw invalidBundleData(issue.path.join('.') || '(root)', issue.message);
+  }
+
+  const { companyDetails, shareholders = [] } = result.data;
+  const ids = shareholders.map(shareholder => shareholder.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw invalidBundleData('shareholders', `owner ${duplicate} is listed twice`);
+  }
+  const companyType = companyDetails?.companyType;
+  if (companyType) {
+    const validRoles = OWNER_ROLES_BY_COMPANY_TYPE[companyType];
+    const index = shareholders.findIndex(shareholder => shareholder.role && !validRoles.includes(shareholder.role));
+    if (index !== -1) {
+      throw invalidBundleData(`shareholders.${index}.role`, `not a role for ${companyType} owners`);
+    }
+  }
+  const ownership = validateTotalOwnership(shareholders.map(shareholder => shareholder.ownershipPercentage));
+  if (!ownership.valid) {
+    throw invalidBundleData('shareholders', ownership.message!);
+  }
+}
+
+function assertPassphrase(passphrase: unknown): void {
+  if (passphrase === undefined) return;
+  if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw validationError('passphrase', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+// formation_export_session tool
+export const formationExportSessionTool: ToolDefinition = {
+  name: 'formation_export_session',
+  description: 'Export a formation session as a portable JSON bundle that can be imported on another Lovie server or the CLI. Optionally encrypt it with a passphrase.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      passphrase: { type: 'string', description: `Optional passphrase (min ${MIN_PASSPHRASE_LENGTH} characters) to encrypt the bundle` },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationExportSession = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const passphrase = args.passphrase as string | undefined;
+
+  assertPassphrase(passphrase);
+  const session = await loadSession(sessionId, store);
+  const bundle = createSessionBundle(session, passphrase);
+
+  return {
+    success: true,
+    sessionId: session.sessionId,
+    bundle,
+    encrypted: bundle.encrypted,
+    schemaVersion: bundle.schemaVersion,
+    checksum: bundle.checksum,
+    message: bundle.encrypted
+      ? 'Session exported and encrypted. The same passphrase is needed to import it with formation_import_session.'
+      : 'Session exported. Import it on another server with formation_import_session.',
+  };
+};
+
+// formation_import_session tool
+export const formationImportSessionTool: ToolDefinition = {
+  name: 'formation_import_session',
+  description: 'Create a new formation session from a bundle produced by formation_export_session. Payment and submission status are not carried over.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bundle: {
+        type: ['object', 'string'],
+        description: 'Bundle returned by formation_export_session (object or JSON string)',
+      },
+      passphrase: { type: 'string', description: 'Passphrase used when exporting, if the bundle is encrypted' },
+    },
+    required: ['bundle'],
+  },
+};
+
+const handleFormationImportSession = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const passphrase = args.passphrase as string | undefined;
+  if (args.bundle === undefined || args.bundle === null) {
+    throw requiredFieldError('bundle');
+  }
+
+  const { data, schemaVersion } = readSessionBundle(args.bundle, passphrase);
+
+  const currentStep = data.currentStep as FormationStep;
+  const status = data.status as SessionStatus;
+  if (!Object.values(FormationStep).includes(currentStep) || !Object.values(SessionStatus).includes(status)) {
+    throw new MCPToolError({
+      code: ErrorCode.BUNDLE_INVALID,
+      message: 'Bundle session has an unknown step or status',
+      details: { currentStep, status },
+      retryable: false,
+    });
+  }
+  assertImportableData(data);
+
+  const userId = getUserId(context.auth);
+  const session = await store.create(userId || undefined);
+  const imported = session as unknown as Record<string, unknown>;
+  for (const field of IMPORTED_FIELDS) {
+    if (data[field] !== undefined) {
+      imported[field] = data[field];
+    }
+  }
+
+  // Without payment the session resumes at certificate approval at the latest
+  const companyType = session.companyDetails?.companyType;
+  session.currentStep = normalizeStep(
+    isStepBefore(FormationStep.CERTIFICATE_APPROVED, currentStep) ? FormationStep.CERTIFICATE_APPROVED : currentStep,
+    companyType
+  );
+  session.status = status === SessionStatus.ABANDONED || status === SessionStatus.EXPIRED
+    ? SessionStatus.IN_PROGRESS
+    : status;
+
+  await store.save(session);
+
+  return {
+    success: true,
+    sessionId: session.sessionId,
+    sourceSessionId: data.sessionId,
+    schemaVersion,
+    currentStep: session.currentStep,
+    status: session.status,
+    droppedFields: DROPPED_FIELDS.filter(field => data[field] !== undefined),
+    message: `Session imported as ${session.sessionId}. Use formation_resume to continue.`,
+    nextStep: 'formation_resume',
+  };
+};
+
+// formation_clone_session tool
+export const formationCloneSessionTool: ToolDefinition = {
+  name: 'formation_clone_session',
+  description: 'Start a new formation for a second company with the same people. Copies shareholders/members, registered agent, company address and authorized party; the state, company type, name, certificate, payment and submission start fresh.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID of the formation to copy from' },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationCloneSession = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore,
+  context: ToolCallContext
+) => {
+  const sessionId = args.sessionId as string;
+  const source = await loadSession(sessionId, store);
+
+  const userId = getUserId(context.auth);
+  const session = await store.create(userId || source.userId);
+
+  // Owners get new IDs so they can be edited independently of the source session
+  session.shareholders = source.shareholders.map((shareholder): Shareholder => ({
+    ...JSON.parse(JSON.stringify(shareholder)),
+    id: uuidv4(),
+  }));
+  if (source.registeredAgent) {
+    session.registeredAgent = JSON.parse(JSON.stringify(source.registeredAgent));
+  }
+  if (source.authorizedParty) {
+    session.authorizedParty = { ...source.authorizedParty };
+  }
+  if (source.companyDetails?.companyAddress) {
+    session.companyDetails = { companyAddress: JSON.parse(JSON.stringify(source.companyDetails.companyAddress)) };
+  }
+
+  // Resume from the step before the first one that still needs data
+  const nextStep = getFirstIncompleteStep(session);
+  const steps = getStepOrder(session.companyDetails?.companyType);
+  session.currentStep = steps[Math.max(steps.indexOf(nextStep) - 1, 0)];
+  session.status = SessionStatus.IN_PROGRESS;
+
+  await store.save(session);
+
+  return {
+    success: true,
+    sessionId: session.sessionId,
+    sourceSessionId: source.sessionId,
+    copied: {
+      shareholders: session.shareholders.length,
+      registeredAgent: Boolean(session.registeredAgent),
+      companyAddress: Boolean(session.companyDetails?.companyAddress),
+      authorizedParty: Boolean(session.authorizedParty),
+    },
+    currentStep: session.currentStep,
+    nextStep: STEP_DEPENDENCIES[nextStep].tool,
+    message: `Created a new formation from ${source.companyDetails?.fullName || 'the existing session'}. Ownership percentages and roles were copied - confirm them once the new company type is chosen. Next: ${STEP_DEPENDENCIES[nextStep].tool}.`,
+  };
+};
+
+// Register tools
+export function registerTransferTools(): void {
+  registerTool(formationExportSessionTool, handleFormationExportSession);
+  registerTool(formationImportSessionTool, handleFormationImportSession);
+  registerTool(formationCloneSessionTool, handleFormationCloneSession);
+}
@@ -0,0 +1,63 @@
+import { registerTool, ToolDefinition } from './index';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { loadSession } from '../middleware/session';
+import { validateSession, ValidationStage } from '../middleware/preflight';
+import { validationError } from '../errors';
+
+const VALIDATION_STAGES: ValidationStage[] = ['payment', 'submission'];
+
+// formation_validate tool
+export const formationValidateTool: ToolDefinition = {
+  name: 'formation_validate',
+  description: 'Check the whole formation in one call before payment or submission. Returns every blocking error and non-blocking warning, each with the tool that fixes it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', description: 'Session ID from formation_start' },
+      stage: {
+        type: 'string',
+        enum: VALIDATION_STAGES,
+        description: 'Validate for payment or submission (default: payment before payment is completed, otherwise submission)',
+      },
+    },
+    required: ['sessionId'],
+  },
+};
+
+const handleFormationValidate = async (
+  args: Record<string, unknown>,
+  store: FormationSessionStore
+) => {
+  const sessionId = args.sessionId as string;
+  const stageInput = args.stage as ValidationStage | undefined;
+
+  if (stageInput !== undefined && !VALIDATION_STAGES.includes(stageInput)) {
+    throw validationError('stage', `Must be one of: ${VALIDATION_STAGES.join(', ')}`);
+  }
+
+  const session = await loadSession(sessionId, store);
+  const stage = stageInput || (session.paymentStatus === 'completed' ? 'submission' : 'payment');
+  const report = validateSession(session, stage);
+
+  const nextTool = report.valid
+    ? (stage === 'payment' ? 'formation_get_payment_link' : 'formation_submit')
+    : report.errors.find(issue => issue.tool)?.tool;
+
+  return {
+    sessionId: session.sessionId,
+    ...report,
+    summary: {
+      errorCount: report.errors.length,
+      warningCount: report.warnings.length,
+    },
+    nextAction: nextTool,
+    message: report.valid
+      ? `Ready for ${stage}${report.warnings.length > 0 ? ` with ${report.warnings.length} warning(s) to review` : ''}.`
+      : `${report.errors.length} issue(s) must be fixed before ${stage}.`,
+  };
+};
+
+// Register tools
+export function registerValidationTools(): void {
+  registerTool(formationValidateTool, handleFormationValidate);
+}
@@ -1,5 +1,6 @@
 import { z, ZodSchema, ZodError } from 'zod';
 import { ENTITY_ENDINGS, CompanyType } from './state/types';
+import { fromZodError } from './errors';
 
 // Email validation schema
 export const emailSchema = z.string().email('Invalid email format');
@@ -74,9 +75,13 @@ export const registeredAgentSchema = z.object({
   address: addressSchema,
 });
 
-// Validation helper function
-export function validateInput<T>(schema: ZodSchema<T>, data: unknown): T {
-  return schema.parse(data);
+// Validation helper function - throws a VALIDATION_* MCPToolError for invalid data
+export function validateInput<T>(schema: ZodSchema<T>, data: unknown, field?: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw fromZodError(result.error, field);
+  }
+  return result.data;
 }
 
 // Safe validation that returns result instead of throwing
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { ErrorCode, MCPToolError } from '../errors';
+import type { HttpRequest, HttpResponse } from '../protocol';
+import { recordSubmissionStatus } from './status';
+import { SIGNATURE_HEADER, WebhookSignatureError, verifyWebhookSignature } from './signature';
+
+export * from './status';
+export { SIGNATURE_HEADER, WebhookSignatureError, signWebhookPayload, verifyWebhookSignature } from './signature';
+
+const dateString = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+// Status change callback sent by the Lovie backend
+const submissionStatusEventSchema = z.object({
+  // Event ID - redelivered events keep their ID
+  id: z.string().min(1),
+  type: z.literal('formation.status_changed'),
+  data: z.object({
+    sessionId: z.string().min(1),
+    formationId: z.number().int().optional(),
+    status: z.enum(['PENDING_REVIEW', 'IN_REVIEW', 'FILING', 'COMPLETED', 'ERROR']),
+    // When the status changed
+    changedAt: dateString,
+    confirmationNumber: z.string().nullable().optional(),
+    certificateUrl: z.string().nullable().optional(),
+    filingError: z.string().nullable().optional(),
+    filedAt: dateString.nullable().optional(),
+  }),
+});
+
+export type SubmissionStatusWebhookEvent = z.infer<typeof submissionStatusEventSchema>;
+
+// Secrets accepted for webhook signatures (MCP_WEBHOOK_SECRET, comma-separated while rotating).
+// The webhook endpoint is disabled when there are none.
+export function getWebhookSecrets(): string[] {
+  return (process.env.MCP_WEBHOOK_SECRET || '').split(',').map(secret => secret.trim()).filter(Boolean);
+}
+
+// Read a request body that has not been parsed yet
+export async function readRawBody(req: AsyncIterable<Buffer | string>, maxBytes: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new Error(`Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Submission status webhook. The signature is checked against the raw body, so the
+// caller must pass the body exactly as it was received.
+export async function handleSubmissionStatusWebhook(
+  req: HttpRequest,
+  rawBody: string,
+  res: HttpResponse,
+  store: FormationSessionStore
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'method_not_allowed', message: 'Method not allowed' });
+    return;
+  }
+
+  const secrets = getWebhookSecrets();
+  if (secrets.length === 0) {
+    res.status(404).json({ error: 'not_found', message: 'Webhooks are not enabled on this server' });
+    return;
+  }
+
+  const signature = req.headers[SIGNATURE_HEADER];
+  try {
+    verifyWebhookSignature(rawBody, Array.isArray(signature) ? signature[0] : signature, secrets);
+  } catch (error) {
+    if (!(error instanceof WebhookSignatureError)) throw error;
+    res.status(401).json({ error: 'invalid_signature', message: error.message });
+    return;
+  }
+
+  let event: SubmissionStatusWebhookEvent;
+  try {
+    event = submissionStatusEventSchema.parse(JSON.parse(rawBody));
+  } catch (error) {
+    res.status(400).json({
+      error: 'invalid_payload',
+      message: error instanceof z.ZodError
+        ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : 'Body must be JSON',
+    });
+    return;
+  }
+
+  const { data } = event;
+  try {
+    const outcome = await recordSubmissionStatus(store, {
+      sessionId: data.sessionId,
+      status: data.status,
+      at: data.changedAt,
+      source: 'webhook',
+      eventId: event.id,
+      formationId: data.formationId,
+      confirmationNumber: data.confirmationNumber,
+      certificateUrl: data.certificateUrl,
+      filingError: data.filingError,
+      filedAt: data.filedAt,
+    });
+    res.status(200).json({ received: true, outcome });
+  } catch (error) {
+    // Retrying will not make an unknown session appear, so the event is acknowledged
+    if (error instanceof MCPToolError && error.code === ErrorCode.SESSION_NOT_FOUND) {
+      res.status(202).json({ received: true, outcome: 'ignored', message: error.message });
+      return;
+    }
+    console.error(`Failed to apply submission status for ${data.sessionId}:`, error);
+    res.status(500).json({ error: 'server_error', message: 'Status could not be saved - please retry' });
+  }
+}
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+// Header carrying the signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">.
+// Several v1 values may be sent while the secret is rotated.
+export const SIGNATURE_HEADER = 'x-lovie-signature';
+
+// Signatures older than this are rejected, so captured requests cannot be replayed later
+const SIGNATURE_TOLERANCE_SEC = 5 * 60;
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Signature header for a body, as the backend sends it
+export function signWebhookPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(body, secret, timestamp)}`;
+}
+
+// Check the signature header of a raw body against every accepted secret
+export function verifyWebhookSignature(
+  body: string,
+  header: string | undefined,
+  secrets: string[],
+  now: number = Math.floor(Date.now() / 1000)
+): void {
+  if (!header) {
+    throw new WebhookSignatureError('Missing signature');
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value);
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed signature');
+  }
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SEC) {
+    throw new WebhookSignatureError('Signature timestamp is outside the allowed window');
+  }
+
+  const valid = secrets.some((secret) => {
+    const expected = Buffer.from(computeSignature(body, secret, timestamp), 'hex');
+    return signatures.some((signature) => {
+      const actual = Buffer.from(signature, 'hex');
+      return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    });
+  });
+  if (!valid) {
+    throw new WebhookSignatureError('Invalid signature');
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  FormationSession,
+  FormationStep,
+  SubmissionStatus,
+  SubmissionStatusChange,
+  SubmissionStatusSource,
+} from '../state/types';
+import { FormationSessionStore } from '../state/FormationSessionStore';
+import { updateStoredSession } from '../middleware/session';
+
+// Timeline entries kept per session
+const MAX_TIMELINE_ENTRIES = 50;
+
+// A status reported by the backend, by webhook or in a status response
+export interface SubmissionStatusUpdate {
+  sessionId: string;
+  status: SubmissionStatus;
+  // When the backend changed the status
+  at: string;
+  source: SubmissionStatusSource;
+  eventId?: string;
+  formationId?: number;
+  submittedAt?: string;
+  confirmationNumber?: string | null;
+  certificateUrl?: string | null;
+  filingError?: string | null;
+  filedAt?: string | null;
+}
+
+// applied: the session has the new status, stale: an older status arrived late and was only
+// added to the timeline, duplicate: the event was already applied, unchanged: same status as before
+export type SubmissionStatusOutcome = 'applied' | 'stale' | 'duplicate' | 'unchanged';
+
+export interface SubmissionStatusEvent {
+  sessionId: string;
+  status: SubmissionStatus;
+  previousStatus?: SubmissionStatus;
+  at: string;
+  source: SubmissionStatusSource;
+  confirmationNumber?: string | null;
+  certificateUrl?: string | null;
+  filingError?: string | null;
+}
+
+export type SubmissionStatusListener = (event: SubmissionStatusEvent) => void;
+
+const listeners = new Set<SubmissionStatusListener>();
+
+// Listen for submission status changes in this process. Returns an unsubscribe function.
+export function onSubmissionStatusChange(listener: SubmissionStatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// A failing listener must not fail the update that triggered it
+function emitStatusChange(event: SubmissionStatusEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Submission status listener failed:', error);
+    }
+  }
+}
+
+// User-friendly description of a submission status
+export function describeSubmissionStatus(status: SubmissionStatus, filingError?: string | null): string {
+  switch (status) {
+    case 'PENDING_REVIEW':
+      return 'Your formation request is in the queue waiting for review.';
+    case 'IN_REVIEW':
+      return 'Your formation request is currently being reviewed by our team.';
+    case 'FILING':
+      return 'Your formation is being filed with the state. This typically takes a few minutes.';
+    case 'COMPLETED':
+      return 'Your company has been successfully formed!';
+    case 'ERROR':
+      return `There was an issue with your formation: ${filingError || 'Unknown error'}`;
+    default:
+      return `Current status: ${status}`;
+  }
+}
+
+// Add a status to the session's timeline and, unless it is older than the latest one, make it
+// the current status of the submission. Statuses can move backwards (e.g. ERROR back to
+// IN_REVIEW after a correction), so only the time of the change decides the order.
+export function applySubmissionStatus(session: FormationSession, update: SubmissionStatusUpdate): SubmissionStatusOutcome {
+  const timeline = session.submissionTimeline ?? [];
+  if (update.eventId && timeline.some(entry => entry.eventId === update.eventId)) {
+    return 'duplicate';
+  }
+
+  const latest = timeline[timeline.length - 1];
+  const change: SubmissionStatusChange = {
+    status: update.status,
+    at: update.at,
+    source: update.source,
+    ...(update.eventId && { eventId: update.eventId }),
+    ...(update.filingError && { filingError: update.filingError }),
+  };
+
+  if (latest && Date.parse(update.at) < Date.parse(latest.at)) {
+    // A status response older than the timeline tells nothing new
+    if (update.source === 'poll') return 'stale';
+    const index = timeline.findIndex(entry => Date.parse(entry.at) > Date.parse(update.at));
+    timeline.splice(index, 0, change);
+    session.submissionTimeline = timeline.slice(-MAX_TIMELINE_ENTRIES);
+    return 'stale';
+  }
+
+  const previousStatus = session.submissionResult?.status ?? latest?.status;
+  // Polling reports the current status again and again - only changes go on the timeline
+  if (update.source !== 'poll' || latest?.status !== update.status) {
+    session.submissionTimeline = [...timeline, change].slice(-MAX_TIMELINE_ENTRIES);
+  }
+
+  const details = {
+    status: update.status,
+    ...(update.confirmationNumber !== undefined && { confirmationNumber: update.confirmationNumber }),
+    ...(update.certificateUrl !== undefined && { certificateUrl: update.certificateUrl }),
+    ...(update.filingError !== undefined && { filingError: update.filingError }),
+    ...(update.filedAt !== undefined && { filedAt: update.filedAt }),
+  };
+  if (session.submissionResult) {
+    Object.assign(session.submissionResult, details);
+  } else {
+    // The status arrived before the response to formation_submit was stored
+    session.submissionResult = {
+      id: update.formationId ?? 0,
+      sessionId: session.sessionId,
+      userId: session.userId || '',
+      companyName: session.companyDetails?.fullName || '',
+      entityType: session.companyDetails?.companyType || '',
+      stateOfFormation: session.companyDetails?.state || '',
+      submittedAt: update.submittedAt ?? update.at,
+      ...details,
+    };
+    session.currentStep = FormationStep.COMPLETED;
+  }
+
+  return previousStatus === update.status ? 'unchanged' : 'applied';
+}
+
+// Apply a status reported by the backend to a stored session and tell listeners when it changed
+export async function recordSubmissionStatus(
+  store: FormationSessionStore,
+  update: SubmissionStatusUpdate
+): Promise<SubmissionStatusOutcome> {
+  let outcome = 'unchanged' as SubmissionStatusOutcome;
+  let previousStatus: SubmissionStatus | undefined;
+
+  // Filing updates arrive for days, often after the session has expired
+  await updateStoredSession(update.sessionId, store, (session) => {
+    previousStatus = session.submissionResult?.status;
+    outcome = applySubmissionStatus(session, update);
+  });
+
+  if (outcome === 'applied') {
+    emitStatusChange({
+      sessionId: update.sessionId,
+      status: update.status,
+      previousStatus,
+      at: update.at,
+      source: update.source,
+      confirmationNumber: update.confirmationNumber,
+      certificateUrl: update.certificateUrl,
+      filingError: update.filingError,
+    });
+  }
+  return outcome;
+}
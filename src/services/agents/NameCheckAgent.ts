@@ -53,6 +53,7 @@ export class NameCheckAgent extends BaseAgentClient {
    * Check if a company name is available (high-level API)
    *
    * @param request - Name check request with company details
+   * @param options - Request options, e.g. an AbortSignal to cancel the check
    * @returns Promise resolving to availability result
    *
    * @example
@@ -64,7 +65,10 @@ export class NameCheckAgent extends BaseAgentClient {
    * });
    * ```
    */
-  async checkAvailability(request: NameCheckRequestSimple): Promise<NameCheckResponseSimple> {
+  async checkAvailability(
+    request: NameCheckRequestSimple,
+    options?: AgentClientOptions
+  ): Promise<NameCheckResponseSimple> {
     // Extract base name (remove entity endings if present)
     const baseName = this.extractBaseName(request.companyName, request.companyType);
 
@@ -83,7 +87,8 @@ export class NameCheckAgent extends BaseAgentClient {
       // Make API request to Delaware Name Check API
       const response = await this.post<NameCheckResponse>(
         '/api/v1/check',
-        delawareRequest
+        delawareRequest,
+        options
       );
 
       // Transform Delaware API response to simple format
@@ -97,6 +102,10 @@ export class NameCheckAgent extends BaseAgentClient {
         checkedAt: response.checkedAt
       };
     } catch (error) {
+      // Cancellation is not a failure of the check - let the caller see it as-is
+      if (options?.signal?.aborted) {
+        throw error;
+      }
 
       // Handle specific error cases
       if (error instanceof Error) {
@@ -17,6 +17,7 @@ import {
   RetryConfig,
   LoadingCallback,
 } from './types';
+import { PricedEntityType, createQuote, getItemTotal } from '../pricing';
 
 /**
  * Default retry configuration for payment requests
@@ -261,10 +262,14 @@ export class PaymentClient {
   /**
    * Calculates cost breakdown for company formation
    *
+   * Priced locally by the pricing engine, so the costs match the quote the
+   * MCP server charges. Amounts are in cents, like processPayment's amount.
+   *
    * @param state - State code
-   * @param companyType - Type of company
-   * @param expedited - Whether expedited processing is requested
+   * @param companyType - Type of company (LLC, C-Corp or S-Corp)
+   * @param expedited - Whether 24-hour processing is requested
    * @returns Promise resolving to cost breakdown
+   * @throws PricingError if the state, company type or expedite level cannot be priced
    *
    * @example
    * ```typescript
@@ -284,23 +289,19 @@ export class PaymentClient {
     companyType: string,
     expedited: boolean = false
   ): Promise<CostBreakdown> {
-    try {
-      const response = await this.axiosInstance.get<
-        ApiResponse<CostBreakdown>
-      >('/payments/calculate-cost', {
-        params: { state, companyType, expedited },
-      });
-
-      if (!response.data.success) {
-        throw new Error(
-          response.data.error?.message || 'Failed to calculate costs'
-        );
-      }
+    const quote = createQuote({
+      state,
+      entityType: companyType as PricedEntityType,
+      expedite: expedited ? '24-hour' : 'standard',
+    });
 
-      return response.data.data!;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return {
+      stateFee: getItemTotal(quote, 'state_filing_fee'),
+      serviceFee: getItemTotal(quote, 'service_fee'),
+      ...(expedited && { expeditedFee: getItemTotal(quote, 'expedite_fee') }),
+      total: quote.total,
+      currency: quote.currency,
+    };
   }
 
   /**
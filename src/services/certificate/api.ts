@@ -36,26 +36,31 @@ export class CertificateApiClient {
    * Generate certificate (Certificate of Incorporation for Corps, Certificate of Formation for LLCs)
    * POST /certificates
    * @param request - Certificate generation request payload
+   * @param options - Request options, e.g. an AbortSignal to cancel generation
    * @returns Certificate generation response with download URL
    */
   async generateCertificate(
-    request: CertificateGenerationRequest
+    request: CertificateGenerationRequest,
+    options?: { signal?: AbortSignal }
   ): Promise<CertificateGenerationResponse> {
     try {
       // Validate request payload
       this.validateRequest(request);
 
       // Call certificate generation API
-      const response = await this.client.post<CertificateGenerationResponse>(
-        '/certificates',
-        request
-      );
+      const response = options?.signal
+        ? await this.client.post<CertificateGenerationResponse>('/certificates', request, { signal: options.signal })
+        : await this.client.post<CertificateGenerationResponse>('/certificates', request);
 
       // Validate response structure
       this.validateResponse(response.data);
 
       return response.data;
     } catch (error) {
+      // Cancellation is not an API failure - let the caller see it as-is
+      if (options?.signal?.aborted) {
+        throw error;
+      }
       throw this.handleApiError(error);
     }
   }
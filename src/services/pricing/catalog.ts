@@ -0,0 +1,83 @@
+/**
+ * Fee schedule
+ * The one place formation prices are defined. Amounts are in cents.
+ */
+
+import { ExpediteLevel, RegisteredAgentChoice, StatePricing } from './types';
+
+/**
+ * Lovie does not charge for company formation
+ */
+export const SERVICE_FEE = 0;
+
+/**
+ * Filing fee estimate for states without their own fee schedule below
+ */
+export const DEFAULT_STATE_FILING_FEE = 10000;
+
+export const REGISTERED_AGENT_PRICING: Record<RegisteredAgentChoice, { description: string; amount: number; note?: string }> = {
+  default: {
+    description: 'Northwest Registered Agent',
+    amount: 0,
+    note: 'First year free',
+  },
+  own: {
+    description: 'Your own registered agent',
+    amount: 0,
+  },
+};
+
+export const EXPEDITE_LABELS: Record<ExpediteLevel, string> = {
+  standard: 'Standard filing',
+  '24-hour': '24-hour filing',
+  'same-day': 'Same-day filing',
+};
+
+/**
+ * State filing fees, as paid to the state
+ */
+export const STATE_PRICING: StatePricing[] = [
+  {
+    code: 'DE',
+    name: 'Delaware',
+    filingFees: { LLC: 9000, 'C-Corp': 8900, 'S-Corp': 8900 },
+    expediteFees: { standard: 0, '24-hour': 5000, 'same-day': 10000 },
+    processingTimes: { standard: '3-5 business days', '24-hour': '24 hours', 'same-day': 'Same business day' },
+    notes: ['Corporation filing fees start at $89 and grow with the number of authorized shares'],
+  },
+  {
+    code: 'WY',
+    name: 'Wyoming',
+    filingFees: { LLC: 10000, 'C-Corp': 10000 },
+    expediteFees: { standard: 0 },
+    processingTimes: {},
+  },
+  {
+    code: 'CA',
+    name: 'California',
+    filingFees: { LLC: 7000, 'C-Corp': 7000, 'S-Corp': 7000 },
+    expediteFees: { standard: 0 },
+    processingTimes: { standard: '7-10 business days' },
+  },
+  {
+    code: 'TX',
+    name: 'Texas',
+    filingFees: { LLC: 30000, 'C-Corp': 30000, 'S-Corp': 30000 },
+    expediteFees: { standard: 0 },
+    processingTimes: { standard: '5-7 business days' },
+  },
+  {
+    code: 'NY',
+    name: 'New York',
+    filingFees: { LLC: 20000, 'C-Corp': 20000, 'S-Corp': 20000 },
+    expediteFees: { standard: 0 },
+    processingTimes: { standard: '10-14 business days' },
+  },
+  {
+    code: 'FL',
+    name: 'Florida',
+    filingFees: { LLC: 12500, 'C-Corp': 12500, 'S-Corp': 12500 },
+    expediteFees: { standard: 0 },
+    processingTimes: { standard: '5-7 business days' },
+  },
+];
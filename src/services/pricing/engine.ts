@@ -0,0 +1,151 @@
+/**
+ * Pricing engine
+ * Builds itemized quotes from the fee schedule
+ */
+
+import { DEFAULT_STATE_FILING_FEE, EXPEDITE_LABELS, REGISTERED_AGENT_PRICING, SERVICE_FEE, STATE_PRICING } from './catalog';
+import { Discount, ExpediteLevel, Quote, QuoteItem, QuoteItemKind, QuoteRequest, StatePricing } from './types';
+
+/**
+ * Thrown for a state, entity type or expedite level that cannot be priced
+ */
+export class PricingError extends Error {
+  constructor(public readonly field: 'state' | 'entityType' | 'expedite', message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+/**
+ * Fee schedule of a state, by code (DE) or name (Delaware)
+ */
+export function getStatePricing(state: string): StatePricing {
+  const wanted = state.trim().toLowerCase();
+  const pricing = STATE_PRICING.find(entry => entry.code.toLowerCase() === wanted || entry.name.toLowerCase() === wanted);
+  if (!pricing) {
+    throw new PricingError('state', `No pricing for state "${state}". Priced states: ${STATE_PRICING.map(entry => entry.code).join(', ')}`);
+  }
+  return pricing;
+}
+
+/**
+ * Expedite levels a state offers, slowest first
+ */
+export function getExpediteLevels(state: string): ExpediteLevel[] {
+  const { expediteFees } = getStatePricing(state);
+  return (Object.keys(EXPEDITE_LABELS) as ExpediteLevel[]).filter(level => expediteFees[level] !== undefined);
+}
+
+/**
+ * Itemized quote for a formation
+ */
+export function createQuote(request: QuoteRequest): Quote {
+  return quoteFromPricing(getStatePricing(request.state), request);
+}
+
+/**
+ * Quote for display in any state. States without their own fee schedule are estimated with
+ * the default filing fee and standard filing only.
+ */
+export function estimateQuote(request: QuoteRequest): Quote {
+  let pricing: StatePricing;
+  try {
+    pricing = getStatePricing(request.state);
+  } catch (error) {
+    if (!(error instanceof PricingError)) throw error;
+    const state = request.state.trim();
+    pricing = {
+      code: state,
+      name: state,
+      filingFees: { LLC: DEFAULT_STATE_FILING_FEE, 'C-Corp': DEFAULT_STATE_FILING_FEE, 'S-Corp': DEFAULT_STATE_FILING_FEE },
+      expediteFees: { standard: 0 },
+      processingTimes: {},
+    };
+  }
+  return quoteFromPricing(pricing, request);
+}
+
+function quoteFromPricing(pricing: StatePricing, request: QuoteRequest): Quote {
+  const expedite = request.expedite ?? 'standard';
+  const registeredAgent = request.registeredAgent ?? 'default';
+
+  const filingFee = pricing.filingFees[request.entityType];
+  if (filingFee === undefined) {
+    throw new PricingError('entityType', `${request.entityType} formations are not available in ${pricing.name}`);
+  }
+  const expediteFee = pricing.expediteFees[expedite];
+  if (expediteFee === undefined) {
+    throw new PricingError('expedite', `${EXPEDITE_LABELS[expedite]} is not available in ${pricing.name}. Available: ${getExpediteLevels(pricing.code).join(', ')}`);
+  }
+
+  const agent = REGISTERED_AGENT_PRICING[registeredAgent];
+  const items: QuoteItem[] = [
+    { kind: 'service_fee', description: 'Lovie service fee', amount: SERVICE_FEE },
+    { kind: 'state_filing_fee', description: `${pricing.name} ${request.entityType} filing fee`, amount: filingFee },
+  ];
+  if (expedite !== 'standard') {
+    items.push({ kind: 'expedite_fee', description: EXPEDITE_LABELS[expedite], amount: expediteFee });
+  }
+  items.push({
+    kind: 'registered_agent',
+    description: agent.description,
+    amount: agent.amount,
+    ...(agent.note && { note: agent.note }),
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const { discount } = request;
+  if (discount) {
+    items.push({
+      kind: 'discount',
+      description: `Promo code ${discount.code}`,
+      amount: -getDiscountAmount(discount, subtotal),
+      ...(discount.description && { note: discount.description }),
+    });
+  }
+
+  return {
+    state: pricing.code,
+    entityType: request.entityType,
+    registeredAgent,
+    expedite,
+    currency: 'usd',
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, 0),
+    ...(discount && { promoCode: discount.code }),
+    ...(pricing.processingTimes[expedite] && { processingTime: pricing.processingTimes[expedite] }),
+  };
+}
+
+/**
+ * Cents a discount takes off a subtotal - never more than the subtotal
+ */
+export function getDiscountAmount(discount: Discount, subtotal: number): number {
+  const amount = discount.percentOff !== undefined
+    ? Math.round(subtotal * discount.percentOff / 100)
+    : discount.amountOff ?? 0;
+  return Math.min(Math.max(amount, 0), subtotal);
+}
+
+/**
+ * Total of a quote's items of one kind, in cents
+ */
+export function getItemTotal(quote: Quote, kind: QuoteItemKind): number {
+  return quote.items
+    .filter(item => item.kind === kind)
+    .reduce((sum, item) => sum + item.amount, 0);
+}
+
+/**
+ * Format cents as dollars, e.g. 9000 as $90.00 and -500 as -$5.00
+ */
+export function formatAmount(cents: number): string {
+  return `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+/**
+ * Cents as dollars, for callers that work in dollars
+ */
+export function toDollars(cents: number): number {
+  return cents / 100;
+}
@@ -0,0 +1,8 @@
+/**
+ * Pricing service exports
+ * One pricing engine for the CLI, the orchestrator and the MCP server
+ */
+
+export * from './types';
+export * from './catalog';
+export * from './engine';
@@ -0,0 +1,81 @@
+/**
+ * Pricing types
+ * Shared by the CLI, the orchestrator and the MCP server
+ */
+
+/**
+ * Entity types that can be priced
+ */
+export type PricedEntityType = 'LLC' | 'C-Corp' | 'S-Corp';
+
+/**
+ * How fast the state files the formation
+ */
+export type ExpediteLevel = 'standard' | '24-hour' | 'same-day';
+
+/**
+ * default: Northwest Registered Agent, own: an agent the customer provides
+ */
+export type RegisteredAgentChoice = 'default' | 'own';
+
+/**
+ * Fee schedule of one state. Amounts are in cents.
+ */
+export interface StatePricing {
+  code: string;
+  name: string;
+  // Filing fee per entity type - missing types cannot be formed in the state
+  filingFees: Partial<Record<PricedEntityType, number>>;
+  // Fee on top of the filing fee per expedite level - missing levels are not offered
+  expediteFees: Partial<Record<ExpediteLevel, number>>;
+  processingTimes: Partial<Record<ExpediteLevel, string>>;
+  notes?: string[];
+}
+
+/**
+ * Discount taken off the whole quote. Set one of percentOff or amountOff.
+ */
+export interface Discount {
+  // Promo code that grants the discount
+  code: string;
+  description?: string;
+  // 1-100
+  percentOff?: number;
+  // Cents
+  amountOff?: number;
+}
+
+export interface QuoteRequest {
+  // State code or name, e.g. DE or Delaware
+  state: string;
+  entityType: PricedEntityType;
+  registeredAgent?: RegisteredAgentChoice;
+  expedite?: ExpediteLevel;
+  discount?: Discount;
+}
+
+export type QuoteItemKind = 'service_fee' | 'state_filing_fee' | 'expedite_fee' | 'registered_agent' | 'discount';
+
+export interface QuoteItem {
+  kind: QuoteItemKind;
+  description: string;
+  // Cents - negative for a discount
+  amount: number;
+  note?: string;
+}
+
+/**
+ * Itemized price of a formation
+ */
+export interface Quote {
+  state: string;
+  entityType: PricedEntityType;
+  registeredAgent: RegisteredAgentChoice;
+  expedite: ExpediteLevel;
+  currency: 'usd';
+  items: QuoteItem[];
+  // Cents, never below zero
+  total: number;
+  promoCode?: string;
+  processingTime?: string;
+}
@@ -0,0 +1,258 @@
+/**
+ * Unit tests for FormationSessionStore and its storage adapters
+ * Sessions must survive a new store instance for the durable backends
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import {
+  SessionStorageAdapter,
+  MemoryStorageAdapter,
+  FileStorageAdapter,
+  SqliteStorageAdapter,
+  createStorageAdapter,
+} from '../../../src/mcp/state/adapters';
+import { FormationStep, SessionStatus } from '../../../src/mcp/state/types';
+import { updateSession } from '../../../src/mcp/middleware/session';
+import { MCPToolError, ErrorCode } from '../../../src/mcp/errors';
+
+describe('FormationSessionStore', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lovie-mcp-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const adapters: Array<[string, () => SessionStorageAdapter]> = [
+    ['memory', () => new MemoryStorageAdapter()],
+    ['file', () => new FileStorageAdapter(path.join(testDir, 'sessions'))],
+    ['sqlite', () => new SqliteStorageAdapter(path.join(testDir, 'sessions.sqlite'))],
+  ];
+
+  describe.each(adapters)('%s adapter', (_name, createAdapter) => {
+    let store: FormationSessionStore;
+
+    beforeEach(() => {
+      store = new FormationSessionStore(createAdapter());
+    });
+
+    it('should create and get a session', async () => {
+      const session = await store.create('user_123');
+      const loaded = await store.get(session.sessionId);
+
+      expect(loaded).not.toBeNull();
+      expect(loaded!.userId).toBe('user_123');
+      expect(loaded!.status).toBe(SessionStatus.CREATED);
+      expect(loaded!.currentStep).toBe(FormationStep.CREATED);
+      expect(loaded!.shareholders).toEqual([]);
+    });
+
+    it('should return null for unknown sessions', async () => {
+      expect(await store.get('00000000-0000-0000-0000-000000000000')).toBeNull();
+    });
+
+    it('should persist saved changes', async () => {
+      const session = await store.create();
+      session.companyDetails = { state: 'DE', companyType: 'LLC' };
+      session.currentStep = FormationStep.TYPE_SELECTED;
+      await store.save(session);
+
+      const loaded = await store.get(session.sessionId);
+      expect(loaded!.companyDetails).toEqual({ state: 'DE', companyType: 'LLC' });
+      expect(loaded!.currentStep).toBe(FormationStep.TYPE_SELECTED);
+    });
+
+    it('should not share references between loads', async () => {
+      const session = await store.create();
+      const first = await store.get(session.sessionId);
+      first!.currentStep = FormationStep.NAME_SET;
+
+      const second = await store.get(session.sessionId);
+      expect(second!.currentStep).toBe(FormationStep.CREATED);
+    });
+
+    it('should delete and list sessions', async () => {
+      const a = await store.create();
+      const b = await store.create();
+
+      expect((await store.list()).map(s => s.sessionId).sort()).toEqual([a.sessionId, b.sessionId].sort());
+      expect(await store.delete(a.sessionId)).toBe(true);
+      expect(await store.delete(a.sessionId)).toBe(false);
+      expect((await store.list()).map(s => s.sessionId)).toEqual([b.sessionId]);
+    });
+
+    it('should keep every session when writes overlap', async () => {
+      const sessions = await Promise.all([store.create(), store.create(), store.create()]);
+      await Promise.all(sessions.map(session => store.save(session)));
+
+      expect((await store.list()).map(s => s.sessionId).sort()).toEqual(sessions.map(s => s.sessionId).sort());
+    });
+
+    it('should save records without listing them as sessions', async () => {
+      const session = await store.create();
+      await store.setRecord('promo-TEST', { code: 'TEST', claims: {} });
+      await store.setRecord('promo-TEST', { code: 'TEST', claims: { [session.sessionId]: { redeemedAt: '2026-01-01T00:00:00.000Z' } } });
+
+      expect(await store.getRecord('promo-TEST')).toEqual({ code: 'TEST', claims: { [session.sessionId]: { redeemedAt: '2026-01-01T00:00:00.000Z' } } });
+      expect(await store.getRecord('promo-OTHER')).toBeNull();
+      expect((await store.list()).map(s => s.sessionId)).toEqual([session.sessionId]);
+    });
+
+    it('should clean up expired sessions only', async () => {
+      const expired = await store.create();
+      const active = await store.create();
+      expired.expiresAt = new Date(Date.now() - 1000).toISOString();
+      await store.save(expired);
+
+      expect(await store.cleanup()).toBe(1);
+      expect(await store.get(expired.sessionId)).toBeNull();
+      expect(await store.get(active.sessionId)).not.toBeNull();
+    });
+  });
+
+  describe('durability', () => {
+    it('should load file sessions from a new store instance', async () => {
+      const directory = path.join(testDir, 'sessions');
+      const session = await new FormationSessionStore(new FileStorageAdapter(directory)).create();
+
+      const restarted = new FormationSessionStore(new FileStorageAdapter(directory));
+      expect(await restarted.get(session.sessionId)).not.toBeNull();
+    });
+
+    it('should load SQLite sessions from a new store instance', async () => {
+      const databasePath = path.join(testDir, 'sessions.sqlite');
+      const session = await new FormationSessionStore(new SqliteStorageAdapter(databasePath)).create();
+
+      const restarted = new FormationSessionStore(new SqliteStorageAdapter(databasePath));
+      expect(await restarted.get(session.sessionId)).not.toBeNull();
+    });
+
+    it('should reject session IDs that escape the file storage directory', async () => {
+      const adapter = new FileStorageAdapter(path.join(testDir, 'sessions'));
+      expect(await adapter.get('../../etc/passwd')).toBeNull();
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    let store: FormationSessionStore;
+
+    beforeEach(() => {
+      store = new FormationSessionStore(new MemoryStorageAdapter());
+    });
+
+    it('should increment the version on every save', async () => {
+      const session = await store.create();
+      expect(session.version).toBe(1);
+
+      await store.save(session);
+      await store.save(session);
+
+      expect(session.version).toBe(3);
+      expect((await store.get(session.sessionId))!.version).toBe(3);
+    });
+
+    it('should reject stale writes with SESSION_CONFLICT', async () => {
+      const created = await store.create();
+      const first = (await store.get(created.sessionId))!;
+      const second = (await store.get(created.sessionId))!;
+
+      first.authorizedParty = { name: 'Jane Doe', title: 'CEO' };
+      await store.save(first);
+
+      second.companyDetails = { state: 'WY' };
+      await expect(store.save(second)).rejects.toMatchObject({ code: ErrorCode.SESSION_CONFLICT });
+
+      const stored = (await store.get(created.sessionId))!;
+      expect(stored.authorizedParty).toEqual({ name: 'Jane Doe', title: 'CEO' });
+      expect(stored.version).toBe(2);
+    });
+
+    it('should merge concurrent updates with updateSession', async () => {
+      const session = await store.create();
+
+      await Promise.all([
+        updateSession(session.sessionId, store, (current) => {
+          current.authorizedParty = { name: 'Jane Doe', title: 'CEO' };
+        }),
+        updateSession(session.sessionId, store, (current) => {
+          current.companyDetails = { ...current.companyDetails, state: 'DE' };
+        }),
+      ]);
+
+      const stored = (await store.get(session.sessionId))!;
+      expect(stored.authorizedParty).toEqual({ name: 'Jane Doe', title: 'CEO' });
+      expect(stored.companyDetails?.state).toBe('DE');
+      expect(stored.version).toBe(3);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const session = await store.create();
+
+      const update = updateSession(session.sessionId, store, async (current) => {
+        // Another writer saves between every load and save
+        const other = (await store.get(current.sessionId))!;
+        await store.save(other);
+      }, 2);
+
+      await expect(update).rejects.toBeInstanceOf(MCPToolError);
+      await expect(update).rejects.toMatchObject({ code: ErrorCode.SESSION_CONFLICT });
+    });
+  });
+
+  describe('optimistic concurrency across processes', () => {
+    const shared: Array<[string, () => SessionStorageAdapter]> = [
+      ['file', () => new FileStorageAdapter(path.join(testDir, 'sessions'))],
+      ['sqlite', () => new SqliteStorageAdapter(path.join(testDir, 'sessions.sqlite'))],
+    ];
+
+    it.each(shared)('should let only one of two %s stores save the same version', async (_name, createAdapter) => {
+      // Two stores with their own adapters stand in for two processes sharing the storage
+      const first = new FormationSessionStore(createAdapter());
+      const second = new FormationSessionStore(createAdapter());
+      const created = await first.create();
+      const a = (await first.get(created.sessionId))!;
+      const b = (await second.get(created.sessionId))!;
+
+      a.authorizedParty = { name: 'Jane Doe', title: 'CEO' };
+      b.companyDetails = { state: 'WY' };
+      const results = await Promise.allSettled([first.save(a), second.save(b)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { code: ErrorCode.SESSION_CONFLICT } });
+      expect((await second.get(created.sessionId))!.version).toBe(2);
+    });
+
+    it.each(shared)('should run one holder of a named %s lock at a time', async (_name, createAdapter) => {
+      const first = new FormationSessionStore(createAdapter());
+      const second = new FormationSessionStore(createAdapter());
+      let holders = 0;
+      let mostHolders = 0;
+      const hold = (store: FormationSessionStore) => store.withLock('promo-TEST', async () => {
+        holders++;
+        mostHolders = Math.max(mostHolders, holders);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        holders--;
+      });
+
+      await Promise.all([hold(first), hold(second)]);
+
+      expect(mostHolders).toBe(1);
+    });
+  });
+
+  describe('createStorageAdapter', () => {
+    it('should create the configured adapter', () => {
+      const config = { directory: testDir, databasePath: path.join(testDir, 'db.sqlite') };
+
+      expect(createStorageAdapter({ ...config, type: 'memory' }).type).toBe('memory');
+      expect(createStorageAdapter({ ...config, type: 'file' }).type).toBe('file');
+      expect(createStorageAdapter({ ...config, type: 'sqlite' }).type).toBe('sqlite');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for per-connection authentication
+ * A login applies only to the connection (or HTTP request) it was made on
+ */
+
+import crypto from 'crypto';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { dispatch, handleStreamableHttp, DispatchContext, HttpResponse } from '../../../src/mcp/protocol';
+import {
+  createAuthContextFromHeader,
+  createLocalJwks,
+  parseBearerToken,
+  setDashboardTokenConfig,
+  signJwt,
+  Jwk,
+} from '../../../src/mcp/auth';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const DASHBOARD_ISSUER = 'https://clerk.lovie.test';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+// Dashboard session token for a user, already past its one-minute expiry like a pasted token
+const tokenFor = (userId: string, key: crypto.KeyObject = privateKey) => {
+  const iat = Math.floor(Date.now() / 1000) - 3600;
+  return signJwt({ iss: DASHBOARD_ISSUER, sub: userId, iat, exp: iat + 60 }, key, 'dashboard-1');
+};
+
+// Unsigned token claiming to be a user
+const forgedTokenFor = (userId: string) => [
+  Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url'),
+  Buffer.from(JSON.stringify({ iss: DASHBOARD_ISSUER, sub: userId })).toString('base64url'),
+  'signature',
+].join('.');
+
+const toolCall = (name: string, args: Record<string, unknown> = {}) =>
+  ({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+
+const resultOf = (response: any) => JSON.parse(response.result.content[0].text);
+
+describe('per-connection authentication', () => {
+  let store: FormationSessionStore;
+
+  const call = async (context: DispatchContext, name: string, args: Record<string, unknown> = {}) =>
+    resultOf(await dispatch(toolCall(name, args), context));
+
+  beforeEach(() => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    setDashboardTokenConfig({
+      issuer: DASHBOARD_ISSUER,
+      keys: createLocalJwks([{ ...(publicKey.export({ format: 'jwk' }) as Jwk), kid: 'dashboard-1', alg: 'RS256' }]),
+      audience: [],
+    });
+  });
+
+  afterEach(() => {
+    setDashboardTokenConfig(null);
+  });
+
+  it('should register the auth tools', async () => {
+    const response = await dispatch({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { store }) as any;
+    const names = response.result.tools.map((tool: { name: string }) => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(['formation_login', 'formation_set_token', 'formation_logout', 'formation_auth_status']));
+  });
+
+  it('should keep a login on the connection it was made on', async () => {
+    const alice: DispatchContext = { store };
+    const bob: DispatchContext = { store };
+
+    await call(alice, 'formation_set_token', { token: tokenFor('user_alice'), userId: 'user_alice' });
+
+    expect((await call(alice, 'formation_start')).userId).toBe('user_alice');
+    expect((await call(bob, 'formation_start')).userId).toBeUndefined();
+    expect((await call(bob, 'formation_auth_status')).authenticated).toBe(false);
+  });
+
+  it('should reject a token that is not signed by the dashboard', async () => {
+    const mallory: DispatchContext = { store };
+    const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+    const forged = await dispatch(toolCall('formation_set_token', { token: forgedTokenFor('user_alice'), userId: 'user_alice' }), mallory) as any;
+    const resigned = await dispatch(toolCall('formation_set_token', { token: tokenFor('user_alice', otherKey), userId: 'user_alice' }), mallory) as any;
+    const mismatched = await dispatch(toolCall('formation_set_token', { token: tokenFor('user_mallory'), userId: 'user_alice' }), mallory) as any;
+
+    expect(forged.result.isError).toBe(true);
+    expect(resigned.result.isError).toBe(true);
+    expect(mismatched.result.isError).toBe(true);
+    expect((await call(mallory, 'formation_auth_status')).authenticated).toBe(false);
+  });
+
+  it('should not accept tokens when the dashboard keys are not configured', async () => {
+    setDashboardTokenConfig(null);
+    const alice: DispatchContext = { store };
+
+    const response = await dispatch(toolCall('formation_set_token', { token: tokenFor('user_alice'), userId: 'user_alice' }), alice) as any;
+
+    expect(response.result.isError).toBe(true);
+    expect((await call(alice, 'formation_auth_status')).authenticated).toBe(false);
+  });
+
+  it('should log out only the current connection', async () => {
+    const alice: DispatchContext = { store };
+    const bob: DispatchContext = { store };
+    await call(alice, 'formation_set_token', { token: tokenFor('user_alice'), userId: 'user_alice' });
+    await call(bob, 'formation_set_token', { token: tokenFor('user_bob'), userId: 'user_bob' });
+
+    await call(alice, 'formation_logout');
+
+    expect((await call(alice, 'formation_auth_status')).authenticated).toBe(false);
+    expect((await call(bob, 'formation_auth_status')).userId).toBe('user_bob');
+  });
+
+  it('should return the dashboard link instead of opening a browser on a remote connection', async () => {
+    const result = await call({ store }, 'formation_login');
+
+    expect(result).toMatchObject({ action: 'open_url', url: expect.stringContaining('/dashboard') });
+  });
+
+  describe('Authorization header', () => {
+    const post = async (body: unknown, authorization?: string) => {
+      const res = new FakeResponse();
+      await handleStreamableHttp({
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...(authorization && { authorization }) },
+        body,
+      }, res, { store });
+      return res;
+    };
+
+    it('should authenticate the request with a bearer token', async () => {
+      const res = await post(toolCall('formation_start'), `Bearer ${tokenFor('user_alice')}`);
+
+      expect(resultOf(res.body).userId).toBe('user_alice');
+    });
+
+    it('should not carry a login over to the next request', async () => {
+      await post(toolCall('formation_set_token', { token: tokenFor('user_alice'), userId: 'user_alice' }));
+
+      const res = await post(toolCall('formation_start'));
+
+      expect(resultOf(res.body).userId).toBeUndefined();
+    });
+
+    it('should reject an invalid bearer token', async () => {
+      const res = await post(toolCall('formation_start'), 'Bearer not-a-token');
+      const forged = await post(toolCall('formation_start'), `Bearer ${forgedTokenFor('user_alice')}`);
+
+      expect(res.statusCode).toBe(401);
+      expect(res.headers['www-authenticate']).toContain('invalid_token');
+      expect(forged.statusCode).toBe(401);
+    });
+
+    it('should treat bearer tokens as anonymous when the dashboard keys are not configured', async () => {
+      setDashboardTokenConfig(null);
+
+      const res = await post(toolCall('formation_start'), `Bearer ${tokenFor('user_alice')}`);
+
+      expect(res.statusCode).toBe(200);
+      expect(resultOf(res.body).userId).toBeUndefined();
+    });
+  });
+
+  describe('createAuthContextFromHeader', () => {
+    it('should parse only bearer credentials', () => {
+      expect(parseBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+      expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    });
+
+    it('should read the user ID from the subject of a signed token', async () => {
+      expect(await createAuthContextFromHeader(`Bearer ${tokenFor('user_alice')}`)).toMatchObject({
+        userId: 'user_alice',
+        source: 'bearer',
+      });
+      expect(await createAuthContextFromHeader(`Bearer ${tokenFor('someone')}`)).toBeNull();
+      expect(await createAuthContextFromHeader(`Bearer ${forgedTokenFor('user_alice')}`)).toBeNull();
+      expect(await createAuthContextFromHeader(undefined)).toMatchObject({ userId: null });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for step dependency invalidation and formation_go_to_step
+ * Changing upstream data clears or flags stale downstream data
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep, SessionStatus } from '../../../src/mcp/state/types';
+import { getDependentSteps } from '../../../src/mcp/middleware/dependencies';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Wilmington',
+  state: 'DE',
+  zipCode: '19801',
+};
+
+describe('step dependencies', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  // Write fields that come from external services directly
+  const patch = async (fields: Record<string, unknown>) => {
+    const session = await store.get(sessionId);
+    Object.assign(session!, fields);
+    await store.save(session!);
+  };
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+    await call('formation_set_entity_ending', { entityEnding: 'Inc.' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await call('formation_set_share_structure', {});
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address, role: 'director' },
+    });
+  });
+
+  describe('getDependentSteps', () => {
+    it('should return transitive dependents in step order', () => {
+      const dependents = getDependentSteps([FormationStep.NAME_SET]);
+
+      expect(dependents).toEqual([
+        FormationStep.NAME_CHECKED,
+        FormationStep.CERTIFICATE_GENERATED,
+        FormationStep.CERTIFICATE_APPROVED,
+        FormationStep.COMPLETED,
+      ]);
+    });
+
+    it('should not include the changed step itself', () => {
+      expect(getDependentSteps([FormationStep.STATE_SELECTED])).not.toContain(FormationStep.STATE_SELECTED);
+    });
+  });
+
+  describe('invalidation', () => {
+    it('should clear the share structure and reset roles when switching to LLC', async () => {
+      await call('formation_set_company_type', { companyType: 'LLC' });
+
+      const session = await store.get(sessionId);
+      expect(session!.shareStructure).toBeUndefined();
+      expect(session!.companyDetails!.entityEnding).toBeUndefined();
+      expect(session!.companyDetails!.fullName).toBeUndefined();
+      expect(session!.shareholders[0].role).toBe('member');
+      expect(session!.invalidations!.map(i => i.step)).toEqual(expect.arrayContaining([
+        FormationStep.ENDING_SELECTED,
+        FormationStep.SHARES_SET,
+        FormationStep.SHAREHOLDERS_ADDED,
+      ]));
+    });
+
+    it('should clear the name check when the name changes', async () => {
+      await patch({ nameCheckResult: { available: true, checkedAt: new Date().toISOString() } });
+
+      await call('formation_set_company_name', { baseName: 'Globex' });
+
+      const session = await store.get(sessionId);
+      expect(session!.nameCheckResult).toBeUndefined();
+      expect(session!.invalidations).toContainEqual(expect.objectContaining({
+        step: FormationStep.NAME_CHECKED,
+        action: 'cleared',
+        causedBy: [FormationStep.NAME_SET],
+      }));
+    });
+
+    it('should update the full name when the ending changes', async () => {
+      await call('formation_set_entity_ending', { entityEnding: 'Corp.' });
+
+      const session = await store.get(sessionId);
+      expect(session!.companyDetails!.fullName).toBe('Acme Corp.');
+    });
+
+    it('should clear the certificate and a pending payment when upstream data changes', async () => {
+      await patch({
+        certificateData: { certificateId: 'cert_1', generatedAt: new Date().toISOString(), approvedAt: new Date().toISOString() },
+        paymentStatus: 'pending',
+        currentStep: FormationStep.CERTIFICATE_APPROVED,
+        status: SessionStatus.COMPLETED,
+      });
+
+      await call('formation_set_state', { state: 'DE' });
+      await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'CEO' });
+
+      const session = await store.get(sessionId);
+      expect(session!.certificateData).toBeUndefined();
+      expect(session!.paymentStatus).toBeUndefined();
+      expect(session!.status).toBe(SessionStatus.IN_PROGRESS);
+    });
+
+    it('should flag a registered agent in another state and resolve it when the agent changes', async () => {
+      await call('formation_set_registered_agent', {
+        useDefault: false,
+        agent: { name: 'Agent Co', email: 'agent@example.com', phone: '555-555-5555', address: { ...address, state: 'WY' } },
+      });
+      await call('formation_set_state', { state: 'WY' });
+      await call('formation_set_state', { state: 'DE' });
+
+      let session = await store.get(sessionId);
+      expect(session!.registeredAgent).toBeDefined();
+      expect(session!.invalidations).toContainEqual(expect.objectContaining({
+        step: FormationStep.AGENT_SET,
+        action: 'flagged',
+      }));
+
+      await call('formation_set_registered_agent', { useDefault: true });
+
+      session = await store.get(sessionId);
+      expect(session!.invalidations!.some(i => i.step === FormationStep.AGENT_SET && i.action === 'flagged')).toBe(false);
+    });
+
+    it('should report invalidations in formation_get_status', async () => {
+      await call('formation_set_company_type', { companyType: 'LLC' });
+
+      const status = await call('formation_get_status');
+      expect(status.invalidations.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('formation_go_to_step', () => {
+    it('should move back so the target step is next', async () => {
+      const result = await call('formation_go_to_step', { step: FormationStep.STATE_SELECTED });
+
+      expect(result.success).toBe(true);
+      expect(result.currentStep).toBe(FormationStep.BUSINESS_DESCRIBED);
+      expect(result.currentValue).toBe('DE');
+      expect(result.nextAction).toBe('formation_set_state');
+      expect(result.affectedSteps).toContain(FormationStep.CERTIFICATE_GENERATED);
+    });
+
+    it('should keep data until the step is changed', async () => {
+      await call('formation_go_to_step', { step: FormationStep.TYPE_SELECTED });
+
+      const session = await store.get(sessionId);
+      expect(session!.shareStructure).toBeDefined();
+      expect(session!.invalidations).toBeUndefined();
+    });
+
+    it('should reject steps that have not been reached', async () => {
+      await expect(call('formation_go_to_step', { step: FormationStep.CERTIFICATE_GENERATED }))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should reject steps that do not apply to the company type', async () => {
+      await call('formation_set_company_type', { companyType: 'LLC' });
+
+      await expect(call('formation_go_to_step', { step: FormationStep.SHARES_SET }))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should be blocked after submission', async () => {
+      await patch({ submissionResult: { status: 'PENDING_REVIEW', submittedAt: new Date().toISOString() } });
+
+      await expect(call('formation_go_to_step', { step: FormationStep.STATE_SELECTED }))
+        .rejects.toMatchObject({ code: ErrorCode.SESSION_ALREADY_COMPLETED });
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the JSON-RPC dispatcher and Streamable HTTP handler
+ * Every HTTP entry point and the stdio server share this code path
+ */
+
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import {
+  dispatch,
+  handleStreamableHttp,
+  DispatchContext,
+  HttpResponse,
+  JsonRpcErrorCode,
+  LATEST_PROTOCOL_VERSION,
+} from '../../../src/mcp/protocol';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: unknown;
+  chunks: string[] = [];
+  ended = false;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+    this.ended = true;
+  }
+
+  write(chunk: string) {
+    this.chunks.push(chunk);
+  }
+
+  end() {
+    this.ended = true;
+  }
+}
+
+describe('JSON-RPC dispatcher', () => {
+  let context: DispatchContext;
+
+  const request = (id: number, method: string, params?: Record<string, unknown>) =>
+    ({ jsonrpc: '2.0', id, method, params });
+
+  beforeEach(() => {
+    context = { store: new FormationSessionStore(new MemoryStorageAdapter()) };
+  });
+
+  describe('initialize', () => {
+    it('should answer with the client version when supported', async () => {
+      const response = await dispatch(request(1, 'initialize', { protocolVersion: '2024-11-05' }), context) as any;
+
+      expect(response.result.protocolVersion).toBe('2024-11-05');
+      expect(response.result.serverInfo.name).toBe('lovie-formation');
+      expect(context.protocolVersion).toBe('2024-11-05');
+    });
+
+    it('should answer with the latest version when the client version is unknown', async () => {
+      const response = await dispatch(request(1, 'initialize', { protocolVersion: '1999-01-01' }), context) as any;
+
+      expect(response.result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    });
+  });
+
+  describe('messages', () => {
+    it('should call tools and return their result as text content', async () => {
+      const response = await dispatch(request(1, 'tools/call', { name: 'formation_start', arguments: {} }), context) as any;
+
+      expect(JSON.parse(response.result.content[0].text).sessionId).toBeDefined();
+    });
+
+    it('should return tool errors as results', async () => {
+      const response = await dispatch(request(1, 'tools/call', { name: 'formation_missing' }), context) as any;
+
+      expect(response.result.isError).toBe(true);
+      expect(response.error).toBeUndefined();
+    });
+
+    it('should return protocol errors for unknown methods, bad params and missing resources', async () => {
+      const responses = await dispatch([
+        request(1, 'unknown/method'),
+        request(2, 'tools/call', {}),
+        request(3, 'resources/read', { uri: 'formation://missing' }),
+      ], context) as any[];
+
+      expect(responses.map(r => r.error.code)).toEqual([
+        JsonRpcErrorCode.METHOD_NOT_FOUND,
+        JsonRpcErrorCode.INVALID_PARAMS,
+        JsonRpcErrorCode.RESOURCE_NOT_FOUND,
+      ]);
+    });
+
+    it('should reject messages that are not JSON-RPC 2.0', async () => {
+      const response = await dispatch({ id: 1, method: 'ping' }, context) as any;
+
+      expect(response).toMatchObject({ id: 1, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+    });
+
+    it('should not respond to notifications', async () => {
+      expect(await dispatch({ jsonrpc: '2.0', method: 'notifications/initialized' }, context)).toBeNull();
+      expect(await dispatch({ jsonrpc: '2.0', method: 'notifications/unknown' }, context)).toBeNull();
+    });
+  });
+
+  describe('batches', () => {
+    it('should answer requests in order and skip notifications', async () => {
+      const responses = await dispatch([
+        request(1, 'ping'),
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        request(2, 'tools/list'),
+      ], context) as any[];
+
+      expect(responses.map(r => r.id)).toEqual([1, 2]);
+      expect(responses[1].result.tools.length).toBeGreaterThan(0);
+    });
+
+    it('should reject empty batches and initialize inside a batch', async () => {
+      expect(await dispatch([], context)).toMatchObject({ error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+
+      const responses = await dispatch([request(1, 'initialize', {}), request(2, 'ping')], context) as any[];
+      expect(responses[0]).toMatchObject({ id: 1, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+      expect(responses[1].result).toEqual({});
+    });
+
+    it('should reject batches once 2025-06-18 is negotiated', async () => {
+      await dispatch(request(1, 'initialize', { protocolVersion: '2025-06-18' }), context);
+
+      expect(await dispatch([request(2, 'ping')], context)).toMatchObject({ id: null, error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+    });
+  });
+
+  describe('handleStreamableHttp', () => {
+    const post = async (body: unknown, headers: Record<string, string> = {}) => {
+      const res = new FakeResponse();
+      await handleStreamableHttp({ method: 'POST', headers, body }, res, context);
+      return res;
+    };
+
+    it('should return JSON responses', async () => {
+      const res = await post(request(1, 'ping'));
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+      expect(res.headers['access-control-allow-origin']).toBe('*');
+    });
+
+    it('should accept notifications with 202 and no body', async () => {
+      const res = await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+      expect(res.statusCode).toBe(202);
+      expect(res.body).toBeUndefined();
+      expect(res.ended).toBe(true);
+    });
+
+    it('should stream responses to clients that only accept SSE', async () => {
+      const res = await post(request(1, 'ping'), { accept: 'text/event-stream' });
+
+      expect(res.headers['content-type']).toBe('text/event-stream');
+      expect(res.chunks).toEqual([`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} })}\n\n`]);
+    });
+
+    it('should reject unsupported protocol version headers', async () => {
+      const res = await post(request(1, 'ping'), { 'mcp-protocol-version': '1999-01-01' });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ error: { code: JsonRpcErrorCode.INVALID_REQUEST } });
+    });
+
+    it('should return a parse error for bodies that are not JSON', async () => {
+      const res = await post('{not json');
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ error: { code: JsonRpcErrorCode.PARSE_ERROR } });
+    });
+
+    it('should not offer a server-initiated GET stream', async () => {
+      const res = new FakeResponse();
+      await handleStreamableHttp({ method: 'GET', headers: { accept: 'text/event-stream' } }, res, context);
+
+      expect(res.statusCode).toBe(405);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for structured tool errors
+ * Every transport returns the same error payload and codes are documented
+ */
+
+import { z } from 'zod';
+import {
+  ErrorCode,
+  ERROR_CATALOG,
+  MCPToolError,
+  fromZodError,
+  formatToolError,
+  toMCPToolError,
+} from '../../../src/mcp/errors';
+import { getResourceContent, getResourceMimeType } from '../../../src/mcp/resources/index';
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+
+describe('structured tool errors', () => {
+  describe('fromZodError', () => {
+    const schema = z.object({
+      email: z.string().email(),
+      shares: z.number().min(1),
+      name: z.string(),
+    });
+
+    it('should map each issue to a field-level code', () => {
+      const result = schema.safeParse({ email: 'nope', shares: 0 });
+      const error = fromZodError((result as { error: z.ZodError }).error);
+
+      expect(error.code).toBe(ErrorCode.VALIDATION_INVALID_FORMAT);
+      expect(error.details!.fields).toEqual([
+        expect.objectContaining({ field: 'email', code: ErrorCode.VALIDATION_INVALID_FORMAT }),
+        expect.objectContaining({ field: 'shares', code: ErrorCode.VALIDATION_OUT_OF_RANGE }),
+        expect.objectContaining({ field: 'name', code: ErrorCode.VALIDATION_REQUIRED_FIELD }),
+      ]);
+    });
+
+    it('should prefix paths with the validated field', () => {
+      const result = z.string().email().safeParse('nope');
+      const error = fromZodError((result as { error: z.ZodError }).error, 'shareholder.email');
+
+      expect(error.details!.field).toBe('shareholder.email');
+    });
+  });
+
+  describe('formatToolError', () => {
+    it('should serialize MCP errors with code and details', () => {
+      const result = formatToolError(new MCPToolError({
+        code: ErrorCode.SESSION_NOT_FOUND,
+        message: 'Session missing',
+        details: { sessionId: 'abc' },
+      }));
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: true,
+        code: ErrorCode.SESSION_NOT_FOUND,
+        details: { sessionId: 'abc' },
+      });
+    });
+
+    it('should wrap unexpected errors as INTERNAL_ERROR', () => {
+      expect(toMCPToolError(new Error('boom'))).toMatchObject({
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'boom',
+        retryable: true,
+      });
+    });
+
+    it('should return TOOL_NOT_FOUND for unknown tools', async () => {
+      const store = new FormationSessionStore(new MemoryStorageAdapter());
+
+      await expect(handleToolCall('formation_missing', {}, store))
+        .rejects.toMatchObject({ code: ErrorCode.TOOL_NOT_FOUND });
+    });
+  });
+
+  describe('formation://errors', () => {
+    it('should document every error code', () => {
+      const resource = JSON.parse(getResourceContent('formation://errors')!);
+
+      expect(getResourceMimeType('formation://errors')).toBe('application/json');
+      expect(resource.errors.map((e: { code: string }) => e.code).sort())
+        .toEqual(Object.values(ErrorCode).sort());
+      expect(Object.keys(ERROR_CATALOG)).toHaveLength(Object.values(ErrorCode).length);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for session history and undo
+ * Every mutating tool call is recorded; formation_undo reverts the latest events
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep } from '../../../src/mcp/state/types';
+import { normalizeStep } from '../../../src/mcp/middleware/session';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+describe('session history', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_describe_business', { businessDescription: 'A consulting business for small firms' });
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+  });
+
+  it('should record an event for each mutating tool call', async () => {
+    const history = await call('formation_get_history');
+
+    expect(history.totalEvents).toBe(3);
+    expect(history.events.map((e: any) => e.toolName)).toEqual([
+      'formation_describe_business',
+      'formation_set_state',
+      'formation_set_company_type',
+    ]);
+    expect(history.events[1].args).toEqual({ state: 'DE' });
+    expect(history.events[1].changedFields).toEqual(expect.arrayContaining(['companyDetails', 'currentStep']));
+  });
+
+  it('should save the event in the same write as the change', async () => {
+    const before = await store.get(sessionId);
+    const saves = jest.spyOn(store, 'save');
+
+    await call('formation_set_state', { state: 'WY' });
+
+    const after = await store.get(sessionId);
+    expect(saves).toHaveBeenCalledTimes(1);
+    expect(after!.version).toBe(before!.version! + 1);
+    expect(after!.history!.slice(-1)[0]).toMatchObject({ toolName: 'formation_set_state', args: { state: 'WY' } });
+    saves.mockRestore();
+  });
+
+  it('should not record read-only tool calls', async () => {
+    await call('formation_get_status');
+    await call('formation_resume');
+
+    const history = await call('formation_get_history');
+    expect(history.totalEvents).toBe(3);
+  });
+
+  it('should undo the last change and roll back the current step', async () => {
+    const result = await call('formation_undo');
+
+    expect(result.undoneCount).toBe(1);
+    expect(result.currentStep).toBe(FormationStep.STATE_SELECTED);
+
+    const session = (await store.get(sessionId))!;
+    expect(session.companyDetails?.companyType).toBeUndefined();
+    expect(session.companyDetails?.state).toBe('DE');
+    expect(session.incorporator).toBeUndefined();
+  });
+
+  it('should undo multiple changes in reverse order', async () => {
+    await call('formation_undo', { count: 2 });
+
+    const session = (await store.get(sessionId))!;
+    expect(session.currentStep).toBe(FormationStep.BUSINESS_DESCRIBED);
+    expect(session.companyDetails).toEqual({ businessDescription: 'A consulting business for small firms' });
+
+    const history = await call('formation_get_history');
+    expect(history.undoableEvents).toBe(1);
+    expect(history.events.filter((e: any) => e.undone)).toHaveLength(2);
+  });
+
+  it('should reject undoing more changes than recorded', async () => {
+    await expect(call('formation_undo', { count: 5 })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+
+  it('should refuse to undo payment changes', async () => {
+    const session = (await store.get(sessionId))!;
+    session.paymentStatus = 'completed';
+    session.history = [...(session.history || []), {
+      id: 'payment-event',
+      toolName: 'formation_confirm_payment',
+      args: { paymentConfirmed: true },
+      changes: [{ field: 'paymentStatus', before: undefined, after: 'completed' }],
+      timestamp: new Date().toISOString(),
+      reversible: false,
+    }];
+    await store.save(session);
+
+    await expect(call('formation_undo')).rejects.toMatchObject({ code: ErrorCode.SESSION_INVALID_STATE });
+  });
+});
+
+describe('normalizeStep', () => {
+  it('should keep steps that exist for the company type', () => {
+    expect(normalizeStep(FormationStep.SHARES_SET, 'C-Corp')).toBe(FormationStep.SHARES_SET);
+    expect(normalizeStep(FormationStep.AGENT_SET, 'LLC')).toBe(FormationStep.AGENT_SET);
+  });
+
+  it('should map C-Corp only steps to the previous LLC step', () => {
+    expect(normalizeStep(FormationStep.SHARES_SET, 'LLC')).toBe(FormationStep.AGENT_SET);
+  });
+});
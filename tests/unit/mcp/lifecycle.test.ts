@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the session lifecycle
+ * Expiry extension, abandonment, grace-period recovery and reminders
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { SessionStatus } from '../../../src/mcp/state/types';
+import { LifecycleConfig, LifecycleEvent, SessionNotifier, handleLifecycleCron, runLifecycleSweep } from '../../../src/mcp/lifecycle';
+import { HttpResponse } from '../../../src/mcp/protocol';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const config: LifecycleConfig = {
+  ttlMs: 24 * HOUR_MS,
+  abandonAfterMs: 6 * HOUR_MS,
+  gracePeriodMs: 48 * HOUR_MS,
+  reminderHours: [1, 12],
+  sweepIntervalMs: 0,
+};
+
+class RecordingNotifier implements SessionNotifier {
+  events: LifecycleEvent[] = [];
+
+  async notify(event: LifecycleEvent): Promise<void> {
+    this.events.push(event);
+  }
+}
+
+describe('session lifecycle', () => {
+  let store: FormationSessionStore;
+  let notifier: RecordingNotifier;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const sweepAt = (hoursFromNow: number) =>
+    runLifecycleSweep(store, config, notifier, new Date(Date.now() + hoursFromNow * HOUR_MS));
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter(), config.ttlMs);
+    notifier = new RecordingNotifier();
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+  });
+
+  it('should extend the expiry on activity', async () => {
+    const session = await store.get(sessionId);
+    session!.expiresAt = new Date(Date.now() + HOUR_MS).toISOString();
+    await store.save(session!);
+
+    await call('formation_set_state', { state: 'DE' });
+
+    const updated = await store.get(sessionId);
+    expect(Date.parse(updated!.expiresAt)).toBeGreaterThan(Date.now() + 23 * HOUR_MS);
+  });
+
+  it('should send each reminder once for sessions before payment', async () => {
+    await sweepAt(2);
+    await sweepAt(3);
+
+    expect(notifier.events.map(e => e.type)).toEqual(['session.reminder']);
+    expect(notifier.events[0].nextAction).toBe('formation_describe_business');
+
+    await sweepAt(13);
+    expect(notifier.events.filter(e => e.type === 'session.reminder')).toHaveLength(2);
+  });
+
+  it('should not remind after payment', async () => {
+    const session = await store.get(sessionId);
+    session!.paymentStatus = 'completed';
+    await store.save(session!);
+
+    await sweepAt(2);
+    expect(notifier.events).toEqual([]);
+  });
+
+  it('should mark idle sessions abandoned and reactivate them on activity', async () => {
+    const result = await sweepAt(7);
+
+    expect(result.abandoned).toBe(1);
+    expect((await store.get(sessionId))!.status).toBe(SessionStatus.ABANDONED);
+
+    await call('formation_set_state', { state: 'DE' });
+
+    const session = await store.get(sessionId);
+    expect(session!.status).toBe(SessionStatus.CREATED);
+    expect(session!.lifecycle).toBeUndefined();
+  });
+
+  it('should keep expired sessions recoverable during the grace period', async () => {
+    const result = await sweepAt(25);
+    expect(result.expired).toBe(1);
+    expect((await store.get(sessionId))!.status).toBe(SessionStatus.EXPIRED);
+
+    const session = await store.get(sessionId);
+    session!.expiresAt = new Date(Date.now() - HOUR_MS).toISOString();
+    await store.save(session!);
+
+    await expect(call('formation_get_status')).rejects.toMatchObject({
+      code: ErrorCode.SESSION_EXPIRED,
+      details: { recoverableUntil: expect.any(String) },
+    });
+
+    const resumed = await call('formation_resume');
+    expect(resumed.recovered).toBe(true);
+    expect(resumed.status).toBe(SessionStatus.CREATED);
+    expect((await call('formation_get_status')).status).toBe(SessionStatus.CREATED);
+  });
+
+  it('should delete sessions after the grace period', async () => {
+    const result = await sweepAt(24 + 49);
+
+    expect(result.deleted).toBe(1);
+    expect(await store.get(sessionId)).toBeNull();
+    expect(notifier.events.map(e => e.type)).toEqual(['session.deleted']);
+  });
+
+  it('should not abandon submitted formations', async () => {
+    const session = await store.get(sessionId);
+    session!.submissionResult = {
+      id: 1,
+      sessionId,
+      userId: 'user_1',
+      status: 'PENDING_REVIEW',
+      companyName: 'Acme Inc.',
+      entityType: 'C-Corp',
+      stateOfFormation: 'DE',
+      submittedAt: new Date().toISOString(),
+    };
+    await store.save(session!);
+
+    await sweepAt(7);
+    expect(notifier.events).toEqual([]);
+  });
+
+  it('should never expire or delete paid formations', async () => {
+    const session = await store.get(sessionId);
+    session!.paymentStatus = 'completed';
+    session!.payment = { checkoutSessionId: 'cs_1', verifiedBy: 'checkout', paidAt: new Date().toISOString() };
+    await store.save(session!);
+
+    const result = await sweepAt(24 + 49);
+    const stale = await store.get(sessionId);
+    stale!.expiresAt = new Date(Date.now() - HOUR_MS).toISOString();
+    await store.save(stale!);
+
+    expect(result).toMatchObject({ expired: 0, deleted: 0 });
+    expect((await store.get(sessionId))!.status).not.toBe(SessionStatus.EXPIRED);
+    expect((await call('formation_get_status')).sessionId).toBe(sessionId);
+  });
+
+  describe('cron route', () => {
+    const run = async (authorization?: string, secret: string = 'cron_secret') => {
+      const res = new FakeResponse();
+      await handleLifecycleCron({ method: 'GET', headers: authorization ? { authorization } : {} }, res, store, secret);
+      return res;
+    };
+
+    it('should run the sweep for the cron secret only', async () => {
+      const missing = await run();
+      const wrong = await run('Bearer other');
+      const ran = await run('Bearer cron_secret');
+
+      expect(missing.statusCode).toBe(401);
+      expect(wrong.statusCode).toBe(401);
+      expect(ran.statusCode).toBe(200);
+      expect(ran.body).toEqual({ reminded: 0, abandoned: 0, expired: 0, deleted: 0 });
+    });
+
+    it('should be disabled without a secret', async () => {
+      expect((await run('Bearer ', '')).statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for background name check jobs
+ * formation_set_company_name starts the check and later tool responses report its result
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep } from '../../../src/mcp/state/types';
+import { cancelNameCheckJob, waitForNameCheckJob } from '../../../src/mcp/jobs/nameCheck';
+
+const mockCheckAvailability = jest.fn();
+
+jest.mock('../../../src/services/agents/NameCheckAgent', () => ({
+  createNameCheckAgent: () => ({ checkAvailability: mockCheckAvailability }),
+}));
+
+describe('background name check jobs', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  // Resolve the next name check once the test releases it
+  const deferCheck = () => {
+    let resolve!: (value: unknown) => void;
+    mockCheckAvailability.mockImplementationOnce(() => new Promise(r => { resolve = r; }));
+    return (value: unknown) => resolve(value);
+  };
+
+  beforeEach(async () => {
+    mockCheckAvailability.mockReset();
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+  });
+
+  afterEach(async () => {
+    await waitForNameCheckJob(sessionId);
+  });
+
+  it('should start a check without waiting for it', async () => {
+    const release = deferCheck();
+
+    const result = await call('formation_set_company_name', { baseName: 'Acme' });
+
+    expect(result.nameCheck).toMatchObject({ status: 'running', companyName: 'Acme LLC' });
+    expect(mockCheckAvailability).toHaveBeenCalledWith(
+      { companyName: 'Acme LLC', state: 'DE', companyType: 'LLC' },
+      expect.objectContaining({ signal: expect.any(Object) })
+    );
+
+    release({ available: true });
+    await waitForNameCheckJob(sessionId);
+
+    const session = await store.get(sessionId);
+    expect(session!.nameCheckResult).toMatchObject({ available: true });
+    expect(session!.nameCheckJob!.status).toBe('completed');
+    expect(session!.currentStep).toBe(FormationStep.NAME_CHECKED);
+  });
+
+  it('should report the result once in the next tool response', async () => {
+    mockCheckAvailability.mockResolvedValue({ available: false, reason: 'Name is taken', suggestions: ['Acme Labs LLC'] });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await waitForNameCheckJob(sessionId);
+
+    const first = await call('formation_get_status');
+    const second = await call('formation_get_status');
+
+    expect(first.nameCheck).toMatchObject({
+      status: 'completed',
+      available: false,
+      reason: 'Name is taken',
+      suggestions: ['Acme Labs LLC'],
+    });
+    expect(second.nameCheck).toBeUndefined();
+  });
+
+  it('should not move a session that has moved on back to the name check', async () => {
+    const release = deferCheck();
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await call('formation_set_registered_agent', { useDefault: true });
+
+    release({ available: true });
+    await waitForNameCheckJob(sessionId);
+
+    const session = await store.get(sessionId);
+    expect(session!.nameCheckResult).toMatchObject({ available: true });
+    expect(session!.currentStep).not.toBe(FormationStep.NAME_CHECKED);
+  });
+
+  it('should discard the result for a name that was changed', async () => {
+    const releaseFirst = deferCheck();
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    const releaseSecond = deferCheck();
+    await call('formation_set_company_name', { baseName: 'Globex' });
+
+    releaseFirst({ available: false });
+    releaseSecond({ available: true });
+    await waitForNameCheckJob(sessionId);
+
+    const session = await store.get(sessionId);
+    expect(session!.nameCheckJob).toMatchObject({ companyName: 'Globex LLC', status: 'completed' });
+    expect(session!.nameCheckResult).toMatchObject({ available: true });
+  });
+
+  it('should record a failed check and let the formation continue', async () => {
+    mockCheckAvailability.mockRejectedValue(new Error('Service unavailable'));
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await waitForNameCheckJob(sessionId);
+
+    const status = await call('formation_get_name_check_status');
+
+    expect(status).toMatchObject({ status: 'failed', companyName: 'Acme LLC' });
+    expect(status.message).toContain('Service unavailable');
+    expect((await store.get(sessionId))!.nameCheckResult).toMatchObject({ available: false, error: true });
+  });
+
+  describe('formation_get_name_check_status', () => {
+    it('should report a running check without waiting by default', async () => {
+      const release = deferCheck();
+      await call('formation_set_company_name', { baseName: 'Acme' });
+
+      const status = await call('formation_get_name_check_status');
+
+      expect(status).toMatchObject({ status: 'running', companyName: 'Acme LLC' });
+      release({ available: true });
+    });
+
+    it('should wait for the check and not report it again afterwards', async () => {
+      const release = deferCheck();
+      await call('formation_set_company_name', { baseName: 'Acme' });
+
+      const pending = call('formation_get_name_check_status', { waitSeconds: 5 });
+      release({ available: true });
+      const status = await pending;
+
+      expect(status).toMatchObject({ status: 'completed', available: true });
+      expect((await call('formation_get_status')).nameCheck).toBeUndefined();
+    });
+
+    it('should leave a check another server is running to it', async () => {
+      const release = deferCheck();
+      await call('formation_set_company_name', { baseName: 'Acme' });
+      // The check now runs only in "another server" - its lease is still fresh
+      cancelNameCheckJob(sessionId);
+
+      const status = await call('formation_get_name_check_status');
+
+      expect(status).toMatchObject({ status: 'running', companyName: 'Acme LLC' });
+      expect(mockCheckAvailability).toHaveBeenCalledTimes(1);
+      release({ available: true });
+    });
+
+    it('should run a check again once its lease has passed', async () => {
+      const release = deferCheck();
+      await call('formation_set_company_name', { baseName: 'Acme' });
+      cancelNameCheckJob(sessionId);
+      const session = await store.get(sessionId);
+      session!.nameCheckJob!.leaseExpiresAt = new Date(Date.now() - 1000).toISOString();
+      await store.save(session!);
+      mockCheckAvailability.mockResolvedValueOnce({ available: true });
+
+      const status = await call('formation_get_name_check_status', { waitSeconds: 5 });
+
+      expect(status).toMatchObject({ status: 'completed', available: true });
+      expect(mockCheckAvailability).toHaveBeenCalledTimes(2);
+      release({ available: false });
+    });
+
+    it('should reject waits over the limit', async () => {
+      await expect(call('formation_get_name_check_status', { waitSeconds: 60 })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+    });
+
+    it('should report sessions without a background check', async () => {
+      process.env.MCP_BACKGROUND_NAME_CHECK = 'false';
+      try {
+        const result = await call('formation_set_company_name', { baseName: 'Acme' });
+        const status = await call('formation_get_name_check_status');
+
+        expect(result.nameCheck).toBeUndefined();
+        expect(status.status).toBe('not_started');
+      } finally {
+        delete process.env.MCP_BACKGROUND_NAME_CHECK;
+      }
+    });
+  });
+
+  it('should let formation_check_name wait for the running check instead of checking twice', async () => {
+    const release = deferCheck();
+    await call('formation_set_company_name', { baseName: 'Acme' });
+
+    const pending = call('formation_check_name');
+    release({ available: true });
+    const result = await pending;
+
+    expect(result).toMatchObject({ available: true, companyName: 'Acme LLC' });
+    expect(mockCheckAvailability).toHaveBeenCalledTimes(1);
+    expect((await call('formation_get_status')).nameCheck).toBeUndefined();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for OAuth 2.1 authorization of the HTTP endpoint
+ * Clients sign in with the PKCE authorization code flow against the local stand-in provider
+ */
+
+import crypto from 'crypto';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { handleProtectedResourceMetadata, handleStreamableHttp, HttpResponse } from '../../../src/mcp/protocol';
+import { createOAuthConfig, setOAuthConfig, signJwt, getResourceMetadataUrl } from '../../../src/mcp/auth';
+import { LocalIdentityProvider, OAuthProviderError, createCodeChallenge } from '../../../src/mcp/auth/local-provider';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const RESOURCE = 'http://localhost:3001/mcp';
+const REDIRECT_URI = 'http://127.0.0.1:33418/callback';
+
+describe('OAuth authorization', () => {
+  let provider: LocalIdentityProvider;
+  let store: FormationSessionStore;
+
+  const post = async (body: unknown, authorization?: string) => {
+    const res = new FakeResponse();
+    await handleStreamableHttp({
+      method: 'POST',
+      url: '/mcp',
+      headers: { host: 'localhost:3001', 'content-type': 'application/json', ...(authorization && { authorization }) },
+      body,
+    }, res, { store });
+    return res;
+  };
+
+  const startFormation = (authorization?: string) =>
+    post({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'formation_start', arguments: {} } }, authorization);
+
+  // Run the PKCE authorization code flow as an MCP client would
+  const signIn = () => {
+    const client = provider.registerClient({ client_name: 'Test Client', redirect_uris: [REDIRECT_URI] });
+    const verifier = crypto.randomBytes(32).toString('base64url');
+
+    const redirect = new URL(provider.authorize({
+      response_type: 'code',
+      client_id: client.client_id,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: createCodeChallenge(verifier),
+      code_challenge_method: 'S256',
+      state: 'xyz',
+      resource: RESOURCE,
+    }));
+
+    return { client, verifier, code: redirect.searchParams.get('code')!, state: redirect.searchParams.get('state') };
+  };
+
+  beforeAll(() => {
+    provider = new LocalIdentityProvider({ issuer: 'http://localhost:3001/oauth', userId: 'user_oauth' });
+  });
+
+  beforeEach(() => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    setOAuthConfig({
+      issuer: provider.issuer,
+      keys: provider.keys,
+      resource: RESOURCE,
+      audience: [],
+      scopes: ['formation'],
+      required: true,
+      userClaim: 'sub',
+    });
+  });
+
+  afterAll(() => {
+    setOAuthConfig(null);
+  });
+
+  describe('configuration', () => {
+    afterEach(() => {
+      delete process.env.MCP_OAUTH_ISSUER;
+      delete process.env.MCP_OAUTH_RESOURCE;
+    });
+
+    it('should require the canonical resource URL', () => {
+      process.env.MCP_OAUTH_ISSUER = 'https://auth.lovie.test';
+      expect(() => createOAuthConfig()).toThrow('Invalid MCP_OAUTH_RESOURCE');
+
+      process.env.MCP_OAUTH_RESOURCE = RESOURCE;
+      expect(createOAuthConfig()).toMatchObject({ issuer: 'https://auth.lovie.test', resource: RESOURCE });
+    });
+  });
+
+  describe('protected resource metadata', () => {
+    it('should point clients at the authorization server', () => {
+      const res = new FakeResponse();
+      handleProtectedResourceMetadata({
+        method: 'GET',
+        url: '/.well-known/oauth-protected-resource/mcp',
+        headers: { host: 'localhost:3001' },
+      }, res);
+
+      expect(res.body).toMatchObject({
+        resource: RESOURCE,
+        authorization_servers: ['http://localhost:3001/oauth'],
+        scopes_supported: ['formation'],
+      });
+    });
+
+    it('should insert the resource path after the well-known prefix', () => {
+      expect(getResourceMetadataUrl(RESOURCE)).toBe('http://localhost:3001/.well-known/oauth-protected-resource/mcp');
+    });
+  });
+
+  it('should challenge requests without a token', async () => {
+    const res = await startFormation();
+
+    expect(res.statusCode).toBe(401);
+    expect(res.headers['www-authenticate']).toBe(
+      'Bearer resource_metadata="http://localhost:3001/.well-known/oauth-protected-resource/mcp", scope="formation"'
+    );
+  });
+
+  it('should allow anonymous requests when sign-in is optional', async () => {
+    setOAuthConfig({ issuer: provider.issuer, keys: provider.keys, resource: RESOURCE, audience: [], scopes: [], required: false, userClaim: 'sub' });
+
+    const res = await startFormation();
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('should sign in with the PKCE authorization code flow', async () => {
+    const { client, verifier, code, state } = signIn();
+    expect(state).toBe('xyz');
+
+    const token = provider.exchangeCode({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: verifier,
+      client_id: client.client_id,
+      redirect_uri: REDIRECT_URI,
+      resource: RESOURCE,
+    });
+    const res = await startFormation(`Bearer ${token.access_token}`);
+
+    expect(token.token_type).toBe('Bearer');
+    expect(JSON.parse(res.body.result.content[0].text).userId).toBe('user_oauth');
+  });
+
+  it('should reject a code exchanged with the wrong verifier, and only allow one attempt', () => {
+    const { client, code } = signIn();
+    const exchange = (verifier: string) => provider.exchangeCode({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: verifier,
+      client_id: client.client_id,
+      redirect_uri: REDIRECT_URI,
+    });
+
+    expect(() => exchange(crypto.randomBytes(32).toString('base64url'))).toThrow(OAuthProviderError);
+    expect(() => exchange(crypto.randomBytes(32).toString('base64url'))).toThrow('invalid or expired');
+  });
+
+  it('should require PKCE', () => {
+    const client = provider.registerClient({ redirect_uris: [REDIRECT_URI] });
+
+    const redirect = new URL(provider.authorize({
+      response_type: 'code',
+      client_id: client.client_id,
+      redirect_uri: REDIRECT_URI,
+      resource: RESOURCE,
+    }));
+
+    expect(redirect.searchParams.get('error')).toBe('invalid_request');
+    expect(redirect.searchParams.get('code')).toBeNull();
+  });
+
+  describe('token verification', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    it('should reject tokens for another resource', async () => {
+      const { client, verifier } = signIn();
+      const other = provider.authorize({
+        response_type: 'code',
+        client_id: client.client_id,
+        redirect_uri: REDIRECT_URI,
+        code_challenge: createCodeChallenge(verifier),
+        code_challenge_method: 'S256',
+        resource: 'https://other.example.com/mcp',
+      });
+      const token = provider.exchangeCode({
+        grant_type: 'authorization_code',
+        code: new URL(other).searchParams.get('code'),
+        code_verifier: verifier,
+        client_id: client.client_id,
+        redirect_uri: REDIRECT_URI,
+      });
+
+      const res = await startFormation(`Bearer ${token.access_token}`);
+
+      expect(res.statusCode).toBe(401);
+      expect(res.headers['www-authenticate']).toContain('error="invalid_token"');
+    });
+
+    it('should not take the resource from request headers', async () => {
+      const { client, verifier } = signIn();
+      const spoofed = provider.authorize({
+        response_type: 'code',
+        client_id: client.client_id,
+        redirect_uri: REDIRECT_URI,
+        code_challenge: createCodeChallenge(verifier),
+        code_challenge_method: 'S256',
+        resource: 'https://other.example.com/mcp',
+      });
+      const token = provider.exchangeCode({
+        grant_type: 'authorization_code',
+        code: new URL(spoofed).searchParams.get('code'),
+        code_verifier: verifier,
+        client_id: client.client_id,
+        redirect_uri: REDIRECT_URI,
+      });
+
+      const res = new FakeResponse();
+      await handleStreamableHttp({
+        method: 'POST',
+        url: '/mcp',
+        headers: {
+          host: 'localhost:3001',
+          'x-forwarded-proto': 'https',
+          'x-forwarded-host': 'other.example.com',
+          'content-type': 'application/json',
+          authorization: `Bearer ${token.access_token}`,
+        },
+        body: { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'formation_start', arguments: {} } },
+      }, res, { store });
+
+      expect(res.statusCode).toBe(401);
+      expect(res.headers['www-authenticate']).toContain(getResourceMetadataUrl(RESOURCE));
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const forged = signJwt({ iss: provider.issuer, sub: 'user_oauth', aud: RESOURCE, exp: now() + 60 }, privateKey, 'forged');
+
+      const res = await startFormation(`Bearer ${forged}`);
+
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('should reject dashboard tokens once OAuth is enabled', async () => {
+      const unsigned = [
+        Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url'),
+        Buffer.from(JSON.stringify({ sub: 'user_oauth' })).toString('base64url'),
+        'x',
+      ].join('.');
+
+      const res = await startFormation(`Bearer ${unsigned}`);
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body.error.message).toContain('Unsupported signing algorithm');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Unit tests for Stripe payment verification
+ * Payments are verified against Checkout Sessions instead of trusted from the client
+ */
+
+import axios from 'axios';
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { ErrorCode } from '../../../src/mcp/errors';
+import { HttpResponse } from '../../../src/mcp/protocol';
+import {
+  LocalStripe,
+  STRIPE_SIGNATURE_HEADER,
+  StripeClient,
+  StripeEvent,
+  handleStripeWebhook,
+  setPaymentProvider,
+} from '../../../src/mcp/payments';
+import { signWebhookPayload } from '../../../src/mcp/webhooks';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const SECRET = 'whsec_test';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Cheyenne',
+  state: 'WY',
+  zipCode: '82001',
+};
+
+const json = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Stripe API response as axios resolves it
+const stripeResponse = (data: unknown, status: number = 200) =>
+  ({ data, status, statusText: '', headers: {}, config: {} });
+
+describe('payment verification', () => {
+  let store: FormationSessionStore;
+  let stripe: LocalStripe;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const deliver = async (event: StripeEvent, signature?: string) => {
+    const { body, signature: valid } = stripe.signEvent(event);
+    const res = new FakeResponse();
+    await handleStripeWebhook({
+      method: 'POST',
+      headers: { 'content-type': 'application/json', [STRIPE_SIGNATURE_HEADER]: signature ?? valid },
+    }, body, res, store);
+    return res;
+  };
+
+  // Get a payment link and pay it on the hosted checkout page
+  const pay = async () => {
+    const { paymentLink } = await call('formation_get_payment_link');
+    return stripe.pay(paymentLink.split('/').pop());
+  };
+
+  beforeEach(async () => {
+    process.env.STRIPE_WEBHOOK_SECRET = SECRET;
+    stripe = new LocalStripe({ baseUrl: 'http://localhost:3001/stripe', webhookSecret: SECRET });
+    setPaymentProvider(stripe);
+
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'WY' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await call('formation_set_company_address', { source: 'own', address });
+    await call('formation_set_registered_agent', { useDefault: true });
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+    const session = await store.get(sessionId);
+    session!.certificateData = { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z', approvedAt: '2026-01-01T00:01:00.000Z' };
+    await store.save(session!);
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  it('should not trust a client claiming the payment was made', async () => {
+    await call('formation_get_payment_link');
+
+    const result = await call('formation_confirm_payment', { paymentConfirmed: true });
+
+    expect(result).toMatchObject({ success: false, paymentStatus: 'pending', nextStep: expect.stringContaining('formation_get_payment_link') });
+    expect((await store.get(sessionId))!.paymentStatus).toBe('pending');
+  });
+
+  it('should confirm a payment found by its client_reference_id', async () => {
+    const { data } = await pay();
+    const other = await stripe.createCheckout({ clientReferenceId: 'another-session', quote: (await store.get(sessionId))!.quote! });
+    stripe.pay(other.checkoutSession.id);
+
+    const result = await call('formation_confirm_payment');
+
+    const session = await store.get(sessionId);
+    expect(result).toMatchObject({ success: true, paymentStatus: 'completed', payment: { checkoutSessionId: data.object.id, amountTotal: 10000 } });
+    expect(session!.paymentStatus).toBe('completed');
+    expect(session!.payment).toMatchObject({ verifiedBy: 'checkout', paymentIntentId: data.object.payment_intent });
+  });
+
+  it('should go from payment to submission offline', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation(async (url) => String(url).includes('railway')
+      ? json({ success: true })
+      : json({ success: true, data: { id: 42, sessionId, userId: '', companyName: 'Acme LLC', entityType: 'LLC', state: 'WY', status: 'PENDING_REVIEW', createdAt: '2026-01-01T00:00:00.000Z' } }, 201));
+
+    await expect(call('formation_submit')).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+
+    const res = await deliver(await pay());
+    const submitted = await call('formation_submit');
+
+    expect(res.body).toEqual({ received: true, outcome: 'applied' });
+    expect(submitted).toMatchObject({ success: true, submission: { id: 42 } });
+  });
+
+  it('should record a webhook payment once', async () => {
+    const event = await pay();
+
+    const first = await deliver(event);
+    const redelivered = await deliver(event);
+    const confirmed = await call('formation_confirm_payment');
+
+    expect(first.body.outcome).toBe('applied');
+    expect(redelivered.body.outcome).toBe('duplicate');
+    expect(confirmed).toMatchObject({ success: true, alreadyConfirmed: true });
+    expect((await store.get(sessionId))!.payment!.verifiedBy).toBe('webhook');
+  });
+
+  it('should reject events with a missing or wrong signature', async () => {
+    const event = await pay();
+
+    const unsigned = await deliver(event, '');
+    const forged = await deliver(event, signWebhookPayload(JSON.stringify(event), 'whsec_other'));
+
+    expect(unsigned.statusCode).toBe(401);
+    expect(forged.statusCode).toBe(401);
+    expect((await store.get(sessionId))!.paymentStatus).toBe('pending');
+  });
+
+  it('should take the payment back when it is refunded in full', async () => {
+    const paid = await pay();
+    await deliver(paid);
+    const paymentIntent = paid.data.object.payment_intent!;
+
+    const partial = await deliver(stripe.refund(paymentIntent, 1000));
+    expect(partial.body.outcome).toBe('applied');
+    expect((await store.get(sessionId))!.paymentStatus).toBe('completed');
+
+    await deliver(stripe.refund(paymentIntent));
+
+    const session = await store.get(sessionId);
+    expect(session!.paymentStatus).toBe('refunded');
+    expect(session!.payment).toMatchObject({ amountRefunded: 10000, refundedAt: expect.any(String) });
+    await expect(call('formation_submit')).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(await call('formation_confirm_payment')).toMatchObject({ success: false, paymentStatus: 'refunded' });
+  });
+
+  it('should not count any refunded payment again', async () => {
+    for (let round = 0; round < 2; round++) {
+      const paid = await pay();
+      await deliver(paid);
+      await deliver(stripe.refund(paid.data.object.payment_intent!));
+    }
+
+    const session = await store.get(sessionId);
+    expect(session!.refundedCheckoutSessionIds).toHaveLength(2);
+    expect(await call('formation_confirm_payment')).toMatchObject({ success: false, paymentStatus: 'refunded' });
+    expect((await store.get(sessionId))!.paymentStatus).toBe('refunded');
+  });
+
+  it('should ignore checkouts that are not paid yet', async () => {
+    const event = await pay();
+    event.data.object.payment_status = 'unpaid';
+
+    const res = await deliver(event);
+
+    expect(res.body.outcome).toBe('ignored');
+    expect((await store.get(sessionId))!.paymentStatus).toBe('pending');
+  });
+
+  it('should flag a payment that does not cover the quote', async () => {
+    const event = await pay();
+    event.data.object.amount_total = 5000;
+
+    const res = await deliver(event);
+
+    const session = await store.get(sessionId);
+    expect(res.body.outcome).toBe('underpaid');
+    expect(session!.paymentStatus).toBe('pending');
+    expect(session!.paymentShortfall).toMatchObject({ checkoutSessionId: event.data.object.id, amountTotal: 5000, quotedTotal: 10000 });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('less than the quoted 10000'));
+  });
+
+  it('should be disabled without a webhook secret', async () => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+
+    expect((await deliver(await pay())).statusCode).toBe(404);
+  });
+
+  it('should page through Checkout Sessions with the Stripe API', async () => {
+    const checkout = (id: string, clientReferenceId: string) => ({
+      id,
+      object: 'checkout.session',
+      client_reference_id: clientReferenceId,
+      status: 'complete',
+      payment_status: 'paid',
+      amount_total: 10000,
+      currency: 'usd',
+      payment_intent: `pi_${id}`,
+      created: 1767225600,
+    });
+    const requestMock = jest.spyOn(axios, 'request')
+      .mockResolvedValueOnce(stripeResponse({ data: [checkout('cs_1', 'another-session')], has_more: true }))
+      .mockResolvedValueOnce(stripeResponse({ data: [checkout('cs_2', sessionId)], has_more: false }));
+    setPaymentProvider(new StripeClient({ secretKey: 'sk_test', successUrl: 'https://example.com/done' }));
+
+    const result = await call('formation_confirm_payment');
+
+    const [config] = requestMock.mock.calls[1];
+    expect(result).toMatchObject({ success: true, payment: { checkoutSessionId: 'cs_2' } });
+    expect(config.url).toContain('starting_after=cs_1');
+    expect(config.headers!.Authorization).toBe('Bearer sk_test');
+  });
+
+  it('should report when Stripe cannot be reached', async () => {
+    jest.spyOn(axios, 'request').mockResolvedValue(stripeResponse({ error: { message: 'Invalid API Key provided' } }, 401));
+    setPaymentProvider(new StripeClient({ secretKey: 'sk_wrong', successUrl: 'https://example.com/done' }));
+
+    await expect(call('formation_confirm_payment')).rejects.toMatchObject({
+      code: ErrorCode.PAYMENT_VERIFICATION_FAILED,
+      message: expect.stringContaining('Invalid API Key'),
+    });
+  });
+});
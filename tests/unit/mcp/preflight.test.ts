@@ -0,0 +1,141 @@
+/**
+ * Unit tests for pre-flight validation
+ * formation_validate reports every issue using the rules payment and submission enforce
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { validateSession } from '../../../src/mcp/middleware/preflight';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Cheyenne',
+  state: 'WY',
+  zipCode: '82001',
+};
+
+describe('pre-flight validation', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const approveCertificate = async () => {
+    const session = await store.get(sessionId);
+    session!.certificateData = { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z', approvedAt: '2026-01-01T00:01:00.000Z' };
+    await store.save(session!);
+  };
+
+  const addMember = (firstName: string, ownershipPercentage: number) =>
+    call('formation_add_shareholder', {
+      shareholder: { firstName, lastName: 'Founder', email: `${firstName.toLowerCase()}@example.com`, ownershipPercentage, address },
+    });
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+  });
+
+  it('should report every missing field at once', async () => {
+    const result = await call('formation_validate');
+
+    expect(result.valid).toBe(false);
+    expect(result.stage).toBe('payment');
+    expect(result.errors.map((e: { code: string }) => e.code)).toEqual([
+      'STATE_REQUIRED',
+      'COMPANY_TYPE_REQUIRED',
+      'COMPANY_NAME_REQUIRED',
+      'COMPANY_ADDRESS_REQUIRED',
+      'REGISTERED_AGENT_REQUIRED',
+      'SHAREHOLDERS_REQUIRED',
+      'AUTHORIZED_PARTY_REQUIRED',
+      'CERTIFICATE_NOT_APPROVED',
+    ]);
+    expect(result.nextAction).toBe('formation_set_state');
+  });
+
+  describe('with a complete LLC', () => {
+    beforeEach(async () => {
+      await call('formation_set_state', { state: 'WY' });
+      await call('formation_set_company_type', { companyType: 'LLC' });
+      await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+      await call('formation_set_company_name', { baseName: 'Acme' });
+      await call('formation_set_company_address', { source: 'own', address });
+      await call('formation_set_registered_agent', { useDefault: true });
+      await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+    });
+
+    it('should report ownership that does not sum to 100 and warnings', async () => {
+      await addMember('Alice', 60);
+
+      const result = await call('formation_validate');
+
+      expect(result.errors.map((e: { code: string }) => e.code)).toEqual(['OWNERSHIP_TOTAL', 'CERTIFICATE_NOT_APPROVED']);
+      expect(result.warnings.map((w: { code: string }) => w.code)).toEqual(expect.arrayContaining([
+        'REGISTERED_AGENT_OUT_OF_STATE',
+        'NAME_NOT_CHECKED',
+      ]));
+    });
+
+    it('should let payment enforce the same rules', async () => {
+      await addMember('Alice', 60);
+
+      const error = await call('formation_get_payment_link').catch(e => e);
+
+      expect(error.code).toBe(ErrorCode.VALIDATION_ERROR);
+      expect(error.details.errors.map((e: { code: string }) => e.code)).toEqual(['OWNERSHIP_TOTAL', 'CERTIFICATE_NOT_APPROVED']);
+    });
+
+    it('should not take payment for a certificate the user has not approved', async () => {
+      await addMember('Alice', 100);
+
+      const result = await call('formation_validate');
+      const error = await call('formation_get_payment_link').catch(e => e);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e: { code: string }) => e.code)).toEqual(['CERTIFICATE_NOT_APPROVED']);
+      expect(error.code).toBe(ErrorCode.VALIDATION_ERROR);
+    });
+
+    it('should be valid for payment with only warnings', async () => {
+      await addMember('Alice', 100);
+      await approveCertificate();
+
+      const result = await call('formation_validate');
+
+      expect(result.valid).toBe(true);
+      expect(result.nextAction).toBe('formation_get_payment_link');
+    });
+
+    it('should require payment for submission', async () => {
+      await addMember('Alice', 100);
+      await approveCertificate();
+      const session = await store.get(sessionId);
+
+      const report = validateSession(session!, 'submission');
+      expect(report.errors.map(e => e.code)).toEqual(['PAYMENT_REQUIRED']);
+    });
+
+    it('should flag an expired certificate URL', async () => {
+      await addMember('Alice', 100);
+      const session = await store.get(sessionId);
+      session!.certificateData = {
+        certificateId: 'cert_1',
+        generatedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() - 60000).toISOString(),
+      };
+
+      const report = validateSession(session!, 'payment');
+      expect(report.warnings.map(w => w.code)).toContain('CERTIFICATE_URL_EXPIRED');
+    });
+  });
+
+  it('should reject unknown stages', async () => {
+    await expect(call('formation_validate', { stage: 'filing' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
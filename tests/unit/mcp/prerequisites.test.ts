@@ -0,0 +1,74 @@
+/**
+ * Unit tests for tool prerequisites
+ * handleToolCall rejects tools whose prior steps have not been completed
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep } from '../../../src/mcp/state/types';
+import { getMissingSteps } from '../../../src/mcp/middleware/prerequisites';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+describe('tool prerequisites', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+  });
+
+  it('should reject a tool called before its prerequisite step', async () => {
+    await expect(call('formation_set_entity_ending', { entityEnding: 'LLC' })).rejects.toMatchObject({
+      code: ErrorCode.SESSION_INVALID_STATE,
+      details: {
+        missingSteps: [{ step: FormationStep.TYPE_SELECTED, tool: 'formation_set_company_type' }],
+      },
+    });
+  });
+
+  it('should list every missing step in order', async () => {
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+
+    const error = await call('formation_get_payment_link').catch(e => e);
+
+    expect(error.code).toBe(ErrorCode.SESSION_INVALID_STATE);
+    expect(error.details.missingSteps.map((m: { step: string }) => m.step)).toEqual([
+      FormationStep.NAME_SET,
+      FormationStep.COMPANY_ADDRESS_SET,
+      FormationStep.AGENT_SET,
+      FormationStep.SHAREHOLDERS_ADDED,
+      FormationStep.AUTHORIZED_PARTY_SET,
+    ]);
+  });
+
+  it('should only require the share structure for corporations', async () => {
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    const llc = await store.get(sessionId);
+    expect(getMissingSteps('formation_generate_certificate', llc!)).not.toContain(FormationStep.SHARES_SET);
+
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+    const corp = await store.get(sessionId);
+    expect(getMissingSteps('formation_generate_certificate', corp!)).toContain(FormationStep.SHARES_SET);
+  });
+
+  it('should run the tool once prerequisites are met', async () => {
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+
+    const result = await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should not check tools without prerequisites', async () => {
+    const result = await call('formation_set_state', { state: 'WY' });
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the pricing engine and formation_get_quote
+ * The quote, the payment link and the pricing resource share one fee schedule
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { ErrorCode } from '../../../src/mcp/errors';
+import { getResourceContent } from '../../../src/mcp/resources/index';
+import { LocalStripe, setPaymentProvider } from '../../../src/mcp/payments';
+import { DEFAULT_STATE_FILING_FEE, PricingError, SERVICE_FEE, createQuote, estimateQuote, formatAmount, getExpediteLevels, getItemTotal } from '../../../src/services/pricing';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Dover',
+  state: 'DE',
+  zipCode: '19901',
+};
+
+describe('pricing engine', () => {
+  it('should itemize a quote', () => {
+    const quote = createQuote({ state: 'Delaware', entityType: 'LLC', expedite: '24-hour' });
+
+    expect(quote.state).toBe('DE');
+    expect(quote.items.map(item => [item.kind, item.amount])).toEqual([
+      ['service_fee', 0],
+      ['state_filing_fee', 9000],
+      ['expedite_fee', 5000],
+      ['registered_agent', 0],
+    ]);
+    expect(quote.total).toBe(14000);
+    expect(quote.processingTime).toBe('24 hours');
+  });
+
+  it('should reject what a state does not offer', () => {
+    expect(() => createQuote({ state: 'WY', entityType: 'S-Corp' })).toThrow(PricingError);
+    expect(() => createQuote({ state: 'WY', entityType: 'LLC', expedite: 'same-day' })).toThrow(/not available in Wyoming/);
+    expect(() => createQuote({ state: 'ZZ', entityType: 'LLC' })).toThrow(/No pricing for state/);
+    expect(getExpediteLevels('WY')).toEqual(['standard']);
+  });
+
+  it('should estimate states without a fee schedule from the default filing fee', () => {
+    const estimate = estimateQuote({ state: 'Nevada', entityType: 'LLC' });
+
+    expect(getItemTotal(estimate, 'state_filing_fee')).toBe(DEFAULT_STATE_FILING_FEE);
+    expect(getItemTotal(estimate, 'service_fee')).toBe(SERVICE_FEE);
+    expect(estimate.total).toBe(DEFAULT_STATE_FILING_FEE + SERVICE_FEE);
+    expect(estimateQuote({ state: 'Delaware', entityType: 'LLC' })).toEqual(createQuote({ state: 'Delaware', entityType: 'LLC' }));
+  });
+
+  it('should render the pricing resource from the fee schedule', () => {
+    const pricing = getResourceContent('formation://pricing')!;
+
+    expect(pricing).toContain(formatAmount(createQuote({ state: 'DE', entityType: 'LLC' }).total));
+    expect(pricing).toContain(formatAmount(createQuote({ state: 'WY', entityType: 'C-Corp' }).total));
+    expect(pricing).toContain('formation_get_quote');
+  });
+});
+
+describe('formation quotes', () => {
+  let store: FormationSessionStore;
+  let stripe: LocalStripe;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  beforeEach(async () => {
+    stripe = new LocalStripe({ baseUrl: 'http://localhost:3001/stripe' });
+    setPaymentProvider(stripe);
+
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await call('formation_set_company_address', { source: 'own', address });
+    await call('formation_set_registered_agent', { useDefault: true });
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+    const session = await store.get(sessionId);
+    session!.certificateData = { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z', approvedAt: '2026-01-01T00:01:00.000Z' };
+    await store.save(session!);
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should quote before a session is started', async () => {
+    const result = await handleToolCall('formation_get_quote', { state: 'WY', companyType: 'LLC' }, store) as any;
+
+    expect(result.quote).toMatchObject({ state: 'WY', entityType: 'LLC', total: 10000, totalDisplay: '$100.00' });
+    expect(result.availableExpediteLevels).toEqual([{ level: 'standard', description: 'Standard filing' }]);
+    await expect(handleToolCall('formation_get_quote', { state: 'WY' }, store)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_REQUIRED_FIELD });
+    await expect(handleToolCall('formation_get_quote', { state: 'WY', companyType: 'C-Corp' }, store))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { field: 'companyType' } });
+  });
+
+  it('should quote the session and reject expedite levels the state does not offer', async () => {
+    const result = await call('formation_get_quote', { expedite: 'same-day' });
+
+    expect(result.quote).toMatchObject({ state: 'DE', entityType: 'LLC', expedite: 'same-day', total: 19000 });
+    await expect(call('formation_get_quote', { state: 'WY', expedite: 'same-day' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { field: 'expedite' } });
+  });
+
+  it('should charge the quoted total on the payment link', async () => {
+    const quoted = await call('formation_get_quote', { expedite: '24-hour' });
+    const link = await call('formation_get_payment_link', { expedite: '24-hour' });
+
+    const event = stripe.pay(link.paymentLink.split('/').pop());
+
+    expect(link.quote.total).toBe(quoted.quote.total);
+    expect(event.data.object.amount_total).toBe(14000);
+    expect((await store.get(sessionId))!.quote).toMatchObject({ expedite: '24-hour', total: 14000 });
+    expect(await call('formation_get_quote')).toMatchObject({ quote: { expedite: '24-hour' } });
+  });
+
+  it('should not accept a payment for an earlier, cheaper quote', async () => {
+    const standard = await call('formation_get_payment_link');
+    await call('formation_get_payment_link', { expedite: 'same-day' });
+    stripe.pay(standard.paymentLink.split('/').pop());
+
+    const result = await call('formation_confirm_payment');
+
+    expect(result).toMatchObject({ success: false, message: expect.stringContaining('does not cover the current quote of $190.00') });
+    expect((await store.get(sessionId))!.paymentStatus).toBe('pending');
+    expect((await store.get(sessionId))!.paymentShortfall).toMatchObject({ amountTotal: 9000, quotedTotal: 19000 });
+  });
+});
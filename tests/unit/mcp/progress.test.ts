@@ -0,0 +1,217 @@
+/**
+ * Unit tests for progress notifications and cancellation of tool calls
+ * Long-running tools report progress and leave the session unchanged when cancelled
+ */
+
+import { handleToolCall, trackProgress, ToolCallContext } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep } from '../../../src/mcp/state/types';
+import { ErrorCode } from '../../../src/mcp/errors';
+import { dispatch, DispatchContext, JsonRpcId } from '../../../src/mcp/protocol';
+import { createAuthContext } from '../../../src/mcp/auth';
+
+const mockCheckAvailability = jest.fn();
+const mockGenerateCertificate = jest.fn();
+
+jest.mock('../../../src/services/agents/NameCheckAgent', () => ({
+  createNameCheckAgent: () => ({ checkAvailability: mockCheckAvailability }),
+}));
+
+jest.mock('../../../src/services/certificate/api', () => ({
+  CertificateApiClient: jest.fn().mockImplementation(() => ({
+    generateCertificate: mockGenerateCertificate,
+    getMinutesRemaining: () => 60,
+  })),
+}));
+
+const address = {
+  street1: '123 Main St',
+  city: 'Dover',
+  state: 'DE',
+  zipCode: '19901',
+};
+
+describe('progress and cancellation', () => {
+  let store: FormationSessionStore;
+  let context: DispatchContext;
+  let notify: jest.Mock;
+  let sessionId: string;
+
+  const checkName = (id: JsonRpcId, meta?: Record<string, unknown>) => dispatch({
+    jsonrpc: '2.0',
+    id,
+    method: 'tools/call',
+    params: { name: 'formation_check_name', arguments: { sessionId }, ...(meta && { _meta: meta }) },
+  }, context) as Promise<any>;
+
+  const progressNotifications = () => notify.mock.calls
+    .map(([notification]) => notification)
+    .filter(notification => notification.method === 'notifications/progress');
+
+  // Name checks in these tests are started explicitly, not in the background
+  beforeAll(() => {
+    process.env.MCP_BACKGROUND_NAME_CHECK = 'false';
+  });
+
+  afterAll(() => {
+    delete process.env.MCP_BACKGROUND_NAME_CHECK;
+  });
+
+  beforeEach(async () => {
+    mockCheckAvailability.mockReset();
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    notify = jest.fn();
+    context = { store, notify, requests: new Map() };
+
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+    for (const [name, args] of [
+      ['formation_set_state', { state: 'DE' }],
+      ['formation_set_company_type', { companyType: 'LLC' }],
+      ['formation_set_entity_ending', { entityEnding: 'LLC' }],
+      ['formation_set_company_name', { baseName: 'Acme' }],
+    ] as const) {
+      await handleToolCall(name, { sessionId, ...args }, store);
+    }
+  });
+
+  describe('notifications/progress', () => {
+    it('should report progress for the request progress token', async () => {
+      mockCheckAvailability.mockResolvedValue({ available: true });
+
+      const response = await checkName(1, { progressToken: 'check-1' });
+
+      expect(response.result.isError).toBeUndefined();
+      const notifications = progressNotifications();
+      expect(notifications.map(n => n.params.progress)).toEqual([0, 95]);
+      expect(notifications[0].params).toMatchObject({ progressToken: 'check-1', total: 100 });
+    });
+
+    it('should not report progress without a progress token', async () => {
+      mockCheckAvailability.mockResolvedValue({ available: true });
+
+      await checkName(1);
+
+      expect(progressNotifications()).toEqual([]);
+    });
+
+    it('should send increasing heartbeats while waiting', async () => {
+      jest.useFakeTimers();
+      const reportProgress = jest.fn();
+      const toolContext: ToolCallContext = { signal: new AbortController().signal, reportProgress, auth: createAuthContext() };
+      let resolve!: (value: string) => void;
+
+      const tracked = trackProgress(toolContext, new Promise<string>(r => { resolve = r; }), {
+        from: 0, to: 90, total: 100, expectedMs: 20000, message: 'Waiting',
+      });
+      jest.advanceTimersByTime(15000);
+      resolve('done');
+
+      await expect(tracked).resolves.toBe('done');
+      const progress = reportProgress.mock.calls.map(([value]) => value);
+      expect(progress).toHaveLength(4);
+      expect(progress).toEqual([...progress].sort((a, b) => a - b));
+      expect(Math.max(...progress)).toBeLessThan(90);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('notifications/cancelled', () => {
+    it('should abort the name check and leave the session unchanged', async () => {
+      mockCheckAvailability.mockImplementation((_request, options: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () => reject(new Error('canceled')));
+        }));
+
+      const pending = checkName('check-1');
+      await new Promise(resolve => setImmediate(resolve));
+      await dispatch({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 'check-1', reason: 'User changed their mind' },
+      }, context);
+
+      expect(await pending).toBeNull();
+      const session = await store.get(sessionId);
+      expect(session!.nameCheckResult).toBeUndefined();
+      expect(session!.currentStep).toBe(FormationStep.NAME_SET);
+      expect(context.requests!.size).toBe(0);
+    });
+
+    it('should discard a result that arrives after cancellation', async () => {
+      let resolveCheck!: (value: unknown) => void;
+      mockCheckAvailability.mockImplementation(() => new Promise(resolve => { resolveCheck = resolve; }));
+
+      const pending = checkName(2);
+      await new Promise(resolve => setImmediate(resolve));
+      context.requests!.get(2)!.abort();
+      resolveCheck({ available: true });
+
+      expect(await pending).toBeNull();
+      expect((await store.get(sessionId))!.nameCheckResult).toBeUndefined();
+    });
+  });
+
+  describe('certificate generation', () => {
+    const certificate = {
+      certificateId: 'cert_1',
+      downloadUrl: 'https://example.com/cert_1.pdf',
+      s3Uri: 's3://certificates/cert_1.pdf',
+      expiresAt: '2026-01-01T01:00:00.000Z',
+      metadata: { generatedAt: '2026-01-01T00:00:00.000Z', fileSize: 1024, fileHash: 'abc' },
+    };
+
+    beforeEach(async () => {
+      mockCheckAvailability.mockResolvedValue({ available: true });
+      mockGenerateCertificate.mockReset();
+      for (const [name, args] of [
+        ['formation_check_name', {}],
+        ['formation_set_company_address', { source: 'own', address }],
+        ['formation_set_registered_agent', { useDefault: true }],
+        ['formation_add_shareholder', {
+          shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+        }],
+        ['formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' }],
+      ] as const) {
+        await handleToolCall(name, { sessionId, ...args }, store);
+      }
+    });
+
+    it('should save the generated certificate', async () => {
+      mockGenerateCertificate.mockResolvedValue(certificate);
+
+      await handleToolCall('formation_generate_certificate', { sessionId }, store);
+
+      expect((await store.get(sessionId))!.certificateData).toMatchObject({ certificateId: 'cert_1' });
+    });
+
+    it('should not save a certificate for data that changed during generation', async () => {
+      mockGenerateCertificate.mockImplementation(async () => {
+        await handleToolCall('formation_set_registered_agent', {
+          sessionId,
+          useDefault: false,
+          agent: { name: 'Agent Co', email: 'agent@example.com', phone: '555-555-5555', address },
+        }, store);
+        return certificate;
+      });
+
+      await expect(handleToolCall('formation_generate_certificate', { sessionId }, store))
+        .rejects.toMatchObject({ code: ErrorCode.SESSION_CONFLICT });
+      expect((await store.get(sessionId))!.certificateData).toBeUndefined();
+    });
+
+    it('should save the certificate when data it does not show changed during generation', async () => {
+      mockGenerateCertificate.mockImplementation(async () => {
+        await handleToolCall('formation_set_authorized_party', { sessionId, name: 'Bob Founder', title: 'Member' }, store);
+        return certificate;
+      });
+
+      await handleToolCall('formation_generate_certificate', { sessionId }, store);
+
+      const session = await store.get(sessionId);
+      expect(session!.certificateData).toMatchObject({ certificateId: 'cert_1' });
+      expect(session!.authorizedParty).toMatchObject({ name: 'Bob Founder' });
+    });
+  });
+});
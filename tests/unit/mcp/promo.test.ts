@@ -0,0 +1,248 @@
+/**
+ * Unit tests for promo codes
+ * Codes discount the quote, the payment link charges the discounted total and paid
+ * formations count towards the code's usage limit
+ */
+
+import axios from 'axios';
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { ErrorCode } from '../../../src/mcp/errors';
+import { LocalStripe, StripeClient, setPaymentProvider } from '../../../src/mcp/payments';
+import { PROMO_RESERVATION_MS, countRedemptions, createPromoCodes, parsePromoCodes, setPromoCodes } from '../../../src/mcp/promo';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Dover',
+  state: 'DE',
+  zipCode: '19901',
+};
+
+// Stripe API response as axios resolves it
+const stripeResponse = (data: unknown, status: number = 200) =>
+  ({ data, status, statusText: '', headers: {}, config: {} });
+
+describe('promo code configuration', () => {
+  afterEach(() => {
+    delete process.env.MCP_PROMO_CODES;
+  });
+
+  it('should read codes from MCP_PROMO_CODES', () => {
+    process.env.MCP_PROMO_CODES = JSON.stringify([
+      { code: 'accel100', percentOff: 100, maxRedemptions: 50, entityTypes: ['C-Corp'] },
+      { code: 'LAWFIRM', amountOff: 2500, expiresAt: '2027-01-01' },
+    ]);
+
+    expect(createPromoCodes().map(promo => promo.code)).toEqual(['ACCEL100', 'LAWFIRM']);
+  });
+
+  it('should reject invalid codes', () => {
+    expect(() => parsePromoCodes('{')).toThrow('Invalid MCP_PROMO_CODES');
+    expect(() => parsePromoCodes('[{"code":"HALF"}]')).toThrow('set one of percentOff or amountOff');
+    expect(() => parsePromoCodes('[{"code":"HALF","percentOff":150}]')).toThrow('Invalid MCP_PROMO_CODES at 0.percentOff');
+    expect(() => parsePromoCodes('[{"code":"HALF","percentOff":50},{"code":"half","amountOff":100}]')).toThrow('HALF is defined twice');
+  });
+});
+
+describe('promo codes', () => {
+  let store: FormationSessionStore;
+  let stripe: LocalStripe;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  // A Delaware LLC ready for payment ($90 filing fee)
+  const startFormation = async () => {
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    const id = started.sessionId;
+    const step = (name: string, args: Record<string, unknown>) => handleToolCall(name, { sessionId: id, ...args }, store);
+
+    await step('formation_set_state', { state: 'DE' });
+    await step('formation_set_company_type', { companyType: 'LLC' });
+    await step('formation_set_entity_ending', { entityEnding: 'LLC' });
+    await step('formation_set_company_name', { baseName: 'Acme' });
+    await step('formation_set_company_address', { source: 'own', address });
+    await step('formation_set_registered_agent', { useDefault: true });
+    await step('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await step('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+    const session = await store.get(id);
+    session!.certificateData = { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z', approvedAt: '2026-01-01T00:01:00.000Z' };
+    await store.save(session!);
+    return id;
+  };
+
+  beforeEach(async () => {
+    stripe = new LocalStripe({ baseUrl: 'http://localhost:3001/stripe' });
+    setPaymentProvider(stripe);
+    setPromoCodes([
+      { code: 'HALF', percentOff: 50, description: 'Accelerator batch discount' },
+      { code: 'WAIVED', percentOff: 100, maxRedemptions: 1 },
+      { code: 'ONCE', percentOff: 50, maxRedemptions: 1 },
+      { code: 'CORPONLY', amountOff: 2000, entityTypes: ['C-Corp'] },
+      { code: 'OLD', amountOff: 2000, expiresAt: '2020-01-01T00:00:00.000Z' },
+    ]);
+
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    sessionId = await startFormation();
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setPromoCodes([]);
+    jest.restoreAllMocks();
+  });
+
+  it('should discount the quote and charge the discounted total', async () => {
+    const applied = await call('formation_apply_promo_code', { code: 'half' });
+    const quoted = await call('formation_get_quote');
+    const link = await call('formation_get_payment_link');
+
+    stripe.pay(link.paymentLink.split('/').pop());
+    await call('formation_confirm_payment');
+
+    expect(applied).toMatchObject({ promoCode: 'HALF', description: 'Accelerator batch discount', quote: { total: 4500 } });
+    expect(quoted.quote.items).toContainEqual(expect.objectContaining({ kind: 'discount', amount: -4500, display: '-$45.00' }));
+    expect(link.quote).toMatchObject({ total: 4500, promoCode: 'HALF' });
+    expect((await store.get(sessionId))!.promo).toMatchObject({ code: 'HALF', redeemedAt: expect.any(String) });
+    expect(await countRedemptions(store, 'HALF')).toBe(1);
+  });
+
+  it('should reject codes that do not exist, expired or do not cover the company type', async () => {
+    await expect(call('formation_apply_promo_code', { code: 'NOPE' }))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, details: { reason: 'the code does not exist' } });
+    await expect(call('formation_apply_promo_code', { code: 'OLD' }))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, message: expect.stringContaining('expired') });
+    await expect(call('formation_apply_promo_code', { code: 'CORPONLY' }))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, message: expect.stringContaining('only covers C-Corp') });
+    expect((await store.get(sessionId))!.promo).toBeUndefined();
+  });
+
+  it('should waive the payment and enforce the usage limit', async () => {
+    await call('formation_apply_promo_code', { code: 'WAIVED' });
+    const other = await startFormation();
+    await handleToolCall('formation_apply_promo_code', { sessionId: other, code: 'WAIVED' }, store);
+
+    const link = await call('formation_get_payment_link');
+
+    expect(link).toMatchObject({ paymentRequired: false, quote: { total: 0 } });
+    expect(link.paymentLink).toBeUndefined();
+    expect((await store.get(sessionId))!.paymentStatus).toBe('completed');
+    expect(await call('formation_confirm_payment')).toMatchObject({ success: true, paymentStatus: 'completed' });
+    await expect(handleToolCall('formation_get_payment_link', { sessionId: other }, store))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, details: { reason: 'the code has been used up' } });
+    expect(await handleToolCall('formation_get_quote', { sessionId: other }, store))
+      .toMatchObject({ quote: { total: 9000 }, promoCodeWarning: expect.stringContaining('used up') });
+  });
+
+  it('should hold a redemption for an unpaid payment link until the link expires', async () => {
+    await call('formation_apply_promo_code', { code: 'ONCE' });
+    const other = await startFormation();
+    await handleToolCall('formation_apply_promo_code', { sessionId: other, code: 'ONCE' }, store);
+
+    const link = await call('formation_get_payment_link');
+
+    expect((await store.get(sessionId))!.promo).toMatchObject({ code: 'ONCE', reservedUntil: expect.any(String) });
+    await expect(handleToolCall('formation_get_payment_link', { sessionId: other }, store))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, details: { reason: 'the code has been used up' } });
+    expect(await call('formation_get_payment_link')).toMatchObject({ paymentRequired: true });
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + PROMO_RESERVATION_MS + 1000);
+
+    expect(() => stripe.pay(link.paymentLink.split('/').pop())).toThrow('expired');
+    expect(await handleToolCall('formation_get_payment_link', { sessionId: other }, store)).toMatchObject({ paymentRequired: true });
+  });
+
+  it('should keep counting a redemption after its session is deleted', async () => {
+    await call('formation_apply_promo_code', { code: 'WAIVED' });
+    await call('formation_get_payment_link');
+    await store.delete(sessionId);
+
+    const other = await startFormation();
+    await expect(handleToolCall('formation_apply_promo_code', { sessionId: other, code: 'WAIVED' }, store))
+      .rejects.toMatchObject({ code: ErrorCode.PROMO_CODE_INVALID, details: { reason: 'the code has been used up' } });
+    expect(await countRedemptions(store, 'WAIVED')).toBe(1);
+  });
+
+  it('should count a redemption paid through a payment link', async () => {
+    await call('formation_apply_promo_code', { code: 'ONCE' });
+    const link = await call('formation_get_payment_link');
+    stripe.pay(link.paymentLink.split('/').pop());
+    await call('formation_confirm_payment');
+    await store.delete(sessionId);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + PROMO_RESERVATION_MS + 1000);
+
+    expect(await countRedemptions(store, 'ONCE')).toBe(1);
+  });
+
+  it('should let only one of two concurrent formations take the last redemption', async () => {
+    await call('formation_apply_promo_code', { code: 'WAIVED' });
+    const other = await startFormation();
+    await handleToolCall('formation_apply_promo_code', { sessionId: other, code: 'WAIVED' }, store);
+
+    const results = await Promise.allSettled([
+      call('formation_get_payment_link'),
+      handleToolCall('formation_get_payment_link', { sessionId: other }, store),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { code: ErrorCode.PROMO_CODE_INVALID } });
+    expect(await countRedemptions(store, 'WAIVED')).toBe(1);
+  });
+
+  it('should remove a code and freeze it once paid', async () => {
+    await call('formation_apply_promo_code', { code: 'HALF' });
+    const removed = await call('formation_apply_promo_code', { remove: true });
+    await call('formation_apply_promo_code', { code: 'WAIVED' });
+    await call('formation_get_payment_link');
+
+    expect(removed).toMatchObject({ promoCode: null, quote: { total: 9000 } });
+    await expect(call('formation_apply_promo_code', { code: 'HALF' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+
+  it('should not change the code of a formation paid while the code was applied', async () => {
+    await call('formation_apply_promo_code', { code: 'HALF' });
+    const unpaid = await store.get(sessionId);
+    const session = await store.get(sessionId);
+    session!.paymentStatus = 'completed';
+    await store.save(session!);
+    // The tool call checks and loads the session before the payment lands
+    jest.spyOn(store, 'get').mockResolvedValueOnce(unpaid).mockResolvedValueOnce(unpaid);
+
+    await expect(call('formation_apply_promo_code', { remove: true }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect((await store.get(sessionId))!.promo).toMatchObject({ code: 'HALF' });
+  });
+
+  it('should charge a discounted quote as one Stripe line item', async () => {
+    const requestMock = jest.spyOn(axios, 'request').mockResolvedValue(stripeResponse({
+      id: 'cs_1',
+      object: 'checkout.session',
+      client_reference_id: sessionId,
+      status: 'open',
+      payment_status: 'unpaid',
+      amount_total: 4500,
+      currency: 'usd',
+      payment_intent: null,
+      url: 'https://checkout.stripe.com/c/pay/cs_1',
+      created: 1767225600,
+    }));
+    setPaymentProvider(new StripeClient({ secretKey: 'sk_test', successUrl: 'https://example.com/done' }));
+    await call('formation_apply_promo_code', { code: 'HALF' });
+
+    const link = await call('formation_get_payment_link');
+
+    const body = new URLSearchParams(String(requestMock.mock.calls[0][0].data));
+    expect(link.paymentLink).toBe('https://checkout.stripe.com/c/pay/cs_1');
+    expect(body.get('line_items[0][price_data][unit_amount]')).toBe('4500');
+    expect(body.get('line_items[0][price_data][product_data][name]')).toContain('promo code HALF');
+    expect(body.has('line_items[1][quantity]')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for MCP prompts
+ * Guided prompts embed formation resources and the tool sequence for the flow
+ */
+
+import { getAllPrompts, getPrompt, getPromptDefinition, getToolSequence } from '../../../src/mcp/prompts/index';
+import { dispatch, JsonRpcErrorCode } from '../../../src/mcp/protocol';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { getAllTools } from '../../../src/mcp/tools/index';
+
+describe('prompts', () => {
+  describe('getToolSequence', () => {
+    it('should only reference registered tools', () => {
+      const toolNames = getAllTools().map(tool => tool.name);
+
+      for (const tool of [...getToolSequence('C-Corp'), ...getToolSequence('LLC')]) {
+        expect(toolNames).toContain(tool);
+      }
+    });
+
+    it('should skip the share structure for LLCs and pay before submitting', () => {
+      const sequence = getToolSequence('LLC');
+
+      expect(sequence).not.toContain('formation_set_share_structure');
+      expect(sequence.slice(-4)).toEqual([
+        'formation_validate',
+        'formation_get_payment_link',
+        'formation_confirm_payment',
+        'formation_submit',
+      ]);
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should embed resources before the instructions', () => {
+      const prompt = getPrompt('form_delaware_c_corp', { companyName: 'Acme', founders: 'Alice 60%, Bob 40%' })!;
+      const last = prompt.messages[prompt.messages.length - 1];
+
+      expect(prompt.messages[0].content).toMatchObject({ type: 'resource', resource: { uri: 'formation://guide' } });
+      expect(last.content.type).toBe('text');
+      expect((last.content as { text: string }).text).toContain('baseName "Acme"');
+      expect((last.content as { text: string }).text).toContain('Alice 60%, Bob 40%');
+    });
+
+    it('should use the given session ID when resuming', () => {
+      const prompt = getPrompt('resume_formation', { sessionId: 'abc-123' })!;
+      const text = (prompt.messages[prompt.messages.length - 1].content as { text: string }).text;
+
+      expect(text).toContain('`formation_resume` with sessionId "abc-123"');
+    });
+
+    it('should return null for unknown prompts', () => {
+      expect(getPrompt('missing')).toBeNull();
+      expect(getPrompt('constructor')).toBeNull();
+      expect(getPromptDefinition('toString')).toBeNull();
+    });
+  });
+
+  describe('prompts/* methods', () => {
+    const context = () => ({ store: new FormationSessionStore(new MemoryStorageAdapter()) });
+
+    it('should list prompts and advertise the capability', async () => {
+      const [init, list] = await Promise.all([
+        dispatch({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, context()),
+        dispatch({ jsonrpc: '2.0', id: 2, method: 'prompts/list' }, context()),
+      ]) as any[];
+
+      expect(init.result.capabilities.prompts).toBeDefined();
+      expect(list.result.prompts).toEqual(getAllPrompts());
+    });
+
+    it('should reject unknown prompt names', async () => {
+      const response = await dispatch(
+        { jsonrpc: '2.0', id: 1, method: 'prompts/get', params: { name: 'missing' } },
+        context()
+      ) as any;
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.INVALID_PARAMS);
+    });
+  });
+});
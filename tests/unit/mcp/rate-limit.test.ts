@@ -0,0 +1,196 @@
+/**
+ * Unit tests for rate limits and request body limits on the public endpoints
+ */
+
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { dispatch, handleStreamableHttp, getClientIp, DispatchContext, HttpRequest, HttpResponse } from '../../../src/mcp/protocol';
+import { createAuthContext } from '../../../src/mcp/auth';
+import { MemoryRateLimitStore, setRateLimitStore } from '../../../src/mcp/ratelimit';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const ENV_VARS = ['MCP_RATE_LIMIT', 'MCP_RATE_LIMIT_IP', 'MCP_RATE_LIMIT_USER', 'MCP_RATE_LIMIT_TOOLS', 'MCP_MAX_BODY_BYTES', 'MCP_TRUST_PROXY'];
+
+const toolCall = (name: string, args: Record<string, unknown> = {}) =>
+  ({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+
+const resultOf = (response: any) => JSON.parse(response.result.content[0].text);
+
+describe('rate limiting', () => {
+  let store: FormationSessionStore;
+
+  beforeEach(() => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    for (const name of ENV_VARS) delete process.env[name];
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    const rule = { capacity: 2, periodMs: 60000 };
+
+    it('should allow a burst up to the capacity', async () => {
+      const limits = new MemoryRateLimitStore();
+
+      expect(await limits.take('a', rule, 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+      expect(await limits.take('a', rule, 0)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+      expect(await limits.take('a', rule, 0)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 30000 });
+      expect((await limits.take('b', rule, 0)).allowed).toBe(true);
+    });
+
+    it('should refill the bucket over the period', async () => {
+      const limits = new MemoryRateLimitStore();
+      await limits.take('a', rule, 0);
+      await limits.take('a', rule, 0);
+
+      expect((await limits.take('a', rule, 10000)).retryAfterMs).toBe(20000);
+      expect((await limits.take('a', rule, 30000)).allowed).toBe(true);
+    });
+  });
+
+  describe('tool calls', () => {
+    const call = async (context: DispatchContext, name: string) => resultOf(await dispatch(toolCall(name), context));
+
+    it('should limit calls of a tool per caller', async () => {
+      process.env.MCP_RATE_LIMIT_TOOLS = 'formation_start=1/60';
+
+      await call({ store, clientIp: '203.0.113.5' }, 'formation_start');
+      const limited = await call({ store, clientIp: '203.0.113.5' }, 'formation_start');
+      const other = await call({ store, clientIp: '203.0.113.6' }, 'formation_start');
+
+      expect(limited).toMatchObject({
+        code: 'RATE_LIMITED',
+        retryable: true,
+        details: { scope: 'tool', tool: 'formation_start', retryAfter: 60 },
+      });
+      expect(other.sessionId).toBeDefined();
+    });
+
+    it('should limit tool calls per user across connections', async () => {
+      process.env.MCP_RATE_LIMIT_USER = '2/60';
+      const asUser = (userId: string): DispatchContext => {
+        const auth = createAuthContext();
+        auth.userId = userId;
+        auth.storedAt = Date.now();
+        return { store, auth, clientIp: '203.0.113.5' };
+      };
+
+      await call(asUser('user_alice'), 'formation_start');
+      await call(asUser('user_alice'), 'formation_start');
+
+      expect((await call(asUser('user_alice'), 'formation_start')).details.scope).toBe('user');
+      expect((await call(asUser('user_bob'), 'formation_start')).sessionId).toBeDefined();
+    });
+
+    it('should limit a tool per IP whichever user calls it', async () => {
+      process.env.MCP_RATE_LIMIT_TOOLS = 'formation_start=1/60';
+      const asUser = (userId: string): DispatchContext => {
+        const auth = createAuthContext();
+        auth.userId = userId;
+        auth.storedAt = Date.now();
+        return { store, auth, clientIp: '203.0.113.5' };
+      };
+
+      await call(asUser('user_alice'), 'formation_start');
+
+      expect((await call(asUser('user_bob'), 'formation_start')).details).toMatchObject({ scope: 'tool', tool: 'formation_start' });
+    });
+
+    it('should not limit local connections', async () => {
+      process.env.MCP_RATE_LIMIT_TOOLS = 'formation_start=1/60';
+
+      await call({ store, local: true }, 'formation_start');
+
+      expect((await call({ store, local: true }, 'formation_start')).sessionId).toBeDefined();
+    });
+
+    it('should let calls through when the counter store fails', async () => {
+      process.env.MCP_RATE_LIMIT_TOOLS = 'formation_start=1/60';
+      setRateLimitStore({ take: async () => { throw new Error('store unavailable'); } });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await call({ store, clientIp: '203.0.113.5' }, 'formation_start');
+
+      expect((await call({ store, clientIp: '203.0.113.5' }, 'formation_start')).sessionId).toBeDefined();
+    });
+  });
+
+  describe('HTTP requests', () => {
+    const post = async (req: Partial<HttpRequest> = {}) => {
+      const res = new FakeResponse();
+      await handleStreamableHttp({
+        method: 'POST',
+        body: toolCall('formation_list_info_topics'),
+        socket: { remoteAddress: '203.0.113.5' },
+        ...req,
+        headers: { 'content-type': 'application/json', ...req.headers },
+      }, res, { store });
+      return res;
+    };
+
+    it('should answer 429 with Retry-After when a client IP sends too many requests', async () => {
+      process.env.MCP_RATE_LIMIT_IP = '1/30';
+
+      expect((await post()).statusCode).toBe(200);
+      const res = await post();
+
+      expect(res.statusCode).toBe(429);
+      expect(res.headers['retry-after']).toBe('30');
+      expect(res.body.error.data).toMatchObject({ code: 'RATE_LIMITED', details: { scope: 'ip', retryAfter: 30 } });
+    });
+
+    it('should not trust X-Forwarded-For unless configured to', () => {
+      const req: HttpRequest = { headers: { 'x-forwarded-for': '198.51.100.1, 10.0.0.1' }, socket: { remoteAddress: '10.0.0.1' } };
+
+      expect(getClientIp(req)).toBe('10.0.0.1');
+      process.env.MCP_TRUST_PROXY = 'true';
+      expect(getClientIp(req)).toBe('198.51.100.1');
+    });
+
+    it('should reject bodies over the size limit', async () => {
+      process.env.MCP_MAX_BODY_BYTES = '1000';
+
+      const declared = await post({ headers: { 'content-length': '5000' } });
+      const chunked = await post({ body: toolCall('formation_list_info_topics', { padding: 'x'.repeat(2000) }) });
+
+      expect(declared.statusCode).toBe(413);
+      expect(chunked.statusCode).toBe(413);
+      expect((await post()).statusCode).toBe(200);
+    });
+
+    it('should reject an invalid limit setting', async () => {
+      process.env.MCP_RATE_LIMIT_IP = 'lots';
+
+      await expect(post()).rejects.toThrow('Invalid MCP_RATE_LIMIT_IP');
+    });
+  });
+});
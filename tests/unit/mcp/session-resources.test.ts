@@ -0,0 +1,123 @@
+/**
+ * Unit tests for session resource templates and resource subscriptions
+ * Session resources render live session data and notify subscribers on save
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { dispatch, DispatchContext, JsonRpcErrorCode } from '../../../src/mcp/protocol';
+import { parseSessionResourceUri } from '../../../src/mcp/resources/index';
+
+describe('session resources', () => {
+  let store: FormationSessionStore;
+  let context: DispatchContext;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const rpc = (method: string, params: Record<string, unknown> = {}) =>
+    dispatch({ jsonrpc: '2.0', id: 1, method, params }, context) as Promise<any>;
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    context = { store };
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+    await call('formation_set_entity_ending', { entityEnding: 'Inc.' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+  });
+
+  it('should list the session resource templates', async () => {
+    const response = await rpc('resources/templates/list');
+
+    expect(response.result.resourceTemplates.map((t: { uriTemplate: string }) => t.uriTemplate)).toEqual([
+      'formation://session/{sessionId}/summary',
+      'formation://session/{sessionId}/certificate',
+      'formation://session/{sessionId}/checklist',
+    ]);
+  });
+
+  it('should parse only known session views', () => {
+    expect(parseSessionResourceUri(`formation://session/${sessionId}/summary`)).toEqual({ sessionId, view: 'summary' });
+    expect(parseSessionResourceUri(`formation://session/${sessionId}/unknown`)).toBeNull();
+    expect(parseSessionResourceUri(`formation://session/${sessionId}/constructor`)).toBeNull();
+    expect(parseSessionResourceUri('formation://guide')).toBeNull();
+  });
+
+  it('should render the summary from live session data', async () => {
+    const response = await rpc('resources/read', { uri: `formation://session/${sessionId}/summary` });
+    const [content] = response.result.contents;
+
+    expect(content.mimeType).toBe('text/markdown');
+    expect(content.text).toContain('# Acme Inc.');
+    expect(content.text).toContain('**Type:** C-Corp');
+  });
+
+  it('should render the certificate status as JSON', async () => {
+    const response = await rpc('resources/read', { uri: `formation://session/${sessionId}/certificate` });
+    const certificate = JSON.parse(response.result.contents[0].text);
+
+    expect(certificate).toMatchObject({ status: 'not_generated', nextAction: 'formation_generate_certificate' });
+  });
+
+  it('should list remaining steps and blocking errors in the checklist', async () => {
+    const response = await rpc('resources/read', { uri: `formation://session/${sessionId}/checklist` });
+    const { text } = response.result.contents[0];
+
+    expect(text).toContain('`formation_add_shareholder`');
+    expect(text).toContain('## Blocking Payment');
+  });
+
+  it('should report missing sessions as missing resources', async () => {
+    const response = await rpc('resources/read', { uri: 'formation://session/missing/summary' });
+
+    expect(response.error).toMatchObject({
+      code: JsonRpcErrorCode.RESOURCE_NOT_FOUND,
+      data: { code: 'SESSION_NOT_FOUND' },
+    });
+  });
+
+  describe('resources/subscribe', () => {
+    it('should require a persistent connection', async () => {
+      const response = await rpc('resources/subscribe', { uri: `formation://session/${sessionId}/summary` });
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.INVALID_REQUEST);
+    });
+
+    it('should notify when the session is saved until unsubscribed', async () => {
+      const notify = jest.fn();
+      context = { store, notify, subscriptions: new Map() };
+      const uri = `formation://session/${sessionId}/summary`;
+
+      await rpc('resources/subscribe', { uri });
+      await call('formation_set_share_structure', {});
+
+      expect(notify).toHaveBeenCalledWith({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri },
+      });
+
+      notify.mockClear();
+      await rpc('resources/unsubscribe', { uri });
+      await call('formation_set_company_name', { baseName: 'Globex' });
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should ignore saves of other sessions', async () => {
+      const notify = jest.fn();
+      context = { store, notify, subscriptions: new Map() };
+
+      await rpc('resources/subscribe', { uri: `formation://session/${sessionId}/checklist` });
+      const other = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+      await handleToolCall('formation_set_state', { sessionId: other.sessionId, state: 'DE' }, store);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+  });
+});
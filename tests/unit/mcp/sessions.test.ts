@@ -0,0 +1,112 @@
+/**
+ * Unit tests for formation_list_sessions
+ * Sessions are scoped to the logged-in user and can be found by company name or shareholder email
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import * as auth from '../../../src/mcp/tools/auth';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { SessionStatus } from '../../../src/mcp/state/types';
+import { ErrorCode } from '../../../src/mcp/errors';
+import { createAuthContext } from '../../../src/mcp/auth';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Wilmington',
+  state: 'DE',
+  zipCode: '19801',
+};
+
+describe('formation_list_sessions', () => {
+  let store: FormationSessionStore;
+  let currentUser: string | null;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, args, store) as Promise<any>;
+
+  // Start a session for the current user with a company name and one owner
+  const startSession = async (baseName: string, email: string) => {
+    const { sessionId } = await call('formation_start');
+    await call('formation_set_state', { sessionId, state: 'DE' });
+    await call('formation_set_company_type', { sessionId, companyType: 'LLC' });
+    await call('formation_set_entity_ending', { sessionId, entityEnding: 'LLC' });
+    await call('formation_set_company_name', { sessionId, baseName });
+    await call('formation_add_shareholder', {
+      sessionId,
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email, ownershipPercentage: 100, address },
+    });
+    return sessionId as string;
+  };
+
+  beforeEach(() => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    currentUser = 'user_alice';
+    jest.spyOn(auth, 'getUserId').mockImplementation(() => currentUser);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only list the current user\'s sessions', async () => {
+    const acme = await startSession('Acme', 'alice@example.com');
+    currentUser = 'user_bob';
+    await startSession('Globex', 'bob@example.com');
+    currentUser = 'user_alice';
+
+    const result = await call('formation_list_sessions');
+
+    expect(result.total).toBe(1);
+    expect(result.sessions[0]).toMatchObject({ sessionId: acme, companyName: 'Acme LLC', companyType: 'LLC' });
+  });
+
+  it('should find sessions by company name', async () => {
+    const acme = await startSession('Acme', 'alice@example.com');
+    await startSession('Initech', 'alice@example.com');
+
+    const result = await call('formation_list_sessions', { companyName: 'acme' });
+
+    expect(result.sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual([acme]);
+  });
+
+  it('should find sessions by shareholder email', async () => {
+    await startSession('Acme', 'alice@example.com');
+    const initech = await startSession('Initech', 'cofounder@example.com');
+
+    const result = await call('formation_list_sessions', { shareholderEmail: 'CoFounder@example.com' });
+
+    expect(result.sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual([initech]);
+  });
+
+  it('should filter by status and hide expired sessions', async () => {
+    const acme = await startSession('Acme', 'alice@example.com');
+    const initech = await startSession('Initech', 'alice@example.com');
+
+    const expired = await store.get(initech);
+    expired!.expiresAt = new Date(Date.now() - 1000).toISOString();
+    await store.save(expired!);
+
+    expect((await call('formation_list_sessions')).sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual([acme]);
+    expect((await call('formation_list_sessions', { includeExpired: true })).total).toBe(2);
+    expect((await call('formation_list_sessions', { status: SessionStatus.COMPLETED })).total).toBe(0);
+  });
+
+  it('should require authentication', async () => {
+    currentUser = null;
+
+    await expect(call('formation_list_sessions')).rejects.toMatchObject({ code: ErrorCode.AUTH_REQUIRED });
+  });
+
+  it('should not list sessions for a token that is not signed by the dashboard', async () => {
+    await startSession('Acme', 'alice@example.com');
+    jest.restoreAllMocks();
+    const context = { signal: new AbortController().signal, reportProgress: () => undefined, auth: createAuthContext() };
+    const forged = ['eyJhbGciOiJub25lIn0', Buffer.from(JSON.stringify({ sub: 'user_alice' })).toString('base64url'), 'x'].join('.');
+
+    await expect(handleToolCall('formation_set_token', { token: forged, userId: 'user_alice' }, store, context))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    await expect(handleToolCall('formation_list_sessions', {}, store, context))
+      .rejects.toMatchObject({ code: ErrorCode.AUTH_REQUIRED });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for shareholder/member management tools
+ * Add, update and remove owners with the same validation rules
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep, SessionStatus } from '../../../src/mcp/state/types';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+const address = {
+  street1: '123 Main St',
+  city: 'San Francisco',
+  state: 'CA',
+  zipCode: '94105',
+};
+
+describe('shareholder tools', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const addShareholder = (firstName: string, ownershipPercentage: number) =>
+    call('formation_add_shareholder', {
+      shareholder: { firstName, lastName: 'Founder', email: `${firstName.toLowerCase()}@example.com`, ownershipPercentage, address },
+    });
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+  });
+
+  describe('formation_update_shareholder', () => {
+    it('should update only the provided fields and merge the address', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+
+      const result = await call('formation_update_shareholder', {
+        shareholderId,
+        updates: { address: { street1: '456 Market St' } },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.shareholder.id).toBe(shareholderId);
+      expect(result.shareholder.address).toMatchObject({ ...address, street1: '456 Market St' });
+      expect(result.shareholder.email).toBe('alice@example.com');
+    });
+
+    it('should re-run email validation', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+
+      await expect(call('formation_update_shareholder', {
+        shareholderId,
+        updates: { email: 'not-an-email' },
+      })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_INVALID_FORMAT,
+        details: { field: 'shareholder.email' },
+      });
+    });
+
+    it('should reject roles that do not match the company type', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+
+      await expect(call('formation_update_shareholder', {
+        shareholderId,
+        updates: { role: 'managing_member' },
+      })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should reject ownership totals above 100%', async () => {
+      const { shareholderId } = await addShareholder('Alice', 50);
+      await addShareholder('Bob', 50);
+
+      await expect(call('formation_update_shareholder', {
+        shareholderId,
+        updates: { ownershipPercentage: 60 },
+      })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should reject unknown shareholder IDs', async () => {
+      await addShareholder('Alice', 100);
+
+      await expect(call('formation_update_shareholder', {
+        shareholderId: 'missing',
+        updates: { firstName: 'Alicia' },
+      })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should invalidate a generated certificate', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+      const session = (await store.get(sessionId))!;
+      session.certificateData = { certificateId: 'cert-1', generatedAt: new Date().toISOString() };
+      session.currentStep = FormationStep.CERTIFICATE_GENERATED;
+      session.status = SessionStatus.REVIEW;
+      await store.save(session);
+
+      const result = await call('formation_update_shareholder', {
+        shareholderId,
+        updates: { lastName: 'Smith' },
+      });
+
+      expect(result.certificateInvalidated).toBe(true);
+      const updated = (await store.get(sessionId))!;
+      expect(updated.certificateData).toBeUndefined();
+      expect(updated.currentStep).toBe(FormationStep.AUTHORIZED_PARTY_SET);
+      expect(updated.status).toBe(SessionStatus.IN_PROGRESS);
+    });
+  });
+
+  describe('formation_remove_shareholder', () => {
+    it('should remove a shareholder by ID', async () => {
+      const alice = await addShareholder('Alice', 50);
+      await addShareholder('Bob', 50);
+
+      const result = await call('formation_remove_shareholder', { shareholderId: alice.shareholderId });
+
+      expect(result.shareholders).toHaveLength(1);
+      expect(result.shareholders[0].name).toBe('Bob Founder');
+      expect(result.totalOwnership).toBe(50);
+    });
+
+    it('should roll back the step when the last owner is removed', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+
+      await call('formation_remove_shareholder', { shareholderId });
+
+      const session = (await store.get(sessionId))!;
+      expect(session.shareholders).toEqual([]);
+      expect(session.currentStep).toBe(FormationStep.SHARES_SET);
+    });
+
+    it('should not allow changes after submission', async () => {
+      const { shareholderId } = await addShareholder('Alice', 100);
+      const session = (await store.get(sessionId))!;
+      session.submissionResult = {
+        id: 1,
+        sessionId,
+        userId: 'user_1',
+        status: 'PENDING_REVIEW',
+        companyName: 'Acme Inc.',
+        entityType: 'C-Corp',
+        stateOfFormation: 'DE',
+        submittedAt: new Date().toISOString(),
+      };
+      await store.save(session);
+
+      await expect(call('formation_remove_shareholder', { shareholderId }))
+        .rejects.toMatchObject({ code: ErrorCode.SESSION_ALREADY_COMPLETED });
+    });
+  });
+});
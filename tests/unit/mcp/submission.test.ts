@@ -0,0 +1,198 @@
+/**
+ * Unit tests for idempotent formation submission
+ * A retried formation_submit never creates a second formation request
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { getSubmissionIdempotencyKey } from '../../../src/mcp/tools/submission';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+const address = {
+  street1: '123 Main St',
+  city: 'Cheyenne',
+  state: 'WY',
+  zipCode: '82001',
+};
+
+const formation = {
+  id: 42,
+  sessionId: '',
+  userId: 'user_alice',
+  companyName: 'Acme LLC',
+  entityType: 'LLC',
+  state: 'WY',
+  status: 'PENDING_REVIEW',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const json = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('idempotent submission', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+  let fetchMock: jest.SpyInstance;
+  // What the backend does with the next formation POST
+  let backend: { post: 'accept' | 'timeout'; submitted: boolean };
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  const patch = async (fields: Record<string, unknown>) => {
+    const session = await store.get(sessionId);
+    Object.assign(session!, fields);
+    await store.save(session!);
+  };
+
+  const posts = () => fetchMock.mock.calls.filter(([url, init]) =>
+    String(url).endsWith('/formations') && init?.method === 'POST');
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'WY' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+    await call('formation_set_company_address', { source: 'own', address });
+    await call('formation_set_registered_agent', { useDefault: true });
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+    await patch({
+      paymentStatus: 'completed',
+      certificateData: { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z', approvedAt: '2026-01-01T00:01:00.000Z' },
+    });
+
+    backend = { post: 'accept', submitted: false };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+      const target = String(url);
+      if (target.endsWith('/status')) {
+        return backend.submitted
+          ? json({ success: true, data: { ...formation, sessionId, stateOfFormation: 'WY', confirmationNumber: null, certificateUrl: null, filingError: null, updatedAt: formation.createdAt, filedAt: null } })
+          : json({ success: false, error: 'Not found' }, 404);
+      }
+      if (target.includes('railway')) {
+        return json({ success: true });
+      }
+      // The backend accepts the request, but the response may never arrive
+      backend.submitted = true;
+      if (backend.post === 'timeout') {
+        throw new Error('The operation was aborted due to timeout');
+      }
+      return json({ success: true, data: { ...formation, sessionId } }, 201);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send an idempotency key derived from the session and certificate', async () => {
+    const result = await call('formation_submit');
+
+    const session = await store.get(sessionId);
+    const [, init] = posts()[0];
+    expect(result.success).toBe(true);
+    expect(JSON.parse(init.body).idempotencyKey).toBe(getSubmissionIdempotencyKey(session!));
+    expect(init.headers['Idempotency-Key']).toBe(getSubmissionIdempotencyKey(session!));
+    expect(session!.submissionAttempt).toMatchObject({ certificateId: 'cert_1', attempts: 1, completedAt: expect.any(String) });
+  });
+
+  it('should return the stored result when called again', async () => {
+    const first = await call('formation_submit');
+    const second = await call('formation_submit');
+
+    expect(posts()).toHaveLength(1);
+    expect(second).toMatchObject({ success: true, alreadySubmitted: true, submission: first.submission });
+  });
+
+  it('should recover a submission whose response timed out instead of posting again', async () => {
+    backend.post = 'timeout';
+
+    const failed = await call('formation_submit');
+    expect(failed).toMatchObject({ success: false, error: 'SUBMISSION_FAILED', canRetry: true });
+    expect((await store.get(sessionId))!.submissionAttempt).toMatchObject({ attempts: 1, lastError: expect.stringContaining('timeout') });
+
+    const retried = await call('formation_submit');
+
+    expect(posts()).toHaveLength(1);
+    expect(retried).toMatchObject({ success: true, alreadySubmitted: true, submission: { id: 42 } });
+    expect((await store.get(sessionId))!.currentStep).toBe('completed');
+  });
+
+  it('should post again with the same key when the backend never received the request', async () => {
+    fetchMock.mockImplementationOnce(async () => {
+      throw new Error('getaddrinfo ENOTFOUND');
+    });
+
+    await call('formation_submit');
+    const retried = await call('formation_submit');
+
+    const keys = posts().map(([, init]) => JSON.parse(init.body).idempotencyKey);
+    expect(retried.success).toBe(true);
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toBe(keys[1]);
+    expect((await store.get(sessionId))!.submissionAttempt!.attempts).toBe(2);
+  });
+
+  it('should not post again while an earlier call is still sending', async () => {
+    let respond!: () => void;
+    const original = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (url, init) => {
+      if (String(url).endsWith('/formations')) await new Promise<void>(resolve => { respond = resolve; });
+      return original(url, init);
+    });
+
+    const first = call('formation_submit');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const concurrent = call('formation_submit');
+
+    await expect(concurrent).rejects.toMatchObject({ code: ErrorCode.SUBMISSION_IN_PROGRESS });
+    respond();
+    expect(await first).toMatchObject({ success: true });
+    expect(posts()).toHaveLength(1);
+    expect((await store.get(sessionId))!.submissionAttempt!.pending).toBeUndefined();
+  });
+
+  it('should post again once a pending attempt has been lost', async () => {
+    await call('formation_submit');
+    await patch({
+      submissionResult: undefined,
+      submissionAttempt: { ...(await store.get(sessionId))!.submissionAttempt, pending: true, lastAttemptAt: '2026-01-01T00:00:00.000Z' },
+    });
+    backend.submitted = false;
+
+    expect(await call('formation_submit')).toMatchObject({ success: true });
+    expect(posts()).toHaveLength(2);
+  });
+
+  it('should post the session as saved with the pending attempt', async () => {
+    const key = getSubmissionIdempotencyKey((await store.get(sessionId))!);
+    await patch({ submissionAttempt: { idempotencyKey: key, attempts: 1, startedAt: '2026-01-01T00:00:00.000Z', lastAttemptAt: '2026-01-01T00:00:00.000Z' } });
+    // The authorized party's title changes while the earlier attempt is looked up
+    fetchMock.mockImplementationOnce(async () => {
+      await patch({ authorizedParty: { name: 'Alice Founder', title: 'Managing Member' } });
+      return json({ success: false, error: 'Not found' }, 404);
+    });
+
+    await call('formation_submit');
+
+    const [, init] = posts()[0];
+    expect(JSON.parse(init.body)).toMatchObject({ idempotencyKey: key, authorizedParty: { title: 'Managing Member' } });
+  });
+
+  it('should use a new key for a newly approved certificate', async () => {
+    const before = getSubmissionIdempotencyKey((await store.get(sessionId))!);
+    await patch({ certificateData: { certificateId: 'cert_2', generatedAt: '2026-01-02T00:00:00.000Z', approvedAt: '2026-01-02T00:01:00.000Z' } });
+
+    expect(getSubmissionIdempotencyKey((await store.get(sessionId))!)).not.toBe(before);
+  });
+});
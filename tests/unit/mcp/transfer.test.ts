@@ -0,0 +1,235 @@
+/**
+ * Unit tests for session export and import
+ * Bundles are versioned, checksummed and optionally encrypted
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { FormationStep } from '../../../src/mcp/state/types';
+import { SESSION_SCHEMA_VERSION, readSessionBundle } from '../../../src/mcp/state/bundle';
+import { hash } from '../../../src/utils/encryption';
+import { ErrorCode } from '../../../src/mcp/errors';
+
+describe('session export and import', () => {
+  let source: FormationSessionStore;
+  let target: FormationSessionStore;
+  let sessionId: string;
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, source) as Promise<any>;
+
+  const importBundle = (args: Record<string, unknown>) =>
+    handleToolCall('formation_import_session', args, target) as Promise<any>;
+
+  beforeEach(async () => {
+    source = new FormationSessionStore(new MemoryStorageAdapter());
+    target = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, source) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'C-Corp' });
+    await call('formation_set_entity_ending', { entityEnding: 'Inc.' });
+    await call('formation_set_company_name', { baseName: 'Acme' });
+  });
+
+  it('should round-trip a session into a new session', async () => {
+    const { bundle } = await call('formation_export_session');
+
+    expect(bundle.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(bundle.encrypted).toBe(false);
+
+    const result = await importBundle({ bundle });
+    expect(result.success).toBe(true);
+    expect(result.sessionId).not.toBe(sessionId);
+    expect(result.sourceSessionId).toBe(sessionId);
+
+    const imported = await target.get(result.sessionId);
+    expect(imported!.companyDetails!.fullName).toBe('Acme Inc.');
+    expect(imported!.currentStep).toBe(FormationStep.NAME_SET);
+    expect(imported!.history).toBeUndefined();
+  });
+
+  it('should accept the bundle as a JSON string', async () => {
+    const { bundle } = await call('formation_export_session');
+
+    const result = await importBundle({ bundle: JSON.stringify(bundle) });
+    expect(result.success).toBe(true);
+  });
+
+  it('should encrypt with a passphrase', async () => {
+    const { bundle } = await call('formation_export_session', { passphrase: 'correct horse' });
+
+    expect(bundle.encrypted).toBe(true);
+    expect(bundle.session).toBeUndefined();
+    expect(JSON.stringify(bundle)).not.toContain('Acme');
+
+    await expect(importBundle({ bundle })).rejects.toMatchObject({ code: ErrorCode.BUNDLE_DECRYPTION_FAILED });
+    await expect(importBundle({ bundle, passphrase: 'wrong passphrase' }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_DECRYPTION_FAILED });
+
+    const result = await importBundle({ bundle, passphrase: 'correct horse' });
+    const imported = await target.get(result.sessionId);
+    expect(imported!.companyDetails!.fullName).toBe('Acme Inc.');
+  });
+
+  it('should reject a tampered bundle', async () => {
+    const { bundle } = await call('formation_export_session');
+    bundle.session.companyDetails.fullName = 'Evil Inc.';
+
+    await expect(importBundle({ bundle })).rejects.toMatchObject({ code: ErrorCode.BUNDLE_CHECKSUM_MISMATCH });
+  });
+
+  it('should reject bundles from a newer schema version', async () => {
+    const { bundle } = await call('formation_export_session');
+
+    await expect(importBundle({ bundle: { ...bundle, schemaVersion: SESSION_SCHEMA_VERSION + 1 } }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_UNSUPPORTED_VERSION });
+  });
+
+  it('should migrate version 1 sessions', () => {
+    const session = { sessionId: 'legacy', status: 'in_progress', currentStep: FormationStep.STATE_SELECTED };
+    const bundle = {
+      format: 'lovie.formation-session',
+      schemaVersion: 1,
+      exportedAt: new Date().toISOString(),
+      checksum: hash(JSON.stringify(session)),
+      encrypted: false,
+      session,
+    };
+
+    const { data, schemaVersion } = readSessionBundle(bundle);
+    expect(schemaVersion).toBe(1);
+    expect(data.version).toBe(0);
+    expect(data.shareholders).toEqual([]);
+  });
+
+  it('should import the data every formation step saves', async () => {
+    const address = { street1: '123 Main St', street2: null, city: 'Dover', state: 'DE', zipCode: '19901' };
+    await call('formation_set_company_address', { source: 'own', address });
+    await call('formation_set_registered_agent', { useDefault: true });
+    await call('formation_set_share_structure', { useDefault: true });
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'CEO' });
+    const session = await source.get(sessionId);
+    session!.certificateData = { certificateId: 'cert_1', generatedAt: '2026-01-01T00:00:00.000Z' };
+    await source.save(session!);
+
+    const { bundle } = await call('formation_export_session');
+    const imported = await target.get((await importBundle({ bundle })).sessionId);
+
+    expect(imported!.shareholders).toHaveLength(1);
+    expect(imported!.registeredAgent).toBeDefined();
+    expect(imported!.certificateData).toMatchObject({ certificateId: 'cert_1' });
+  });
+
+  it('should reject sessions with malformed formation data', async () => {
+    const { bundle } = await call('formation_export_session');
+    const withSession = (changes: Record<string, unknown>) => {
+      const session = { ...bundle.session, ...changes };
+      return { ...bundle, session, checksum: hash(JSON.stringify(session)) };
+    };
+    const owner = {
+      id: 'owner_1', firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 60,
+      address: { street1: '123 Main St', city: 'Dover', state: 'DE', zipCode: '19901' },
+    };
+
+    await expect(importBundle({ bundle: withSession({ shareholders: 'oops' }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID, details: { field: 'shareholders' } });
+    await expect(importBundle({ bundle: withSession({ companyDetails: 5 }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID, details: { field: 'companyDetails' } });
+    await expect(importBundle({ bundle: withSession({ registeredAgent: { name: 'Agent Co', address: {} } }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID });
+    await expect(importBundle({ bundle: withSession({ certificateData: { generatedAt: 'yesterday' } }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID, details: { field: 'certificateData.certificateId' } });
+    await expect(importBundle({ bundle: withSession({ shareholders: [{ ...owner, role: 'member' }] }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID, details: { field: 'shareholders.0.role' } });
+    await expect(importBundle({ bundle: withSession({ shareholders: [owner, { ...owner, id: 'owner_2' }] }) }))
+      .rejects.toMatchObject({ code: ErrorCode.BUNDLE_INVALID, message: expect.stringContaining('exceeds 100%') });
+    expect(await target.list()).toEqual([]);
+  });
+
+  it('should not carry over payment or submission status', async () => {
+    const session = await source.get(sessionId);
+    session!.paymentStatus = 'completed';
+    session!.currentStep = FormationStep.COMPLETED;
+    await source.save(session!);
+
+    const { bundle } = await call('formation_export_session');
+    const result = await importBundle({ bundle });
+
+    expect(result.droppedFields).toEqual(expect.arrayContaining(['paymentStatus', 'history']));
+    expect(result.currentStep).toBe(FormationStep.CERTIFICATE_APPROVED);
+    const imported = await target.get(result.sessionId);
+    expect(imported!.paymentStatus).toBeUndefined();
+  });
+
+  it('should reject short passphrases', async () => {
+    await expect(call('formation_export_session', { passphrase: 'short' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
+
+describe('formation_clone_session', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+
+  const address = {
+    street1: '123 Main St',
+    city: 'Wilmington',
+    state: 'DE',
+    zipCode: '19801',
+  };
+
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleToolCall(name, { sessionId, ...args }, store) as Promise<any>;
+
+  beforeEach(async () => {
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    await call('formation_set_state', { state: 'DE' });
+    await call('formation_set_company_type', { companyType: 'LLC' });
+    await call('formation_set_entity_ending', { entityEnding: 'LLC' });
+    await call('formation_set_company_name', { baseName: 'Acme Holdings' });
+    await call('formation_set_company_address', { source: 'own', address });
+    await call('formation_set_registered_agent', { useDefault: true });
+    await call('formation_add_shareholder', {
+      shareholder: { firstName: 'Alice', lastName: 'Founder', email: 'alice@example.com', ownershipPercentage: 100, address },
+    });
+    await call('formation_set_authorized_party', { name: 'Alice Founder', title: 'Member' });
+
+    const session = await store.get(sessionId);
+    session!.paymentStatus = 'completed';
+    await store.save(session!);
+  });
+
+  it('should copy the people and reset company-specific data', async () => {
+    const result = await call('formation_clone_session');
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).not.toBe(sessionId);
+
+    const source = await store.get(sessionId);
+    const clone = await store.get(result.sessionId);
+    expect(clone!.shareholders).toHaveLength(1);
+    expect(clone!.shareholders[0].email).toBe('alice@example.com');
+    expect(clone!.shareholders[0].id).not.toBe(source!.shareholders[0].id);
+    expect(clone!.registeredAgent).toEqual(source!.registeredAgent);
+    expect(clone!.authorizedParty).toEqual(source!.authorizedParty);
+    expect(clone!.companyDetails).toEqual({ companyAddress: source!.companyDetails!.companyAddress });
+    expect(clone!.paymentStatus).toBeUndefined();
+    expect(clone!.certificateData).toBeUndefined();
+  });
+
+  it('should resume at the first incomplete step', async () => {
+    const result = await call('formation_clone_session');
+
+    expect(result.currentStep).toBe(FormationStep.CREATED);
+    expect(result.nextStep).toBe('formation_describe_business');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for signed submission status webhooks
+ * Status callbacks update the session, its timeline and connected clients
+ */
+
+import { handleToolCall } from '../../../src/mcp/tools/index';
+import { FormationSessionStore } from '../../../src/mcp/state/FormationSessionStore';
+import { MemoryStorageAdapter } from '../../../src/mcp/state/adapters';
+import { dispatch, DispatchContext, HttpResponse, JsonRpcNotification } from '../../../src/mcp/protocol';
+import { SIGNATURE_HEADER, handleSubmissionStatusWebhook, signWebhookPayload } from '../../../src/mcp/webhooks';
+
+// Records what the handler wrote so assertions can inspect it
+class FakeResponse implements HttpResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: any;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+  }
+
+  write() {
+    return undefined;
+  }
+
+  end() {
+    return undefined;
+  }
+}
+
+const SECRET = 'whsec_test';
+
+describe('submission status webhooks', () => {
+  let store: FormationSessionStore;
+  let sessionId: string;
+  let eventCount: number;
+
+  const statusEvent = (status: string, changedAt: string, data: Record<string, unknown> = {}) => ({
+    id: `evt_${++eventCount}`,
+    type: 'formation.status_changed',
+    data: { sessionId, formationId: 42, status, changedAt, ...data },
+  });
+
+  const deliver = async (event: unknown, signature?: string) => {
+    const body = JSON.stringify(event);
+    const res = new FakeResponse();
+    await handleSubmissionStatusWebhook({
+      method: 'POST',
+      headers: { 'content-type': 'application/json', [SIGNATURE_HEADER]: signature ?? signWebhookPayload(body, SECRET) },
+    }, body, res, store);
+    return res;
+  };
+
+  beforeEach(async () => {
+    process.env.MCP_WEBHOOK_SECRET = SECRET;
+    eventCount = 0;
+    store = new FormationSessionStore(new MemoryStorageAdapter());
+    const started = await handleToolCall('formation_start', {}, store) as { sessionId: string };
+    sessionId = started.sessionId;
+
+    const session = await store.get(sessionId);
+    session!.submissionResult = {
+      id: 42,
+      sessionId,
+      userId: '',
+      status: 'PENDING_REVIEW',
+      companyName: 'Acme LLC',
+      entityType: 'LLC',
+      stateOfFormation: 'DE',
+      submittedAt: '2026-01-01T00:00:00.000Z',
+    };
+    await store.save(session!);
+  });
+
+  afterEach(() => {
+    delete process.env.MCP_WEBHOOK_SECRET;
+  });
+
+  it('should update the submission and keep a status timeline', async () => {
+    await deliver(statusEvent('IN_REVIEW', '2026-01-01T01:00:00.000Z'));
+    const res = await deliver(statusEvent('COMPLETED', '2026-01-01T02:00:00.000Z', { confirmationNumber: 'DE-123' }));
+
+    const session = await store.get(sessionId);
+    expect(res.body).toEqual({ received: true, outcome: 'applied' });
+    expect(session!.submissionResult).toMatchObject({ status: 'COMPLETED', confirmationNumber: 'DE-123' });
+    expect(session!.submissionTimeline!.map(change => change.status)).toEqual(['IN_REVIEW', 'COMPLETED']);
+  });
+
+  it('should reject unsigned and wrongly signed callbacks', async () => {
+    const event = statusEvent('FILING', '2026-01-01T01:00:00.000Z');
+
+    const unsigned = await deliver(event, '');
+    const forged = await deliver(event, signWebhookPayload(JSON.stringify(event), 'another secret'));
+
+    expect(unsigned.statusCode).toBe(401);
+    expect(forged.statusCode).toBe(401);
+    expect((await store.get(sessionId))!.submissionResult!.status).toBe('PENDING_REVIEW');
+  });
+
+  it('should reject replayed signatures', async () => {
+    const event = statusEvent('FILING', '2026-01-01T01:00:00.000Z');
+    const hourAgo = Math.floor(Date.now() / 1000) - 3600;
+
+    const res = await deliver(event, signWebhookPayload(JSON.stringify(event), SECRET, hourAgo));
+
+    expect(res.statusCode).toBe(401);
+    expect(res.body.message).toContain('allowed window');
+  });
+
+  it('should ignore redelivered events', async () => {
+    const event = statusEvent('IN_REVIEW', '2026-01-01T01:00:00.000Z');
+    await deliver(event);
+
+    const res = await deliver(event);
+
+    expect(res.body.outcome).toBe('duplicate');
+    expect((await store.get(sessionId))!.submissionTimeline).toHaveLength(1);
+  });
+
+  it('should keep the newest status when callbacks arrive out of order', async () => {
+    await deliver(statusEvent('FILING', '2026-01-01T02:00:00.000Z'));
+    const res = await deliver(statusEvent('IN_REVIEW', '2026-01-01T01:00:00.000Z'));
+
+    const session = await store.get(sessionId);
+    expect(res.body.outcome).toBe('stale');
+    expect(session!.submissionResult!.status).toBe('FILING');
+    expect(session!.submissionTimeline!.map(change => change.status)).toEqual(['IN_REVIEW', 'FILING']);
+  });
+
+  it('should apply callbacks that arrive after the session expired', async () => {
+    const session = await store.get(sessionId);
+    session!.expiresAt = '2026-01-01T00:00:00.000Z';
+    await store.save(session!);
+
+    const res = await deliver(statusEvent('COMPLETED', '2026-01-03T00:00:00.000Z', { confirmationNumber: 'DE-123' }));
+
+    const updated = await store.get(sessionId);
+    expect(res.body).toEqual({ received: true, outcome: 'applied' });
+    expect(updated!.submissionResult).toMatchObject({ status: 'COMPLETED', confirmationNumber: 'DE-123' });
+    expect(updated!.expiresAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should acknowledge callbacks for unknown sessions', async () => {
+    const res = await deliver({ ...statusEvent('FILING', '2026-01-01T01:00:00.000Z'), data: { sessionId: 'missing', status: 'FILING', changedAt: '2026-01-01T01:00:00.000Z' } });
+
+    expect(res.statusCode).toBe(202);
+    expect(res.body.outcome).toBe('ignored');
+  });
+
+  it('should reject invalid payloads', async () => {
+    const res = await deliver(statusEvent('SHIPPED', '2026-01-01T01:00:00.000Z'));
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('data.status');
+  });
+
+  it('should be disabled without a secret', async () => {
+    delete process.env.MCP_WEBHOOK_SECRET;
+
+    expect((await deliver(statusEvent('FILING', '2026-01-01T01:00:00.000Z'))).statusCode).toBe(404);
+  });
+
+  it('should notify connected clients that worked on the session', async () => {
+    const notifications: JsonRpcNotification[] = [];
+    const connection: DispatchContext = { store, subscriptions: new Map(), notify: n => { notifications.push(n); } };
+    await dispatch({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'formation_get_status', arguments: { sessionId } } }, connection);
+
+    await deliver(statusEvent('ERROR', '2026-01-01T01:00:00.000Z', { filingError: 'Name rejected by the state' }));
+
+    expect(notifications).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level: 'error',
+        logger: 'formation.submission',
+        data: expect.objectContaining({
+          sessionId,
+          status: 'ERROR',
+          previousStatus: 'PENDING_REVIEW',
+          message: 'There was an issue with your formation: Name rejected by the state',
+        }),
+      },
+    });
+    for (const unsubscribe of connection.subscriptions!.values()) unsubscribe();
+  });
+});